@@ -1,9 +1,14 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { NextRequest, NextResponse } from 'next/server';
+import { describeGeminiUsage, recordUsage, toUsageContext } from '@/lib/usage';
+import { withAuthAndRateLimit } from '@/middleware/rate-limit';
+import { checkUsageBudget } from '@/middleware/usage-budget';
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
 
-export async function POST(request: NextRequest) {
+const GEMINI_MODEL = 'gemini-2.5-pro';
+
+export const POST = withAuthAndRateLimit(async (request: NextRequest, { user }) => {
     try {
         const { files } = await request.json();
 
@@ -15,7 +20,12 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Gemini API-nøgle ikke konfigureret' }, { status: 500 });
         }
 
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
+        const budget = await checkUsageBudget(user);
+        if (!budget.allowed && budget.error) {
+            return budget.error;
+        }
+
+        const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
 
         // Check if any files are PDFs
         const hasPdf = files.some((file: { mimeType: string }) => file.mimeType === 'application/pdf');
@@ -162,6 +172,13 @@ VIGTIGT: promptSuggestion skal være en prompt der kan bruges til at skabe NYE p
             ]
         });
 
+        await recordUsage(toUsageContext(user), {
+            provider: 'gemini',
+            model: GEMINI_MODEL,
+            operation: 'analyze-style',
+            ...describeGeminiUsage(GEMINI_MODEL, result.response.usageMetadata)
+        });
+
         const responseText = result.response.text().trim();
         
         // Parse JSON response
@@ -191,4 +208,4 @@ VIGTIGT: promptSuggestion skal være en prompt der kan bruges til at skabe NYE p
 
         return NextResponse.json({ error: 'Der opstod en fejl ved stilanalyse' }, { status: 500 });
     }
-}
\ No newline at end of file
+}, 'api');
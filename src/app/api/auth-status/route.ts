@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
+import { isAuthEnabled } from '@/middleware/auth-middleware';
 
 export async function GET() {
-    const appPasswordSet = !!process.env.APP_PASSWORD;
-    return NextResponse.json({ passwordRequired: appPasswordSet });
+    return NextResponse.json({ passwordRequired: await isAuthEnabled() });
 }
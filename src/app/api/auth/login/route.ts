@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSession } from '@/lib/auth';
+import { getUserStore, toPublicUser } from '@/lib/user-store';
+import { checkLoginRateLimit, resetLoginRateLimit, withRateLimit } from '@/middleware/rate-limit';
+
+export const POST = withRateLimit(async (request: NextRequest) => {
+    let body: { username?: unknown; password?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body: Must be JSON.' }, { status: 400 });
+    }
+
+    const { username, password } = body;
+    if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+        return NextResponse.json({ error: 'Username and password are required.' }, { status: 400 });
+    }
+
+    const rateLimit = await checkLoginRateLimit(request, username);
+    if (!rateLimit.allowed && rateLimit.error) {
+        return rateLimit.error;
+    }
+
+    try {
+        const user = await getUserStore().authenticate(username, password);
+        if (!user) {
+            return NextResponse.json({ error: 'Invalid username or password.' }, { status: 401 });
+        }
+
+        await resetLoginRateLimit(request, username);
+        await createSession(user);
+        console.log(`User '${user.username}' logged in`);
+
+        return NextResponse.json({ user: toPublicUser(user) });
+    } catch (error) {
+        console.error('Error in /api/auth/login:', error);
+        return NextResponse.json({ error: 'Login failed.' }, { status: 500 });
+    }
+}, 'login');
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { destroySession } from '@/lib/auth';
+
+export async function POST() {
+    await destroySession();
+    return NextResponse.json({ message: 'Logged out' });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser, isAuthEnabled } from '@/middleware/auth-middleware';
+
+export async function GET() {
+    try {
+        const authRequired = await isAuthEnabled();
+        // Without accounts everyone acts as an anonymous admin, which the client doesn't need to see
+        const user = authRequired ? await getSessionUser() : null;
+        return NextResponse.json({ authRequired, user });
+    } catch (error) {
+        console.error('Error in /api/auth/me:', error);
+        return NextResponse.json({ error: 'Failed to read session' }, { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSession } from '@/lib/auth';
+import { getUserStore, isUserRole, UserStoreError } from '@/lib/user-store';
+import { withAuth } from '@/middleware/auth-middleware';
+
+interface RouteParams {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+function toErrorResponse(error: unknown, action: string): NextResponse {
+    if (error instanceof UserStoreError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    return NextResponse.json({ error: `Failed to ${action}` }, { status: 500 });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    return withAuth(async (_request, { user: currentUser }) => {
+        let body: { password?: unknown; role?: unknown };
+        try {
+            body = await request.json();
+        } catch {
+            return NextResponse.json({ error: 'Invalid request body: Must be JSON.' }, { status: 400 });
+        }
+
+        const { password, role } = body;
+        if (password !== undefined && typeof password !== 'string') {
+            return NextResponse.json({ error: 'Password must be a string.' }, { status: 400 });
+        }
+        if (role !== undefined && !isUserRole(role)) {
+            return NextResponse.json({ error: 'Role must be one of viewer, editor or admin.' }, { status: 400 });
+        }
+
+        try {
+            const store = getUserStore();
+            const user = await store.update(id, { password, role });
+            if (!user) {
+                return NextResponse.json({ error: 'User not found' }, { status: 404 });
+            }
+
+            // A password change ends the user's sessions; keep an admin changing their own signed in
+            const record = password !== undefined && id === currentUser.id ? await store.findById(id) : null;
+            if (record) {
+                await createSession(record);
+            }
+            return NextResponse.json({ user });
+        } catch (error) {
+            return toErrorResponse(error, 'update user');
+        }
+    }, 'admin')(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    return withAuth(async () => {
+        try {
+            if (!(await getUserStore().delete(id))) {
+                return NextResponse.json({ error: 'User not found' }, { status: 404 });
+            }
+            return NextResponse.json({ message: 'User deleted', id });
+        } catch (error) {
+            return toErrorResponse(error, 'delete user');
+        }
+    }, 'admin')(request);
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserStore, isUserRole, UserStoreError } from '@/lib/user-store';
+import { withAuth } from '@/middleware/auth-middleware';
+
+export const GET = withAuth(async () => {
+    try {
+        return NextResponse.json({ users: await getUserStore().list() });
+    } catch (error) {
+        console.error('Error listing users:', error);
+        return NextResponse.json({ error: 'Failed to list users' }, { status: 500 });
+    }
+}, 'admin');
+
+export const POST = withAuth(async (request: NextRequest, { user: admin }) => {
+    let body: { username?: unknown; password?: unknown; role?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body: Must be JSON.' }, { status: 400 });
+    }
+
+    const { username, password, role = 'viewer' } = body;
+    if (typeof username !== 'string' || typeof password !== 'string') {
+        return NextResponse.json({ error: 'Username and password are required.' }, { status: 400 });
+    }
+    if (!isUserRole(role)) {
+        return NextResponse.json({ error: 'Role must be one of viewer, editor or admin.' }, { status: 400 });
+    }
+
+    try {
+        const user = await getUserStore().create({ username, password, role });
+        console.log(`User '${admin.username}' created user '${user.username}' (${user.role})`);
+        return NextResponse.json({ user }, { status: 201 });
+    } catch (error) {
+        if (error instanceof UserStoreError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Error creating user:', error);
+        return NextResponse.json({ error: 'Failed to create user' }, { status: 500 });
+    }
+}, 'admin');
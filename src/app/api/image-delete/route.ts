@@ -1,19 +1,16 @@
-import fs from 'fs/promises';
 import { NextRequest, NextResponse } from 'next/server';
-import path from 'path';
+import { getStorage, releaseContentAddressed } from '@/lib/storage';
 import { withAuth } from '@/middleware/auth-middleware';
 
-const outputDir = path.resolve(process.cwd(), 'generated-images');
-
-
 type DeleteRequestBody = {
     filenames: string[];
-    passwordHash?: string;
 };
 
 type FileDeletionResult = {
     filename: string;
     success: boolean;
+    // False while other history entries still reference the same contents
+    removed?: boolean;
     error?: string;
 };
 
@@ -47,19 +44,22 @@ export const POST = withAuth(async (request: NextRequest) => {
             continue;
         }
 
-        const filepath = path.join(outputDir, filename);
-
         try {
-            await fs.unlink(filepath);
-            console.log(`Successfully deleted image: ${filepath}`);
-            deletionResults.push({ filename, success: true });
-        } catch (error: unknown) {
-            console.error(`Error deleting image ${filepath}:`, error);
-            if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT') {
-                deletionResults.push({ filename, success: false, error: 'File not found.' });
+            // Images are content-addressed, so this releases one reference rather than deleting outright
+            const released = await releaseContentAddressed(getStorage(), filename);
+            if (released.found) {
+                console.log(
+                    released.deleted
+                        ? `Successfully deleted image: ${filename}`
+                        : `Released image ${filename}, ${released.remaining} reference(s) left`
+                );
+                deletionResults.push({ filename, success: true, removed: released.deleted });
             } else {
-                deletionResults.push({ filename, success: false, error: 'Failed to delete file.' });
+                deletionResults.push({ filename, success: false, error: 'File not found.' });
             }
+        } catch (error: unknown) {
+            console.error(`Error deleting image ${filename}:`, error);
+            deletionResults.push({ filename, success: false, error: 'Failed to delete file.' });
         }
     }
 
@@ -1,34 +1,20 @@
-import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { uploadedMoodFiles } from '../upload/route';
-import { processedMoodImages } from '../process/route';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { MOOD_OUTPUT, MOOD_UPLOADS } from '../storage';
 
-function sha256(data: string): string {
-    return crypto.createHash('sha256').update(data).digest('hex');
-}
-
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async () => {
     console.log('Received POST request to /api/image-edit/mood/clear');
 
     try {
-        const body = await request.json();
-        const { passwordHash } = body;
-
-        // Check password authentication if enabled
-        if (process.env.APP_PASSWORD) {
-            if (!passwordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Missing password hash.' }, { status: 401 });
-            }
-            const serverPasswordHash = sha256(process.env.APP_PASSWORD);
-            if (passwordHash !== serverPasswordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Invalid password.' }, { status: 401 });
-            }
+        // Clear both uploaded and processed images for this session
+        const sessionId = await getToolSessionId();
+        if (sessionId) {
+            const store = getTempFileStore();
+            await store.clear(sessionId, MOOD_UPLOADS);
+            await store.clear(sessionId, MOOD_OUTPUT);
         }
 
-        // Clear both uploaded and processed images
-        uploadedMoodFiles.clear();
-        processedMoodImages.clear();
-
         console.log('Cleared all mood images');
 
         return NextResponse.json({
@@ -42,4 +28,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
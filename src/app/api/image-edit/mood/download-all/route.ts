@@ -1,48 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { processedMoodImages } from '../process/route';
+import { withAuth } from '@/middleware/auth-middleware';
+import { saveExport } from '@/lib/storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { MOOD_OUTPUT } from '../storage';
 import archiver from 'archiver';
 
-function sha256(data: string): string {
-    return crypto.createHash('sha256').update(data).digest('hex');
-}
-
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/image-edit/mood/download-all');
 
     try {
         const body = await request.json();
-        const { passwordHash, format = 'png' } = body;
+        const { format = 'png' } = body;
 
-        // Check password authentication if enabled
-        if (process.env.APP_PASSWORD) {
-            if (!passwordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Missing password hash.' }, { status: 401 });
-            }
-            const serverPasswordHash = sha256(process.env.APP_PASSWORD);
-            if (passwordHash !== serverPasswordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Invalid password.' }, { status: 401 });
-            }
-        }
-
-        // First check in-memory storage
-        let imagesToDownload: Array<{filename: string, buffer: Buffer}> = [];
-        
-        if (processedMoodImages.size > 0) {
-            // Use in-memory images if available
-            for (const [key, imageData] of processedMoodImages.entries()) {
-                imagesToDownload.push({
-                    filename: imageData.filename,
-                    buffer: imageData.buffer
-                });
-            }
-        } else {
-            // If no in-memory images, return empty ZIP with a readme
-            console.log('No mood images in memory storage');
-        }
+        // Get this session's processed images
+        const sessionId = await getToolSessionId();
+        const imagesToDownload = sessionId ? await getTempFileStore().getAll(sessionId, MOOD_OUTPUT) : [];
 
         // Check if there are any images to download
         if (imagesToDownload.length === 0) {
+            console.log('No processed mood images in temporary storage');
+
             // Create a ZIP with just a readme explaining the situation
             const archive = archiver('zip', {
                 zlib: { level: 9 }
@@ -65,7 +42,7 @@ export async function POST(request: NextRequest) {
             });
 
             // Add a readme file
-            const readmeContent = 'No processed mood images available.\n\nImages are stored temporarily in memory and may have been cleared.\nPlease upload and process new images.';
+            const readmeContent = 'No processed mood images available.\n\nImages are stored temporarily and may have expired or been cleared.\nPlease upload and process new images.';
             archive.append(Buffer.from(readmeContent), { name: 'README.txt' });
 
             await archive.finalize();
@@ -143,11 +120,16 @@ export async function POST(request: NextRequest) {
         console.log(`Created ZIP archive with ${imagesToDownload.length} mood images`);
 
         // Return the ZIP file
+        // Keep a copy in storage so the archive can be fetched again later
+        const zipFilename = `mood-images-${Date.now()}.zip`;
+        const exportUrl = await saveExport(zipFilename, zipBuffer);
+
         return new NextResponse(zipBuffer, {
             headers: {
                 'Content-Type': 'application/zip',
-                'Content-Disposition': `attachment; filename="mood-images-${Date.now()}.zip"`,
-                'Content-Length': zipBuffer.length.toString()
+                'Content-Disposition': `attachment; filename="${zipFilename}"`,
+                'Content-Length': zipBuffer.length.toString(),
+                ...(exportUrl ? { 'X-Export-Url': exportUrl } : {})
             }
         });
 
@@ -158,4 +140,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
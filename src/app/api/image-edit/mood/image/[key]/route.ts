@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processedMoodImages } from '../../process/route';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { MOOD_OUTPUT } from '../../storage';
 
 interface Params {
     params: Promise<{
@@ -12,7 +13,8 @@ export async function GET(request: NextRequest, { params }: Params) {
     console.log(`Received GET request to /api/image-edit/mood/image/${key}`);
 
     try {
-        const imageData = processedMoodImages.get(key);
+        const sessionId = await getToolSessionId();
+        const imageData = sessionId ? await getTempFileStore().get(sessionId, MOOD_OUTPUT, key) : null;
         
         if (!imageData) {
             return NextResponse.json(
@@ -22,7 +24,7 @@ export async function GET(request: NextRequest, { params }: Params) {
         }
 
         // Return the image
-        return new NextResponse(imageData.buffer, {
+        return new NextResponse(new Uint8Array(imageData.buffer), {
             headers: {
                 'Content-Type': 'image/png',
                 'Content-Length': imageData.buffer.length.toString(),
@@ -1,16 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { processedMoodImages } from '../process/route';
+import { NextResponse } from 'next/server';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { MOOD_OUTPUT } from '../storage';
 
-export async function GET(request: NextRequest) {
+export async function GET() {
     console.log('Received GET request to /api/image-edit/mood/list');
 
     try {
         // Get all processed mood images
-        const images = Array.from(processedMoodImages.entries()).map(([key, value]) => ({
-            filename: value.filename,
-            url: `/api/image-edit/mood/image/${key}`,
-            size: value.buffer.length,
-            timestamp: value.timestamp
+        const sessionId = await getToolSessionId();
+        const images = (sessionId ? getTempFileStore().list(sessionId, MOOD_OUTPUT) : []).map((file) => ({
+            filename: file.filename,
+            url: `/api/image-edit/mood/image/${file.key}`,
+            size: file.size,
+            timestamp: file.createdAt
         }));
 
         // Sort by timestamp (newest first)
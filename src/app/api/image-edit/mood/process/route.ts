@@ -1,85 +1,153 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processAllMoodImages } from '@/lib/mood-processor';
-import crypto from 'crypto';
-import { uploadedMoodFiles } from '../upload/route';
-
-function sha256(data: string): string {
-    return crypto.createHash('sha256').update(data).digest('hex');
-}
-
-// Storage for processed mood images
-const processedMoodImages = new Map<string, { buffer: Buffer; filename: string; timestamp: number }>();
-
-// Clean up old processed images (older than 1 hour)
-function cleanupOldImages() {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    for (const [key, value] of processedMoodImages.entries()) {
-        if (value.timestamp < oneHourAgo) {
-            processedMoodImages.delete(key);
-        }
-    }
-}
-
-export async function POST(request: NextRequest) {
+import { withAuth } from '@/middleware/auth-middleware';
+import { createBatchProgressResponse, createProgressThumbnail, wantsBatchProgressStream } from '@/lib/batch-progress-stream';
+import {
+    DEFAULT_MOOD_SIZE,
+    MOOD_CROP_STRATEGIES,
+    processAllMoodImages,
+    type FocalPoint,
+    type MoodCropStrategy,
+    type MoodOutputFormat
+} from '@/lib/mood-processor';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { MOOD_OUTPUT, MOOD_UPLOADS } from '../storage';
+
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/image-edit/mood/process');
 
     try {
-        cleanupOldImages();
-
         const body = await request.json();
         const { 
             detectBorders = true, 
             trimThreshold = 240, 
             maintainAspectRatio = true,
             outputFormat = 'square',
-            passwordHash 
+            size = DEFAULT_MOOD_SIZE,
+            aspectRatio = '1:1',
+            cropStrategy = 'attention'
         } = body;
 
-        // Check password authentication if enabled
-        if (process.env.APP_PASSWORD) {
-            if (!passwordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Missing password hash.' }, { status: 401 });
-            }
-            const serverPasswordHash = sha256(process.env.APP_PASSWORD);
-            if (passwordHash !== serverPasswordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Invalid password.' }, { status: 401 });
-            }
+        if (!['square', 'original', 'cover'].includes(outputFormat)) {
+            return NextResponse.json({ error: `Unknown output format: ${outputFormat}` }, { status: 400 });
+        }
+        if (!MOOD_CROP_STRATEGIES.includes(cropStrategy)) {
+            return NextResponse.json({ error: `Unknown crop strategy: ${cropStrategy}` }, { status: 400 });
+        }
+        if (typeof aspectRatio !== 'string' || !/^\d+(\.\d+)?:\d+(\.\d+)?$/.test(aspectRatio)) {
+            return NextResponse.json({ error: 'aspectRatio must look like "4:5"' }, { status: 400 });
+        }
+        const outputSize = Math.round(Number(size));
+        if (!Number.isFinite(outputSize) || outputSize < 64 || outputSize > 4000) {
+            return NextResponse.json({ error: 'size must be between 64 and 4000 pixels' }, { status: 400 });
         }
 
-        // Get uploaded files
-        const filesToProcess = Array.from(uploadedMoodFiles.values()).map(file => ({
-            buffer: file.buffer,
-            filename: file.filename
-        }));
+        // Focal points keyed by filename, as fractions of the image's width and height
+        const focalPoints: Record<string, FocalPoint> = {};
+        if (body.focalPoints && typeof body.focalPoints === 'object') {
+            for (const [filename, point] of Object.entries(body.focalPoints as Record<string, FocalPoint>)) {
+                if (
+                    point &&
+                    typeof point.x === 'number' &&
+                    typeof point.y === 'number' &&
+                    point.x >= 0 &&
+                    point.x <= 1 &&
+                    point.y >= 0 &&
+                    point.y <= 1
+                ) {
+                    focalPoints[filename] = { x: point.x, y: point.y };
+                }
+            }
+        }
 
-        if (filesToProcess.length === 0) {
+        // Get this session's uploaded files
+        const sessionId = await getToolSessionId();
+        const store = getTempFileStore();
+        const filesToProcess = sessionId
+            ? (await store.getAll(sessionId, MOOD_UPLOADS)).map((file) => ({
+                  buffer: file.buffer,
+                  filename: file.filename
+              }))
+            : [];
+
+        if (!sessionId || filesToProcess.length === 0) {
             return NextResponse.json({ error: 'No files to process. Please upload files first.' }, { status: 400 });
         }
 
-        console.log(`Processing ${filesToProcess.length} mood images with detectBorders=${detectBorders}, trimThreshold=${trimThreshold}`);
+        console.log(`Processing ${filesToProcess.length} mood images with detectBorders=${detectBorders}, trimThreshold=${trimThreshold}, outputFormat=${outputFormat}, size=${outputSize}, crop=${cropStrategy}, focalPoints=${Object.keys(focalPoints).length}`);
 
-        // Process images
-        const { results, summary } = await processAllMoodImages(filesToProcess, {
+        const processOptions = {
             detectBorders,
             trimThreshold,
             maintainAspectRatio,
-            outputFormat: outputFormat as 'square' | 'original' | 'cover',
+            outputFormat: outputFormat as MoodOutputFormat,
+            size: outputSize,
+            aspectRatio,
+            cropStrategy: cropStrategy as MoodCropStrategy,
+            focalPoints,
             background: { r: 255, g: 255, b: 255, alpha: 0 },
             batchSize: 5
-        });
+        };
+
+        // Live per-file progress: outputs are stored as each file finishes, and
+        // closing the connection stops the batch before the next one starts
+        if (wantsBatchProgressStream(request)) {
+            return createBatchProgressResponse(request, async (send, signal) => {
+                await store.clear(sessionId, MOOD_OUTPUT);
+                send({ type: 'start', total: filesToProcess.length });
+
+                const { summary } = await processAllMoodImages(filesToProcess, {
+                    ...processOptions,
+                    signal,
+                    onFileStart: (index, filename) => send({ type: 'file-start', index, filename }),
+                    onFileDone: async (index, result) => {
+                        const filename = filesToProcess[index].filename;
+                        if (result.error) {
+                            send({ type: 'file-error', index, filename, error: result.error });
+                            return;
+                        }
+                        const { key } = await store.put(sessionId, MOOD_OUTPUT, {
+                            buffer: result.buffer,
+                            filename: result.filename
+                        });
+                        send({
+                            type: 'file-done',
+                            index,
+                            filename,
+                            outputs: [
+                                {
+                                    key,
+                                    filename: result.filename,
+                                    size: result.buffer.length,
+                                    thumbnail: await createProgressThumbnail(result.buffer)
+                                }
+                            ],
+                            errors: []
+                        });
+                    }
+                });
+
+                // A cancelled batch keeps its uploads so it can be run again
+                if (!signal.aborted) {
+                    await store.clear(sessionId, MOOD_UPLOADS);
+                }
+                console.log(`Processed ${summary.success} of ${summary.total} mood images successfully${signal.aborted ? ' (cancelled)' : ''}`);
+                send({ type: 'done', success: summary.success, failed: summary.failures, cancelled: signal.aborted });
+            });
+        }
+
+        // Process images
+        const { results, summary } = await processAllMoodImages(filesToProcess, processOptions);
 
         // Clear processed images before adding new ones
-        processedMoodImages.clear();
+        await store.clear(sessionId, MOOD_OUTPUT);
 
         // Store processed images
         const processedResults = [];
         for (const result of results) {
             if (!result.error) {
-                const key = `${Date.now()}-${result.filename}`;
-                processedMoodImages.set(key, {
+                const { key } = await store.put(sessionId, MOOD_OUTPUT, {
                     buffer: result.buffer,
-                    filename: result.filename,
-                    timestamp: Date.now()
+                    filename: result.filename
                 });
                 processedResults.push({
                     key,
@@ -95,7 +163,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Clear uploaded files after processing
-        uploadedMoodFiles.clear();
+        await store.clear(sessionId, MOOD_UPLOADS);
 
         console.log(`Processed ${summary.success} of ${summary.total} mood images successfully`);
 
@@ -114,7 +182,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
-
-// Export for use in other routes
-export { processedMoodImages };
\ No newline at end of file
+});
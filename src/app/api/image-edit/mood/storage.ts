@@ -0,0 +1,7 @@
+// Temp file namespaces for the mood tool (see @/lib/temp-file-store)
+
+// Uploaded files waiting to be processed
+export const MOOD_UPLOADS = 'mood-uploads';
+
+// Processed mood images
+export const MOOD_OUTPUT = 'mood-output';
@@ -1,42 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { attachUploadedFiles, UploadError } from '@/lib/uploads';
+import { MOOD_UPLOADS } from '../storage';
 
-function sha256(data: string): string {
-    return crypto.createHash('sha256').update(data).digest('hex');
-}
-
-// Temporary storage for uploaded mood files
-const uploadedMoodFiles = new Map<string, { buffer: Buffer; filename: string; timestamp: number }>();
-
-// Clean up old uploads (older than 1 hour)
-function cleanupOldUploads() {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    for (const [key, value] of uploadedMoodFiles.entries()) {
-        if (value.timestamp < oneHourAgo) {
-            uploadedMoodFiles.delete(key);
-        }
-    }
-}
-
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/image-edit/mood/upload');
 
     try {
-        cleanupOldUploads();
-
         const formData = await request.formData();
-
-        // Check password authentication if enabled
-        if (process.env.APP_PASSWORD) {
-            const clientPasswordHash = formData.get('passwordHash') as string | null;
-            if (!clientPasswordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Missing password hash.' }, { status: 401 });
-            }
-            const serverPasswordHash = sha256(process.env.APP_PASSWORD);
-            if (clientPasswordHash !== serverPasswordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Invalid password.' }, { status: 401 });
-            }
-        }
+        await attachUploadedFiles(formData);
 
         // Get files from form data
         const files = formData.getAll('files') as File[];
@@ -44,19 +17,18 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'No files uploaded' }, { status: 400 });
         }
 
-        // Clear previous uploads
-        uploadedMoodFiles.clear();
+        // Clear previous uploads for this session
+        const sessionId = await getToolSessionId({ create: true });
+        const store = getTempFileStore();
+        await store.clear(sessionId, MOOD_UPLOADS);
 
         // Process each file
         const uploadResults = [];
         for (const file of files) {
             const buffer = Buffer.from(await file.arrayBuffer());
-            const key = `${Date.now()}-${file.name}`;
-            
-            uploadedMoodFiles.set(key, {
+            const { key } = await store.put(sessionId, MOOD_UPLOADS, {
                 buffer,
-                filename: file.name,
-                timestamp: Date.now()
+                filename: file.name
             });
 
             uploadResults.push({
@@ -75,13 +47,13 @@ export async function POST(request: NextRequest) {
         });
 
     } catch (error) {
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error('Error in mood upload:', error);
         return NextResponse.json(
             { error: 'Failed to upload files' },
             { status: 500 }
         );
     }
-}
-
-// Export for use in other routes
-export { uploadedMoodFiles };
\ No newline at end of file
+});
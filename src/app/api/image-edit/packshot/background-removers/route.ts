@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getDefaultBackgroundRemoverId, listBackgroundRemovers } from '@/lib/background-removal';
+
+/**
+ * Background removal engines the packshot tool can choose from
+ */
+export async function GET() {
+    return NextResponse.json({
+        default: getDefaultBackgroundRemoverId(),
+        removers: listBackgroundRemovers().map((remover) => ({
+            id: remover.id,
+            label: remover.label,
+            billable: remover.billable,
+            configured: remover.isConfigured()
+        }))
+    });
+}
@@ -1,41 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { processedImages } from '../process/route';
+import { withAuth } from '@/middleware/auth-middleware';
+import { saveExport } from '@/lib/storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { PACKSHOT_OUTPUT } from '../storage';
 import archiver from 'archiver';
 
-function sha256(data: string): string {
-    return crypto.createHash('sha256').update(data).digest('hex');
-}
-
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/image-edit/packshot/download-selected');
 
     try {
         const body = await request.json();
-        const { passwordHash, format = 'png', selectedFiles = [] } = body;
-
-        // Check password authentication if enabled
-        if (process.env.APP_PASSWORD) {
-            if (!passwordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Missing password hash.' }, { status: 401 });
-            }
-            const serverPasswordHash = sha256(process.env.APP_PASSWORD);
-            if (passwordHash !== serverPasswordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Invalid password.' }, { status: 401 });
-            }
-        }
+        const { format = 'png', selectedFiles = [] } = body;
 
         // Filter images based on selected filenames
-        let imagesToDownload: Array<{filename: string, buffer: Buffer}> = [];
-        
-        for (const [key, imageData] of processedImages.entries()) {
-            if (selectedFiles.includes(imageData.filename)) {
-                imagesToDownload.push({
-                    filename: imageData.filename,
-                    buffer: imageData.buffer
-                });
-            }
-        }
+        const sessionId = await getToolSessionId();
+        const storedImages = sessionId ? await getTempFileStore().getAll(sessionId, PACKSHOT_OUTPUT) : [];
+        const imagesToDownload = storedImages.filter((image) => selectedFiles.includes(image.filename));
 
         // Check if there are any images to download
         if (imagesToDownload.length === 0) {
@@ -103,11 +83,16 @@ export async function POST(request: NextRequest) {
         console.log(`Created ZIP archive with ${imagesToDownload.length} selected images`);
 
         // Return the ZIP file
+        // Keep a copy in storage so the archive can be fetched again later
+        const zipFilename = `packshot-selected-${Date.now()}.zip`;
+        const exportUrl = await saveExport(zipFilename, zipBuffer);
+
         return new NextResponse(zipBuffer, {
             headers: {
                 'Content-Type': 'application/zip',
-                'Content-Disposition': `attachment; filename="packshot-selected-${Date.now()}.zip"`,
-                'Content-Length': zipBuffer.length.toString()
+                'Content-Disposition': `attachment; filename="${zipFilename}"`,
+                'Content-Length': zipBuffer.length.toString(),
+                ...(exportUrl ? { 'X-Export-Url': exportUrl } : {})
             }
         });
 
@@ -118,4 +103,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processedImages } from '../../process/route';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { PACKSHOT_OUTPUT } from '../../storage';
 
 interface Params {
     params: Promise<{
@@ -12,7 +13,8 @@ export async function GET(request: NextRequest, { params }: Params) {
     console.log(`Received GET request to /api/image-edit/packshot/image/${key}`);
 
     try {
-        const imageData = processedImages.get(key);
+        const sessionId = await getToolSessionId();
+        const imageData = sessionId ? await getTempFileStore().get(sessionId, PACKSHOT_OUTPUT, key) : null;
         
         if (!imageData) {
             return NextResponse.json(
@@ -21,13 +23,17 @@ export async function GET(request: NextRequest, { params }: Params) {
             );
         }
 
+        // Profiles can output JPEG or WebP as well as PNG
+        const extension = imageData.filename.split('.').pop()?.toLowerCase();
+        const contentType = extension === 'jpg' ? 'image/jpeg' : extension === 'webp' ? 'image/webp' : 'image/png';
+
         // Return the image
-        return new NextResponse(imageData.buffer, {
+        return new NextResponse(new Uint8Array(imageData.buffer), {
             headers: {
-                'Content-Type': 'image/png',
+                'Content-Type': contentType,
                 'Content-Length': imageData.buffer.length.toString(),
                 'Cache-Control': 'public, max-age=3600',
-                'Content-Disposition': `inline; filename="${imageData.filename}"`
+                'Content-Disposition': `inline; filename="${imageData.filename.split('/').pop()}"`
             }
         });
 
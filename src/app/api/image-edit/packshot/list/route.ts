@@ -1,16 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { processedImages } from '../process/route';
+import { NextResponse } from 'next/server';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { PACKSHOT_OUTPUT } from '../storage';
 
-export async function GET(request: NextRequest) {
+export async function GET() {
     console.log('Received GET request to /api/image-edit/packshot/list');
 
     try {
         // Get all processed images
-        const images = Array.from(processedImages.entries()).map(([key, value]) => ({
-            filename: value.filename,
-            url: `/api/image-edit/packshot/image/${key}`,
-            size: value.buffer.length,
-            timestamp: value.timestamp
+        const sessionId = await getToolSessionId();
+        const images = (sessionId ? getTempFileStore().list(sessionId, PACKSHOT_OUTPUT) : []).map((file) => ({
+            filename: file.filename,
+            url: `/api/image-edit/packshot/image/${file.key}`,
+            size: file.size,
+            timestamp: file.createdAt
         }));
 
         // Sort by timestamp (newest first)
@@ -1,93 +1,193 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
 import { processAllPackshotImages } from '@/lib/image-processor';
+import { createBatchProgressResponse, createProgressThumbnail, wantsBatchProgressStream } from '@/lib/batch-progress-stream';
+import { getBackgroundRemover } from '@/lib/background-removal';
+import {
+    MAX_PACKSHOT_PROFILES,
+    normalizePackshotEffects,
+    normalizePackshotProfile,
+    PackshotProfileError,
+    type PackshotProfile
+} from '@/lib/packshot-profiles';
 import { db } from '@/lib/db';
-import crypto from 'crypto';
-import { uploadedFiles } from '../upload/route';
-
-function sha256(data: string): string {
-    return crypto.createHash('sha256').update(data).digest('hex');
-}
-
-// Storage for processed images
-const processedImages = new Map<string, { buffer: Buffer; filename: string; timestamp: number }>();
-
-// Clean up old processed images (older than 1 hour)
-function cleanupOldImages() {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    for (const [key, value] of processedImages.entries()) {
-        if (value.timestamp < oneHourAgo) {
-            processedImages.delete(key);
-        }
-    }
-}
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { PACKSHOT_OUTPUT, PACKSHOT_UPLOADS } from '../storage';
+import { toUsageContext } from '@/lib/usage';
+import { checkUsageBudget } from '@/middleware/usage-budget';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { user }) => {
     console.log('Received POST request to /api/image-edit/packshot/process');
 
     try {
-        cleanupOldImages();
-
         const body = await request.json();
-        const { removeBackground = true, frameSize = 800, passwordHash } = body;
+        const { removeBackground = true, frameSize = 800, project = null, tolerance, feather } = body;
 
-        // Check password authentication if enabled
-        if (process.env.APP_PASSWORD) {
-            if (!passwordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Missing password hash.' }, { status: 401 });
+        // One output per profile; without profiles the legacy transparent square of frameSize is used
+        let profiles: PackshotProfile[] = [];
+        if (body.profiles !== undefined) {
+            if (!Array.isArray(body.profiles) || body.profiles.length === 0) {
+                return NextResponse.json({ error: 'profiles must be a non-empty array' }, { status: 400 });
             }
-            const serverPasswordHash = sha256(process.env.APP_PASSWORD);
-            if (passwordHash !== serverPasswordHash) {
-                return NextResponse.json({ error: 'Unauthorized: Invalid password.' }, { status: 401 });
+            if (body.profiles.length > MAX_PACKSHOT_PROFILES) {
+                return NextResponse.json(
+                    { error: `At most ${MAX_PACKSHOT_PROFILES} profiles can be processed at once` },
+                    { status: 400 }
+                );
+            }
+            try {
+                profiles = body.profiles.map(normalizePackshotProfile);
+            } catch (error) {
+                if (error instanceof PackshotProfileError) {
+                    return NextResponse.json({ error: error.message }, { status: 400 });
+                }
+                throw error;
+            }
+            if (new Set(profiles.map((profile) => profile.id)).size !== profiles.length) {
+                return NextResponse.json({ error: 'Profile ids must be unique' }, { status: 400 });
             }
         }
 
-        // Get uploaded files
-        const filesToProcess = Array.from(uploadedFiles.values()).map(file => ({
-            buffer: file.buffer,
-            filename: file.filename
-        }));
+        // Grounding effects for every profile: each is an object, true for defaults, or false/null for off
+        const effects = normalizePackshotEffects({
+            contactShadow: body.contactShadow,
+            dropShadow: body.dropShadow,
+            reflection: body.reflection
+        });
 
-        if (filesToProcess.length === 0) {
+        const remover = removeBackground ? getBackgroundRemover(body.backgroundRemover) : null;
+        if (removeBackground && !remover) {
+            return NextResponse.json(
+                { error: `Unknown background remover: ${body.backgroundRemover}` },
+                { status: 400 }
+            );
+        }
+        if (remover && !remover.isConfigured()) {
+            return NextResponse.json(
+                { error: `Background remover '${remover.id}' is not configured on this server` },
+                { status: 400 }
+            );
+        }
+
+        // Get this session's uploaded files
+        const sessionId = await getToolSessionId();
+        const store = getTempFileStore();
+        const filesToProcess = sessionId
+            ? (await store.getAll(sessionId, PACKSHOT_UPLOADS)).map((file) => ({
+                  buffer: file.buffer,
+                  filename: file.filename
+              }))
+            : [];
+
+        if (!sessionId || filesToProcess.length === 0) {
             return NextResponse.json({ error: 'No files to process. Please upload files first.' }, { status: 400 });
         }
 
-        console.log(`Processing ${filesToProcess.length} files with removeBackground=${removeBackground}, frameSize=${frameSize}`);
+        // Only billable engines (remove.bg) count against the budget
+        if (remover?.billable) {
+            const budget = await checkUsageBudget(user);
+            if (!budget.allowed && budget.error) {
+                return budget.error;
+            }
+        }
 
-        // Process images
-        const results = await processAllPackshotImages(filesToProcess, {
+        const profileIds = profiles.length ? profiles.map((profile) => profile.id).join(',') : `frame ${frameSize}`;
+        console.log(`Processing ${filesToProcess.length} files with backgroundRemover=${remover?.id ?? 'none'}, profiles=${profileIds}`);
+
+        const processOptions = {
             removeBackground,
-            removeBackgroundApiKey: process.env.REMOVE_BG_API_KEY,
-            frameSize
-        });
+            backgroundRemover: remover ?? undefined,
+            tolerance: typeof tolerance === 'number' ? tolerance : undefined,
+            feather: typeof feather === 'number' ? feather : undefined,
+            profiles,
+            effects,
+            frameSize,
+            usage: toUsageContext(user, typeof project === 'string' ? project : null)
+        };
+
+        // Live per-file progress: outputs are stored as each file finishes, and
+        // closing the connection stops the batch before the next file
+        if (wantsBatchProgressStream(request)) {
+            return createBatchProgressResponse(request, async (send, signal) => {
+                await store.clear(sessionId, PACKSHOT_OUTPUT);
+                send({ type: 'start', total: filesToProcess.length });
+
+                let success = 0;
+                let failed = 0;
+                await processAllPackshotImages(filesToProcess, {
+                    ...processOptions,
+                    signal,
+                    onFileStart: (index, filename) => send({ type: 'file-start', index, filename }),
+                    onFileDone: async (index, filename, fileResults) => {
+                        const outputs = [];
+                        const errors = [];
+                        for (const result of fileResults) {
+                            if (result.error) {
+                                failed++;
+                                errors.push(result.profileId ? `${result.profileId}: ${result.error}` : result.error);
+                                continue;
+                            }
+                            success++;
+                            const { key } = await store.put(sessionId, PACKSHOT_OUTPUT, {
+                                buffer: result.buffer,
+                                filename: result.filename
+                            });
+                            outputs.push({
+                                key,
+                                filename: result.filename,
+                                size: result.buffer.length,
+                                thumbnail: await createProgressThumbnail(result.buffer)
+                            });
+                        }
+
+                        if (outputs.length === 0) {
+                            send({ type: 'file-error', index, filename, error: errors.join('; ') });
+                        } else {
+                            send({ type: 'file-done', index, filename, outputs, errors });
+                        }
+                    }
+                });
+
+                // A cancelled batch keeps its uploads so it can be run again
+                if (!signal.aborted) {
+                    await store.clear(sessionId, PACKSHOT_UPLOADS);
+                }
+                console.log(`Processed ${success} of ${success + failed} images successfully${signal.aborted ? ' (cancelled)' : ''}`);
+                send({ type: 'done', success, failed, cancelled: signal.aborted });
+            });
+        }
+
+        // Process images
+        const results = await processAllPackshotImages(filesToProcess, processOptions);
 
         // Clear processed images before adding new ones
-        processedImages.clear();
+        await store.clear(sessionId, PACKSHOT_OUTPUT);
 
         // Store processed images
         const processedResults = [];
         for (const result of results) {
             if (!result.error) {
-                const key = `${Date.now()}-${result.filename}`;
-                processedImages.set(key, {
+                const { key } = await store.put(sessionId, PACKSHOT_OUTPUT, {
                     buffer: result.buffer,
-                    filename: result.filename,
-                    timestamp: Date.now()
+                    filename: result.filename
                 });
                 processedResults.push({
                     key,
                     filename: result.filename,
+                    profileId: result.profileId,
                     size: result.buffer.length
                 });
             } else {
                 processedResults.push({
                     filename: result.filename,
+                    profileId: result.profileId,
                     error: result.error
                 });
             }
         }
 
         // Clear uploaded files after processing
-        uploadedFiles.clear();
+        await store.clear(sessionId, PACKSHOT_UPLOADS);
 
         const successCount = processedResults.filter(r => !r.error).length;
         console.log(`Processed ${successCount} of ${results.length} images successfully`);
@@ -106,7 +206,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
-
-// Export for use in other routes
-export { processedImages };
\ No newline at end of file
+});
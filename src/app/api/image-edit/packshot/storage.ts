@@ -0,0 +1,7 @@
+// Temp file namespaces for the packshot tool (see @/lib/temp-file-store)
+
+// Uploaded files waiting to be processed
+export const PACKSHOT_UPLOADS = 'packshot-uploads';
+
+// Processed packshot images
+export const PACKSHOT_OUTPUT = 'packshot-output';
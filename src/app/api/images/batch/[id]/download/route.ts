@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createImageBatchArchive, getImageBatchState } from '@/lib/image-batch';
+import { getJobQueue } from '@/lib/job-queue';
+import { saveExport } from '@/lib/storage';
+import { getToolSessionId } from '@/lib/temp-file-store';
+import { withAuth } from '@/middleware/auth-middleware';
+import { loadBatchManifest } from '../../storage';
+
+interface RouteParams {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+// ZIP of the batch's finished images named <EAN>-<n>.png, plus manifest.json
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    return withAuth(async () => {
+        try {
+            const sessionId = await getToolSessionId();
+            const manifest = sessionId ? await loadBatchManifest(sessionId, id) : null;
+            if (!manifest) {
+                return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+            }
+
+            const state = await getImageBatchState(manifest, getJobQueue().store);
+            const zipBuffer = await createImageBatchArchive(state);
+
+            console.log(`Created ZIP archive for batch ${id} (${state.counts.completed} completed rows)`);
+
+            // Keep a copy in storage so the archive can be fetched again later
+            const zipFilename = `batch-${id}.zip`;
+            const exportUrl = await saveExport(zipFilename, zipBuffer);
+
+            return new NextResponse(new Uint8Array(zipBuffer), {
+                headers: {
+                    'Content-Type': 'application/zip',
+                    'Content-Disposition': `attachment; filename="${zipFilename}"`,
+                    'Content-Length': zipBuffer.length.toString(),
+                    ...(exportUrl ? { 'X-Export-Url': exportUrl } : {})
+                }
+            });
+        } catch (error: unknown) {
+            console.error(`Error creating ZIP for batch ${id}:`, error);
+            return NextResponse.json({ error: 'Failed to create batch archive' }, { status: 500 });
+        }
+    }, 'viewer')(request);
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImageBatchState } from '@/lib/image-batch';
+import { getJobQueue } from '@/lib/job-queue';
+import { getToolSessionId } from '@/lib/temp-file-store';
+import { withAuth } from '@/middleware/auth-middleware';
+import { loadBatchManifest } from '../storage';
+
+interface RouteParams {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    return withAuth(async () => {
+        try {
+            const sessionId = await getToolSessionId();
+            const manifest = sessionId ? await loadBatchManifest(sessionId, id) : null;
+            if (!manifest) {
+                return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+            }
+
+            const state = await getImageBatchState(manifest, getJobQueue().store);
+
+            // Image data is only needed for the ZIP, not for polling
+            return NextResponse.json({
+                ...state,
+                rows: state.rows.map((row) => ({
+                    ...row,
+                    outputs: row.outputs.map(({ name, path }) => ({ name, path }))
+                }))
+            });
+        } catch (error: unknown) {
+            console.error(`Error reading batch ${id}:`, error);
+            return NextResponse.json({ error: 'Failed to read batch status' }, { status: 500 });
+        }
+    }, 'viewer')(request);
+}
+
+// Cancels every row that hasn't finished yet
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    return withAuth(async () => {
+        try {
+            const sessionId = await getToolSessionId();
+            const manifest = sessionId ? await loadBatchManifest(sessionId, id) : null;
+            if (!manifest) {
+                return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+            }
+
+            const queue = getJobQueue();
+            let cancelled = 0;
+            for (const row of manifest.rows) {
+                if (!row.jobId) continue;
+                const job = await queue.cancel(row.jobId);
+                if (job?.status === 'cancelled') cancelled++;
+            }
+
+            console.log(`Cancelled ${cancelled} jobs of batch ${id}`);
+            return NextResponse.json({ id, cancelled });
+        } catch (error: unknown) {
+            console.error(`Error cancelling batch ${id}:`, error);
+            return NextResponse.json({ error: 'Failed to cancel batch' }, { status: 500 });
+        }
+    })(request);
+}
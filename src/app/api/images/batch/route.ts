@@ -0,0 +1,214 @@
+import { lookup } from 'mime-types';
+import { nanoid } from 'nanoid';
+import { NextRequest, NextResponse } from 'next/server';
+import type { ImageBatchManifest, ImageBatchRow } from '@/lib/image-batch';
+import { IMAGE_JOB_KINDS, parseImageJobInput, runImageJob, type ImageJobInput } from '@/lib/image-generation';
+import { getJobQueue } from '@/lib/job-queue';
+import { JOB_TTL_MS } from '@/lib/job-store';
+import {
+    buildRowPrompt,
+    createCustomTemplate,
+    matchFilesByEAN,
+    MAX_FEED_ROWS,
+    normalizeFeedEAN
+} from '@/lib/product-feed';
+import { PROMPT_TEMPLATES } from '@/lib/prompt-templates';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { toUsageContext } from '@/lib/usage';
+import { checkRateLimit, withAuthAndRateLimit } from '@/middleware/rate-limit';
+import { checkUsageBudget } from '@/middleware/usage-budget';
+import { BATCH_MANIFESTS, BATCH_UPLOADS } from './storage';
+
+interface BatchRequestBody {
+    rows?: unknown;
+    eanColumn?: unknown;
+    templateId?: unknown;
+    customTemplate?: unknown;
+    mapping?: unknown;
+    provider?: unknown;
+    model?: unknown;
+    quality?: unknown;
+    size?: unknown;
+    n?: unknown;
+    requireImage?: unknown;
+    project?: unknown;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.values(value).every((cell) => typeof cell === 'string')
+    );
+}
+
+/**
+ * Queues one image job per product feed row. Rows with matching source
+ * images (by EAN) become edits, the rest are generated from the prompt alone
+ * unless `requireImage` is set.
+ */
+export const POST = withAuthAndRateLimit(async (request: NextRequest, { user }) => {
+    console.log('Received POST request to /api/images/batch');
+
+    let body: BatchRequestBody;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body: Must be JSON.' }, { status: 400 });
+    }
+
+    const { rows, eanColumn, mapping } = body;
+    if (!Array.isArray(rows) || rows.length === 0 || !rows.every(isStringRecord)) {
+        return NextResponse.json({ error: 'rows must be a non-empty list of feed rows.' }, { status: 400 });
+    }
+    if (rows.length > MAX_FEED_ROWS) {
+        return NextResponse.json({ error: `A batch can have at most ${MAX_FEED_ROWS} rows.` }, { status: 400 });
+    }
+    if (typeof eanColumn !== 'string' || !eanColumn) {
+        return NextResponse.json({ error: 'eanColumn is required.' }, { status: 400 });
+    }
+    if (!isStringRecord(mapping)) {
+        return NextResponse.json({ error: 'mapping must map template variables to feed columns.' }, { status: 400 });
+    }
+
+    const template =
+        body.templateId === 'custom' && typeof body.customTemplate === 'string' && body.customTemplate.trim()
+            ? createCustomTemplate(body.customTemplate.trim())
+            : PROMPT_TEMPLATES.find((candidate) => candidate.id === body.templateId);
+    if (!template) {
+        return NextResponse.json({ error: `Unknown template: ${body.templateId}` }, { status: 400 });
+    }
+
+    try {
+        const budget = await checkUsageBudget(user);
+        if (!budget.allowed && budget.error) {
+            return budget.error;
+        }
+
+        const sessionId = await getToolSessionId({ create: true });
+        const store = getTempFileStore();
+        const uploads = await store.getAll(sessionId, BATCH_UPLOADS);
+        const usage = toUsageContext(user, typeof body.project === 'string' ? body.project : null);
+
+        const batchId = nanoid();
+        const manifestRows: ImageBatchRow[] = [];
+        const plannedJobs: Array<{ entry: ImageBatchRow; input: ImageJobInput }> = [];
+
+        for (const [index, row] of rows.entries()) {
+            const ean = normalizeFeedEAN(row[eanColumn]);
+            const prompt = buildRowPrompt(template, mapping, row);
+            const sources = ean ? matchFilesByEAN(ean, uploads) : [];
+            const entry: ImageBatchRow = {
+                row: index + 1,
+                ean,
+                prompt,
+                mode: null,
+                sourceImages: sources.map((file) => file.filename),
+                jobId: null
+            };
+            manifestRows.push(entry);
+
+            if (!ean) {
+                entry.skipped = `No valid EAN in column '${eanColumn}' (missing or wrong check digit)`;
+                continue;
+            }
+            if (body.requireImage === true && sources.length === 0) {
+                entry.skipped = 'No source image found for this EAN';
+                continue;
+            }
+
+            // Build the same form an /api/images request would send, so validation is shared
+            const mode = sources.length > 0 ? 'edit' : 'generate';
+            const formData = new FormData();
+            formData.set('mode', mode);
+            formData.set('prompt', prompt);
+            formData.set('output_format', 'png');
+            for (const field of ['provider', 'model', 'quality', 'size', 'n'] as const) {
+                const value = body[field];
+                if (typeof value === 'string' || typeof value === 'number') {
+                    formData.set(field, String(value));
+                }
+            }
+            sources.forEach((file, sourceIndex) => {
+                const type = (file.metadata.contentType as string | null) || lookup(file.filename) || 'image/png';
+                formData.append(
+                    `image_${sourceIndex}`,
+                    new File([new Uint8Array(file.buffer)], file.filename, { type })
+                );
+            });
+
+            const parsed = parseImageJobInput(formData);
+            if ('error' in parsed) {
+                // Provider/model problems affect every row, so fail the whole batch
+                if (plannedJobs.length === 0) {
+                    return NextResponse.json({ error: parsed.error }, { status: parsed.status ?? 400 });
+                }
+                entry.skipped = parsed.error;
+                continue;
+            }
+            parsed.input.usage = usage;
+            entry.mode = mode;
+            plannedJobs.push({ entry, input: parsed.input });
+        }
+
+        // Every row is a generation, so the batch takes one point of the batch limit per row.
+        // The wrapper has already taken one; the batch is rejected if the rest isn't available.
+        if (plannedJobs.length > 1) {
+            const rateLimit = await checkRateLimit(request, 'batchGeneration', plannedJobs.length - 1);
+            if (!rateLimit.allowed && rateLimit.error) {
+                return rateLimit.error;
+            }
+        }
+
+        for (const { entry, input } of plannedJobs) {
+            const job = await getJobQueue().submit(
+                IMAGE_JOB_KINDS[input.mode],
+                {
+                    mode: input.mode,
+                    provider: input.provider.id,
+                    model: input.model,
+                    prompt: input.prompt,
+                    n: input.n,
+                    size: input.size,
+                    quality: input.quality,
+                    output_format: 'png',
+                    imageCount: input.imageFiles.length,
+                    hasMask: false,
+                    project: usage.project,
+                    batchId,
+                    batchRow: entry.row,
+                    ean: entry.ean
+                },
+                (context) => runImageJob(input, context),
+                { userId: user.id }
+            );
+            entry.jobId = job.id;
+        }
+
+        const manifest: ImageBatchManifest = {
+            id: batchId,
+            createdAt: Date.now(),
+            template: template.name,
+            rows: manifestRows
+        };
+        await store.put(sessionId, BATCH_MANIFESTS, {
+            key: batchId,
+            filename: `${batchId}.json`,
+            buffer: Buffer.from(JSON.stringify(manifest)),
+            ttlMs: JOB_TTL_MS
+        });
+
+        const queued = manifestRows.filter((row) => row.jobId).length;
+        console.log(`Queued image batch ${batchId}: ${queued} of ${manifestRows.length} rows`);
+
+        return NextResponse.json(
+            { batchId, queued, skipped: manifestRows.length - queued, rows: manifestRows },
+            { status: 202 }
+        );
+    } catch (error: unknown) {
+        console.error('Error in /api/images/batch:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
+        return NextResponse.json({ error: errorMessage }, { status: 500 });
+    }
+}, 'batchGeneration');
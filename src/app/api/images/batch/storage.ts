@@ -0,0 +1,15 @@
+import type { ImageBatchManifest } from '@/lib/image-batch';
+import { getTempFileStore } from '@/lib/temp-file-store';
+
+// Temp file namespaces for batch generation (see @/lib/temp-file-store)
+
+// Source images, matched to feed rows by the EAN in their filename
+export const BATCH_UPLOADS = 'image-batch-uploads';
+
+// One JSON manifest per batch, keyed by batch id
+export const BATCH_MANIFESTS = 'image-batch-manifests';
+
+export async function loadBatchManifest(sessionId: string, batchId: string): Promise<ImageBatchManifest | null> {
+    const file = await getTempFileStore().get(sessionId, BATCH_MANIFESTS, batchId);
+    return file ? (JSON.parse(file.buffer.toString('utf-8')) as ImageBatchManifest) : null;
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { extractEANFromFilename } from '@/lib/ean-processor';
+import { getTempFileStore, getToolSessionId, TempFileQuotaError } from '@/lib/temp-file-store';
+import { BATCH_UPLOADS } from '../storage';
+
+export const POST = withAuth(async (request: NextRequest) => {
+    console.log('Received POST request to /api/images/batch/upload');
+
+    try {
+        const formData = await request.formData();
+
+        const files = formData.getAll('files').filter((value): value is File => value instanceof File);
+        if (files.length === 0) {
+            return NextResponse.json({ error: 'No files uploaded' }, { status: 400 });
+        }
+
+        // Each upload replaces the previous set of source images
+        const sessionId = await getToolSessionId({ create: true });
+        const store = getTempFileStore();
+        await store.clear(sessionId, BATCH_UPLOADS);
+
+        const uploadResults = [];
+        for (const file of files) {
+            const buffer = Buffer.from(await file.arrayBuffer());
+            const { key } = await store.put(sessionId, BATCH_UPLOADS, {
+                buffer,
+                filename: file.name,
+                metadata: { contentType: file.type || null }
+            });
+
+            uploadResults.push({
+                key,
+                filename: file.name,
+                ean: extractEANFromFilename(file.name)?.ean ?? null
+            });
+        }
+
+        console.log(`Uploaded ${files.length} source images for batch generation`);
+
+        return NextResponse.json({ files: uploadResults, count: files.length });
+    } catch (error) {
+        console.error('Error in batch upload:', error);
+        if (error instanceof TempFileQuotaError) {
+            return NextResponse.json({ error: error.message }, { status: 507 });
+        }
+        return NextResponse.json({ error: 'Failed to upload files' }, { status: 500 });
+    }
+});
@@ -0,0 +1,76 @@
+import { BackgroundRemovalError, getBackgroundRemover } from '@/lib/background-removal';
+import { createSelectionMatte, type SelectionTarget } from '@/lib/image-processor';
+import { attachUploadedFiles, UploadError } from '@/lib/uploads';
+import { toUsageContext } from '@/lib/usage';
+import { withAuth } from '@/middleware/auth-middleware';
+import { checkUsageBudget } from '@/middleware/usage-budget';
+import { NextRequest, NextResponse } from 'next/server';
+
+const SELECTION_TARGETS: SelectionTarget[] = ['subject', 'background'];
+
+/**
+ * Selects the subject or background of an image for the mask editor. Takes
+ * `image`, `target` ('subject' or 'background') and optionally
+ * `backgroundRemover`, and returns the selection as a PNG matte.
+ */
+export const POST = withAuth(async (request: NextRequest, { user }) => {
+    try {
+        const formData = await request.formData();
+        await attachUploadedFiles(formData);
+        const image = formData.get('image');
+        const target = formData.get('target') as SelectionTarget;
+
+        if (!(image instanceof File)) {
+            return NextResponse.json({ error: 'Intet billede uploadet' }, { status: 400 });
+        }
+        if (!SELECTION_TARGETS.includes(target)) {
+            return NextResponse.json(
+                { error: `target must be one of ${SELECTION_TARGETS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const removerId = formData.get('backgroundRemover') as string | null;
+        const remover = getBackgroundRemover(removerId);
+        if (!remover) {
+            return NextResponse.json({ error: `Unknown background remover: ${removerId}` }, { status: 400 });
+        }
+        if (!remover.isConfigured()) {
+            return NextResponse.json(
+                { error: `Background remover '${remover.id}' is not configured on this server` },
+                { status: 400 }
+            );
+        }
+
+        // Only billable engines (remove.bg) count against the budget
+        if (remover.billable) {
+            const budget = await checkUsageBudget(user);
+            if (!budget.allowed && budget.error) {
+                return budget.error;
+            }
+        }
+
+        const matte = await createSelectionMatte(Buffer.from(await image.arrayBuffer()), remover, target, {
+            filename: image.name,
+            usage: toUsageContext(user, formData.get('project') as string | null)
+        });
+
+        return new NextResponse(new Uint8Array(matte), {
+            headers: {
+                'Content-Type': 'image/png',
+                'Cache-Control': 'no-store',
+                'X-Background-Remover': remover.id
+            }
+        });
+    } catch (error) {
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        // Typically a photo the local engine can't separate; the user can still draw the mask
+        if (error instanceof BackgroundRemovalError) {
+            return NextResponse.json({ error: error.message, engine: error.engine }, { status: 422 });
+        }
+        console.error('Error selecting subject for mask:', error);
+        return NextResponse.json({ error: 'Kunne ikke markere motivet' }, { status: 500 });
+    }
+});
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+import type { Job } from '@/lib/job-store';
+import type { PublicUser } from '@/lib/user-store';
+import { withAuth } from '@/middleware/auth-middleware';
+
+interface RouteParams {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+// Jobs are visible to the account that submitted them and to admins; to anyone else they don't exist
+function canAccessJob(job: Job, user: PublicUser): boolean {
+    return user.role === 'admin' || (job.userId !== undefined && job.userId === user.id);
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    if (!id) {
+        return NextResponse.json({ error: 'Job ID is required' }, { status: 400 });
+    }
+
+    return withAuth(async (_request, { user }) => {
+        try {
+            const job = await getJobQueue().store.get(id);
+
+            if (!job || !canAccessJob(job, user)) {
+                return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+            }
+
+            return NextResponse.json({
+                id: job.id,
+                kind: job.kind,
+                status: job.status,
+                progress: job.progress,
+                createdAt: job.createdAt,
+                updatedAt: job.updatedAt,
+                startedAt: job.startedAt,
+                finishedAt: job.finishedAt,
+                error: job.error,
+                params: job.params,
+                result: job.result
+            });
+        } catch (error: unknown) {
+            console.error(`Error reading job ${id}:`, error);
+            return NextResponse.json({ error: 'Failed to read job status' }, { status: 500 });
+        }
+    }, 'viewer')(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    if (!id) {
+        return NextResponse.json({ error: 'Job ID is required' }, { status: 400 });
+    }
+
+    return withAuth(async (_request, { user }) => {
+        try {
+            const queue = getJobQueue();
+            const existing = await queue.store.get(id);
+            if (!existing || !canAccessJob(existing, user)) {
+                return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+            }
+
+            console.log('Canceling job:', id);
+            const job = await queue.cancel(id);
+
+            if (!job) {
+                return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+            }
+
+            return NextResponse.json({
+                message: job.status === 'cancelled' ? 'Job cancelled' : `Job already ${job.status}`,
+                id: job.id,
+                status: job.status
+            });
+        } catch (error: unknown) {
+            console.error(`Error canceling job ${id}:`, error);
+            return NextResponse.json({ error: 'Failed to cancel job' }, { status: 500 });
+        }
+    })(request);
+}
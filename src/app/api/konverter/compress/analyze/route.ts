@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
 import sharp from 'sharp';
+import { attachUploadedFiles, UploadError } from '@/lib/uploads';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/konverter/compress/analyze');
     
     try {
         const formData = await request.formData();
+        await attachUploadedFiles(formData);
         const file = formData.get('file') as File;
         
         if (!file) {
@@ -60,10 +63,13 @@ export async function POST(request: NextRequest) {
         });
         
     } catch (error) {
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error('Analysis error:', error);
         return NextResponse.json(
             { error: 'Analyse fejlede: ' + (error instanceof Error ? error.message : 'Ukendt fejl') },
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
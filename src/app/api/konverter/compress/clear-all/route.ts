@@ -1,16 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { compressedFiles } from '../storage';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { COMPRESS_OUTPUT } from '../storage';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async () => {
     console.log('Received POST request to /api/konverter/compress/clear-all');
     
     try {
-        const beforeCount = compressedFiles.size;
+        // Clear this session's compressed files
+        const sessionId = await getToolSessionId();
+        const beforeCount = sessionId ? await getTempFileStore().clear(sessionId, COMPRESS_OUTPUT) : 0;
         
-        // Clear all compressed files
-        compressedFiles.clear();
-        
-        console.log(`Cleared ${beforeCount} compressed files from memory`);
+        console.log(`Cleared ${beforeCount} compressed files`);
         
         return NextResponse.json({
             success: true,
@@ -25,4 +26,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
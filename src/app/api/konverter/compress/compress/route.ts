@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
 import sharp from 'sharp';
-import { compressedFiles, generateFileKey, cleanupOldFiles } from '../storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { attachUploadedFiles, UploadError } from '@/lib/uploads';
+import {
+    compressToTargetSize,
+    computeSsim,
+    TargetSizeError,
+    type TargetSizeFormat,
+    type TargetSizeResult
+} from '@/lib/target-size-compression';
+import { COMPRESS_OUTPUT, type CompressedFileMetadata } from '../storage';
 
 const QUALITY_PRESETS: Record<string, number> = {
     web: 85,
@@ -11,18 +21,18 @@ const QUALITY_PRESETS: Record<string, number> = {
     low: 60
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/konverter/compress/compress');
     
     try {
-        // Cleanup old files periodically
-        cleanupOldFiles();
-        
         const formData = await request.formData();
+        await attachUploadedFiles(formData);
         const file = formData.get('file') as File;
         const quality = formData.get('quality') as string || '85';
         const preset = formData.get('preset') as string || '';
         const format = formData.get('format') as string || 'original';
+        // 'target' fits the output under targetKb instead of using a fixed quality
+        const mode = formData.get('mode') === 'target' ? 'target' : 'quality';
         
         if (!file) {
             return NextResponse.json({ error: 'Ingen fil uploadet' }, { status: 400 });
@@ -48,84 +58,55 @@ export async function POST(request: NextRequest) {
                 outputFormat = 'jpeg';
             }
         }
+        // Target size mode searches quality, which GIF and TIFF don't have here
+        if (mode === 'target' && !['jpg', 'jpeg', 'png', 'webp'].includes(outputFormat)) {
+            outputFormat = 'jpeg';
+        }
         
         // Generate output filename
         const inputName = file.name.substring(0, file.name.lastIndexOf('.'));
         const outputFilename = `${inputName}-compressed.${outputFormat}`;
         
-        // Compress the image using Sharp
-        let sharpInstance = sharp(inputBuffer);
-        
-        // Get metadata to preserve orientation
-        const metadata = await sharpInstance.metadata();
-        
-        // Apply rotation if needed
-        if (metadata.orientation) {
-            sharpInstance = sharpInstance.rotate();
-        }
-        
-        // Apply format-specific compression
-        switch (outputFormat) {
-            case 'jpg':
-            case 'jpeg':
-                sharpInstance = sharpInstance.jpeg({
-                    quality: qualityLevel,
-                    progressive: true,
-                    mozjpeg: true
-                });
-                break;
-            case 'png':
-                sharpInstance = sharpInstance.png({
-                    compressionLevel: Math.floor((100 - qualityLevel) / 10),
-                    progressive: true
-                });
-                break;
-            case 'webp':
-                sharpInstance = sharpInstance.webp({
-                    quality: qualityLevel,
-                    effort: 6
-                });
-                break;
-            case 'gif':
-                sharpInstance = sharpInstance.gif({
-                    effort: 10
-                });
-                break;
-            case 'tiff':
-                sharpInstance = sharpInstance.tiff({
-                    quality: qualityLevel,
-                    compression: 'jpeg'
-                });
-                break;
-            default:
-                sharpInstance = sharpInstance.jpeg({
-                    quality: qualityLevel,
-                    progressive: true,
-                    mozjpeg: true
-                });
+        const targetBytes = Number(formData.get('targetKb')) * 1024;
+        let compressedBuffer: Buffer;
+        let target: TargetSizeResult | null = null;
+        if (mode === 'target') {
+            target = await compressToTargetSize(inputBuffer, {
+                targetBytes,
+                format: (outputFormat === 'jpg' ? 'jpeg' : outputFormat) as TargetSizeFormat,
+                allowResize: formData.get('allowResize') === 'true'
+            });
+            compressedBuffer = target.buffer;
+            qualityLevel = target.quality;
+        } else {
+            compressedBuffer = await compressAtQuality(inputBuffer, outputFormat, qualityLevel);
         }
-        
-        const compressedBuffer = await sharpInstance.toBuffer();
         const outputSize = compressedBuffer.length;
-        
+        const ssim = target ? target.ssim : await computeSsim(inputBuffer, compressedBuffer);
+        const { width, height } = target ?? (await sharp(compressedBuffer).metadata());
+
         // Calculate savings
         const savedBytes = inputSize - outputSize;
         const savedPercentage = Math.round((savedBytes / inputSize) * 100);
         
         // Store compressed file
-        const fileKey = generateFileKey();
-        compressedFiles.set(fileKey, {
+        const sessionId = await getToolSessionId({ create: true });
+        const { key: fileKey } = await getTempFileStore().put<CompressedFileMetadata>(sessionId, COMPRESS_OUTPUT, {
             filename: outputFilename,
             buffer: compressedBuffer,
-            originalName: file.name,
-            originalSize: inputSize,
-            compressedSize: outputSize
+            metadata: {
+                originalName: file.name,
+                originalSize: inputSize,
+                compressedSize: outputSize
+            }
         });
         
         // Return the URL for the compressed file
         const compressedPath = `/api/konverter/compress/output/${fileKey}`;
         
-        console.log(`Compressed ${file.name}: ${inputSize} -> ${outputSize} bytes (${savedPercentage}% saved)`);
+        console.log(
+            `Compressed ${file.name}: ${inputSize} -> ${outputSize} bytes (${savedPercentage}% saved, quality ${qualityLevel}, SSIM ${ssim.toFixed(3)})`
+        );
         
         return NextResponse.json({
             success: true,
@@ -136,14 +117,89 @@ export async function POST(request: NextRequest) {
             compressedSize: outputSize,
             savedBytes,
             savedPercentage,
-            quality: qualityLevel
+            quality: qualityLevel,
+            width,
+            height,
+            ssim,
+            mode,
+            ...(target && {
+                targetSize: targetBytes,
+                fitsTarget: target.fits,
+                scale: target.scale,
+                attempts: target.attempts
+            })
         });
         
     } catch (error) {
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        if (error instanceof TargetSizeError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
         console.error('Compression error:', error);
         return NextResponse.json(
             { error: 'Komprimering fejlede: ' + (error instanceof Error ? error.message : 'Ukendt fejl') },
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
+
+/**
+ * Fixed quality compression in the requested format
+ */
+async function compressAtQuality(inputBuffer: Buffer, outputFormat: string, qualityLevel: number): Promise<Buffer> {
+    // Compress the image using Sharp
+    let sharpInstance = sharp(inputBuffer);
+    
+    // Get metadata to preserve orientation
+    const metadata = await sharpInstance.metadata();
+    
+    // Apply rotation if needed
+    if (metadata.orientation) {
+        sharpInstance = sharpInstance.rotate();
+    }
+    
+    // Apply format-specific compression
+    switch (outputFormat) {
+        case 'jpg':
+        case 'jpeg':
+            sharpInstance = sharpInstance.jpeg({
+                quality: qualityLevel,
+                progressive: true,
+                mozjpeg: true
+            });
+            break;
+        case 'png':
+            sharpInstance = sharpInstance.png({
+                compressionLevel: Math.floor((100 - qualityLevel) / 10),
+                progressive: true
+            });
+            break;
+        case 'webp':
+            sharpInstance = sharpInstance.webp({
+                quality: qualityLevel,
+                effort: 6
+            });
+            break;
+        case 'gif':
+            sharpInstance = sharpInstance.gif({
+                effort: 10
+            });
+            break;
+        case 'tiff':
+            sharpInstance = sharpInstance.tiff({
+                quality: qualityLevel,
+                compression: 'jpeg'
+            });
+            break;
+        default:
+            sharpInstance = sharpInstance.jpeg({
+                quality: qualityLevel,
+                progressive: true,
+                mozjpeg: true
+            });
+    }
+    
+    return sharpInstance.toBuffer();
+}
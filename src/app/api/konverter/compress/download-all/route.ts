@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { compressedFiles } from '../storage';
+import { withAuth } from '@/middleware/auth-middleware';
+import { saveExport } from '@/lib/storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { COMPRESS_OUTPUT } from '../storage';
 import archiver from 'archiver';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/konverter/compress/download-all');
     
     try {
@@ -13,6 +16,12 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Ingen filer at downloade' }, { status: 400 });
         }
         
+        const sessionId = await getToolSessionId();
+        if (!sessionId) {
+            return NextResponse.json({ error: 'Ingen aktiv session' }, { status: 400 });
+        }
+        const store = getTempFileStore();
+        
         // Create a ZIP archive
         const archive = archiver('zip', {
             zlib: { level: 9 }
@@ -41,7 +50,7 @@ export async function POST(request: NextRequest) {
             const match = filePath.match(/\/output\/(.+)$/);
             if (match) {
                 const fileKey = match[1];
-                const file = compressedFiles.get(fileKey);
+                const file = await store.get(sessionId, COMPRESS_OUTPUT, fileKey);
                 
                 if (file) {
                     archive.append(file.buffer, { name: file.filename });
@@ -66,11 +75,16 @@ export async function POST(request: NextRequest) {
         console.log(`Created ZIP archive with ${addedCount} compressed files`);
         
         // Return the ZIP file
+        // Keep a copy in storage so the archive can be fetched again later
+        const zipFilename = `compressed-images-${Date.now()}.zip`;
+        const exportUrl = await saveExport(zipFilename, zipBuffer);
+
         return new NextResponse(zipBuffer, {
             headers: {
                 'Content-Type': 'application/zip',
-                'Content-Disposition': `attachment; filename="compressed-images-${Date.now()}.zip"`,
-                'Content-Length': zipBuffer.length.toString()
+                'Content-Disposition': `attachment; filename="${zipFilename}"`,
+                'Content-Length': zipBuffer.length.toString(),
+                ...(exportUrl ? { 'X-Export-Url': exportUrl } : {})
             }
         });
         
@@ -81,4 +95,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
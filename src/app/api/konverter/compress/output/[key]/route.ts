@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { compressedFiles } from '../../storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { COMPRESS_OUTPUT, type CompressedFileMetadata } from '../../storage';
 
 export async function GET(
     request: NextRequest,
-    { params }: { params: { key: string } }
+    { params }: { params: Promise<{ key: string }> }
 ) {
     try {
-        const fileKey = params.key;
-        const file = compressedFiles.get(fileKey);
+        const { key: fileKey } = await params;
+        const sessionId = await getToolSessionId();
+        const file = sessionId ? await getTempFileStore().get<CompressedFileMetadata>(sessionId, COMPRESS_OUTPUT, fileKey) : null;
         
         if (!file) {
             return NextResponse.json({ error: 'Fil ikke fundet' }, { status: 404 });
@@ -25,7 +27,7 @@ export async function GET(
             contentType = 'image/tiff';
         }
         
-        return new NextResponse(file.buffer, {
+        return new NextResponse(new Uint8Array(file.buffer), {
             headers: {
                 'Content-Type': contentType,
                 'Content-Disposition': `inline; filename="${file.filename}"`,
@@ -1,29 +1,9 @@
-// In-memory storage for compressor tool
+// Temp file namespace for the compressor tool (see @/lib/temp-file-store)
 
-interface CompressedFile {
-    filename: string;
-    buffer: Buffer;
+export const COMPRESS_OUTPUT = 'compress-output';
+
+export type CompressedFileMetadata = {
     originalName: string;
     originalSize: number;
     compressedSize: number;
-}
-
-// Compressed files storage
-export const compressedFiles = new Map<string, CompressedFile>();
-
-// Generate unique key for compressed file
-export function generateFileKey(): string {
-    return `compress-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-}
-
-// Cleanup old files (older than 1 hour)
-export function cleanupOldFiles() {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    
-    for (const [key] of compressedFiles) {
-        const timestamp = parseInt(key.split('-')[1]);
-        if (timestamp < oneHourAgo) {
-            compressedFiles.delete(key);
-        }
-    }
-}
\ No newline at end of file
+};
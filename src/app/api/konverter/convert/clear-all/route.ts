@@ -1,10 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { convertedFiles } from '../storage';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { CONVERT_OUTPUT } from '../storage';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async () => {
     try {
-        const clearedCount = convertedFiles.size;
-        convertedFiles.clear();
+        // Clear this session's converted files
+        const sessionId = await getToolSessionId();
+        const clearedCount = sessionId ? await getTempFileStore().clear(sessionId, CONVERT_OUTPUT) : 0;
         
         console.log(`Cleared ${clearedCount} converted files`);
         
@@ -20,4 +23,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
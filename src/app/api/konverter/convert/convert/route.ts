@@ -1,68 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
-import sharp from 'sharp';
-import { convertedFiles, generateFileKey, cleanupOldFiles } from '../storage';
+import { withAuth } from '@/middleware/auth-middleware';
+import {
+    convertImage,
+    ConversionError,
+    getConversionCapabilities,
+    isConvertFormat,
+    type ColorProfileMode,
+    type MetadataMode
+} from '@/lib/image-conversion';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { CONVERT_OUTPUT, type ConvertedFileMetadata } from '../storage';
 
-export async function POST(request: NextRequest) {
+// Formats the server's libvips can write, and whether it can read HEIC
+export const GET = withAuth(async () => {
+    return NextResponse.json(getConversionCapabilities());
+});
+
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/konverter/convert/convert');
     
     try {
-        // Cleanup old files periodically
-        cleanupOldFiles();
-        
         const formData = await request.formData();
         const file = formData.get('file') as File;
-        const outputFormat = formData.get('outputFormat') as string || 'jpg';
+        const requestedFormat = (formData.get('outputFormat') as string || 'jpg').toLowerCase();
+        const outputFormat = requestedFormat === 'jpeg' ? 'jpg' : requestedFormat;
         const quality = parseInt(formData.get('quality') as string || '85', 10);
+        const colorProfile: ColorProfileMode = formData.get('colorProfile') === 'keep' ? 'keep' : 'srgb';
+        const metadata: MetadataMode = formData.get('metadata') === 'keep' ? 'keep' : 'strip';
+        const autoRotate = formData.get('autoRotate') !== 'false';
         
         if (!file) {
             return NextResponse.json({ error: 'Ingen fil uploadet' }, { status: 400 });
         }
+        if (!isConvertFormat(outputFormat)) {
+            return NextResponse.json({ error: 'Ikke-understøttet format' }, { status: 400 });
+        }
         
         // Read file buffer
         const buffer = Buffer.from(await file.arrayBuffer());
         
         // Generate output filename
-        const inputName = file.name.substring(0, file.name.lastIndexOf('.'));
+        const inputName = file.name.includes('.') ? file.name.substring(0, file.name.lastIndexOf('.')) : file.name;
         const outputFilename = `${inputName}.${outputFormat}`;
         
-        // Convert the image using Sharp
-        let sharpInstance = sharp(buffer);
-        
-        // Apply format-specific options
-        switch (outputFormat) {
-            case 'jpg':
-            case 'jpeg':
-                sharpInstance = sharpInstance.jpeg({ quality });
-                break;
-            case 'png':
-                sharpInstance = sharpInstance.png();
-                break;
-            case 'webp':
-                sharpInstance = sharpInstance.webp({ quality });
-                break;
-            case 'gif':
-                sharpInstance = sharpInstance.gif();
-                break;
-            case 'tiff':
-                sharpInstance = sharpInstance.tiff();
-                break;
-            case 'bmp':
-                // Sharp doesn't support BMP directly, convert to PNG
-                sharpInstance = sharpInstance.png();
-                break;
-            default:
-                return NextResponse.json({ error: 'Ikke-understøttet format' }, { status: 400 });
-        }
-        
-        const convertedBuffer = await sharpInstance.toBuffer();
+        const converted = await convertImage(buffer, {
+            format: outputFormat,
+            quality: Number.isFinite(quality) ? Math.min(Math.max(quality, 1), 100) : 85,
+            colorProfile,
+            metadata,
+            autoRotate
+        });
+        const convertedBuffer = converted.buffer;
         
         // Store converted file
-        const fileKey = generateFileKey();
-        convertedFiles.set(fileKey, {
+        const sessionId = await getToolSessionId({ create: true });
+        const { key: fileKey } = await getTempFileStore().put<ConvertedFileMetadata>(sessionId, CONVERT_OUTPUT, {
             filename: outputFilename,
             buffer: convertedBuffer,
-            originalName: file.name,
-            outputFormat
+            metadata: {
+                originalName: file.name,
+                outputFormat
+            }
         });
         
         // Return the URL for the converted file
@@ -74,14 +72,21 @@ export async function POST(request: NextRequest) {
             success: true,
             convertedPath,
             originalName: file.name,
-            outputFormat
+            outputFormat,
+            width: converted.width,
+            height: converted.height,
+            inputFormat: converted.inputFormat,
+            inputHasIccProfile: converted.inputHasIccProfile
         });
         
     } catch (error) {
+        if (error instanceof ConversionError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error('Conversion error:', error);
         return NextResponse.json(
             { error: 'Konvertering fejlede: ' + (error instanceof Error ? error.message : 'Ukendt fejl') },
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
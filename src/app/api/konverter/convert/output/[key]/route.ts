@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { convertedFiles } from '../../storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { CONVERT_OUTPUT, type ConvertedFileMetadata } from '../../storage';
 
 export async function GET(
     request: NextRequest,
-    { params }: { params: { key: string } }
+    { params }: { params: Promise<{ key: string }> }
 ) {
     try {
-        const fileKey = params.key;
-        const file = convertedFiles.get(fileKey);
+        const { key: fileKey } = await params;
+        const sessionId = await getToolSessionId();
+        const file = sessionId ? await getTempFileStore().get<ConvertedFileMetadata>(sessionId, CONVERT_OUTPUT, fileKey) : null;
         
         if (!file) {
             return NextResponse.json({ error: 'Fil ikke fundet' }, { status: 404 });
@@ -15,13 +17,19 @@ export async function GET(
         
         // Determine content type based on format
         let contentType = 'image/jpeg';
-        switch (file.outputFormat) {
+        switch (file.metadata.outputFormat) {
             case 'png':
                 contentType = 'image/png';
                 break;
             case 'webp':
                 contentType = 'image/webp';
                 break;
+            case 'avif':
+                contentType = 'image/avif';
+                break;
+            case 'jxl':
+                contentType = 'image/jxl';
+                break;
             case 'gif':
                 contentType = 'image/gif';
                 break;
@@ -34,7 +42,7 @@ export async function GET(
                 break;
         }
         
-        return new NextResponse(file.buffer, {
+        return new NextResponse(new Uint8Array(file.buffer), {
             headers: {
                 'Content-Type': contentType,
                 'Content-Disposition': `inline; filename="${file.filename}"`,
@@ -0,0 +1,113 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { parseGTIN } from '@/lib/ean-processor';
+import { describeGeminiUsage, recordUsage, type UsageContext } from '@/lib/usage';
+
+// Gemini-powered filename parsing for the rename tool's AI mode (shared by preview and process)
+
+// Initialize Gemini for AI-powered filename parsing if enabled
+export const genAI = process.env.GEMINI_API_KEY ? new GoogleGenerativeAI(process.env.GEMINI_API_KEY) : null;
+
+const AI_MODEL = 'gemini-2.5-pro';
+
+export async function analyzeFilenamesWithAI(
+    filenames: string[],
+    usage: UsageContext
+): Promise<Array<{ ean: string | null; confidence: number }>> {
+    if (!genAI) {
+        return filenames.map(() => ({ ean: null, confidence: 0 }));
+    }
+    
+    const results: Array<{ ean: string | null; confidence: number }> = [];
+    // Token counts are summed so the whole run is one ledger entry
+    const tokens = { promptTokenCount: 0, candidatesTokenCount: 0 };
+    
+    // Process filenames in batches to avoid rate limits
+    const batchSize = 5;
+    for (let i = 0; i < filenames.length; i += batchSize) {
+        const batch = filenames.slice(i, i + batchSize);
+        const batchPromises = batch.map(async (filename) => {
+            try {
+                const model = genAI.getGenerativeModel({ 
+                    model: AI_MODEL,
+                    generationConfig: {
+                        temperature: 0.1,
+                        topP: 0.8,
+                        topK: 40,
+                        maxOutputTokens: 100,
+                    }
+                });
+                
+                const prompt = `Extract the EAN/UPC/GTIN barcode number from this filename: "${filename}"
+
+Rules:
+- Barcodes are exactly 8, 12, 13 or 14 consecutive digits
+- They may be surrounded by underscores, hyphens, dots, or other separators
+- Ignore any other numbers that aren't 8, 12, 13 or 14 digits long
+- Return ONLY the barcode number, nothing else
+- If no valid barcode found, return "NO_EAN"
+
+Examples:
+"product_0630870296793_large.jpg" → "0630870296793"
+"IMG-8901030865278-FINAL.png" → "8901030865278"
+"item_desc_0843251198986_v2.jpg" → "0843251198986"
+"0630870296793__1__new.jpg" → "0630870296793"
+"random_text_123.jpg" → "NO_EAN"
+"photo_98765.png" → "NO_EAN"
+
+Filename: "${filename}"
+EAN:`;
+
+                const result = await model.generateContent(prompt);
+                const response = await result.response;
+                tokens.promptTokenCount += response.usageMetadata?.promptTokenCount ?? 0;
+                tokens.candidatesTokenCount += response.usageMetadata?.candidatesTokenCount ?? 0;
+                const text = response.text().trim();
+                
+                // Validate the response. Only a correct check digit earns high
+                // confidence; a GTIN-length number with a wrong check digit is
+                // still returned so the preview can flag it as invalid.
+                let ean: string | null = null;
+                let confidence = 0;
+
+                const exact = parseGTIN(text);
+                if (exact) {
+                    ean = exact.gtin;
+                    confidence = exact.checkDigitValid ? 0.9 : 0.6;
+                } else if (text === 'NO_EAN') {
+                    confidence = 0.8; // High confidence that no EAN was found
+                } else {
+                    // Unexpected response format, look for a GTIN in the text, preferring one with a valid check digit.
+                    // As with filenames, 8-digit numbers only count as GTIN-8 when their check digit is valid.
+                    const candidates = Array.from(text.matchAll(/\b(\d{8}|\d{12,14})\b/g), (match) => parseGTIN(match[1]))
+                        .filter((gtin) => gtin && (gtin.format !== 'GTIN-8' || gtin.checkDigitValid));
+                    const found = candidates.find((gtin) => gtin?.checkDigitValid) ?? candidates[0];
+                    if (found) {
+                        ean = found.gtin;
+                        confidence = found.checkDigitValid ? 0.7 : 0.6; // Lower confidence for extracted EAN
+                    } else {
+                        confidence = 0.3; // Low confidence, couldn't parse response
+                    }
+                }
+                
+                console.log(`AI parsed "${filename}" → EAN: ${ean || 'none'}, confidence: ${confidence}`);
+                return { ean, confidence };
+                
+            } catch (error) {
+                console.error('Error parsing filename with Gemini:', error);
+                return { ean: null, confidence: 0 };
+            }
+        });
+        
+        const batchResults = await Promise.all(batchPromises);
+        results.push(...batchResults);
+    }
+
+    await recordUsage(usage, {
+        provider: 'gemini',
+        model: AI_MODEL,
+        operation: 'rename-ai',
+        ...describeGeminiUsage(AI_MODEL, tokens)
+    });
+    
+    return results;
+}
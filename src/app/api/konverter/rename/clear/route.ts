@@ -1,31 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { uploadedFiles, processedRenameFiles } from '../storage';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { RENAME_OUTPUT, RENAME_SCAN, RENAME_UPLOADS } from '../storage';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async () => {
     try {
         // Get session ID from cookie
-        const sessionId = request.cookies.get('rename_session')?.value;
+        const sessionId = await getToolSessionId();
         if (!sessionId) {
             return NextResponse.json({ message: 'Ingen aktiv session at rydde' });
         }
         
-        // Clear uploaded files for this session
-        let clearedUploadCount = 0;
-        for (const [key] of uploadedFiles) {
-            if (key.startsWith(sessionId)) {
-                uploadedFiles.delete(key);
-                clearedUploadCount++;
-            }
-        }
-        
-        // Clear processed files for this session
-        let clearedProcessedCount = 0;
-        for (const [key] of processedRenameFiles) {
-            if (key.startsWith(sessionId)) {
-                processedRenameFiles.delete(key);
-                clearedProcessedCount++;
-            }
-        }
+        // Clear uploaded and processed files for this session
+        const store = getTempFileStore();
+        const clearedUploadCount = await store.clear(sessionId, RENAME_UPLOADS);
+        const clearedProcessedCount = await store.clear(sessionId, RENAME_OUTPUT);
+        await store.clear(sessionId, RENAME_SCAN);
         
         console.log(`Cleared ${clearedUploadCount} uploaded and ${clearedProcessedCount} processed files for session ${sessionId}`);
         
@@ -40,4 +30,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
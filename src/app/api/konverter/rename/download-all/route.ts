@@ -1,27 +1,22 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { processedRenameFiles } from '../storage';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { saveExport } from '@/lib/storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { RENAME_OUTPUT } from '../storage';
 import archiver from 'archiver';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async () => {
     console.log('Received POST request to /api/konverter/rename/download-all');
     
     try {
         // Get session ID from cookie
-        const sessionId = request.cookies.get('rename_session')?.value;
+        const sessionId = await getToolSessionId();
         if (!sessionId) {
             return NextResponse.json({ error: 'Ingen aktiv session' }, { status: 400 });
         }
         
         // Get processed files for this session
-        const filesToDownload: Array<{ filename: string; buffer: Buffer }> = [];
-        for (const [key, file] of processedRenameFiles) {
-            if (key.startsWith(sessionId)) {
-                filesToDownload.push({
-                    filename: file.filename,
-                    buffer: file.buffer
-                });
-            }
-        }
+        const filesToDownload = await getTempFileStore().getAll(sessionId, RENAME_OUTPUT);
         
         if (filesToDownload.length === 0) {
             return NextResponse.json({ error: 'Ingen filer at downloade' }, { status: 400 });
@@ -65,11 +60,16 @@ export async function POST(request: NextRequest) {
         console.log(`Created ZIP archive with ${filesToDownload.length} renamed files`);
         
         // Return the ZIP file
+        // Keep a copy in storage so the archive can be fetched again later
+        const zipFilename = `ean-renamed-${Date.now()}.zip`;
+        const exportUrl = await saveExport(zipFilename, zipBuffer);
+
         return new NextResponse(zipBuffer, {
             headers: {
                 'Content-Type': 'application/zip',
-                'Content-Disposition': `attachment; filename="ean-renamed-${Date.now()}.zip"`,
-                'Content-Length': zipBuffer.length.toString()
+                'Content-Disposition': `attachment; filename="${zipFilename}"`,
+                'Content-Length': zipBuffer.length.toString(),
+                ...(exportUrl ? { 'X-Export-Url': exportUrl } : {})
             }
         });
         
@@ -80,4 +80,4 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
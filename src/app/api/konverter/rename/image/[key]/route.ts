@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processedRenameFiles } from '../../storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { RENAME_OUTPUT } from '../../storage';
 
 export async function GET(
     request: NextRequest,
-    { params }: { params: { key: string } }
+    { params }: { params: Promise<{ key: string }> }
 ) {
     try {
-        const fileKey = params.key;
-        const file = processedRenameFiles.get(fileKey);
+        const { key: fileKey } = await params;
+        const sessionId = await getToolSessionId();
+        const file = sessionId ? await getTempFileStore().get(sessionId, RENAME_OUTPUT, fileKey) : null;
         
         if (!file) {
             return NextResponse.json({ error: 'Fil ikke fundet' }, { status: 404 });
@@ -23,7 +25,7 @@ export async function GET(
             contentType = 'image/gif';
         }
         
-        return new NextResponse(file.buffer, {
+        return new NextResponse(new Uint8Array(file.buffer), {
             headers: {
                 'Content-Type': contentType,
                 'Content-Disposition': `inline; filename="${file.filename}"`,
@@ -1,23 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { processedRenameFiles } from '../storage';
+import { NextResponse } from 'next/server';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { RENAME_OUTPUT } from '../storage';
 
-export async function GET(request: NextRequest) {
+export async function GET() {
     try {
         // Get session ID from cookie
-        const sessionId = request.cookies.get('rename_session')?.value;
+        const sessionId = await getToolSessionId();
         if (!sessionId) {
             return NextResponse.json({ images: [] });
         }
         
         // Get processed files for this session
-        const images: string[] = [];
-        for (const [key, file] of processedRenameFiles) {
-            if (key.startsWith(sessionId)) {
-                // Create a URL for the file
-                const fileIndex = key.split('-')[2];
-                images.push(`/api/konverter/rename/image/${sessionId}-${fileIndex}`);
-            }
-        }
+        const images = getTempFileStore()
+            .list(sessionId, RENAME_OUTPUT)
+            .map((file) => `/api/konverter/rename/image/${file.key}`);
         
         console.log(`Returning ${images.length} renamed images for session ${sessionId}`);
         
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { RENAME_SCAN, RENAME_SCAN_KEY, RENAME_UPLOADS, type RenameScanRecord } from '../storage';
+import { createBarcodeCropPreview, scanImageForBarcode, type BarcodeScanResult } from '@/lib/barcode';
+import { isBarcodeSequenceMode, isGTINOutputFormat, processBarcodeScansForPreview } from '@/lib/ean-processor';
+
+/**
+ * Decodes barcodes in the uploaded images and previews the resulting names.
+ * The preview is kept for the session so /process can apply it without
+ * scanning again.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    console.log('Received POST request to /api/konverter/rename/scan');
+
+    try {
+        const body = await request.json();
+        const { removeLeadingZeros = false, skipCards = true } = body;
+        const gtinFormat = isGTINOutputFormat(body.gtinFormat) ? body.gtinFormat : 'keep';
+        const mode = isBarcodeSequenceMode(body.mode) ? body.mode : 'card_sequence';
+
+        // Get session ID from cookie
+        const sessionId = await getToolSessionId();
+        if (!sessionId) {
+            return NextResponse.json({ error: 'Ingen aktiv session' }, { status: 400 });
+        }
+
+        const store = getTempFileStore();
+        const sessionFiles = store.list(sessionId, RENAME_UPLOADS);
+
+        if (sessionFiles.length === 0) {
+            return NextResponse.json({ error: 'Ingen filer fundet at scanne' }, { status: 400 });
+        }
+
+        console.log(`Scanning ${sessionFiles.length} files for barcodes for session ${sessionId}`);
+
+        // Scan one image at a time, loading only that one; decoding large photos is memory hungry
+        const scans: Array<{ barcode: BarcodeScanResult | null; crop: string | null; error?: string }> = [];
+        for (const info of sessionFiles) {
+            const file = await store.get(sessionId, RENAME_UPLOADS, info.key);
+            if (!file) {
+                scans.push({ barcode: null, crop: null, error: 'Filen er udløbet' });
+                continue;
+            }
+
+            try {
+                const barcode = await scanImageForBarcode(file.buffer);
+                const crop = barcode ? await createBarcodeCropPreview(file.buffer, barcode.box) : null;
+                scans.push({ barcode, crop: crop ? `data:image/jpeg;base64,${crop.toString('base64')}` : null });
+
+                if (barcode) {
+                    console.log(
+                        `Decoded ${barcode.symbology} "${barcode.text}" in ${file.filename} (${barcode.hits} scanlines)`
+                    );
+                }
+            } catch (error) {
+                console.error(`Error scanning ${file.filename}:`, error);
+                scans.push({
+                    barcode: null,
+                    crop: null,
+                    error: error instanceof Error ? error.message : 'Ukendt fejl'
+                });
+            }
+        }
+
+        const previewResults = processBarcodeScansForPreview(
+            sessionFiles.map((file, index) => ({ filename: file.filename, gtin: scans[index].barcode?.gtin ?? null })),
+            { mode, removeLeadingZeros, gtinFormat }
+        );
+
+        const record: RenameScanRecord = { skipCards: mode === 'card_sequence' && skipCards, files: previewResults };
+        await store.put(sessionId, RENAME_SCAN, {
+            key: RENAME_SCAN_KEY,
+            filename: 'scan.json',
+            buffer: Buffer.from(JSON.stringify(record))
+        });
+
+        // Calculate summary statistics
+        const renamedCount = previewResults.filter(r => r.status === 'will_rename').length;
+        const keptOriginalCount = previewResults.filter(r => r.status === 'keep_original').length;
+        const cardCount = previewResults.filter(r => r.status === 'barcode_card').length;
+        const decodedCount = scans.filter(scan => scan.barcode).length;
+
+        return NextResponse.json({
+            message: `Scanning komplet: ${decodedCount} stregkoder fundet, ${renamedCount} filer vil blive omdøbt`,
+            totalFiles: sessionFiles.length,
+            renamedCount,
+            keptOriginalCount,
+            cardCount,
+            decodedCount,
+            files: previewResults.map((result, index) => ({
+                ...result,
+                size: sessionFiles[index].size,
+                barcode: scans[index].barcode
+                    ? {
+                          symbology: scans[index].barcode.symbology,
+                          text: scans[index].barcode.text,
+                          crop: scans[index].crop
+                      }
+                    : null,
+                scanError: scans[index].error
+            }))
+        });
+
+    } catch (error) {
+        console.error('Error scanning files:', error);
+        return NextResponse.json(
+            { error: 'Scanning fejlede: ' + (error instanceof Error ? error.message : 'Ukendt fejl') },
+            { status: 500 }
+        );
+    }
+});
@@ -1,44 +1,22 @@
-// In-memory storage for rename tool
-// Maps session ID to uploaded/processed files
+import type { EANPreviewResult } from '@/lib/ean-processor';
 
-interface UploadedFile {
-    filename: string;
-    buffer: Buffer;
-    mimetype: string;
-}
+// Temp file namespaces for the rename tool (see @/lib/temp-file-store)
 
-interface ProcessedFile {
-    filename: string;
-    buffer: Buffer;
-    originalName: string;
-}
-
-// Temporary uploaded files (before processing)
-export const uploadedFiles = new Map<string, UploadedFile>();
+// Uploaded files waiting to be processed
+export const RENAME_UPLOADS = 'rename-uploads';
 
 // Processed renamed files
-export const processedRenameFiles = new Map<string, ProcessedFile>();
+export const RENAME_OUTPUT = 'rename-output';
+
+export type RenameOutputMetadata = {
+    originalName: string;
+};
 
-// Session management - simple timestamp-based session ID
-export function createSessionId(): string {
-    return `rename-${Date.now()}`;
-}
+// Latest barcode scan of the uploads, applied by the process route
+export const RENAME_SCAN = 'rename-scan';
+export const RENAME_SCAN_KEY = 'latest';
 
-// Cleanup old sessions (older than 1 hour)
-export function cleanupOldSessions() {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    
-    for (const [key] of uploadedFiles) {
-        const timestamp = parseInt(key.split('-')[1]);
-        if (timestamp < oneHourAgo) {
-            uploadedFiles.delete(key);
-        }
-    }
-    
-    for (const [key] of processedRenameFiles) {
-        const timestamp = parseInt(key.split('-')[1]);
-        if (timestamp < oneHourAgo) {
-            processedRenameFiles.delete(key);
-        }
-    }
-}
\ No newline at end of file
+export type RenameScanRecord = {
+    skipCards: boolean;
+    files: EANPreviewResult[];
+};
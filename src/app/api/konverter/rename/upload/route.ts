@@ -1,40 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { uploadedFiles, createSessionId, cleanupOldSessions } from '../storage';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { attachUploadedFiles, UploadError } from '@/lib/uploads';
+import { RENAME_SCAN, RENAME_UPLOADS } from '../storage';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
     console.log('Received POST request to /api/konverter/rename/upload');
     
     try {
-        // Cleanup old sessions periodically
-        cleanupOldSessions();
-        
         const formData = await request.formData();
+        await attachUploadedFiles(formData);
         const files = formData.getAll('images') as File[];
         
         if (!files || files.length === 0) {
             return NextResponse.json({ error: 'Ingen filer blev uploadet' }, { status: 400 });
         }
         
-        // Create a new session
-        const sessionId = createSessionId();
+        const sessionId = await getToolSessionId({ create: true });
+        const store = getTempFileStore();
         
-        // Clear any existing files for this session
-        for (const [key] of uploadedFiles) {
-            if (key.startsWith(sessionId)) {
-                uploadedFiles.delete(key);
-            }
-        }
+        // Clear any existing files for this session, and the scan that described them
+        await store.clear(sessionId, RENAME_UPLOADS);
+        await store.clear(sessionId, RENAME_SCAN);
         
-        // Store uploaded files in memory
+        // Store uploaded files; zero-padded keys keep the upload order
         let uploadCount = 0;
         for (const file of files) {
             const buffer = Buffer.from(await file.arrayBuffer());
-            const fileKey = `${sessionId}-${uploadCount}`;
             
-            uploadedFiles.set(fileKey, {
+            await store.put(sessionId, RENAME_UPLOADS, {
+                key: String(uploadCount).padStart(5, '0'),
                 filename: file.name,
                 buffer,
-                mimetype: file.type
+                metadata: { mimetype: file.type }
             });
             
             uploadCount++;
@@ -42,27 +40,20 @@ export async function POST(request: NextRequest) {
         
         console.log(`Uploaded ${uploadCount} files for session ${sessionId}`);
         
-        // Store session ID in response
-        const response = NextResponse.json({
+        return NextResponse.json({
             message: `Succesfuldt uploadet ${uploadCount} filer`,
             count: uploadCount,
             sessionId
         });
         
-        // Set session cookie
-        response.cookies.set('rename_session', sessionId, {
-            httpOnly: true,
-            sameSite: 'strict',
-            maxAge: 60 * 60 // 1 hour
-        });
-        
-        return response;
-        
     } catch (error) {
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error('Error during file upload:', error);
         return NextResponse.json(
             { error: 'Upload fejlede: ' + (error instanceof Error ? error.message : 'Ukendt fejl') },
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+});
@@ -0,0 +1,22 @@
+import { RENDITIONS_OUTPUT } from '../storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { withAuth } from '@/middleware/auth-middleware';
+import { NextResponse } from 'next/server';
+
+export const POST = withAuth(async () => {
+    try {
+        // Clear this session's renditions
+        const sessionId = await getToolSessionId();
+        const clearedCount = sessionId ? await getTempFileStore().clear(sessionId, RENDITIONS_OUTPUT) : 0;
+
+        console.log(`Cleared ${clearedCount} renditions`);
+
+        return NextResponse.json({
+            success: true,
+            message: `Alle ${clearedCount} filer ryddet`
+        });
+    } catch (error) {
+        console.error('Error clearing renditions:', error);
+        return NextResponse.json({ error: 'Kunne ikke rydde filer' }, { status: 500 });
+    }
+});
@@ -0,0 +1,97 @@
+import { RENDITIONS_OUTPUT, type RenditionFileMetadata } from '../storage';
+import { buildRenditionManifest, type RenditionFormat, type RenditionManifestImage } from '@/lib/renditions';
+import { saveExport } from '@/lib/storage';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { withAuth } from '@/middleware/auth-middleware';
+import archiver from 'archiver';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * ZIP of the given renditions plus a manifest.json with each source image's
+ * renditions and a srcset string per format
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const { files } = (await request.json()) as { files?: string[] };
+
+        if (!files || files.length === 0) {
+            return NextResponse.json({ error: 'Ingen filer at downloade' }, { status: 400 });
+        }
+
+        const sessionId = await getToolSessionId();
+        if (!sessionId) {
+            return NextResponse.json({ error: 'Ingen aktiv session' }, { status: 400 });
+        }
+        const store = getTempFileStore();
+
+        const archive = archiver('zip', { zlib: { level: 9 } });
+        const chunks: Uint8Array[] = [];
+        archive.on('data', (chunk) => chunks.push(chunk));
+        const endPromise = new Promise((resolve, reject) => {
+            archive.on('end', resolve);
+            archive.on('error', reject);
+        });
+
+        // Grouped by {name}, which the client keeps unique per batch
+        const images = new Map<string, Omit<RenditionManifestImage, 'srcset'>>();
+        // Stored key per ZIP entry name; the same file listed twice is added once
+        const added = new Map<string, string>();
+        for (const filePath of files) {
+            const match = filePath.match(/\/output\/(.+)$/);
+            const file = match ? await store.get<RenditionFileMetadata>(sessionId, RENDITIONS_OUTPUT, match[1]) : null;
+            if (!file || added.get(file.filename) === file.key) continue;
+            // Two different files with one name would overwrite each other in the ZIP
+            if (added.has(file.filename)) {
+                return NextResponse.json({ error: `Flere filer hedder ${file.filename}` }, { status: 409 });
+            }
+
+            archive.append(file.buffer, { name: file.filename });
+            added.set(file.filename, file.key);
+
+            const { metadata } = file;
+            const image = images.get(metadata.name) ?? {
+                source: metadata.source,
+                width: metadata.sourceWidth,
+                height: metadata.sourceHeight,
+                renditions: []
+            };
+            image.renditions.push({
+                filename: file.filename,
+                format: metadata.format as RenditionFormat,
+                width: metadata.width,
+                height: metadata.height,
+                bytes: file.buffer.length
+            });
+            images.set(metadata.name, image);
+        }
+
+        if (added.size === 0) {
+            return NextResponse.json({ error: 'Ingen gyldige filer fundet' }, { status: 400 });
+        }
+
+        const manifest = buildRenditionManifest([...images.values()]);
+        archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+
+        await archive.finalize();
+        await endPromise;
+        const zipBuffer = Buffer.concat(chunks);
+
+        console.log(`Created ZIP archive with ${added.size} renditions of ${images.size} images`);
+
+        // Keep a copy in storage so the archive can be fetched again later
+        const zipFilename = `renditions-${Date.now()}.zip`;
+        const exportUrl = await saveExport(zipFilename, zipBuffer);
+
+        return new NextResponse(zipBuffer, {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': `attachment; filename="${zipFilename}"`,
+                'Content-Length': zipBuffer.length.toString(),
+                ...(exportUrl ? { 'X-Export-Url': exportUrl } : {})
+            }
+        });
+    } catch (error) {
+        console.error('Error creating renditions ZIP:', error);
+        return NextResponse.json({ error: 'Download fejlede' }, { status: 500 });
+    }
+});
@@ -0,0 +1,30 @@
+import { RENDITIONS_OUTPUT, type RenditionFileMetadata } from '../../storage';
+import { CONVERT_CONTENT_TYPES, isConvertFormat } from '@/lib/image-conversion';
+import { getTempFileStore, getToolSessionId } from '@/lib/temp-file-store';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+    try {
+        const { key: fileKey } = await params;
+        const sessionId = await getToolSessionId();
+        const file = sessionId
+            ? await getTempFileStore().get<RenditionFileMetadata>(sessionId, RENDITIONS_OUTPUT, fileKey)
+            : null;
+
+        if (!file) {
+            return NextResponse.json({ error: 'Fil ikke fundet' }, { status: 404 });
+        }
+
+        const { format } = file.metadata;
+        return new NextResponse(new Uint8Array(file.buffer), {
+            headers: {
+                'Content-Type': isConvertFormat(format) ? CONVERT_CONTENT_TYPES[format] : 'application/octet-stream',
+                'Content-Disposition': `inline; filename="${file.filename}"`,
+                'Cache-Control': 'no-cache, no-store, must-revalidate'
+            }
+        });
+    } catch (error) {
+        console.error('Error serving rendition:', error);
+        return NextResponse.json({ error: 'Kunne ikke hente billede' }, { status: 500 });
+    }
+}
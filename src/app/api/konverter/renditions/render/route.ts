@@ -0,0 +1,120 @@
+import { RENDITIONS_OUTPUT, type RenditionFileMetadata } from '../storage';
+import { convertImage, ConversionError, readImageMetadata } from '@/lib/image-conversion';
+import {
+    buildSrcset,
+    formatRenditionName,
+    getRenditionWidths,
+    parseRenditionSet,
+    RenditionError,
+    type RenditionFile
+} from '@/lib/renditions';
+import { getTempFileStore, getToolSessionId, TempFileQuotaError } from '@/lib/temp-file-store';
+import { attachUploadedFiles, UploadError } from '@/lib/uploads';
+import { withAuth } from '@/middleware/auth-middleware';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Renders one uploaded image at every width × format of a rendition set.
+ * Form fields: file (an upload reference), renditionSet (JSON) and optionally
+ * name, the {name} to use instead of the filename so a batch can keep names unique.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const formData = await request.formData();
+        await attachUploadedFiles(formData);
+        const file = formData.get('file') as File | null;
+
+        if (!file) {
+            return NextResponse.json({ error: 'Ingen fil uploadet' }, { status: 400 });
+        }
+
+        let renditionSet;
+        try {
+            renditionSet = parseRenditionSet(JSON.parse((formData.get('renditionSet') as string) || 'null'));
+        } catch (error) {
+            if (error instanceof SyntaxError) {
+                throw new RenditionError('Rendition-sættet er ikke gyldig JSON');
+            }
+            throw error;
+        }
+
+        const requestedName = ((formData.get('name') as string) || '').trim();
+        const name = (requestedName || file.name.replace(/\.[^/.]+$/, '')).replace(/[/\\]/g, '-');
+
+        const buffer = Buffer.from(await file.arrayBuffer());
+        const metadata = await readImageMetadata(buffer);
+        // Dimensions once turned upright, since every rendition is auto-rotated
+        const sourceWidth = metadata.autoOrient?.width ?? metadata.width ?? 0;
+        const sourceHeight = metadata.autoOrient?.height ?? metadata.height ?? 0;
+
+        const sessionId = await getToolSessionId({ create: true });
+        const store = getTempFileStore();
+        const renditions: Array<RenditionFile & { path: string }> = [];
+
+        for (const width of getRenditionWidths(renditionSet, sourceWidth)) {
+            for (const format of renditionSet.formats) {
+                const converted = await convertImage(buffer, {
+                    format,
+                    quality: renditionSet.quality,
+                    colorProfile: 'srgb',
+                    metadata: 'strip',
+                    autoRotate: true,
+                    width
+                });
+                const filename = formatRenditionName(renditionSet.namePattern, {
+                    name,
+                    width: converted.width,
+                    height: converted.height,
+                    format
+                });
+                const { key } = await store.put<RenditionFileMetadata>(sessionId, RENDITIONS_OUTPUT, {
+                    filename,
+                    buffer: converted.buffer,
+                    metadata: {
+                        source: file.name,
+                        name,
+                        sourceWidth,
+                        sourceHeight,
+                        format,
+                        width: converted.width,
+                        height: converted.height
+                    }
+                });
+                renditions.push({
+                    filename,
+                    format,
+                    width: converted.width,
+                    height: converted.height,
+                    bytes: converted.buffer.length,
+                    path: `/api/konverter/renditions/output/${key}`
+                });
+            }
+        }
+
+        console.log(`Rendered ${renditions.length} renditions of ${file.name}`);
+
+        return NextResponse.json({
+            source: file.name,
+            name,
+            width: sourceWidth,
+            height: sourceHeight,
+            renditions,
+            srcset: Object.fromEntries(renditionSet.formats.map((format) => [format, buildSrcset(renditions, format)]))
+        });
+    } catch (error) {
+        if (error instanceof RenditionError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof ConversionError || error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        if (error instanceof TempFileQuotaError) {
+            return NextResponse.json({ error: error.message }, { status: 507 });
+        }
+        console.error('Rendition error:', error);
+        return NextResponse.json(
+            { error: 'Renditions fejlede: ' + (error instanceof Error ? error.message : 'Ukendt fejl') },
+            { status: 500 }
+        );
+    }
+});
@@ -0,0 +1,14 @@
+// Temp file namespace for the renditions tool (see @/lib/temp-file-store)
+
+export const RENDITIONS_OUTPUT = 'renditions-output';
+
+export type RenditionFileMetadata = {
+    // Uploaded filename and the {name} it was rendered under
+    source: string;
+    name: string;
+    sourceWidth: number;
+    sourceHeight: number;
+    format: string;
+    width: number;
+    height: number;
+};
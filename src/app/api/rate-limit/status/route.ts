@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getRateLimitStatus } from '@/middleware/rate-limit';
+
+// Remaining quota per limit for the current user, so the UI can show it before a request is rejected
+export const GET = withAuth(async (request: NextRequest) => {
+    try {
+        return NextResponse.json(await getRateLimitStatus(request));
+    } catch (error) {
+        console.error('Error reading rate limit status:', error);
+        return NextResponse.json({ error: 'Failed to read rate limit status' }, { status: 500 });
+    }
+}, 'viewer');
@@ -1,9 +1,14 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { NextRequest, NextResponse } from 'next/server';
+import { describeGeminiUsage, recordUsage, toUsageContext } from '@/lib/usage';
+import { withAuthAndRateLimit } from '@/middleware/rate-limit';
+import { checkUsageBudget } from '@/middleware/usage-budget';
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
 
-export async function POST(request: NextRequest) {
+const GEMINI_MODEL = 'gemini-2.5-pro';
+
+export const POST = withAuthAndRateLimit(async (request: NextRequest, { user }) => {
     try {
         const { prompt, imageData, selectedTags } = await request.json();
 
@@ -15,7 +20,12 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Gemini API-nøgle ikke konfigureret' }, { status: 500 });
         }
 
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-pro' });
+        const budget = await checkUsageBudget(user);
+        if (!budget.allowed && budget.error) {
+            return budget.error;
+        }
+
+        const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
 
         // Build system prompt with context
         const tagsText =
@@ -74,6 +84,13 @@ Svar kun med den forbedrede prompt på dansk - ingen forklaringer:`;
             ]
         });
 
+        await recordUsage(toUsageContext(user), {
+            provider: 'gemini',
+            model: GEMINI_MODEL,
+            operation: 'refine-prompt',
+            ...describeGeminiUsage(GEMINI_MODEL, result.response.usageMetadata)
+        });
+
         const refinedPrompt = result.response.text().trim();
 
         return NextResponse.json({ refinedPrompt });
@@ -92,4 +109,4 @@ Svar kun med den forbedrede prompt på dansk - ingen forklaringer:`;
 
         return NextResponse.json({ error: 'Der opstod en fejl ved forbedring af prompt' }, { status: 500 });
     }
-}
+}, 'api');
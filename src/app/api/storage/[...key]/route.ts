@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage, verifyLocalSignedUrl } from '@/lib/storage';
+
+// Serves signed URLs handed out by the local storage backend (S3 URLs point at the bucket directly)
+export async function GET(request: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+    const { key: segments } = await params;
+    const key = segments.join('/');
+
+    const { searchParams } = request.nextUrl;
+    if (!verifyLocalSignedUrl(key, searchParams.get('expires'), searchParams.get('signature'))) {
+        return NextResponse.json({ error: 'Invalid or expired link' }, { status: 403 });
+    }
+
+    try {
+        const object = await getStorage().get(key);
+        if (!object) {
+            return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+
+        const filename = segments[segments.length - 1];
+        return new NextResponse(new Uint8Array(object.data), {
+            status: 200,
+            headers: {
+                'Content-Type': object.contentType,
+                'Content-Length': object.size.toString(),
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Cache-Control': 'private, max-age=300'
+            }
+        });
+    } catch (error) {
+        console.error(`Error serving stored file ${key}:`, error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
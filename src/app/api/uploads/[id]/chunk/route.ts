@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getToolSessionId } from '@/lib/temp-file-store';
+import { UPLOAD_CHUNK_SIZE } from '@/lib/upload-protocol';
+import { putUploadChunk, UploadError } from '@/lib/uploads';
+
+interface RouteParams {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+const chunkTooLarge = () => new UploadError(`Chunks can be at most ${UPLOAD_CHUNK_SIZE} bytes`, 413);
+
+// Reads the body, giving up as soon as it is larger than a chunk can be
+async function readChunk(request: NextRequest): Promise<Buffer> {
+    const contentLength = parseInt(request.headers.get('content-length') ?? '', 10);
+    if (contentLength > UPLOAD_CHUNK_SIZE) {
+        throw chunkTooLarge();
+    }
+    if (!request.body) {
+        return Buffer.alloc(0);
+    }
+
+    const parts: Uint8Array[] = [];
+    let size = 0;
+    const reader = request.body.getReader();
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        size += value.byteLength;
+        if (size > UPLOAD_CHUNK_SIZE) {
+            await reader.cancel();
+            throw chunkTooLarge();
+        }
+        parts.push(value);
+    }
+    return Buffer.concat(parts);
+}
+
+/**
+ * Receives one chunk of an upload as the raw request body
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    return withAuth(async () => {
+        try {
+            const sessionId = await getToolSessionId();
+            if (!sessionId) {
+                return NextResponse.json({ error: 'Start the upload first' }, { status: 400 });
+            }
+
+            const index = parseInt(request.nextUrl.searchParams.get('index') ?? '', 10);
+            const chunk = await readChunk(request);
+            await putUploadChunk(sessionId, id, index, chunk);
+
+            return NextResponse.json({ index, size: chunk.length });
+        } catch (error) {
+            if (error instanceof UploadError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error(`Error receiving chunk for upload ${id}:`, error);
+            return NextResponse.json({ error: 'Failed to store chunk' }, { status: 500 });
+        }
+    })(request);
+}
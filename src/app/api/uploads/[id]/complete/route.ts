@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getToolSessionId } from '@/lib/temp-file-store';
+import { completeUpload, UploadError } from '@/lib/uploads';
+
+interface RouteParams {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+/**
+ * Assembles an upload's chunks into a single stored file
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+
+    return withAuth(async () => {
+        try {
+            const sessionId = await getToolSessionId();
+            if (!sessionId) {
+                return NextResponse.json({ error: 'Start the upload first' }, { status: 400 });
+            }
+
+            const body = await request.json();
+            const file = await completeUpload(sessionId, id, {
+                filename: typeof body.filename === 'string' ? body.filename : '',
+                size: Number(body.size),
+                type: typeof body.type === 'string' ? body.type : null
+            });
+
+            console.log(`Completed upload of ${file.filename} (${file.size} bytes)`);
+            return NextResponse.json(file);
+        } catch (error) {
+            if (error instanceof UploadError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            console.error(`Error completing upload ${id}:`, error);
+            return NextResponse.json({ error: 'Failed to complete upload' }, { status: 500 });
+        }
+    })(request);
+}
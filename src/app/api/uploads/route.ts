@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/middleware/auth-middleware';
+import { getToolSessionId } from '@/lib/temp-file-store';
+import { findUploadedHashes, initUpload, UploadError } from '@/lib/uploads';
+
+/**
+ * Starts (or resumes) a chunked upload. See @/lib/upload-protocol.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+    try {
+        const body = await request.json();
+        const sessionId = await getToolSessionId({ create: true });
+
+        const result = await initUpload(sessionId, {
+            filename: typeof body.filename === 'string' ? body.filename : '',
+            size: Number(body.size),
+            sha256: typeof body.sha256 === 'string' ? body.sha256 : null
+        });
+
+        if (result.complete) {
+            console.log(`Upload of ${body.filename} skipped, content already uploaded`);
+        }
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof UploadError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Error starting upload:', error);
+        return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 });
+    }
+});
+
+/**
+ * Lists which of `?hashes=a,b,...` this session has already uploaded, so the
+ * dropzones can point out files that won't need sending again.
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+    const hashes = (request.nextUrl.searchParams.get('hashes') || '')
+        .split(',')
+        .map((hash) => hash.trim())
+        .filter(Boolean)
+        .slice(0, 200);
+
+    const sessionId = await getToolSessionId();
+    const existing = sessionId ? findUploadedHashes(sessionId, hashes) : [];
+    return NextResponse.json({ existing });
+}, 'viewer');
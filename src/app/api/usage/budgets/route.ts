@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBudgetStore, type UsageBudgetsPatch } from '@/lib/usage';
+import { withAuth } from '@/middleware/auth-middleware';
+
+function isLimit(value: unknown): value is number | null {
+    return value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+}
+
+export const GET = withAuth(async () => {
+    try {
+        return NextResponse.json({ budgets: await getBudgetStore().get() });
+    } catch (error) {
+        console.error('Error reading usage budgets:', error);
+        return NextResponse.json({ error: 'Failed to read budgets' }, { status: 500 });
+    }
+}, 'admin');
+
+/**
+ * Updates monthly budgets in USD. null means unlimited; a user limit of
+ * 'default' removes that user's own limit.
+ */
+export const PUT = withAuth(async (request: NextRequest, { user: admin }) => {
+    let body: { globalMonthlyUsd?: unknown; defaultUserMonthlyUsd?: unknown; users?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid request body: Must be JSON.' }, { status: 400 });
+    }
+
+    const patch: UsageBudgetsPatch = {};
+    const invalidLimit = 'Budgets must be a non-negative number or null.';
+
+    if (body.globalMonthlyUsd !== undefined) {
+        if (!isLimit(body.globalMonthlyUsd)) {
+            return NextResponse.json({ error: invalidLimit }, { status: 400 });
+        }
+        patch.globalMonthlyUsd = body.globalMonthlyUsd;
+    }
+    if (body.defaultUserMonthlyUsd !== undefined) {
+        if (!isLimit(body.defaultUserMonthlyUsd)) {
+            return NextResponse.json({ error: invalidLimit }, { status: 400 });
+        }
+        patch.defaultUserMonthlyUsd = body.defaultUserMonthlyUsd;
+    }
+    if (body.users !== undefined) {
+        if (typeof body.users !== 'object' || body.users === null || Array.isArray(body.users)) {
+            return NextResponse.json({ error: 'users must map user ids to budgets.' }, { status: 400 });
+        }
+        patch.users = {};
+        for (const [userId, limit] of Object.entries(body.users)) {
+            if (limit !== 'default' && !isLimit(limit)) {
+                return NextResponse.json({ error: invalidLimit }, { status: 400 });
+            }
+            patch.users[userId] = limit;
+        }
+    }
+
+    try {
+        const budgets = await getBudgetStore().update(patch);
+        console.log(`User '${admin.username}' updated usage budgets`);
+        return NextResponse.json({ budgets });
+    } catch (error) {
+        console.error('Error updating usage budgets:', error);
+        return NextResponse.json({ error: 'Failed to update budgets' }, { status: 500 });
+    }
+}, 'admin');
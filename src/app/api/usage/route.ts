@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasRole } from '@/lib/user-store';
+import {
+    getBudgetStatus,
+    getUsageLedger,
+    groupUsage,
+    isUsageGroupBy,
+    sumUsageCost,
+    usageEntriesToCsv,
+    usageGroupsToCsv
+} from '@/lib/usage';
+import { withAuth } from '@/middleware/auth-middleware';
+
+// Accepts 'YYYY-MM-DD' or a full ISO timestamp
+function parseDate(value: string | null, endOfDay = false): number | null {
+    if (!value) return null;
+    const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const timestamp = Date.parse(isDateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value);
+    return isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * Usage report. Admins see everyone's usage; other users only their own.
+ * Query: from, to, userId, provider, project, groupBy, format=csv
+ */
+export const GET = withAuth(async (request: NextRequest, { user }) => {
+    const params = request.nextUrl.searchParams;
+
+    const now = new Date();
+    const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+    const from = parseDate(params.get('from')) ?? monthStart;
+    const to = parseDate(params.get('to'), true) ?? now.getTime();
+    if (from > to) {
+        return NextResponse.json({ error: "'from' must be before 'to'." }, { status: 400 });
+    }
+
+    const groupBy = params.get('groupBy');
+    if (groupBy !== null && !isUsageGroupBy(groupBy)) {
+        return NextResponse.json(
+            { error: 'groupBy must be one of user, provider, model, project, operation or day.' },
+            { status: 400 }
+        );
+    }
+
+    const isAdmin = hasRole(user.role, 'admin');
+    const userId = isAdmin ? params.get('userId') || undefined : user.id;
+
+    try {
+        const entries = await getUsageLedger().query({
+            from,
+            to,
+            userId,
+            provider: params.get('provider') || undefined,
+            project: params.get('project') || undefined
+        });
+        const groups = groupBy ? groupUsage(entries, groupBy) : null;
+
+        if (params.get('format') === 'csv') {
+            const csv = groups && groupBy ? usageGroupsToCsv(groups, groupBy) : usageEntriesToCsv(entries);
+            const filename = `usage-${new Date(from).toISOString().slice(0, 10)}-${new Date(to).toISOString().slice(0, 10)}.csv`;
+            return new NextResponse(csv, {
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="${filename}"`
+                }
+            });
+        }
+
+        return NextResponse.json({
+            from: new Date(from).toISOString(),
+            to: new Date(to).toISOString(),
+            totalCostUsd: sumUsageCost(entries),
+            calls: entries.length,
+            groups,
+            // Raw entries only when not grouped, newest first
+            entries: groups ? undefined : entries.slice().reverse(),
+            budget: await getBudgetStatus(user.id)
+        });
+    } catch (error) {
+        console.error('Error building usage report:', error);
+        return NextResponse.json({ error: 'Failed to build usage report' }, { status: 500 });
+    }
+}, 'viewer');
@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createVideoGeneration, validateVideoRequest, createPromptImages } from '@/lib/runway-client';
 import type { VideoGenerationRequest, ImageSource } from '@/types/video';
-import { verifyPasswordWithMigration, initializePasswordHash } from '@/lib/password-migration';
+import { getStorage } from '@/lib/storage';
 import { withAuthAndRateLimit } from '@/middleware/rate-limit';
+import { estimateVideoCost, toUsageContext } from '@/lib/usage';
+import { checkUsageBudget } from '@/middleware/usage-budget';
 
-// Initialize password hash on module load
-initializePasswordHash().catch(console.error);
-
-export const POST = withAuthAndRateLimit(async (request: NextRequest) => {
+export const POST = withAuthAndRateLimit(async (request: NextRequest, { user }) => {
     console.log('Received POST request to /api/video-generate');
 
     if (!process.env.RUNWAYML_API_SECRET) {
@@ -106,41 +105,13 @@ export const POST = withAuthAndRateLimit(async (request: NextRequest) => {
                         throw new Error('Invalid image URL format');
                     }
                     
-                    const storageMode = process.env.NEXT_PUBLIC_IMAGE_STORAGE_MODE === 'indexeddb' ? 'indexeddb' : 'fs';
-                    
-                    if (storageMode === 'indexeddb') {
-                        // Fetch from IndexedDB
-                        const { db } = await import('@/lib/db');
-                        const imageRecord = await db.images.get(filename);
-                        
-                        if (!imageRecord || !imageRecord.blob) {
-                            throw new Error('Image not found in IndexedDB');
-                        }
-                        
-                        // Convert blob to data URI
-                        const arrayBuffer = await imageRecord.blob.arrayBuffer();
-                        const base64 = Buffer.from(arrayBuffer).toString('base64');
-                        const mimeType = imageRecord.blob.type || 'image/png';
-                        return `data:${mimeType};base64,${base64}`;
-                    } else {
-                        // Fetch from filesystem
-                        const fs = await import('fs/promises');
-                        const path = await import('path');
-                        const imageBaseDir = path.resolve(process.cwd(), 'generated-images');
-                        const filepath = path.join(imageBaseDir, filename);
-                        
-                        const fileBuffer = await fs.readFile(filepath);
-                        const base64 = fileBuffer.toString('base64');
-                        
-                        // Detect MIME type from extension
-                        const ext = path.extname(filename).toLowerCase();
-                        let mimeType = 'image/png';
-                        if (ext === '.jpg' || ext === '.jpeg') mimeType = 'image/jpeg';
-                        else if (ext === '.webp') mimeType = 'image/webp';
-                        else if (ext === '.gif') mimeType = 'image/gif';
-                        
-                        return `data:${mimeType};base64,${base64}`;
+                    // Images only reach the server storage in fs mode; IndexedDB images arrive as data URIs
+                    const image = await getStorage().get(filename);
+                    if (!image) {
+                        throw new Error(`Image ${filename} not found in storage`);
                     }
+
+                    return `data:${image.contentType};base64,${image.data.toString('base64')}`;
                 }
                 
                 throw new Error('Unsupported URL format');
@@ -232,8 +203,17 @@ export const POST = withAuthAndRateLimit(async (request: NextRequest) => {
             }, { status: 400 });
         }
 
+        const budget = await checkUsageBudget(user);
+        if (!budget.allowed && budget.error) {
+            return budget.error;
+        }
+
         // Create video generation task
-        const task = await createVideoGeneration(videoRequest);
+        const task = await createVideoGeneration(
+            videoRequest,
+            toUsageContext(user, formData.get('project') as string | null)
+        );
+        const estimatedCost = estimateVideoCost(videoRequest.model, videoRequest.duration);
         
         console.log('Video generation task created successfully:', task.id);
 
@@ -1,5 +1,6 @@
 import './globals.css';
 import { ThemeProvider } from '@/components/theme-provider';
+import { ProjectProvider } from '@/contexts/project-context';
 import { StagewiseToolbar } from '@stagewise/toolbar-next';
 import ReactPlugin from '@stagewise-plugins/react';
 import type { Metadata } from 'next';
@@ -32,7 +33,7 @@ export default function RootLayout({
         <html lang='en' suppressHydrationWarning>
             <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
                 <ThemeProvider attribute='class' defaultTheme='dark' enableSystem={false} disableTransitionOnChange>
-                    {children}
+                    <ProjectProvider>{children}</ProjectProvider>
                     <StagewiseToolbar config={{ plugins: [ReactPlugin] }} />
                 </ThemeProvider>
             </body>
@@ -10,19 +10,24 @@ import { HistoryPanel } from '@/components/history-panel';
 import { ImageOutput } from '@/components/image-output';
 import { ImageEditingSuite } from '@/components/image-editing-suite';
 import { KonverterToolsSuite } from '@/components/konverter-tools-suite';
+import { ProjectView } from '@/components/project-view';
 // import { MoodboardCenter, type GeneratedImage } from '@/components/moodboard-center'; // Commented out - moodboard disabled
 // import { MoodboardPresets } from '@/components/moodboard-presets'; // Commented out - moodboard disabled
-import { PasswordDialog } from '@/components/password-dialog';
+import { LoginDialog } from '@/components/password-dialog';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { apiManager } from '@/lib/api-manager';
 import { db, type ImageRecord, type VideoMetadata } from '@/lib/db';
+import type { HistoryLineage, LineageOperation } from '@/lib/lineage';
+import type { PublicUser } from '@/lib/user-store';
 import { downloadSingleImage, type DownloadableImage } from '@/lib/download-manager';
+import { appendUploadedFile } from '@/lib/upload-protocol';
 // import { MOODBOARD_PRESETS } from '@/lib/prompt-templates'; // Commented out - moodboard disabled
 // import type { MoodboardPreset } from '@/types/templates'; // Commented out - moodboard disabled
 import type { VideoGenerationFormData, VideoHistoryItem, RunwayTask } from '@/types/video';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { Image as ImageIcon, Video, Palette, Edit, Settings2 } from 'lucide-react';
+import { Image as ImageIcon, Video, Palette, Edit, Settings2, FolderOpen } from 'lucide-react';
 import * as React from 'react';
 import { useCSRF } from '@/hooks/use-csrf';
 
@@ -31,6 +36,8 @@ type HistoryImage = {
 };
 
 export type HistoryMetadata = {
+    // Key in the local history database, assigned when the entry is first saved
+    id?: string;
     timestamp: number;
     images: HistoryImage[];
     storageModeUsed?: 'fs' | 'indexeddb';
@@ -41,12 +48,13 @@ export type HistoryMetadata = {
     prompt: string;
     mode: 'generate' | 'edit';
     output_format?: 'png' | 'jpeg' | 'webp';
-};
-
-type DrawnPoint = {
-    x: number;
-    y: number;
-    size: number;
+    provider?: string;
+    model?: string;
+    // What this entry was made from; missing on entries from before lineage was recorded
+    lineage?: HistoryLineage;
+    // Prompt template and tags the prompt was built from
+    templateId?: string;
+    tags?: string[];
 };
 
 const MAX_EDIT_IMAGES = 10;
@@ -78,12 +86,106 @@ type ApiImageResponseItem = {
     path?: string;
 };
 
+type PendingImageJob = {
+    jobId: string;
+    prompt: string;
+    mode: 'generate' | 'edit';
+    startTime: number;
+    lineage?: HistoryLineage;
+    templateId?: string;
+    tags?: string[];
+};
+
+type ImageJobResult = {
+    images: ApiImageResponseItem[];
+    provider?: string;
+    model?: string;
+};
+
+type ImageJobStatusResponse = {
+    id: string;
+    status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+    progress: number;
+    error?: string;
+    result?: ImageJobResult;
+};
+
+const PENDING_IMAGE_JOB_KEY = 'pendingImageJob';
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_POLL_MAX_DELAY_MS = 30000;
+const JOB_POLL_MAX_RETRIES = 5;
+
+// The job ended without images (failed, cancelled or no longer known to the server)
+class ImageJobEndedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImageJobEndedError';
+    }
+}
+
+async function fetchImageJob(jobId: string): Promise<ImageJobStatusResponse> {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    if (response.status === 404) {
+        throw new ImageJobEndedError('The image job no longer exists.');
+    }
+
+    const job: ImageJobStatusResponse = await response.json();
+    if (!response.ok) {
+        throw new Error(job.error || `Job status request failed with status ${response.status}`);
+    }
+    return job;
+}
+
+// Poll the job endpoint until the image job reaches a final state. Failed polls
+// are retried with a growing delay before giving up.
+async function waitForImageJob(jobId: string): Promise<ImageJobResult> {
+    let failedPolls = 0;
+
+    while (true) {
+        let job: ImageJobStatusResponse | null = null;
+        try {
+            job = await fetchImageJob(jobId);
+            failedPolls = 0;
+        } catch (err: unknown) {
+            if (err instanceof ImageJobEndedError || failedPolls >= JOB_POLL_MAX_RETRIES) {
+                throw err;
+            }
+            failedPolls++;
+            console.warn(`Polling image job ${jobId} failed (attempt ${failedPolls}), retrying:`, err);
+        }
+
+        if (job?.status === 'completed') {
+            return job.result || { images: [] };
+        }
+        if (job?.status === 'failed') {
+            throw new ImageJobEndedError(job.error || 'Image generation failed.');
+        }
+        if (job?.status === 'cancelled') {
+            throw new ImageJobEndedError('Image generation was cancelled.');
+        }
+
+        const delay = Math.min(JOB_POLL_INTERVAL_MS * 2 ** failedPolls, JOB_POLL_MAX_DELAY_MS);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+}
+
+function getApiErrorMessage(err: unknown): string {
+    if (err instanceof Error) {
+        if (err.message === 'Failed to fetch') {
+            return 'Network error. Please check your connection and try again.';
+        }
+        return err.message;
+    }
+    return 'An unexpected error occurred.';
+}
+
 export default function HomePage() {
     const [mode, setMode] = React.useState<'generate' | 'edit'>('edit');
-    const [activeTab, setActiveTab] = React.useState<'images' | 'videos' | 'edit' | 'konverter'>('images');
-    const [isPasswordRequiredByBackend, setIsPasswordRequiredByBackend] = React.useState<boolean | null>(null);
-    const [clientPasswordHash, setClientPasswordHash] = React.useState<string | null>(null);
+    const [activeTab, setActiveTab] = React.useState<'images' | 'videos' | 'edit' | 'konverter' | 'projects'>('images');
+    const [isAuthRequired, setIsAuthRequired] = React.useState<boolean | null>(null);
+    const [currentUser, setCurrentUser] = React.useState<PublicUser | null>(null);
     const [isLoading, setIsLoading] = React.useState(false);
+    const [uploadProgress, setUploadProgress] = React.useState<number | null>(null);
     const [isSendingToEdit, setIsSendingToEdit] = React.useState(false);
     const [isVideoLoading, setIsVideoLoading] = React.useState(false);
     const [error, setError] = React.useState<string | null>(null);
@@ -91,19 +193,19 @@ export default function HomePage() {
     const [imageOutputView, setImageOutputView] = React.useState<'grid' | number>('grid');
     
     // CSRF protection
-    const { csrfToken, addCSRFToFormData } = useCSRF();
-    const [history, setHistory] = React.useState<HistoryMetadata[]>([]);
+    const { csrfToken, addCSRFToken, addCSRFToFormData } = useCSRF();
+    const storedHistory = useLiveQuery<HistoryMetadata[] | undefined>(() => db.getHistory(), []);
+    const history = React.useMemo(() => storedHistory ?? [], [storedHistory]);
     const [videoHistory, setVideoHistory] = React.useState<VideoHistoryItem[]>([]);
-    const [isInitialLoad, setIsInitialLoad] = React.useState(true);
     const [blobUrlCache, setBlobUrlCache] = React.useState<Record<string, string>>({});
-    const [isPasswordDialogOpen, setIsPasswordDialogOpen] = React.useState(false);
-    const [passwordDialogContext, setPasswordDialogContext] = React.useState<'initial' | 'retry'>('initial');
+    const [isLoginDialogOpen, setIsLoginDialogOpen] = React.useState(false);
+    const [loginDialogContext, setLoginDialogContext] = React.useState<'initial' | 'retry'>('initial');
     const [lastApiCallArgs, setLastApiCallArgs] = React.useState<[GenerationFormData | EditingFormData] | null>(null);
     const [skipDeleteConfirmation, setSkipDeleteConfirmation] = React.useState<boolean>(false);
     const [itemToDeleteConfirm, setItemToDeleteConfirm] = React.useState<HistoryMetadata | null>(null);
     const [dialogCheckboxStateSkipConfirm, setDialogCheckboxStateSkipConfirm] = React.useState<boolean>(false);
 
-    const allDbImages = useLiveQuery<ImageRecord[] | undefined>(() => db.images.toArray(), []);
+    const allDbImages = useLiveQuery<ImageRecord[] | undefined>(() => db.getImagesWithBlobs(), []);
     const allDbVideos = useLiveQuery<VideoMetadata[] | undefined>(() => db.getAllVideos(), []);
 
     const [editImageFiles, setEditImageFiles] = React.useState<File[]>([]);
@@ -113,15 +215,15 @@ export default function HomePage() {
     const [isEditingGeneratedImage, setIsEditingGeneratedImage] = React.useState(false);
     // const [editSize, setEditSize] = React.useState<EditingFormData['size']>('auto'); // Commented out - size fixed to square
     // const [editQuality, setEditQuality] = React.useState<EditingFormData['quality']>('auto'); // Commented out - quality fixed to high
-    const [editBrushSize, setEditBrushSize] = React.useState([20]);
     const [editShowMaskEditor, setEditShowMaskEditor] = React.useState(false);
     const [editGeneratedMaskFile, setEditGeneratedMaskFile] = React.useState<File | null>(null);
     const [editIsMaskSaved, setEditIsMaskSaved] = React.useState(false);
     const [editOriginalImageSize, setEditOriginalImageSize] = React.useState<{ width: number; height: number } | null>(
         null
     );
-    const [editDrawnPoints, setEditDrawnPoints] = React.useState<DrawnPoint[]>([]);
     const [editMaskPreviewUrl, setEditMaskPreviewUrl] = React.useState<string | null>(null);
+    // History images loaded for editing, so the resulting entry can record what it was made from
+    const editImageOrigins = React.useRef(new WeakMap<File, { filename: string; operation: LineageOperation }>());
 
     // Generation state variables commented out - generation disabled
     // const [genPrompt, setGenPrompt] = React.useState('');
@@ -180,57 +282,55 @@ export default function HomePage() {
         };
     }, [editSourceImagePreviewUrls]);
 
+    // History used to live in localStorage; move it into IndexedDB once
     React.useEffect(() => {
+        const legacyHistory = localStorage.getItem('openaiImageHistory');
+        if (!legacyHistory) return;
+
+        let parsedHistory: HistoryMetadata[] = [];
         try {
-            const storedHistory = localStorage.getItem('openaiImageHistory');
-            if (storedHistory) {
-                const parsedHistory: HistoryMetadata[] = JSON.parse(storedHistory);
-                if (Array.isArray(parsedHistory)) {
-                    setHistory(parsedHistory);
-                } else {
-                    console.warn('Invalid history data found in localStorage.');
-                    localStorage.removeItem('openaiImageHistory');
-                }
-            }
+            parsedHistory = JSON.parse(legacyHistory);
         } catch (e) {
-            console.error('Failed to load or parse history from localStorage:', e);
-            localStorage.removeItem('openaiImageHistory');
+            console.error('Failed to parse history from localStorage:', e);
+        }
+        if (!Array.isArray(parsedHistory)) {
+            console.warn('Invalid history data found in localStorage.');
+            parsedHistory = [];
         }
-        setIsInitialLoad(false);
+
+        db.importHistory(parsedHistory)
+            .then((imported) => {
+                localStorage.removeItem('openaiImageHistory');
+                console.log(`Moved ${imported} history entries from localStorage to IndexedDB.`);
+            })
+            .catch((e) => console.error('Failed to move history to IndexedDB:', e));
     }, []);
 
     React.useEffect(() => {
-        const fetchAuthStatus = async () => {
+        const fetchCurrentUser = async () => {
             try {
-                const response = await fetch('/api/auth-status');
+                const response = await fetch('/api/auth/me');
                 if (!response.ok) {
                     throw new Error('Failed to fetch auth status');
                 }
-                const data = await response.json();
-                setIsPasswordRequiredByBackend(data.passwordRequired);
+                const data: { authRequired: boolean; user: PublicUser | null } = await response.json();
+                setIsAuthRequired(data.authRequired);
+                setCurrentUser(data.user);
+                if (data.authRequired && !data.user) {
+                    setLoginDialogContext('initial');
+                    setIsLoginDialogOpen(true);
+                }
             } catch (error) {
                 console.error('Error fetching auth status:', error);
-                setIsPasswordRequiredByBackend(false);
+                setIsAuthRequired(false);
             }
         };
 
-        fetchAuthStatus();
-        const storedHash = localStorage.getItem('clientPasswordHash');
-        if (storedHash) {
-            setClientPasswordHash(storedHash);
-        }
+        fetchCurrentUser();
+        // Left over from the old shared-password login
+        localStorage.removeItem('clientPasswordHash');
     }, []);
 
-    React.useEffect(() => {
-        if (!isInitialLoad) {
-            try {
-                localStorage.setItem('openaiImageHistory', JSON.stringify(history));
-            } catch (e) {
-                console.error('Failed to save history to localStorage:', e);
-            }
-        }
-    }, [history, isInitialLoad]);
-
     React.useEffect(() => {
         const storedPref = localStorage.getItem('imageGenSkipDeleteConfirm');
         if (storedPref === 'true') {
@@ -287,39 +387,29 @@ export default function HomePage() {
         };
     }, [mode, editImageFiles.length]);
 
-    async function sha256Client(text: string): Promise<string> {
-        const encoder = new TextEncoder();
-        const data = encoder.encode(text);
-        const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-        const hashArray = Array.from(new Uint8Array(hashBuffer));
-        const hashHex = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
-        return hashHex;
-    }
-
-    const handleSavePassword = async (password: string) => {
-        if (!password.trim()) {
-            setError('Password cannot be empty.');
-            return;
+    const handleLogin = async (user: PublicUser) => {
+        setCurrentUser(user);
+        setError(null);
+        setIsLoginDialogOpen(false);
+        if (loginDialogContext === 'retry' && lastApiCallArgs) {
+            console.log('Retrying API call after login...');
+            await handleApiCall(...lastApiCallArgs);
         }
+    };
+
+    const handleLogout = async () => {
         try {
-            const hash = await sha256Client(password);
-            localStorage.setItem('clientPasswordHash', hash);
-            setClientPasswordHash(hash);
-            setError(null);
-            setIsPasswordDialogOpen(false);
-            if (passwordDialogContext === 'retry' && lastApiCallArgs) {
-                console.log('Retrying API call after password save...');
-                await handleApiCall(...lastApiCallArgs);
-            }
+            await fetch('/api/auth/logout', { method: 'POST' });
         } catch (e) {
-            console.error('Error hashing password:', e);
-            setError('Failed to save password due to a hashing error.');
+            console.error('Error logging out:', e);
         }
+        setCurrentUser(null);
+        setLoginDialogContext('initial');
     };
 
-    const handleOpenPasswordDialog = () => {
-        setPasswordDialogContext('initial');
-        setIsPasswordDialogOpen(true);
+    const handleOpenLoginDialog = () => {
+        setLoginDialogContext('initial');
+        setIsLoginDialogOpen(true);
     };
 
     const getMimeTypeFromFormat = (format: string): string => {
@@ -329,27 +419,128 @@ export default function HomePage() {
         return 'image/png';
     };
 
+    const completeImageJob = React.useCallback(
+        async (pendingJob: PendingImageJob) => {
+            let result: ImageJobResult;
+            try {
+                result = await waitForImageJob(pendingJob.jobId);
+            } catch (err: unknown) {
+                // If polling only gave up on errors the job may still finish; a reload picks it up again
+                if (err instanceof ImageJobEndedError) {
+                    localStorage.removeItem(PENDING_IMAGE_JOB_KEY);
+                }
+                throw err;
+            }
+            localStorage.removeItem(PENDING_IMAGE_JOB_KEY);
+
+            console.log('Image job result:', result);
+            const { images } = result;
+
+            if (images.length === 0) {
+                setLatestImageBatch(null);
+                throw new Error('API response did not contain valid image data or filenames.');
+            }
+
+            const durationMs = Date.now() - pendingJob.startTime;
+            console.log(`API call successful. Duration: ${durationMs}ms`);
+
+            // Only edit mode is supported
+            const newHistoryEntry: HistoryMetadata = {
+                timestamp: Date.now(),
+                images: images.map((img) => ({ filename: img.filename })),
+                storageModeUsed: effectiveStorageModeClient,
+                durationMs: durationMs,
+                quality: 'high', // Always use high quality
+                background: 'auto',
+                moderation: 'auto',
+                output_format: 'png',
+                prompt: pendingJob.prompt,
+                mode: pendingJob.mode,
+                provider: result.provider,
+                model: result.model,
+                lineage: pendingJob.lineage,
+                templateId: pendingJob.templateId,
+                tags: pendingJob.tags?.length ? pendingJob.tags : undefined
+            };
+
+            let newImageBatchPromises: Promise<{ path: string; filename: string } | null>[] = [];
+            if (effectiveStorageModeClient === 'indexeddb') {
+                console.log('Processing images for IndexedDB storage...');
+                newImageBatchPromises = images.map(async (img) => {
+                    if (img.b64_json) {
+                        try {
+                            const byteCharacters = atob(img.b64_json);
+                            const byteNumbers = new Array(byteCharacters.length);
+                            for (let i = 0; i < byteCharacters.length; i++) {
+                                byteNumbers[i] = byteCharacters.charCodeAt(i);
+                            }
+                            const byteArray = new Uint8Array(byteNumbers);
+
+                            const actualMimeType = getMimeTypeFromFormat(img.output_format);
+                            const blob = new Blob([byteArray], { type: actualMimeType });
+
+                            const { deduplicated } = await db.addImage(img.filename, blob);
+                            console.log(
+                                `Saved ${img.filename} to IndexedDB with type ${actualMimeType}${deduplicated ? ' (contents already stored)' : ''}.`
+                            );
+
+                            const blobUrl = URL.createObjectURL(blob);
+                            setBlobUrlCache((prev) => ({ ...prev, [img.filename]: blobUrl }));
+
+                            return { filename: img.filename, path: blobUrl };
+                        } catch (dbError) {
+                            console.error(`Error saving blob ${img.filename} to IndexedDB:`, dbError);
+                            setError(`Failed to save image ${img.filename} to local database.`);
+                            return null;
+                        }
+                    } else {
+                        console.warn(`Image ${img.filename} missing b64_json in indexeddb mode.`);
+                        return null;
+                    }
+                });
+            } else {
+                newImageBatchPromises = images
+                    .filter((img) => !!img.path)
+                    .map((img) =>
+                        Promise.resolve({
+                            path: img.path!,
+                            filename: img.filename
+                        })
+                    );
+            }
+
+            const processedImages = (await Promise.all(newImageBatchPromises)).filter(Boolean) as {
+                path: string;
+                filename: string;
+            }[];
+
+            setLatestImageBatch(processedImages);
+            setImageOutputView(processedImages.length > 1 ? 'grid' : 0);
+
+            await db.addHistoryEntry(newHistoryEntry);
+        },
+        [setBlobUrlCache]
+    );
+
     const handleApiCall = React.useCallback(
         async (formData: GenerationFormData | EditingFormData) => {
             const startTime = Date.now();
-            let durationMs = 0;
 
             setIsLoading(true);
             setError(null);
             setLatestImageBatch(null);
             setImageOutputView('grid');
 
-            const apiFormData = new FormData();
-            if (isPasswordRequiredByBackend && clientPasswordHash) {
-                apiFormData.append('passwordHash', clientPasswordHash);
-            } else if (isPasswordRequiredByBackend && !clientPasswordHash) {
-                setError('Password is required. Please configure the password by clicking the lock icon.');
-                setPasswordDialogContext('initial');
-                setIsPasswordDialogOpen(true);
+            if (isAuthRequired && !currentUser) {
+                setError('Please log in to continue.');
+                setLoginDialogContext('retry');
+                setLastApiCallArgs([formData]);
+                setIsLoginDialogOpen(true);
                 setIsLoading(false);
                 return;
             }
-            
+
+            const apiFormData = new FormData();
             // Add CSRF token
             addCSRFToFormData(apiFormData);
             apiFormData.append('mode', mode);
@@ -359,179 +550,136 @@ export default function HomePage() {
             apiFormData.append('n', formData.n.toString());
             apiFormData.append('size', formData.size || '1024x1024');
             apiFormData.append('quality', formData.quality || 'high');
+            if ('provider' in formData && formData.provider) {
+                apiFormData.append('provider', formData.provider);
+            }
+            if ('model' in formData && formData.model) {
+                apiFormData.append('model', formData.model);
+            }
 
             // Check if formData has imageFiles (for quick edit) or use editImageFiles
             const imagesToSend = 'imageFiles' in formData && formData.imageFiles ? formData.imageFiles : editImageFiles;
-            imagesToSend.forEach((file, index) => {
-                apiFormData.append(`image_${index}`, file, file.name);
-            });
 
             // Check if formData has maskFile (for quick edit) or use editGeneratedMaskFile
             const maskToSend = 'maskFile' in formData && formData.maskFile ? formData.maskFile : editGeneratedMaskFile;
-            if (maskToSend) {
-                apiFormData.append('mask', maskToSend, maskToSend.name);
-            }
-
-            console.log('Sending request to /api/images with mode:', mode);
 
             try {
-                console.log('Starting fetch request...');
+                // Send the source images and mask ahead in resumable chunks; the request references them
+                setUploadProgress(0);
+                const uploaded = await apiManager.uploadFiles(maskToSend ? [...imagesToSend, maskToSend] : imagesToSend, {
+                    addCSRFToken,
+                    onProgress: (progress) => setUploadProgress(progress.percent)
+                });
+                setUploadProgress(null);
+                uploaded.slice(0, imagesToSend.length).forEach((file, index) => {
+                    appendUploadedFile(apiFormData, `image_${index}`, file);
+                });
+                if (maskToSend) {
+                    appendUploadedFile(apiFormData, 'mask', uploaded[imagesToSend.length]);
+                }
+
+                const origins = imagesToSend.flatMap((file) => editImageOrigins.current.get(file) ?? []);
+                const lineage: HistoryLineage = {
+                    operation:
+                        origins.find((origin) => origin.operation !== 'edit')?.operation ??
+                        (mode === 'edit' ? 'edit' : 'generate'),
+                    parents: Array.from(new Set(origins.map((origin) => origin.filename))),
+                    mask: maskToSend
+                        ? { filename: maskToSend.name, hash: uploaded[imagesToSend.length].key }
+                        : undefined
+                };
 
-                // Create manual abort controller with longer timeout
-                const controller = new AbortController();
-                const timeoutId = setTimeout(() => {
-                    controller.abort();
-                }, 300000); // 5 minutes
+                console.log('Sending request to /api/images with mode:', mode);
 
                 const response = await fetch('/api/images', {
                     method: 'POST',
-                    body: apiFormData,
-                    signal: controller.signal
+                    body: apiFormData
                 });
 
-                clearTimeout(timeoutId);
-                console.log('Fetch completed with status:', response.status);
+                console.log('Job submission completed with status:', response.status);
 
                 const result = await response.json();
 
                 if (!response.ok) {
-                    if (response.status === 401 && isPasswordRequiredByBackend) {
-                        setError('Unauthorized: Invalid or missing password. Please try again.');
-                        setPasswordDialogContext('retry');
+                    if (response.status === 401 && isAuthRequired) {
+                        // The session expired or the account was removed
+                        setError('Your session has expired. Please log in again.');
+                        setCurrentUser(null);
+                        setLoginDialogContext('retry');
                         setLastApiCallArgs([formData]);
-                        setIsPasswordDialogOpen(true);
+                        setIsLoginDialogOpen(true);
 
                         return;
                     }
                     throw new Error(result.error || `API request failed with status ${response.status}`);
                 }
 
-                console.log('API Response:', result);
-
-                if (result.images && result.images.length > 0) {
-                    durationMs = Date.now() - startTime;
-                    console.log(`API call successful. Duration: ${durationMs}ms`);
-
-                    let historyQuality: 'low' | 'medium' | 'high' | 'auto' = 'auto';
-                    let historyBackground: 'transparent' | 'opaque' | 'auto' = 'auto';
-                    let historyModeration: 'low' | 'auto' = 'auto';
-                    let historyOutputFormat: 'png' | 'jpeg' | 'webp' = 'png';
-                    let historyPrompt: string = '';
-
-                    // Only edit mode is supported
-                    historyQuality = 'high'; // Always use high quality
-                    historyBackground = 'auto';
-                    historyModeration = 'auto';
-                    historyOutputFormat = 'png';
-                    historyPrompt = editPrompt;
-
-                    const batchTimestamp = Date.now();
-                    const newHistoryEntry: HistoryMetadata = {
-                        timestamp: batchTimestamp,
-                        images: result.images.map((img: { filename: string }) => ({ filename: img.filename })),
-                        storageModeUsed: effectiveStorageModeClient,
-                        durationMs: durationMs,
-                        quality: historyQuality,
-                        background: historyBackground,
-                        moderation: historyModeration,
-                        output_format: historyOutputFormat,
-                        prompt: historyPrompt,
-                        mode: mode
-                    };
-
-                    let newImageBatchPromises: Promise<{ path: string; filename: string } | null>[] = [];
-                    if (effectiveStorageModeClient === 'indexeddb') {
-                        console.log('Processing images for IndexedDB storage...');
-                        newImageBatchPromises = result.images.map(async (img: ApiImageResponseItem) => {
-                            if (img.b64_json) {
-                                try {
-                                    const byteCharacters = atob(img.b64_json);
-                                    const byteNumbers = new Array(byteCharacters.length);
-                                    for (let i = 0; i < byteCharacters.length; i++) {
-                                        byteNumbers[i] = byteCharacters.charCodeAt(i);
-                                    }
-                                    const byteArray = new Uint8Array(byteNumbers);
-
-                                    const actualMimeType = getMimeTypeFromFormat(img.output_format);
-                                    const blob = new Blob([byteArray], { type: actualMimeType });
-
-                                    await db.images.put({ filename: img.filename, blob });
-                                    console.log(`Saved ${img.filename} to IndexedDB with type ${actualMimeType}.`);
-
-                                    const blobUrl = URL.createObjectURL(blob);
-                                    setBlobUrlCache((prev) => ({ ...prev, [img.filename]: blobUrl }));
-
-                                    return { filename: img.filename, path: blobUrl };
-                                } catch (dbError) {
-                                    console.error(`Error saving blob ${img.filename} to IndexedDB:`, dbError);
-                                    setError(`Failed to save image ${img.filename} to local database.`);
-                                    return null;
-                                }
-                            } else {
-                                console.warn(`Image ${img.filename} missing b64_json in indexeddb mode.`);
-                                return null;
-                            }
-                        });
-                    } else {
-                        newImageBatchPromises = result.images
-                            .filter((img: ApiImageResponseItem) => !!img.path)
-                            .map((img: ApiImageResponseItem) =>
-                                Promise.resolve({
-                                    path: img.path!,
-                                    filename: img.filename
-                                })
-                            );
-                    }
-
-                    const processedImages = (await Promise.all(newImageBatchPromises)).filter(Boolean) as {
-                        path: string;
-                        filename: string;
-                    }[];
-
-                    setLatestImageBatch(processedImages);
-                    setImageOutputView(processedImages.length > 1 ? 'grid' : 0);
+                const pendingJob: PendingImageJob = {
+                    jobId: result.jobId,
+                    prompt: editPrompt,
+                    mode: mode,
+                    startTime,
+                    lineage,
+                    templateId: 'templateId' in formData ? formData.templateId : undefined,
+                    tags: 'tags' in formData ? formData.tags : undefined
+                };
+                // Remember the job so a page reload can pick the result up again
+                localStorage.setItem(PENDING_IMAGE_JOB_KEY, JSON.stringify(pendingJob));
 
-                    setHistory((prevHistory) => [newHistoryEntry, ...prevHistory]);
-                } else {
-                    setLatestImageBatch(null);
-                    throw new Error('API response did not contain valid image data or filenames.');
-                }
+                await completeImageJob(pendingJob);
             } catch (err: unknown) {
-                durationMs = Date.now() - startTime;
+                const durationMs = Date.now() - startTime;
                 console.error(`API Call Error after ${durationMs}ms:`, err);
 
-                let errorMessage = 'An unexpected error occurred.';
-                if (err instanceof Error) {
-                    if (err.name === 'AbortError') {
-                        errorMessage = 'Request timed out. Image generation can take up to 2 minutes.';
-                    } else if (err.message === 'Failed to fetch') {
-                        errorMessage = 'Network error. Please check your connection and try again.';
-                    } else {
-                        errorMessage = err.message;
-                    }
-                }
-
-                setError(errorMessage);
+                setError(getApiErrorMessage(err));
                 setLatestImageBatch(null);
             } finally {
-                if (durationMs === 0) durationMs = Date.now() - startTime;
+                setUploadProgress(null);
                 setIsLoading(false);
             }
         },
         [
-            isPasswordRequiredByBackend,
-            clientPasswordHash,
+            isAuthRequired,
+            currentUser,
+            addCSRFToken,
+            addCSRFToFormData,
             mode,
             editPrompt,
-            editN,
             // editSize, // Commented out - size fixed to square
             // editQuality, // Commented out - quality fixed to high
             editImageFiles,
             editGeneratedMaskFile,
-            setBlobUrlCache
+            completeImageJob
         ]
     );
 
+    // Resume polling for a job that was still running when the page was reloaded
+    const hasResumedPendingJob = React.useRef(false);
+    React.useEffect(() => {
+        if (hasResumedPendingJob.current) return;
+        hasResumedPendingJob.current = true;
+
+        let pendingJob: PendingImageJob | null = null;
+        try {
+            const stored = localStorage.getItem(PENDING_IMAGE_JOB_KEY);
+            pendingJob = stored ? JSON.parse(stored) : null;
+        } catch (e) {
+            console.error('Failed to parse pending image job from localStorage:', e);
+            localStorage.removeItem(PENDING_IMAGE_JOB_KEY);
+        }
+
+        if (!pendingJob?.jobId) return;
+
+        console.log(`Resuming pending image job ${pendingJob.jobId}...`);
+        setIsLoading(true);
+        completeImageJob(pendingJob)
+            .catch((err: unknown) => {
+                console.error('Error resuming image job:', err);
+                setError(getApiErrorMessage(err));
+            })
+            .finally(() => setIsLoading(false));
+    }, [completeImageJob]);
+
     const handleHistorySelect = (item: HistoryMetadata) => {
         console.log(
             `Selecting history item from ${new Date(item.timestamp).toISOString()}, stored via: ${item.storageModeUsed}`
@@ -580,17 +728,16 @@ export default function HomePage() {
                 : 'Are you sure you want to clear the entire image history? This cannot be undone.';
 
         if (window.confirm(confirmationMessage)) {
-            setHistory([]);
             setLatestImageBatch(null);
             setImageOutputView('grid');
             setError(null);
 
             try {
-                localStorage.removeItem('openaiImageHistory');
-                console.log('Cleared history metadata from localStorage.');
+                await db.clearHistory();
+                console.log('Cleared history metadata from IndexedDB.');
 
                 if (effectiveStorageModeClient === 'indexeddb') {
-                    await db.images.clear();
+                    await db.clearImages();
                     console.log('Cleared images from IndexedDB.');
 
                     setBlobUrlCache({});
@@ -603,7 +750,7 @@ export default function HomePage() {
     };
 
     const handleSendToEdit = React.useCallback(
-        async (filename: string) => {
+        async (filename: string, operation: LineageOperation = 'edit') => {
             if (isSendingToEdit) return;
             setIsSendingToEdit(true);
             setError(null);
@@ -655,6 +802,7 @@ export default function HomePage() {
                 }
 
                 const newFile = new File([blob], filename, { type: mimeType });
+                editImageOrigins.current.set(newFile, { filename, operation });
                 const newPreviewUrl = URL.createObjectURL(blob);
 
                 editSourceImagePreviewUrls.forEach((url) => {
@@ -669,8 +817,8 @@ export default function HomePage() {
                 setEditImageFiles([newFile]);
                 setEditSourceImagePreviewUrls([newPreviewUrl]);
 
-                // Check if this image was generated (has a timestamp in filename indicating it's from our system)
-                const isFromGeneration = /^\d{13}-\d+\.(png|jpg|jpeg|webp)$/i.test(filename);
+                // Check if this image was generated (timestamp/job id or content hash names come from our system)
+                const isFromGeneration = /^(\d{13}(-[\w-]+)?-\d+|[0-9a-f]{64})\.(png|jpg|jpeg|webp)$/i.test(filename);
                 setIsEditingGeneratedImage(isFromGeneration);
 
                 if (mode === 'generate') {
@@ -694,13 +842,13 @@ export default function HomePage() {
         console.log(`Executing delete for history item timestamp: ${item.timestamp}`);
         setError(null); // Clear previous errors
 
-        const { images: imagesInEntry, storageModeUsed, timestamp } = item;
+        const { images: imagesInEntry, storageModeUsed } = item;
         const filenamesToDelete = imagesInEntry.map((img) => img.filename);
 
         try {
             if (storageModeUsed === 'indexeddb') {
                 console.log('Deleting from IndexedDB:', filenamesToDelete);
-                await db.images.where('filename').anyOf(filenamesToDelete).delete();
+                await db.batchDelete(filenamesToDelete);
                 setBlobUrlCache((prevCache) => {
                     const newCache = { ...prevCache };
                     filenamesToDelete.forEach((fn) => delete newCache[fn]);
@@ -709,10 +857,7 @@ export default function HomePage() {
                 console.log('Successfully deleted from IndexedDB and cleared blob cache.');
             } else if (storageModeUsed === 'fs') {
                 console.log('Requesting deletion from filesystem via API:', filenamesToDelete);
-                const apiPayload: { filenames: string[]; passwordHash?: string; csrfToken?: string } = { filenames: filenamesToDelete };
-                if (isPasswordRequiredByBackend && clientPasswordHash) {
-                    apiPayload.passwordHash = clientPasswordHash;
-                }
+                const apiPayload: { filenames: string[]; csrfToken?: string } = { filenames: filenamesToDelete };
                 if (csrfToken) {
                     apiPayload.csrfToken = csrfToken;
                 }
@@ -731,7 +876,7 @@ export default function HomePage() {
                 console.log('API deletion successful:', result);
             }
 
-            setHistory((prevHistory) => prevHistory.filter((h) => h.timestamp !== timestamp));
+            await db.deleteHistoryEntry(item);
             if (latestImageBatch && latestImageBatch.some((img) => filenamesToDelete.includes(img.filename))) {
                 setLatestImageBatch(null); // Clear current view if it contained deleted images
             }
@@ -786,7 +931,7 @@ export default function HomePage() {
         async (filename: string) => {
             try {
                 // First, send the image to edit form
-                await handleSendToEdit(filename);
+                await handleSendToEdit(filename, 'continue-edit');
 
                 // The setIsEditingGeneratedImage is already handled in handleSendToEdit based on filename pattern
                 // No need to set it again here to avoid race conditions
@@ -835,6 +980,7 @@ export default function HomePage() {
                     imageFile = new File([blob], filename, { type: mimeType });
                 }
 
+                editImageOrigins.current.set(imageFile, { filename, operation: 'quick-edit' });
                 console.log(`Quick edit initiated for ${filename} with prompt: ${editText}${maskFile ? ' (with mask)' : ''}`);
 
                 // Create the form data for immediate submission
@@ -865,12 +1011,7 @@ export default function HomePage() {
 
         try {
             const apiFormData = new FormData();
-            
-            // Add password hash if required
-            if (clientPasswordHash) {
-                apiFormData.append('passwordHash', clientPasswordHash);
-            }
-            
+
             // Add CSRF token
             addCSRFToFormData(apiFormData);
 
@@ -928,7 +1069,7 @@ export default function HomePage() {
         } finally {
             setIsVideoLoading(false);
         }
-    }, [clientPasswordHash]);
+    }, [addCSRFToFormData]);
 
     const handleVideoTaskStatus = React.useCallback(async (taskId: string): Promise<RunwayTask> => {
         try {
@@ -1091,21 +1232,23 @@ export default function HomePage() {
 
     return (
         <main className='flex min-h-screen flex-col items-center bg-black p-4 text-white md:p-8 lg:p-12'>
-            <PasswordDialog
-                isOpen={isPasswordDialogOpen}
-                onOpenChange={setIsPasswordDialogOpen}
-                onSave={handleSavePassword}
-                title={passwordDialogContext === 'retry' ? 'Password Required' : 'Configure Password'}
+            <LoginDialog
+                isOpen={isLoginDialogOpen}
+                onOpenChange={setIsLoginDialogOpen}
+                currentUser={currentUser}
+                onLogin={handleLogin}
+                onLogout={handleLogout}
+                title={loginDialogContext === 'retry' ? 'Login påkrævet' : 'Log ind'}
                 description={
-                    passwordDialogContext === 'retry'
-                        ? 'The server requires a password, or the previous one was incorrect. Please enter it to continue.'
-                        : 'Set a password to use for API requests.'
+                    loginDialogContext === 'retry'
+                        ? 'Din session er udløbet, eller du er ikke logget ind. Log ind for at fortsætte.'
+                        : 'Log ind med dit brugernavn og kodeord.'
                 }
             />
             <div className='w-full max-w-7xl space-y-6'>
                 {/* Main Tabs Navigation */}
-                <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'images' | 'videos' | 'edit' | 'konverter')} className='w-full'>
-                    <TabsList className='grid w-full grid-cols-4 bg-neutral-900/50 border border-white/10'>
+                <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'images' | 'videos' | 'edit' | 'konverter' | 'projects')} className='w-full'>
+                    <TabsList className='grid w-full grid-cols-5 bg-neutral-900/50 border border-white/10'>
                         <TabsTrigger value='images' className='flex items-center gap-2'>
                             <ImageIcon className='h-4 w-4' />
                             Billeder
@@ -1122,6 +1265,10 @@ export default function HomePage() {
                             <Settings2 className='h-4 w-4' />
                             Konverter tool
                         </TabsTrigger>
+                        <TabsTrigger value='projects' className='flex items-center gap-2'>
+                            <FolderOpen className='h-4 w-4' />
+                            Projekter
+                        </TabsTrigger>
                     </TabsList>
 
                     {/* Images Tab */}
@@ -1135,9 +1282,9 @@ export default function HomePage() {
                                         isLoading={isLoading}
                                         currentMode={mode}
                                         onModeChange={setMode}
-                                        isPasswordRequiredByBackend={isPasswordRequiredByBackend}
-                                        clientPasswordHash={clientPasswordHash}
-                                        onOpenPasswordDialog={handleOpenPasswordDialog}
+                                        isAuthRequired={isAuthRequired}
+                                        currentUser={currentUser}
+                                        onOpenLoginDialog={handleOpenLoginDialog}
                                         prompt={genPrompt}
                                         setPrompt={setGenPrompt}
                                         n={genN}
@@ -1160,11 +1307,12 @@ export default function HomePage() {
                                     <EditingForm
                                 onSubmit={handleApiCall}
                                 isLoading={isLoading || isSendingToEdit}
+                                uploadProgress={uploadProgress}
                                 currentMode={mode}
                                 onModeChange={setMode}
-                                isPasswordRequiredByBackend={isPasswordRequiredByBackend}
-                                clientPasswordHash={clientPasswordHash}
-                                onOpenPasswordDialog={handleOpenPasswordDialog}
+                                isAuthRequired={isAuthRequired}
+                                currentUser={currentUser}
+                                onOpenLoginDialog={handleOpenLoginDialog}
                                 imageFiles={editImageFiles}
                                 sourceImagePreviewUrls={editSourceImagePreviewUrls}
                                 setImageFiles={setEditImageFiles}
@@ -1175,8 +1323,6 @@ export default function HomePage() {
                                 editN={editN}
                                 setEditN={setEditN}
                                 isEditingGeneratedImage={isEditingGeneratedImage}
-                                editBrushSize={editBrushSize}
-                                setEditBrushSize={setEditBrushSize}
                                 editShowMaskEditor={editShowMaskEditor}
                                 setEditShowMaskEditor={setEditShowMaskEditor}
                                 editGeneratedMaskFile={editGeneratedMaskFile}
@@ -1185,8 +1331,6 @@ export default function HomePage() {
                                 setEditIsMaskSaved={setEditIsMaskSaved}
                                 editOriginalImageSize={editOriginalImageSize}
                                 setEditOriginalImageSize={setEditOriginalImageSize}
-                                editDrawnPoints={editDrawnPoints}
-                                setEditDrawnPoints={setEditDrawnPoints}
                                 editMaskPreviewUrl={editMaskPreviewUrl}
                                 setEditMaskPreviewUrl={setEditMaskPreviewUrl}
                             />
@@ -1245,7 +1389,10 @@ export default function HomePage() {
                 <div className='min-h-[450px]'>
                     <HistoryPanel
                         history={history}
+                        videos={videoHistory}
                         onSelectImage={handleHistorySelect}
+                        onSelectVideo={() => setActiveTab('videos')}
+                        onBranchFromImage={handleSendToEdit}
                         onClearHistory={handleClearHistory}
                         getImageSrc={getImageSrc}
                         onDeleteItemRequest={handleRequestDeleteItem}
@@ -1268,7 +1415,6 @@ export default function HomePage() {
                                 isLoading={isVideoLoading}
                                 availableImages={imageHistory}
                                 onVideoGenerated={handleVideoGenerated}
-                                clientPasswordHash={clientPasswordHash}
                             />
                             
                             {/* Video History */}
@@ -1282,16 +1428,17 @@ export default function HomePage() {
 
                     {/* Image Editing Tab */}
                     <TabsContent value='edit' className='space-y-6'>
-                        <ImageEditingSuite 
-                            clientPasswordHash={clientPasswordHash}
-                        />
+                        <ImageEditingSuite />
                     </TabsContent>
 
                     {/* Konverter Tools Tab */}
                     <TabsContent value='konverter' className='space-y-6'>
-                        <KonverterToolsSuite 
-                            clientPasswordHash={clientPasswordHash}
-                        />
+                        <KonverterToolsSuite />
+                    </TabsContent>
+
+                    {/* Projects Tab */}
+                    <TabsContent value='projects' className='space-y-6'>
+                        <ProjectView />
                     </TabsContent>
                 </Tabs>
             </div>
@@ -0,0 +1,557 @@
+'use client';
+
+import { MultiImageDropZone } from '@/components/multi-image-drop-zone';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useCSRF } from '@/hooks/use-csrf';
+import {
+    buildRowPrompt,
+    createCustomTemplate,
+    guessColumnForVariable,
+    guessEANColumn,
+    matchFilesByEAN,
+    normalizeFeedEAN,
+    parseProductFeed,
+    type ProductFeed
+} from '@/lib/product-feed';
+import { PROMPT_TEMPLATES } from '@/lib/prompt-templates';
+import { cn } from '@/lib/utils';
+import { AlertCircle, CheckCircle, Download, FileSpreadsheet, Layers, Loader2, Square, XCircle } from 'lucide-react';
+import * as React from 'react';
+
+type RowStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'skipped' | 'missing';
+
+interface BatchRowState {
+    row: number;
+    ean: string | null;
+    prompt: string;
+    sourceImages: string[];
+    status: RowStatus;
+    progress: number;
+    error?: string;
+    outputs: { name: string; path?: string }[];
+}
+
+interface BatchState {
+    id: string;
+    done: boolean;
+    counts: Record<RowStatus, number>;
+    rows: BatchRowState[];
+}
+
+const NO_COLUMN = '__none__';
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+    queued: 'I kø',
+    running: 'Genererer',
+    completed: 'Færdig',
+    failed: 'Fejlet',
+    cancelled: 'Annulleret',
+    skipped: 'Sprunget over',
+    missing: 'Udløbet'
+};
+
+export function BatchGenerationPanel() {
+    const { addCSRFToken } = useCSRF();
+    const [feed, setFeed] = React.useState<ProductFeed | null>(null);
+    const [feedName, setFeedName] = React.useState('');
+    const [eanColumn, setEanColumn] = React.useState<string>(NO_COLUMN);
+    const [templateId, setTemplateId] = React.useState<string>(PROMPT_TEMPLATES[0]?.id ?? 'custom');
+    const [customTemplate, setCustomTemplate] = React.useState('');
+    const [mapping, setMapping] = React.useState<Record<string, string>>({});
+    const [sourceImages, setSourceImages] = React.useState<File[]>([]);
+    const [quality, setQuality] = React.useState('auto');
+    const [size, setSize] = React.useState('auto');
+    const [imagesPerRow, setImagesPerRow] = React.useState(1);
+    const [requireImage, setRequireImage] = React.useState(true);
+    const [batch, setBatch] = React.useState<BatchState | null>(null);
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const template = React.useMemo(
+        () =>
+            templateId === 'custom'
+                ? createCustomTemplate(customTemplate)
+                : (PROMPT_TEMPLATES.find((candidate) => candidate.id === templateId) ?? null),
+        [templateId, customTemplate]
+    );
+
+    // Pre-fill the mapping with columns named like the template variables
+    React.useEffect(() => {
+        if (!template || !feed) return;
+        setMapping((previous) => {
+            const next: Record<string, string> = {};
+            for (const variable of template.variables) {
+                next[variable.name] = previous[variable.name] ?? guessColumnForVariable(variable, feed.columns) ?? '';
+            }
+            return next;
+        });
+    }, [template, feed]);
+
+    // Poll until every row has finished
+    React.useEffect(() => {
+        if (!batch || batch.done) return;
+
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch(`/api/images/batch/${batch.id}`);
+                const data = await response.json();
+                if (!response.ok) {
+                    throw new Error(data.error || 'Kunne ikke hente batch-status');
+                }
+                setBatch(data);
+            } catch (err) {
+                console.error('Error polling batch:', err);
+                setError(err instanceof Error ? err.message : 'Kunne ikke hente batch-status');
+            }
+        }, POLL_INTERVAL_MS);
+
+        return () => clearTimeout(timer);
+    }, [batch]);
+
+    const handleFeedSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        setError(null);
+        try {
+            const parsed = parseProductFeed(await file.text(), file.name);
+            setFeed(parsed);
+            setFeedName(file.name);
+            setEanColumn(guessEANColumn(parsed.columns) ?? NO_COLUMN);
+            setMapping({});
+        } catch (err) {
+            setFeed(null);
+            setError(err instanceof Error ? err.message : 'Feedet kunne ikke læses');
+        }
+    };
+
+    const rowsWithImages = React.useMemo(() => {
+        if (!feed || eanColumn === NO_COLUMN) return 0;
+        const files = sourceImages.map((file) => ({ filename: file.name }));
+        return feed.rows.filter((row) => {
+            const ean = normalizeFeedEAN(row[eanColumn]);
+            return ean && matchFilesByEAN(ean, files).length > 0;
+        }).length;
+    }, [feed, eanColumn, sourceImages]);
+
+    const previewPrompt =
+        feed && template && feed.rows.length > 0 ? buildRowPrompt(template, mapping, feed.rows[0]) : '';
+
+    const handleStart = async () => {
+        if (!feed || !template || eanColumn === NO_COLUMN) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        setBatch(null);
+
+        try {
+            if (sourceImages.length > 0) {
+                const formData = new FormData();
+                sourceImages.forEach((file) => formData.append('files', file));
+
+                const uploadResponse = await fetch(
+                    '/api/images/batch/upload',
+                    addCSRFToken({ method: 'POST', body: formData })
+                );
+                if (!uploadResponse.ok) {
+                    const errorData = await uploadResponse.json();
+                    throw new Error(errorData.error || 'Upload fejlede');
+                }
+            }
+
+            const response = await fetch(
+                '/api/images/batch',
+                addCSRFToken({
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        rows: feed.rows,
+                        eanColumn,
+                        templateId,
+                        customTemplate: templateId === 'custom' ? customTemplate : undefined,
+                        mapping: Object.fromEntries(Object.entries(mapping).filter(([, column]) => column)),
+                        quality,
+                        size,
+                        n: imagesPerRow,
+                        requireImage
+                    })
+                })
+            );
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.message || data.error || 'Batch kunne ikke startes');
+            }
+
+            const statusResponse = await fetch(`/api/images/batch/${data.batchId}`);
+            if (statusResponse.ok) {
+                setBatch(await statusResponse.json());
+            }
+        } catch (err) {
+            console.error('Error starting batch:', err);
+            setError(err instanceof Error ? err.message : 'Ukendt fejl opstod');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!batch) return;
+        try {
+            await fetch(`/api/images/batch/${batch.id}`, addCSRFToken({ method: 'DELETE' }));
+            const response = await fetch(`/api/images/batch/${batch.id}`);
+            if (response.ok) {
+                setBatch(await response.json());
+            }
+        } catch (err) {
+            console.error('Error cancelling batch:', err);
+            setError('Kunne ikke annullere batch');
+        }
+    };
+
+    const handleDownload = async () => {
+        if (!batch) return;
+        try {
+            const response = await fetch(`/api/images/batch/${batch.id}/download`);
+            if (!response.ok) {
+                throw new Error('Download fejlede');
+            }
+
+            const blob = await response.blob();
+            const url = window.URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `batch-${batch.id}.zip`;
+            document.body.appendChild(a);
+            a.click();
+            window.URL.revokeObjectURL(url);
+            document.body.removeChild(a);
+        } catch (err) {
+            console.error('Error downloading batch:', err);
+            setError('Download fejlede');
+        }
+    };
+
+    const finishedRows = batch
+        ? batch.rows.filter((row) => row.status !== 'queued' && row.status !== 'running').length
+        : 0;
+    const canStart = !!feed && !!template && eanColumn !== NO_COLUMN && !isSubmitting && (!batch || batch.done);
+
+    return (
+        <div className='grid grid-cols-1 gap-6 lg:grid-cols-2'>
+            <Card className='border-white/10 bg-black/50'>
+                <CardHeader>
+                    <CardTitle className='flex items-center gap-2 text-white'>
+                        <FileSpreadsheet className='h-5 w-5' />
+                        Produktfeed
+                    </CardTitle>
+                    <CardDescription className='text-white/60'>
+                        Upload en CSV- eller JSON-fil med én række pr. produkt og kobl kolonnerne til skabelonen
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className='space-y-4'>
+                    <div className='space-y-2'>
+                        <Label htmlFor='batch-feed' className='text-white'>
+                            Feed-fil
+                        </Label>
+                        <Input
+                            id='batch-feed'
+                            type='file'
+                            accept='.csv,.json,text/csv,application/json'
+                            onChange={handleFeedSelected}
+                            disabled={isSubmitting}
+                            className='border-white/10 bg-white/5 text-white'
+                        />
+                        {feed && (
+                            <p className='text-xs text-white/60'>
+                                {feedName}: {feed.rows.length} rækker, {feed.columns.length} kolonner
+                            </p>
+                        )}
+                    </div>
+
+                    {feed && (
+                        <div className='space-y-2'>
+                            <Label className='text-white'>EAN-kolonne</Label>
+                            <Select value={eanColumn} onValueChange={setEanColumn}>
+                                <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NO_COLUMN}>Vælg kolonne</SelectItem>
+                                    {feed.columns.map((column) => (
+                                        <SelectItem key={column} value={column}>
+                                            {column}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    <div className='space-y-2'>
+                        <Label className='text-white'>Skabelon</Label>
+                        <Select value={templateId} onValueChange={setTemplateId}>
+                            <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {PROMPT_TEMPLATES.map((candidate) => (
+                                    <SelectItem key={candidate.id} value={candidate.id}>
+                                        {candidate.name}
+                                    </SelectItem>
+                                ))}
+                                <SelectItem value='custom'>Egen prompt med {'{kolonne}'}-felter</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        {templateId === 'custom' && (
+                            <Textarea
+                                value={customTemplate}
+                                onChange={(event) => setCustomTemplate(event.target.value)}
+                                placeholder='F.eks. {navn} i {materiale} på et egetræsbord, blødt morgenlys'
+                                className='min-h-[80px] border-white/10 bg-white/5 text-white'
+                            />
+                        )}
+                    </div>
+
+                    {feed && template && template.variables.length > 0 && (
+                        <div className='space-y-2'>
+                            <Label className='text-white'>Variabler</Label>
+                            {template.variables.map((variable) => (
+                                <div key={variable.name} className='grid grid-cols-2 items-center gap-2'>
+                                    <span className='text-sm text-white/80'>{`{${variable.name}}`}</span>
+                                    <Select
+                                        value={mapping[variable.name] || NO_COLUMN}
+                                        onValueChange={(column) =>
+                                            setMapping((previous) => ({
+                                                ...previous,
+                                                [variable.name]: column === NO_COLUMN ? '' : column
+                                            }))
+                                        }>
+                                        <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NO_COLUMN}>Standardværdi</SelectItem>
+                                            {feed.columns.map((column) => (
+                                                <SelectItem key={column} value={column}>
+                                                    {column}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {previewPrompt && (
+                        <div className='space-y-1'>
+                            <Label className='text-white'>Eksempel (første række)</Label>
+                            <p className='rounded border border-white/10 bg-white/5 p-2 text-xs text-white/70'>
+                                {previewPrompt}
+                            </p>
+                        </div>
+                    )}
+
+                    <div className='space-y-2 border-t border-white/10 pt-4'>
+                        <Label className='text-white'>Kildebilleder (navngivet efter EAN)</Label>
+                        <MultiImageDropZone
+                            onFilesAdded={setSourceImages}
+                            maxImages={500}
+                            disabled={isSubmitting}
+                            className='min-h-[160px]'
+                        />
+                        {feed && eanColumn !== NO_COLUMN && (
+                            <p className='text-xs text-white/60'>
+                                {rowsWithImages} af {feed.rows.length} rækker har et matchende billede
+                            </p>
+                        )}
+                    </div>
+
+                    <div className='grid grid-cols-3 gap-3'>
+                        <div className='space-y-2'>
+                            <Label className='text-white'>Kvalitet</Label>
+                            <Select value={quality} onValueChange={setQuality}>
+                                <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value='auto'>Auto</SelectItem>
+                                    <SelectItem value='low'>Lav</SelectItem>
+                                    <SelectItem value='medium'>Medium</SelectItem>
+                                    <SelectItem value='high'>Høj</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className='space-y-2'>
+                            <Label className='text-white'>Størrelse</Label>
+                            <Select value={size} onValueChange={setSize}>
+                                <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value='auto'>Auto</SelectItem>
+                                    <SelectItem value='1024x1024'>Kvadrat</SelectItem>
+                                    <SelectItem value='1536x1024'>Liggende</SelectItem>
+                                    <SelectItem value='1024x1536'>Stående</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className='space-y-2'>
+                            <Label className='text-white'>Billeder pr. række</Label>
+                            <Select
+                                value={String(imagesPerRow)}
+                                onValueChange={(value) => setImagesPerRow(Number(value))}>
+                                <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {[1, 2, 3, 4].map((count) => (
+                                        <SelectItem key={count} value={String(count)}>
+                                            {count}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className='flex items-center justify-between'>
+                        <Label htmlFor='batch-require-image' className='text-white'>
+                            Spring rækker uden kildebillede over
+                        </Label>
+                        <Switch
+                            id='batch-require-image'
+                            checked={requireImage}
+                            onCheckedChange={setRequireImage}
+                            disabled={isSubmitting}
+                        />
+                    </div>
+
+                    {error && (
+                        <div className='rounded-lg border border-red-500/20 bg-red-500/10 p-3'>
+                            <div className='flex items-center gap-2 text-red-400'>
+                                <AlertCircle className='h-4 w-4' />
+                                <span className='text-sm'>{error}</span>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+                <CardFooter>
+                    <Button
+                        onClick={handleStart}
+                        disabled={!canStart}
+                        className='w-full bg-white text-black hover:bg-white/90'>
+                        {isSubmitting ? (
+                            <>
+                                <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                                Starter batch...
+                            </>
+                        ) : (
+                            <>
+                                <Layers className='mr-2 h-4 w-4' />
+                                Start batch ({feed?.rows.length ?? 0} rækker)
+                            </>
+                        )}
+                    </Button>
+                </CardFooter>
+            </Card>
+
+            <Card className='border-white/10 bg-black/50'>
+                <CardHeader>
+                    <div className='flex items-center justify-between'>
+                        <div>
+                            <CardTitle className='text-white'>Batch-status</CardTitle>
+                            <CardDescription className='text-white/60'>
+                                Resultater navngives {'<EAN>-<n>.png'} og hentes som ZIP med manifest
+                            </CardDescription>
+                        </div>
+                        {batch && (
+                            <div className='flex gap-2'>
+                                {!batch.done && (
+                                    <Button
+                                        onClick={handleCancel}
+                                        size='sm'
+                                        variant='outline'
+                                        className='border-white/20 text-white hover:bg-white/10'>
+                                        <Square className='mr-2 h-4 w-4' />
+                                        Stop
+                                    </Button>
+                                )}
+                                <Button
+                                    onClick={handleDownload}
+                                    size='sm'
+                                    variant='outline'
+                                    disabled={batch.counts.completed === 0}
+                                    className='border-white/20 text-white hover:bg-white/10'>
+                                    <Download className='mr-2 h-4 w-4' />
+                                    Download ZIP
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </CardHeader>
+                <CardContent className='space-y-4'>
+                    {!batch ? (
+                        <p className='py-12 text-center text-sm text-white/40'>Ingen batch startet endnu</p>
+                    ) : (
+                        <>
+                            <div className='space-y-2'>
+                                <Progress
+                                    value={(finishedRows / Math.max(1, batch.rows.length)) * 100}
+                                    className='h-2'
+                                />
+                                <p className='text-center text-sm text-white/60'>
+                                    {batch.counts.completed} færdige, {batch.counts.failed} fejlede,{' '}
+                                    {batch.counts.skipped} sprunget over af {batch.rows.length} rækker
+                                </p>
+                            </div>
+                            <ScrollArea className='h-[480px] rounded border border-white/10'>
+                                <div className='divide-y divide-white/10'>
+                                    {batch.rows.map((row) => (
+                                        <div key={row.row} className='flex items-start gap-3 p-3 text-sm'>
+                                            {row.status === 'completed' ? (
+                                                <CheckCircle className='mt-0.5 h-4 w-4 shrink-0 text-green-400' />
+                                            ) : row.status === 'running' || row.status === 'queued' ? (
+                                                <Loader2 className='mt-0.5 h-4 w-4 shrink-0 animate-spin text-white/60' />
+                                            ) : (
+                                                <XCircle
+                                                    className={cn(
+                                                        'mt-0.5 h-4 w-4 shrink-0',
+                                                        row.status === 'failed' ? 'text-red-400' : 'text-white/40'
+                                                    )}
+                                                />
+                                            )}
+                                            <div className='min-w-0 flex-1'>
+                                                <div className='flex justify-between gap-2'>
+                                                    <span className='font-mono text-white'>
+                                                        {row.ean ?? `Række ${row.row}`}
+                                                    </span>
+                                                    <span className='text-white/60'>{STATUS_LABELS[row.status]}</span>
+                                                </div>
+                                                {row.outputs.length > 0 && (
+                                                    <p className='truncate text-xs text-white/60'>
+                                                        {row.outputs.map((output) => output.name).join(', ')}
+                                                    </p>
+                                                )}
+                                                {row.error && <p className='text-xs text-red-400/80'>{row.error}</p>}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </ScrollArea>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
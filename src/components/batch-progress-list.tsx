@@ -0,0 +1,45 @@
+'use client';
+
+import type { BatchFileProgress } from '@/lib/batch-progress';
+import { cn } from '@/lib/utils';
+import { AlertCircle, CheckCircle, Clock, Loader2 } from 'lucide-react';
+import Image from 'next/image';
+import * as React from 'react';
+
+interface BatchProgressListProps {
+    files: BatchFileProgress[];
+    className?: string;
+}
+
+/** Live per-image status for the packshot and mood batch tools */
+export function BatchProgressList({ files, className }: BatchProgressListProps) {
+    if (files.length === 0) return null;
+
+    return (
+        <div className={cn('max-h-56 overflow-y-auto rounded-lg border border-white/10', className)}>
+            <ul className='divide-y divide-white/5'>
+                {files.map((file, index) => (
+                    <li key={`${file.filename}-${index}`} className='flex items-center gap-3 p-2'>
+                        <div className='relative flex h-10 w-10 shrink-0 items-center justify-center overflow-hidden rounded bg-white/5'>
+                            {file.thumbnail ? (
+                                <Image src={file.thumbnail} alt={file.filename} fill unoptimized className='object-contain' />
+                            ) : file.status === 'processing' ? (
+                                <Loader2 className='h-4 w-4 animate-spin text-white/60' />
+                            ) : file.status === 'error' ? (
+                                <AlertCircle className='h-4 w-4 text-red-400' />
+                            ) : (
+                                <Clock className='h-4 w-4 text-white/30' />
+                            )}
+                        </div>
+                        <div className='min-w-0 flex-1'>
+                            <p className='truncate text-sm text-white'>{file.filename}</p>
+                            {file.error && <p className='truncate text-xs text-red-300'>{file.error}</p>}
+                        </div>
+                        {file.status === 'done' && <CheckCircle className='h-4 w-4 shrink-0 text-green-400' />}
+                        {file.status === 'error' && <AlertCircle className='h-4 w-4 shrink-0 text-red-400' />}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
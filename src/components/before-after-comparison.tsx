@@ -0,0 +1,62 @@
+'use client';
+
+import Image from 'next/image';
+import * as React from 'react';
+
+interface BeforeAfterComparisonProps {
+    beforeSrc: string;
+    afterSrc: string;
+    // Pixel size of the images, for the aspect ratio
+    width: number;
+    height: number;
+    beforeLabel?: string;
+    afterLabel?: string;
+}
+
+/**
+ * Two versions of an image on top of each other, split by a handle that is
+ * dragged sideways: the before image on the left, the after image on the right
+ */
+export function BeforeAfterComparison({
+    beforeSrc,
+    afterSrc,
+    width,
+    height,
+    beforeLabel = 'Før',
+    afterLabel = 'Efter'
+}: BeforeAfterComparisonProps) {
+    const [position, setPosition] = React.useState(50);
+
+    return (
+        <div
+            className='relative w-full overflow-hidden rounded border border-white/10 bg-black select-none'
+            style={{ aspectRatio: `${width} / ${height}` }}>
+            <Image src={afterSrc} alt={afterLabel} fill unoptimized className='object-contain' />
+            <div className='absolute inset-0' style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+                <Image src={beforeSrc} alt={beforeLabel} fill unoptimized className='object-contain' />
+            </div>
+
+            <div
+                className='pointer-events-none absolute inset-y-0 w-0.5 bg-white/80'
+                style={{ left: `${position}%` }}
+            />
+            <span className='pointer-events-none absolute top-2 left-2 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white'>
+                {beforeLabel}
+            </span>
+            <span className='pointer-events-none absolute top-2 right-2 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white'>
+                {afterLabel}
+            </span>
+
+            <input
+                type='range'
+                min={0}
+                max={100}
+                step={0.5}
+                value={position}
+                onChange={(event) => setPosition(Number(event.target.value))}
+                aria-label={`${beforeLabel} / ${afterLabel}`}
+                className='absolute inset-0 h-full w-full cursor-ew-resize opacity-0'
+            />
+        </div>
+    );
+}
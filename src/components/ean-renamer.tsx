@@ -9,6 +9,7 @@ import { Progress } from '@/components/ui/progress';
 import { MultiImageDropZone } from '@/components/multi-image-drop-zone';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
     Package, 
     Upload, 
@@ -20,31 +21,54 @@ import {
     CheckCircle,
     Eye,
     Sparkles,
-    ArrowRight
+    ArrowRight,
+    AlertTriangle,
+    BookOpen,
+    ScanBarcode
 } from 'lucide-react';
+import { useCSRF } from '@/hooks/use-csrf';
+import { apiManager } from '@/lib/api-manager';
+import type { BarcodeSymbology } from '@/lib/barcode/types';
+import type {
+    BarcodeSequenceMode,
+    EANPreviewStatus,
+    GTINFormat,
+    GTINKind,
+    GTINOutputFormat
+} from '@/lib/ean-processor';
+import { appendUploadedFile } from '@/lib/upload-protocol';
+import Image from 'next/image';
 import * as React from 'react';
 
-interface EANRenamerProps {
-    clientPasswordHash: string | null;
-}
-
 interface PreviewFile {
     originalName: string;
     newName: string;
     ean: string | null;
-    status: 'will_rename' | 'keep_original';
-    extractionMethod: 'pattern' | 'ai';
+    status: EANPreviewStatus;
+    extractionMethod: 'pattern' | 'ai' | 'barcode';
     confidence?: number;
+    gtinFormat?: GTINFormat;
+    gtinKind?: GTINKind;
     size?: number;
+    // Only set by the barcode scan
+    barcode?: { symbology: BarcodeSymbology; text: string; crop: string | null } | null;
+    scanError?: string;
 }
 
+const GTIN_KIND_LABELS: Partial<Record<GTINKind, string>> = {
+    isbn: 'ISBN',
+    ismn: 'ISMN',
+    issn: 'ISSN'
+};
+
 interface ProcessedFile {
     filename: string;
     url: string;
     originalName: string;
 }
 
-export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
+export function EANRenamer() {
+    const { addCSRFToken } = useCSRF();
     const [inputFiles, setInputFiles] = React.useState<File[]>([]);
     const [processedFiles, setProcessedFiles] = React.useState<ProcessedFile[]>([]);
     const [previewFiles, setPreviewFiles] = React.useState<PreviewFile[]>([]);
@@ -58,8 +82,12 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
     
     // Settings
     const [removeLeadingZeros, setRemoveLeadingZeros] = React.useState(false);
+    const [gtinFormat, setGtinFormat] = React.useState<GTINOutputFormat>('keep');
     const [useAiMode, setUseAiMode] = React.useState(false);
     const [aiInstructions, setAiInstructions] = React.useState('');
+    const [useBarcodeScan, setUseBarcodeScan] = React.useState(false);
+    const [barcodeMode, setBarcodeMode] = React.useState<BarcodeSequenceMode>('card_sequence');
+    const [skipCards, setSkipCards] = React.useState(true);
 
     // Handle file upload
     const handleFilesAdded = (files: File[]) => {
@@ -81,18 +109,21 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
         setError(null);
 
         try {
-            const formData = new FormData();
-            inputFiles.forEach(file => {
-                formData.append('images', file);
+            const uploaded = await apiManager.uploadFiles(inputFiles, {
+                addCSRFToken,
+                onProgress: ({ percent }) => {
+                    setProgress(percent);
+                    setProgressText(`Uploader billeder... ${percent}%`);
+                }
             });
-            if (clientPasswordHash) {
-                formData.append('passwordHash', clientPasswordHash);
-            }
 
-            const response = await fetch('/api/konverter/rename/upload', {
+            const formData = new FormData();
+            uploaded.forEach(file => appendUploadedFile(formData, 'images', file));
+
+            const response = await fetch('/api/konverter/rename/upload', addCSRFToken({
                 method: 'POST',
                 body: formData,
-            });
+            }));
 
             if (!response.ok) {
                 const errorData = await response.json();
@@ -117,22 +148,24 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
     // Preview files
     const handlePreview = async () => {
         setIsPreviewing(true);
-        setProgressText('Analyserer filer...');
+        setProgressText(useBarcodeScan ? 'Scanner stregkoder...' : 'Analyserer filer...');
         setError(null);
 
         try {
-            const response = await fetch('/api/konverter/rename/preview', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    removeLeadingZeros,
-                    useAiMode,
-                    aiInstructions,
-                    passwordHash: clientPasswordHash,
-                }),
-            });
+            const response = await fetch(
+                useBarcodeScan ? '/api/konverter/rename/scan' : '/api/konverter/rename/preview',
+                addCSRFToken({
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify(
+                        useBarcodeScan
+                            ? { mode: barcodeMode, skipCards, removeLeadingZeros, gtinFormat }
+                            : { removeLeadingZeros, gtinFormat, useAiMode, aiInstructions }
+                    ),
+                })
+            );
 
             if (!response.ok) {
                 const errorData = await response.json();
@@ -160,18 +193,19 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
         setError(null);
 
         try {
-            const response = await fetch('/api/konverter/rename/process', {
+            const response = await fetch('/api/konverter/rename/process', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({
                     removeLeadingZeros,
+                    gtinFormat,
                     useAiMode,
-                    aiInstructions,
-                    passwordHash: clientPasswordHash,
+                    useBarcodeScan,
+                    aiInstructions
                 }),
-            });
+            }));
 
             if (!response.ok) {
                 const errorData = await response.json();
@@ -220,13 +254,9 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
     // Clear all files
     const handleClearAll = async () => {
         try {
-            const response = await fetch('/api/konverter/rename/clear', {
+            const response = await fetch('/api/konverter/rename/clear', addCSRFToken({
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ passwordHash: clientPasswordHash }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Kunne ikke rydde filer');
@@ -246,13 +276,9 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
     // Download all as ZIP
     const handleDownloadAll = async () => {
         try {
-            const response = await fetch('/api/konverter/rename/download-all', {
+            const response = await fetch('/api/konverter/rename/download-all', addCSRFToken({
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ passwordHash: clientPasswordHash }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Download fejlede');
@@ -276,7 +302,9 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
     // Count statistics
     const willRenameCount = previewFiles.filter(f => f.status === 'will_rename').length;
     const keepOriginalCount = previewFiles.filter(f => f.status === 'keep_original').length;
+    const invalidCheckDigitCount = previewFiles.filter(f => f.status === 'invalid_check_digit').length;
     const aiProcessedCount = previewFiles.filter(f => f.extractionMethod === 'ai').length;
+    const barcodeCardCount = previewFiles.filter(f => f.status === 'barcode_card').length;
 
     return (
         <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
@@ -328,6 +356,23 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
                                     />
                                 </div>
                                 
+                                <div className='flex items-center justify-between'>
+                                    <Label className='text-white'>EAN-format</Label>
+                                    <Select
+                                        value={gtinFormat}
+                                        onValueChange={(value) => setGtinFormat(value as GTINOutputFormat)}
+                                        disabled={isUploading}>
+                                        <SelectTrigger className='w-40 bg-white/5 border-white/10 text-white'>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value='keep'>Som i filnavn</SelectItem>
+                                            <SelectItem value='ean13'>EAN-13</SelectItem>
+                                            <SelectItem value='upca'>UPC-A</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+
                                 <div className='flex items-center justify-between'>
                                     <Label htmlFor='ai-mode' className='text-white'>
                                         AI-drevet filnavngenkendelse
@@ -336,7 +381,7 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
                                         id='ai-mode'
                                         checked={useAiMode}
                                         onCheckedChange={setUseAiMode}
-                                        disabled={isUploading}
+                                        disabled={isUploading || useBarcodeScan}
                                     />
                                 </div>
 
@@ -352,6 +397,56 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
                                         />
                                     </div>
                                 )}
+
+                                <div className='flex items-center justify-between'>
+                                    <Label htmlFor='barcode-scan' className='text-white'>
+                                        Læs stregkoder i billederne
+                                    </Label>
+                                    <Switch
+                                        id='barcode-scan'
+                                        checked={useBarcodeScan}
+                                        onCheckedChange={(checked) => {
+                                            setUseBarcodeScan(checked);
+                                            if (checked) setUseAiMode(false);
+                                        }}
+                                        disabled={isUploading}
+                                    />
+                                </div>
+
+                                {useBarcodeScan && (
+                                    <div className='space-y-3'>
+                                        <Select
+                                            value={barcodeMode}
+                                            onValueChange={(value) => setBarcodeMode(value as BarcodeSequenceMode)}
+                                            disabled={isUploading}>
+                                            <SelectTrigger className='bg-white/5 border-white/10 text-white'>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value='card_sequence'>
+                                                    Stregkodekort starter hvert produkt
+                                                </SelectItem>
+                                                <SelectItem value='per_image'>Stregkode i hvert billede</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        {barcodeMode === 'card_sequence' && (
+                                            <div className='flex items-center justify-between'>
+                                                <Label htmlFor='skip-cards' className='text-white/80 text-sm'>
+                                                    Udelad stregkodekort fra resultatet
+                                                </Label>
+                                                <Switch
+                                                    id='skip-cards'
+                                                    checked={skipCards}
+                                                    onCheckedChange={setSkipCards}
+                                                    disabled={isUploading}
+                                                />
+                                            </div>
+                                        )}
+                                        <p className='text-xs text-white/50'>
+                                            Understøtter EAN-13, UPC-A og Code 128 (inkl. GS1-128)
+                                        </p>
+                                    </div>
+                                )}
                             </div>
                         </>
                     )}
@@ -369,6 +464,19 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
                                         <FileText className='inline h-4 w-4 text-blue-500 mr-1' />
                                         {keepOriginalCount} filer beholder originale navne
                                     </p>
+                                    {invalidCheckDigitCount > 0 && (
+                                        <p className='text-white/80'>
+                                            <AlertTriangle className='inline h-4 w-4 text-amber-500 mr-1' />
+                                            {invalidCheckDigitCount} filer har en EAN med ugyldigt kontrolciffer og omdøbes ikke
+                                        </p>
+                                    )}
+                                    {barcodeCardCount > 0 && (
+                                        <p className='text-white/80'>
+                                            <ScanBarcode className='inline h-4 w-4 text-cyan-400 mr-1' />
+                                            {barcodeCardCount} stregkodekort fundet
+                                            {skipCards && barcodeMode === 'card_sequence' && ' (udelades)'}
+                                        </p>
+                                    )}
                                     {aiProcessedCount > 0 && (
                                         <p className='text-white/80'>
                                             <Sparkles className='inline h-4 w-4 text-purple-500 mr-1' />
@@ -384,6 +492,10 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
                                         <div key={index} className='flex items-center gap-2 text-sm'>
                                             {file.status === 'will_rename' ? (
                                                 <ArrowRight className='h-4 w-4 text-green-500 flex-shrink-0' />
+                                            ) : file.status === 'invalid_check_digit' ? (
+                                                <AlertTriangle className='h-4 w-4 text-amber-500 flex-shrink-0' />
+                                            ) : file.status === 'barcode_card' ? (
+                                                <ScanBarcode className='h-4 w-4 text-cyan-400 flex-shrink-0' />
                                             ) : (
                                                 <FileText className='h-4 w-4 text-white/40 flex-shrink-0' />
                                             )}
@@ -392,7 +504,39 @@ export function EANRenamer({ clientPasswordHash }: EANRenamerProps) {
                                                 {file.status === 'will_rename' && (
                                                     <p className='text-white font-medium truncate'>{file.newName}</p>
                                                 )}
+                                                {file.status === 'invalid_check_digit' && (
+                                                    <p className='text-amber-400 text-xs truncate'>
+                                                        Ugyldigt kontrolciffer i {file.ean}
+                                                    </p>
+                                                )}
+                                                {file.barcode && (
+                                                    <p className='text-cyan-400 text-xs truncate'>
+                                                        {file.barcode.symbology}: {file.barcode.text}
+                                                        {file.status === 'barcode_card' && ' (stregkodekort)'}
+                                                    </p>
+                                                )}
+                                                {file.scanError && (
+                                                    <p className='text-red-400 text-xs truncate'>
+                                                        Kunne ikke scannes: {file.scanError}
+                                                    </p>
+                                                )}
                                             </div>
+                                            {file.barcode?.crop && (
+                                                <Image
+                                                    src={file.barcode.crop}
+                                                    alt={`Stregkode ${file.barcode.text}`}
+                                                    width={96}
+                                                    height={40}
+                                                    unoptimized
+                                                    className='h-10 w-auto max-w-24 rounded border border-white/10 object-contain bg-white'
+                                                />
+                                            )}
+                                            {file.gtinKind && GTIN_KIND_LABELS[file.gtinKind] && (
+                                                <span className='flex items-center gap-1 text-xs text-blue-400'>
+                                                    <BookOpen className='h-3 w-3' />
+                                                    {GTIN_KIND_LABELS[file.gtinKind]}
+                                                </span>
+                                            )}
                                             {file.extractionMethod === 'ai' && file.confidence && (
                                                 <span className='text-xs text-purple-400'>
                                                     AI {Math.round(file.confidence * 100)}%
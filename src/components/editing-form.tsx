@@ -1,23 +1,20 @@
 'use client';
 
+import { MaskToolbar } from '@/components/mask-toolbar';
 import { ModeToggle } from '@/components/mode-toggle';
 import { MultiImageDropZone, type ImageFile } from '@/components/multi-image-dropzone';
-import { PromptTemplateSelector } from '@/components/prompt-template-selector';
+import { PromptTemplateSelector, type PromptTemplateSelection } from '@/components/prompt-template-selector';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
-import { Eraser, Save, Loader2, ScanEye, UploadCloud, Lock, LockOpen } from 'lucide-react';
+import { useMaskDrawing } from '@/hooks/useMaskDrawing';
+import type { PublicUser } from '@/lib/user-store';
+import { Save, Loader2, ScanEye, UploadCloud, Lock, LockOpen } from 'lucide-react';
 import Image from 'next/image';
 import * as React from 'react';
 
-type DrawnPoint = {
-    x: number;
-    y: number;
-    size: number;
-};
-
 export type EditingFormData = {
     prompt: string;
     n: number;
@@ -25,16 +22,24 @@ export type EditingFormData = {
     quality: 'low' | 'medium' | 'high' | 'auto';
     imageFiles: File[];
     maskFile: File | null;
+    // Optional image provider/model override; the server default is used when unset
+    provider?: string;
+    model?: string;
+    // Template and prompt tags the prompt was built from
+    templateId?: string;
+    tags?: string[];
 };
 
 type EditingFormProps = {
     onSubmit: (data: EditingFormData) => void;
     isLoading: boolean;
+    // Percent of the source images uploaded, while they are being sent
+    uploadProgress?: number | null;
     currentMode: 'generate' | 'edit';
     onModeChange: (mode: 'generate' | 'edit') => void;
-    isPasswordRequiredByBackend: boolean | null;
-    clientPasswordHash: string | null;
-    onOpenPasswordDialog: () => void;
+    isAuthRequired: boolean | null;
+    currentUser: PublicUser | null;
+    onOpenLoginDialog: () => void;
     imageFiles: File[];
     sourceImagePreviewUrls: string[];
     setImageFiles: React.Dispatch<React.SetStateAction<File[]>>;
@@ -45,8 +50,6 @@ type EditingFormProps = {
     editN: number[];
     setEditN: React.Dispatch<React.SetStateAction<number[]>>;
     isEditingGeneratedImage: boolean;
-    editBrushSize: number[];
-    setEditBrushSize: React.Dispatch<React.SetStateAction<number[]>>;
     editShowMaskEditor: boolean;
     setEditShowMaskEditor: React.Dispatch<React.SetStateAction<boolean>>;
     editGeneratedMaskFile: File | null;
@@ -55,8 +58,6 @@ type EditingFormProps = {
     setEditIsMaskSaved: React.Dispatch<React.SetStateAction<boolean>>;
     editOriginalImageSize: { width: number; height: number } | null;
     setEditOriginalImageSize: React.Dispatch<React.SetStateAction<{ width: number; height: number } | null>>;
-    editDrawnPoints: DrawnPoint[];
-    setEditDrawnPoints: React.Dispatch<React.SetStateAction<DrawnPoint[]>>;
     editMaskPreviewUrl: string | null;
     setEditMaskPreviewUrl: React.Dispatch<React.SetStateAction<string | null>>;
 };
@@ -88,11 +89,12 @@ type EditingFormProps = {
 export function EditingForm({
     onSubmit,
     isLoading,
+    uploadProgress = null,
     currentMode,
     onModeChange,
-    isPasswordRequiredByBackend,
-    clientPasswordHash,
-    onOpenPasswordDialog,
+    isAuthRequired,
+    currentUser,
+    onOpenLoginDialog,
     imageFiles,
     sourceImagePreviewUrls,
     setImageFiles,
@@ -103,8 +105,6 @@ export function EditingForm({
     editN,
     setEditN,
     isEditingGeneratedImage,
-    editBrushSize,
-    setEditBrushSize,
     editShowMaskEditor,
     setEditShowMaskEditor,
     editGeneratedMaskFile,
@@ -113,36 +113,38 @@ export function EditingForm({
     setEditIsMaskSaved,
     editOriginalImageSize,
     setEditOriginalImageSize,
-    editDrawnPoints,
-    setEditDrawnPoints,
     editMaskPreviewUrl,
     setEditMaskPreviewUrl
 }: EditingFormProps) {
     const [firstImagePreviewUrl, setFirstImagePreviewUrl] = React.useState<string | null>(null);
     const [imageDropZoneFiles, setImageDropZoneFiles] = React.useState<ImageFile[]>([]);
+    const [promptSelection, setPromptSelection] = React.useState<PromptTemplateSelection>({
+        templateId: null,
+        tags: []
+    });
 
-    const canvasRef = React.useRef<HTMLCanvasElement>(null);
-    const visualFeedbackCanvasRef = React.useRef<HTMLCanvasElement | null>(null);
-    const isDrawing = React.useRef(false);
-    const lastPos = React.useRef<{ x: number; y: number } | null>(null);
     const maskInputRef = React.useRef<HTMLInputElement>(null);
 
-    React.useEffect(() => {
-        if (isEditingGeneratedImage && editOriginalImageSize) {
-            if (!visualFeedbackCanvasRef.current) {
-                visualFeedbackCanvasRef.current = document.createElement('canvas');
-            }
-            visualFeedbackCanvasRef.current.width = editOriginalImageSize.width;
-            visualFeedbackCanvasRef.current.height = editOriginalImageSize.height;
-        }
-    }, [editOriginalImageSize, isEditingGeneratedImage]);
+    // Any change to the drawn mask means it has to be saved again
+    const handleMaskChange = React.useCallback(() => {
+        setEditGeneratedMaskFile(null);
+        setEditIsMaskSaved(false);
+        setEditMaskPreviewUrl(null);
+    }, [setEditGeneratedMaskFile, setEditIsMaskSaved, setEditMaskPreviewUrl]);
+
+    const mask = useMaskDrawing({
+        width: editOriginalImageSize?.width || 512,
+        height: editOriginalImageSize?.height || 512,
+        enabled: isEditingGeneratedImage && editShowMaskEditor && !!firstImagePreviewUrl,
+        image: isEditingGeneratedImage ? imageFiles[0] : null,
+        onChange: handleMaskChange
+    });
 
     React.useEffect(() => {
         setEditGeneratedMaskFile(null);
         setEditIsMaskSaved(false);
         setEditOriginalImageSize(null);
         setFirstImagePreviewUrl(null);
-        setEditDrawnPoints([]);
         setEditMaskPreviewUrl(null);
 
         if (imageFiles.length > 0 && sourceImagePreviewUrls.length > 0) {
@@ -161,38 +163,10 @@ export function EditingForm({
         setEditGeneratedMaskFile,
         setEditIsMaskSaved,
         setEditOriginalImageSize,
-        setEditDrawnPoints,
         setEditMaskPreviewUrl,
         setEditShowMaskEditor
     ]);
 
-    React.useEffect(() => {
-        if (!isEditingGeneratedImage) return;
-
-        const displayCtx = canvasRef.current?.getContext('2d');
-        const displayCanvas = canvasRef.current;
-        const feedbackCanvas = visualFeedbackCanvasRef.current;
-
-        if (!displayCtx || !displayCanvas || !feedbackCanvas || !editOriginalImageSize) return;
-
-        const feedbackCtx = feedbackCanvas.getContext('2d');
-        if (!feedbackCtx) return;
-
-        feedbackCtx.clearRect(0, 0, feedbackCanvas.width, feedbackCanvas.height);
-        feedbackCtx.fillStyle = 'red';
-        editDrawnPoints.forEach((point) => {
-            feedbackCtx.beginPath();
-            feedbackCtx.arc(point.x, point.y, point.size, 0, Math.PI * 2);
-            feedbackCtx.fill();
-        });
-
-        displayCtx.clearRect(0, 0, displayCanvas.width, displayCanvas.height);
-        displayCtx.save();
-        displayCtx.globalAlpha = 0.5;
-        displayCtx.drawImage(feedbackCanvas, 0, 0, displayCanvas.width, displayCanvas.height);
-        displayCtx.restore();
-    }, [editDrawnPoints, editOriginalImageSize, isEditingGeneratedImage]);
-
     // Sync between old imageFiles format and new ImageFile format
     React.useEffect(() => {
         const newImageFiles: ImageFile[] = imageFiles.map((file, index) => ({
@@ -218,117 +192,26 @@ export function EditingForm({
         [setImageFiles, setSourceImagePreviewUrls]
     );
 
-    // All mask-related functions - conditional on isEditingGeneratedImage
-    const getMousePos = (e: React.MouseEvent | React.TouchEvent) => {
-        const canvas = canvasRef.current;
-        if (!canvas) return null;
-        const rect = canvas.getBoundingClientRect();
-        const scaleX = canvas.width / rect.width;
-        const scaleY = canvas.height / rect.height;
-        const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-        const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
-        return {
-            x: (clientX - rect.left) * scaleX,
-            y: (clientY - rect.top) * scaleY
-        };
-    };
-
-    const addPoint = (x: number, y: number) => {
-        setEditDrawnPoints((prevPoints) => [...prevPoints, { x, y, size: editBrushSize[0] }]);
-        setEditIsMaskSaved(false);
-        setEditMaskPreviewUrl(null);
-    };
-
-    const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-        e.preventDefault();
-        isDrawing.current = true;
-        const currentPos = getMousePos(e);
-        if (!currentPos) return;
-        lastPos.current = currentPos;
-        addPoint(currentPos.x, currentPos.y);
-    };
-
-    const drawLine = (e: React.MouseEvent | React.TouchEvent) => {
-        if (!isDrawing.current) return;
-        e.preventDefault();
-        const currentPos = getMousePos(e);
-        if (!currentPos || !lastPos.current) return;
-
-        const dist = Math.hypot(currentPos.x - lastPos.current.x, currentPos.y - lastPos.current.y);
-        const angle = Math.atan2(currentPos.y - lastPos.current.y, currentPos.x - lastPos.current.x);
-        const step = Math.max(1, editBrushSize[0] / 4);
-
-        for (let i = step; i < dist; i += step) {
-            const x = lastPos.current.x + Math.cos(angle) * i;
-            const y = lastPos.current.y + Math.sin(angle) * i;
-            addPoint(x, y);
-        }
-        addPoint(currentPos.x, currentPos.y);
-
-        lastPos.current = currentPos;
-    };
-
-    const drawMaskStroke = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
-        ctx.fillStyle = 'black';
-        ctx.beginPath();
-        ctx.arc(x, y, size, 0, Math.PI * 2);
-        ctx.fill();
-    };
-
-    const stopDrawing = () => {
-        isDrawing.current = false;
-        lastPos.current = null;
-    };
-
-    const handleClearMask = () => {
-        setEditDrawnPoints([]);
-        setEditGeneratedMaskFile(null);
-        setEditIsMaskSaved(false);
-        setEditMaskPreviewUrl(null);
-    };
-
-    const generateAndSaveMask = () => {
-        if (!editOriginalImageSize || editDrawnPoints.length === 0) {
-            setEditGeneratedMaskFile(null);
-            setEditIsMaskSaved(false);
-            setEditMaskPreviewUrl(null);
-            return;
-        }
-
-        const offscreenCanvas = document.createElement('canvas');
-        offscreenCanvas.width = editOriginalImageSize.width;
-        offscreenCanvas.height = editOriginalImageSize.height;
-        const offscreenCtx = offscreenCanvas.getContext('2d');
-
-        if (!offscreenCtx) return;
-
-        offscreenCtx.fillStyle = '#000000';
-        offscreenCtx.fillRect(0, 0, offscreenCanvas.width, offscreenCanvas.height);
-        offscreenCtx.globalCompositeOperation = 'destination-out';
-        editDrawnPoints.forEach((point) => {
-            drawMaskStroke(offscreenCtx, point.x, point.y, point.size);
-        });
-
+    // Rasterizes the drawn mask for the request and keeps it for this image
+    const generateAndSaveMask = async () => {
         try {
-            const dataUrl = offscreenCanvas.toDataURL('image/png');
-            setEditMaskPreviewUrl(dataUrl);
-        } catch (e) {
-            console.error('Error generating mask preview data URL:', e);
-            setEditMaskPreviewUrl(null);
-        }
-
-        offscreenCanvas.toBlob((blob) => {
-            if (blob) {
-                const maskFile = new File([blob], 'generated-mask.png', { type: 'image/png' });
-                setEditGeneratedMaskFile(maskFile);
-                setEditIsMaskSaved(true);
-                console.log('Mask generated and saved to state:', maskFile);
-            } else {
-                console.error('Failed to generate mask blob.');
-                setEditIsMaskSaved(false);
-                setEditMaskPreviewUrl(null);
+            const maskFile = await mask.generateMaskFile();
+            if (!maskFile) {
+                handleMaskChange();
+                return;
             }
-        }, 'image/png');
+
+            setEditGeneratedMaskFile(maskFile);
+            setEditIsMaskSaved(true);
+            await mask.saveMask();
+
+            const reader = new FileReader();
+            reader.onloadend = () => setEditMaskPreviewUrl(reader.result as string);
+            reader.readAsDataURL(maskFile);
+        } catch (error) {
+            console.error('Failed to generate mask:', error);
+            handleMaskChange();
+        }
     };
 
     const handleMaskFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -360,7 +243,7 @@ export function EditingForm({
 
             setEditGeneratedMaskFile(file);
             setEditIsMaskSaved(true);
-            setEditDrawnPoints([]);
+            mask.reset();
 
             reader.onloadend = () => {
                 setEditMaskPreviewUrl(reader.result as string);
@@ -392,7 +275,7 @@ export function EditingForm({
             return;
         }
         // Validate mask if editing generated image
-        if (isEditingGeneratedImage && editShowMaskEditor && editDrawnPoints.length > 0 && !editIsMaskSaved) {
+        if (isEditingGeneratedImage && editShowMaskEditor && !mask.isEmpty && !editIsMaskSaved) {
             alert('Please save your mask before submitting.');
             return;
         }
@@ -403,7 +286,9 @@ export function EditingForm({
             size: '1024x1024', // Always use square format
             quality: 'high', // Always use high quality
             imageFiles: imageFiles,
-            maskFile: isEditingGeneratedImage ? editGeneratedMaskFile : null
+            maskFile: isEditingGeneratedImage ? editGeneratedMaskFile : null,
+            templateId: promptSelection.templateId ?? undefined,
+            tags: promptSelection.tags
         };
         onSubmit(formData);
     };
@@ -416,14 +301,15 @@ export function EditingForm({
                         <CardTitle className='py-1 text-lg font-medium text-white'>
                             Skab miljøbilleder ud fra packshots
                         </CardTitle>
-                        {isPasswordRequiredByBackend && (
+                        {isAuthRequired && (
                             <Button
                                 variant='ghost'
                                 size='icon'
-                                onClick={onOpenPasswordDialog}
+                                onClick={onOpenLoginDialog}
                                 className='ml-2 text-white/60 hover:text-white'
-                                aria-label='Configure Password'>
-                                {clientPasswordHash ? <Lock className='h-4 w-4' /> : <LockOpen className='h-4 w-4' />}
+                                aria-label={currentUser ? `Logget ind som ${currentUser.username}` : 'Log ind'}
+                                title={currentUser ? `${currentUser.username} (${currentUser.role})` : 'Log ind'}>
+                                {currentUser ? <Lock className='h-4 w-4' /> : <LockOpen className='h-4 w-4' />}
                             </Button>
                         )}
                     </div>
@@ -447,7 +333,12 @@ export function EditingForm({
 
                     <div className='space-y-1.5'>
                         <Label className='text-white'>Prompt</Label>
-                        <PromptTemplateSelector value={editPrompt} onChange={setEditPrompt} imageFiles={imageFiles} />
+                        <PromptTemplateSelector
+                            value={editPrompt}
+                            onChange={setEditPrompt}
+                            onSelectionChange={setPromptSelection}
+                            imageFiles={imageFiles}
+                        />
                     </div>
 
                     {/* Conditional Mask Editor - only for generated images */}
@@ -468,21 +359,7 @@ export function EditingForm({
 
                             {editShowMaskEditor && (
                                 <div className='space-y-4 rounded-lg border border-white/10 bg-white/5 p-4'>
-                                    <div className='space-y-2'>
-                                        <Label htmlFor='brush-size-slider' className='text-white'>
-                                            Penselstørrelse: {editBrushSize[0]}px
-                                        </Label>
-                                        <Slider
-                                            id='brush-size-slider'
-                                            min={5}
-                                            max={50}
-                                            step={1}
-                                            value={editBrushSize}
-                                            onValueChange={setEditBrushSize}
-                                            disabled={isLoading}
-                                            className='[&>button]:border-black [&>button]:bg-white [&>button]:ring-offset-black [&>span:first-child]:h-1 [&>span:first-child>span]:bg-white'
-                                        />
-                                    </div>
+                                    <MaskToolbar mask={mask} disabled={isLoading} />
 
                                     <div className='space-y-2'>
                                         <Label className='text-white'>Lærred</Label>
@@ -496,48 +373,31 @@ export function EditingForm({
                                                 unoptimized
                                             />
                                             <canvas
-                                                ref={canvasRef}
+                                                ref={mask.canvasRef}
                                                 width={editOriginalImageSize?.width || 512}
                                                 height={editOriginalImageSize?.height || 512}
-                                                className='absolute inset-0 max-h-64 w-full cursor-crosshair'
+                                                className='absolute inset-0 max-h-64 w-full cursor-crosshair touch-none opacity-50'
                                                 style={{
                                                     width: '100%',
                                                     height: 'auto',
                                                     maxHeight: '16rem',
                                                     objectFit: 'contain'
                                                 }}
-                                                onMouseDown={startDrawing}
-                                                onMouseMove={drawLine}
-                                                onMouseUp={stopDrawing}
-                                                onTouchStart={startDrawing}
-                                                onTouchMove={drawLine}
-                                                onTouchEnd={stopDrawing}
                                             />
                                         </div>
                                         <p className='text-xs text-white/60'>
                                             Tegn på billedet for at markere områder, du vil redigere. Røde områder vil
-                                            blive erstattet.
+                                            blive erstattet. Udvid og blød kant vises, når du holder pause.
                                         </p>
                                     </div>
 
                                     <div className='flex gap-2'>
-                                        <Button
-                                            type='button'
-                                            variant='outline'
-                                            size='sm'
-                                            onClick={handleClearMask}
-                                            disabled={isLoading}
-                                            className='border-white/20 text-white/80 hover:bg-white/10 hover:text-white'>
-                                            <Eraser className='mr-2 h-4 w-4' />
-                                            Ryd mask
-                                        </Button>
-
                                         <Button
                                             type='button'
                                             variant='outline'
                                             size='sm'
                                             onClick={generateAndSaveMask}
-                                            disabled={isLoading || editDrawnPoints.length === 0}
+                                            disabled={isLoading || mask.isEmpty}
                                             className='border-white/20 text-white/80 hover:bg-white/10 hover:text-white disabled:opacity-50'>
                                             <Save className='mr-2 h-4 w-4' />
                                             {editIsMaskSaved ? 'Mask gemt' : 'Gem mask'}
@@ -608,7 +468,11 @@ export function EditingForm({
                         disabled={isLoading || !editPrompt || imageFiles.length === 0}
                         className='flex w-full items-center justify-center gap-2 rounded-md bg-white text-black hover:bg-white/90 disabled:bg-white/10 disabled:text-white/40'>
                         {isLoading && <Loader2 className='h-4 w-4 animate-spin' />}
-                        {isLoading ? 'Skaber miljøbilleder...' : 'Skab miljøbilleder'}
+                        {uploadProgress !== null
+                            ? `Uploader billeder... ${uploadProgress}%`
+                            : isLoading
+                              ? 'Skaber miljøbilleder...'
+                              : 'Skab miljøbilleder'}
                     </Button>
                 </CardFooter>
             </form>
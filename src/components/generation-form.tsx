@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Slider } from '@/components/ui/slider';
 import { Textarea } from '@/components/ui/textarea';
+import type { PublicUser } from '@/lib/user-store';
 import {
     Square,
     RectangleHorizontal,
@@ -42,9 +43,9 @@ type GenerationFormProps = {
     isLoading: boolean;
     currentMode: 'generate' | 'edit';
     onModeChange: (mode: 'generate' | 'edit') => void;
-    isPasswordRequiredByBackend: boolean | null;
-    clientPasswordHash: string | null;
-    onOpenPasswordDialog: () => void;
+    isAuthRequired: boolean | null;
+    currentUser: PublicUser | null;
+    onOpenLoginDialog: () => void;
     prompt: string;
     setPrompt: React.Dispatch<React.SetStateAction<string>>;
     n: number[];
@@ -92,9 +93,9 @@ export function GenerationForm({
     isLoading,
     currentMode,
     onModeChange,
-    isPasswordRequiredByBackend,
-    clientPasswordHash,
-    onOpenPasswordDialog,
+    isAuthRequired,
+    currentUser,
+    onOpenLoginDialog,
     prompt,
     setPrompt,
     n,
@@ -137,14 +138,15 @@ export function GenerationForm({
                 <div>
                     <div className='flex items-center'>
                         <CardTitle className='py-1 text-lg font-medium text-white'>Generer billede</CardTitle>
-                        {isPasswordRequiredByBackend && (
+                        {isAuthRequired && (
                             <Button
                                 variant='ghost'
                                 size='icon'
-                                onClick={onOpenPasswordDialog}
+                                onClick={onOpenLoginDialog}
                                 className='ml-2 text-white/60 hover:text-white'
-                                aria-label='Configure Password'>
-                                {clientPasswordHash ? <Lock className='h-4 w-4' /> : <LockOpen className='h-4 w-4' />}
+                                aria-label={currentUser ? `Logget ind som ${currentUser.username}` : 'Log ind'}
+                                title={currentUser ? `${currentUser.username} (${currentUser.role})` : 'Log ind'}>
+                                {currentUser ? <Lock className='h-4 w-4' /> : <LockOpen className='h-4 w-4' />}
                             </Button>
                         )}
                     </div>
@@ -1,6 +1,8 @@
 'use client';
 
 import type { HistoryMetadata } from '@/app/page';
+import { HistorySearchBar } from '@/components/history-search-bar';
+import { LineageTree } from '@/components/lineage-tree';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -14,7 +16,12 @@ import {
     DialogFooter,
     DialogClose
 } from '@/components/ui/dialog';
+import { useSaveToProject } from '@/hooks/use-save-to-project';
+import { db } from '@/lib/db';
+import { isEmptyHistoryQuery, type HistorySearchQuery } from '@/lib/history-search';
+import { buildLineageTree, countLineageNodes } from '@/lib/lineage';
 import { cn } from '@/lib/utils';
+import type { VideoHistoryItem } from '@/types/video';
 import {
     Copy,
     Check,
@@ -24,14 +31,23 @@ import {
     HardDrive,
     Database,
     FileImage,
-    Trash2
+    FolderPlus,
+    GitBranch,
+    Trash2,
+    Video
 } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import Image from 'next/image';
 import * as React from 'react';
 
 type HistoryPanelProps = {
     history: HistoryMetadata[];
+    // Linked into the lineage view when made from history images
+    videos?: VideoHistoryItem[];
     onSelectImage: (item: HistoryMetadata) => void;
+    onSelectVideo?: (video: VideoHistoryItem) => void;
+    // Loads a history image into the edit form, starting a new branch from it
+    onBranchFromImage?: (filename: string) => void;
     onClearHistory: () => void;
     getImageSrc: (filename: string) => string | undefined;
     onDeleteItemRequest: (item: HistoryMetadata) => void;
@@ -51,7 +67,10 @@ const formatDuration = (ms: number): string => {
 
 export function HistoryPanel({
     history,
+    videos = [],
     onSelectImage,
+    onSelectVideo,
+    onBranchFromImage,
     onClearHistory,
     getImageSrc,
     onDeleteItemRequest,
@@ -63,6 +82,49 @@ export function HistoryPanel({
 }: HistoryPanelProps) {
     const [openPromptDialogTimestamp, setOpenPromptDialogTimestamp] = React.useState<number | null>(null);
     const [copiedTimestamp, setCopiedTimestamp] = React.useState<number | null>(null);
+    const [openLineageTimestamp, setOpenLineageTimestamp] = React.useState<number | null>(null);
+    const [searchQuery, setSearchQuery] = React.useState<HistorySearchQuery>({});
+    const { activeProject, saveToProject, isSaving: isSavingToProject, message: projectMessage } = useSaveToProject();
+
+    const isSearching = !isEmptyHistoryQuery(searchQuery);
+    const searchResults = useLiveQuery(
+        () => (isSearching ? db.searchHistory(searchQuery) : undefined),
+        [searchQuery, isSearching]
+    );
+    const templateIds = useLiveQuery(() => db.getHistoryTemplateIds(), []);
+
+    const displayedHistory = React.useMemo(() => {
+        if (!isSearching) return history;
+        return (searchResults?.results ?? []).flatMap((result) => (result.kind === 'image' ? [result.item] : []));
+    }, [isSearching, history, searchResults]);
+
+    // Matched against the page's videos, which carry the playable local URL
+    const displayedVideos = React.useMemo(() => {
+        if (!isSearching) return [];
+        return (searchResults?.results ?? []).flatMap((result) =>
+            result.kind === 'video' ? [videos.find((video) => video.id === result.video.id) ?? result.video] : []
+        );
+    }, [isSearching, videos, searchResults]);
+
+    const lineageRoot = React.useMemo(() => {
+        const item = history.find((entry) => entry.timestamp === openLineageTimestamp);
+        return item ? buildLineageTree(item, history, videos) : null;
+    }, [history, videos, openLineageTimestamp]);
+
+    const getThumbnailUrl = (item: HistoryMetadata, filename: string): string | undefined =>
+        (item.storageModeUsed || 'fs') === 'indexeddb' ? getImageSrc(filename) : `/api/image/${filename}`;
+
+    const handleAddToProject = (item: HistoryMetadata) =>
+        saveToProject(() =>
+            item.images.map((image) => ({
+                kind: 'image' as const,
+                name: image.filename,
+                filename: image.filename,
+                historyTimestamp: item.timestamp,
+                prompt: item.prompt,
+                storageModeUsed: item.storageModeUsed
+            }))
+        );
 
     const handleCopy = async (text: string | null | undefined, timestamp: number) => {
         if (!text) return;
@@ -79,6 +141,7 @@ export function HistoryPanel({
         <Card className='flex h-full w-full flex-col overflow-hidden rounded-lg border border-white/10 bg-black'>
             <CardHeader className='flex flex-row items-center justify-between gap-4 border-b border-white/10 px-4 py-3'>
                 <CardTitle className='text-lg font-medium text-white'>Historik</CardTitle>
+                {projectMessage && <span className='ml-auto text-xs text-white/60'>{projectMessage}</span>}
                 {history.length > 0 && (
                     <Button
                         variant='ghost'
@@ -90,13 +153,62 @@ export function HistoryPanel({
                 )}
             </CardHeader>
             <CardContent className='flex-grow overflow-y-auto p-4'>
-                {history.length === 0 ? (
+                {(history.length > 0 || videos.length > 0) && (
+                    <div className='mb-4 space-y-1'>
+                        <HistorySearchBar onQueryChange={setSearchQuery} templateIds={templateIds ?? []} />
+                        {isSearching && searchResults && (
+                            <p className='text-xs text-white/50'>
+                                {searchResults.total === 0
+                                    ? 'Ingen resultater matcher søgningen.'
+                                    : searchResults.total > searchResults.results.length
+                                      ? `Viser ${searchResults.results.length} af ${searchResults.total} resultater`
+                                      : `${searchResults.total} ${searchResults.total === 1 ? 'resultat' : 'resultater'}`}
+                            </p>
+                        )}
+                    </div>
+                )}
+                {history.length === 0 && !isSearching ? (
                     <div className='flex h-full items-center justify-center text-white/40'>
                         <p>Generated images will appear here.</p>
                     </div>
                 ) : (
                     <div className='grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5'>
-                        {[...history].map((item) => {
+                        {displayedVideos.map((video) => {
+                            const videoUrl = video.localVideoUrl || video.videoUrl;
+                            return (
+                                <button
+                                    key={video.id}
+                                    onClick={() => onSelectVideo?.(video)}
+                                    className='flex flex-col overflow-hidden rounded-md border border-white/20 text-left transition-all duration-150 hover:border-white/40 focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-black focus:outline-none'
+                                    aria-label={`Vis video fra ${new Date(video.createdAt).toLocaleString()}`}>
+                                    <div className='relative aspect-square w-full bg-neutral-900'>
+                                        {videoUrl ? (
+                                            <video
+                                                src={videoUrl}
+                                                muted
+                                                preload='metadata'
+                                                className='h-full w-full object-cover'
+                                            />
+                                        ) : (
+                                            <div className='flex h-full w-full items-center justify-center text-neutral-500'>
+                                                <Video size={24} />
+                                            </div>
+                                        )}
+                                        <div className='pointer-events-none absolute top-1 left-1 flex items-center gap-1 rounded-full bg-purple-600/80 px-1.5 py-0.5 text-[11px] text-white'>
+                                            <Video size={12} />
+                                            Video
+                                        </div>
+                                    </div>
+                                    <div className='space-y-1 border-t border-neutral-700 bg-black p-2 text-xs text-white/60'>
+                                        <p className='truncate text-white/80' title={video.promptText}>
+                                            {video.promptText || 'Ingen prompt'}
+                                        </p>
+                                        <p>{new Date(video.createdAt).toLocaleString()}</p>
+                                    </div>
+                                </button>
+                            );
+                        })}
+                        {displayedHistory.map((item) => {
                             const firstImage = item.images?.[0];
                             const imageCount = item.images?.length ?? 0;
                             const isMultiImage = imageCount > 1;
@@ -114,7 +226,7 @@ export function HistoryPanel({
                             }
 
                             return (
-                                <div key={itemKey} className='flex flex-col'>
+                                <div key={item.id ?? itemKey} className='flex flex-col'>
                                     <div className='group relative'>
                                         <button
                                             onClick={() => onSelectImage(item)}
@@ -185,6 +297,11 @@ export function HistoryPanel({
                                         <p>
                                             <span className='font-medium text-white/80'>Mod:</span> {item.moderation}
                                         </p>
+                                        {item.model && (
+                                            <p title={item.provider ? `Provider: ${item.provider}` : undefined}>
+                                                <span className='font-medium text-white/80'>Model:</span> {item.model}
+                                            </p>
+                                        )}
                                         <div className='mt-2 flex items-center gap-1'>
                                             <Dialog
                                                 open={openPromptDialogTimestamp === itemKey}
@@ -235,6 +352,27 @@ export function HistoryPanel({
                                                     </DialogFooter>
                                                 </DialogContent>
                                             </Dialog>
+                                            <Button
+                                                variant='outline'
+                                                size='sm'
+                                                className='h-6 w-6 border-white/20 p-0 text-white/70 hover:bg-white/10 hover:text-white'
+                                                onClick={() => setOpenLineageTimestamp(itemKey)}
+                                                title='Vis afstamning'
+                                                aria-label='Vis afstamning'>
+                                                <GitBranch size={14} />
+                                            </Button>
+                                            {activeProject && (
+                                                <Button
+                                                    variant='outline'
+                                                    size='sm'
+                                                    className='h-6 w-6 border-white/20 p-0 text-white/70 hover:bg-white/10 hover:text-white'
+                                                    onClick={() => handleAddToProject(item)}
+                                                    disabled={isSavingToProject}
+                                                    title={`Tilføj til ${activeProject.name}`}
+                                                    aria-label={`Tilføj til ${activeProject.name}`}>
+                                                    <FolderPlus size={14} />
+                                                </Button>
+                                            )}
                                             <Dialog
                                                 open={itemPendingDeleteConfirmation?.timestamp === item.timestamp}
                                                 onOpenChange={(isOpen) => {
@@ -305,6 +443,39 @@ export function HistoryPanel({
                     </div>
                 )}
             </CardContent>
+            <Dialog open={lineageRoot !== null} onOpenChange={(isOpen) => !isOpen && setOpenLineageTimestamp(null)}>
+                <DialogContent className='border-neutral-700 bg-neutral-900 text-white sm:max-w-[720px]'>
+                    <DialogHeader>
+                        <DialogTitle className='text-white'>Afstamning</DialogTitle>
+                        <DialogDescription className='text-neutral-400'>
+                            {lineageRoot && countLineageNodes(lineageRoot) > 1
+                                ? 'Hvordan billedet er opstået, og hvad der er lavet ud fra det. Klik på et billede for at redigere videre fra det.'
+                                : 'Billedet er hverken lavet ud fra eller brugt til andre billeder i historikken endnu.'}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className='max-h-[60vh] overflow-y-auto pr-1'>
+                        {lineageRoot && openLineageTimestamp !== null && (
+                            <LineageTree
+                                root={lineageRoot}
+                                focusTimestamp={openLineageTimestamp}
+                                getThumbnailUrl={getThumbnailUrl}
+                                onSelect={(item) => {
+                                    onSelectImage(item);
+                                    setOpenLineageTimestamp(null);
+                                }}
+                                onBranch={
+                                    onBranchFromImage
+                                        ? (filename) => {
+                                              onBranchFromImage(filename);
+                                              setOpenLineageTimestamp(null);
+                                          }
+                                        : undefined
+                                }
+                            />
+                        )}
+                    </div>
+                </DialogContent>
+            </Dialog>
         </Card>
     );
 }
@@ -0,0 +1,187 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { HistorySearchQuery } from '@/lib/history-search';
+import { PROMPT_TEMPLATES } from '@/lib/prompt-templates';
+import { cn } from '@/lib/utils';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import * as React from 'react';
+
+interface HistorySearchBarProps {
+    onQueryChange: (query: HistorySearchQuery) => void;
+    // Templates that appear in the history, offered in the template facet
+    templateIds: string[];
+}
+
+// Select value for "no filter"
+const ANY = 'any';
+
+function parseDate(value: string, endOfDay: boolean): number | undefined {
+    if (!value) return undefined;
+    const time = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime();
+    return Number.isNaN(time) ? undefined : time;
+}
+
+/** Search box and facets for the image and video history */
+export function HistorySearchBar({ onQueryChange, templateIds }: HistorySearchBarProps) {
+    const [text, setText] = React.useState('');
+    const [debouncedText, setDebouncedText] = React.useState('');
+    const [showFilters, setShowFilters] = React.useState(false);
+    const [kind, setKind] = React.useState<string>(ANY);
+    const [mode, setMode] = React.useState<string>(ANY);
+    const [templateId, setTemplateId] = React.useState<string>(ANY);
+    const [mask, setMask] = React.useState<string>(ANY);
+    const [storageMode, setStorageMode] = React.useState<string>(ANY);
+    const [dateFrom, setDateFrom] = React.useState('');
+    const [dateTo, setDateTo] = React.useState('');
+
+    React.useEffect(() => {
+        const timeout = setTimeout(() => setDebouncedText(text), 250);
+        return () => clearTimeout(timeout);
+    }, [text]);
+
+    React.useEffect(() => {
+        onQueryChange({
+            text: debouncedText,
+            from: parseDate(dateFrom, false),
+            to: parseDate(dateTo, true),
+            kind: kind === ANY ? 'all' : (kind as HistorySearchQuery['kind']),
+            mode: mode === ANY ? undefined : (mode as HistorySearchQuery['mode']),
+            templateId: templateId === ANY ? undefined : templateId,
+            hasMask: mask === ANY ? undefined : mask === 'with',
+            storageMode: storageMode === ANY ? undefined : (storageMode as HistorySearchQuery['storageMode'])
+        });
+    }, [debouncedText, dateFrom, dateTo, kind, mode, templateId, mask, storageMode, onQueryChange]);
+
+    const activeFilterCount =
+        [kind, mode, templateId, mask, storageMode].filter((value) => value !== ANY).length +
+        (dateFrom ? 1 : 0) +
+        (dateTo ? 1 : 0);
+
+    const handleReset = () => {
+        setText('');
+        setDebouncedText('');
+        setKind(ANY);
+        setMode(ANY);
+        setTemplateId(ANY);
+        setMask(ANY);
+        setStorageMode(ANY);
+        setDateFrom('');
+        setDateTo('');
+    };
+
+    const templateName = (id: string) => PROMPT_TEMPLATES.find((template) => template.id === id)?.name ?? id;
+
+    return (
+        <div className='space-y-2'>
+            <div className='flex items-center gap-2'>
+                <div className='relative flex-1'>
+                    <Search className='absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-white/40' />
+                    <Input
+                        placeholder='Søg i prompts...'
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        className='border-white/10 bg-white/5 pl-9 text-white'
+                    />
+                </div>
+                <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() => setShowFilters((shown) => !shown)}
+                    className={cn(
+                        'border-white/20 text-white/70 hover:bg-white/10 hover:text-white',
+                        showFilters && 'bg-white/10 text-white'
+                    )}>
+                    <SlidersHorizontal className='mr-1 h-4 w-4' />
+                    Filtre{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                </Button>
+                {(text || activeFilterCount > 0) && (
+                    <Button
+                        variant='ghost'
+                        size='sm'
+                        onClick={handleReset}
+                        className='text-white/60 hover:bg-white/10 hover:text-white'
+                        aria-label='Nulstil søgning'>
+                        <X className='h-4 w-4' />
+                    </Button>
+                )}
+            </div>
+
+            {showFilters && (
+                <div className='grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-6'>
+                    <Select value={kind} onValueChange={setKind}>
+                        <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ANY}>Billeder og videoer</SelectItem>
+                            <SelectItem value='images'>Kun billeder</SelectItem>
+                            <SelectItem value='videos'>Kun videoer</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select value={mode} onValueChange={setMode}>
+                        <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ANY}>Alle typer</SelectItem>
+                            <SelectItem value='edit'>Redigeret</SelectItem>
+                            <SelectItem value='generate'>Genereret</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select value={templateId} onValueChange={setTemplateId}>
+                        <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ANY}>Alle skabeloner</SelectItem>
+                            {templateIds.map((id) => (
+                                <SelectItem key={id} value={id}>
+                                    {templateName(id)}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={mask} onValueChange={setMask}>
+                        <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ANY}>Med og uden maske</SelectItem>
+                            <SelectItem value='with'>Med maske</SelectItem>
+                            <SelectItem value='without'>Uden maske</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select value={storageMode} onValueChange={setStorageMode}>
+                        <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ANY}>Alle lagre</SelectItem>
+                            <SelectItem value='fs'>Fil</SelectItem>
+                            <SelectItem value='indexeddb'>Database</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <div className='col-span-2 flex items-center gap-1 sm:col-span-1 lg:col-span-1'>
+                        <Input
+                            type='date'
+                            value={dateFrom}
+                            onChange={(e) => setDateFrom(e.target.value)}
+                            aria-label='Fra dato'
+                            className='border-white/10 bg-white/5 px-2 text-xs text-white'
+                        />
+                        <Input
+                            type='date'
+                            value={dateTo}
+                            onChange={(e) => setDateTo(e.target.value)}
+                            aria-label='Til dato'
+                            className='border-white/10 bg-white/5 px-2 text-xs text-white'
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
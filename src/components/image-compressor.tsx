@@ -1,7 +1,9 @@
 'use client';
 
+import { BeforeAfterComparison } from '@/components/before-after-comparison';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
@@ -10,6 +12,7 @@ import { Progress } from '@/components/ui/progress';
 import { MultiImageDropZone } from '@/components/multi-image-drop-zone';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
 import { 
     Zap, 
     Upload, 
@@ -19,21 +22,32 @@ import {
     Loader2, 
     AlertCircle,
     TrendingDown,
-    FileDown
+    FileDown,
+    SplitSquareHorizontal
 } from 'lucide-react';
+import { useCSRF } from '@/hooks/use-csrf';
+import { apiManager } from '@/lib/api-manager';
+import { appendUploadedFile } from '@/lib/upload-protocol';
 import * as React from 'react';
 
-interface ImageCompressorProps {
-    clientPasswordHash: string | null;
-}
-
 interface CompressedFile {
     url: string;
+    // Object URL of the uploaded file, for the before/after comparison
+    originalUrl: string;
     originalName: string;
     originalSize: number;
     compressedSize: number;
     savedBytes: number;
     savedPercentage: number;
+    quality: number;
+    width: number;
+    height: number;
+    // Structural similarity to the original, 0-1
+    ssim: number;
+    // Set in target size mode
+    targetSize?: number;
+    fitsTarget?: boolean;
+    scale?: number;
 }
 
 interface AnalysisResult {
@@ -52,7 +66,8 @@ const QUALITY_PRESETS = [
     { value: 'custom', label: 'Brugerdefineret', quality: null },
 ];
 
-export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
+export function ImageCompressor() {
+    const { addCSRFToken } = useCSRF();
     const [inputFiles, setInputFiles] = React.useState<File[]>([]);
     const [compressedFiles, setCompressedFiles] = React.useState<CompressedFile[]>([]);
     const [isCompressing, setIsCompressing] = React.useState(false);
@@ -66,6 +81,15 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
     const [qualityPreset, setQualityPreset] = React.useState('web');
     const [customQuality, setCustomQuality] = React.useState([85]);
     const [outputFormat, setOutputFormat] = React.useState('original');
+    const [compressionMode, setCompressionMode] = React.useState<'quality' | 'target'>('quality');
+    const [targetKb, setTargetKb] = React.useState('300');
+    const [allowResize, setAllowResize] = React.useState(true);
+    const [comparingIndex, setComparingIndex] = React.useState<number | null>(null);
+
+    // Release the originals' object URLs when the results are replaced
+    React.useEffect(() => {
+        return () => compressedFiles.forEach((file) => URL.revokeObjectURL(file.originalUrl));
+    }, [compressedFiles]);
 
     // Get effective quality value
     const getEffectiveQuality = () => {
@@ -91,16 +115,14 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
         setError(null);
 
         try {
+            const [uploaded] = await apiManager.uploadFiles([inputFiles[0]], { addCSRFToken }); // Analyze first file
             const formData = new FormData();
-            formData.append('file', inputFiles[0]); // Analyze first file
-            if (clientPasswordHash) {
-                formData.append('passwordHash', clientPasswordHash);
-            }
+            appendUploadedFile(formData, 'file', uploaded);
 
-            const response = await fetch('/api/konverter/compress/analyze', {
+            const response = await fetch('/api/konverter/compress/analyze', addCSRFToken({
                 method: 'POST',
                 body: formData,
-            });
+            }));
 
             if (!response.ok) {
                 const errorData = await response.json();
@@ -130,6 +152,7 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
         setProgressText('Komprimerer billeder...');
         setError(null);
         setCompressedFiles([]);
+        setComparingIndex(null);
 
         try {
             const totalFiles = inputFiles.length;
@@ -139,21 +162,30 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
             for (let i = 0; i < totalFiles; i++) {
                 const file = inputFiles[i];
                 setProgress(Math.round((i / totalFiles) * 100));
+                setProgressText(`Uploader ${i + 1} af ${totalFiles}...`);
+
+                // Upload counts for the first half of this file's share of the bar
+                const uploaded = await apiManager.uploadFile(file, {
+                    addCSRFToken,
+                    onProgress: ({ percent }) => setProgress(Math.round(((i + percent / 200) / totalFiles) * 100))
+                });
                 setProgressText(`Komprimerer ${i + 1} af ${totalFiles}...`);
 
                 const formData = new FormData();
-                formData.append('file', file);
+                appendUploadedFile(formData, 'file', uploaded);
                 formData.append('quality', quality.toString());
                 formData.append('preset', qualityPreset === 'custom' ? '' : qualityPreset);
                 formData.append('format', outputFormat);
-                if (clientPasswordHash) {
-                    formData.append('passwordHash', clientPasswordHash);
+                if (compressionMode === 'target') {
+                    formData.append('mode', 'target');
+                    formData.append('targetKb', targetKb);
+                    formData.append('allowResize', String(allowResize));
                 }
 
-                const response = await fetch('/api/konverter/compress/compress', {
+                const response = await fetch('/api/konverter/compress/compress', addCSRFToken({
                     method: 'POST',
                     body: formData,
-                });
+                }));
 
                 if (!response.ok) {
                     const errorData = await response.json();
@@ -164,11 +196,19 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
                 const result = await response.json();
                 results.push({
                     url: result.compressedPath,
+                    originalUrl: URL.createObjectURL(file),
                     originalName: result.originalName,
                     originalSize: result.originalSize,
                     compressedSize: result.compressedSize,
                     savedBytes: result.savedBytes,
-                    savedPercentage: result.savedPercentage
+                    savedPercentage: result.savedPercentage,
+                    quality: result.quality,
+                    width: result.width,
+                    height: result.height,
+                    ssim: result.ssim,
+                    targetSize: result.targetSize,
+                    fitsTarget: result.fitsTarget,
+                    scale: result.scale
                 });
             }
 
@@ -181,7 +221,11 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
             const totalSaved = totalOriginal - totalCompressed;
             const totalSavedPercent = Math.round((totalSaved / totalOriginal) * 100);
             
-            setProgressText(`Komprimering fuldført! Sparet ${totalSavedPercent}% (${formatFileSize(totalSaved)})`);
+            const overTarget = results.filter((f) => f.fitsTarget === false).length;
+            setProgressText(
+                `Komprimering fuldført! Sparet ${totalSavedPercent}% (${formatFileSize(totalSaved)})` +
+                    (overTarget > 0 ? ` – ${overTarget} fil(er) kunne ikke nå målstørrelsen` : '')
+            );
 
         } catch (err) {
             console.error('Error compressing files:', err);
@@ -198,16 +242,15 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
     // Download all as ZIP
     const handleDownloadAll = async () => {
         try {
-            const response = await fetch('/api/konverter/compress/download-all', {
+            const response = await fetch('/api/konverter/compress/download-all', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({ 
-                    files: compressedFiles.map(f => f.url),
-                    passwordHash: clientPasswordHash 
+                    files: compressedFiles.map(f => f.url)
                 }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Download fejlede');
@@ -231,13 +274,9 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
     // Clear all files
     const handleClearAll = async () => {
         try {
-            const response = await fetch('/api/konverter/compress/clear-all', {
+            const response = await fetch('/api/konverter/compress/clear-all', addCSRFToken({
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ passwordHash: clientPasswordHash }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Kunne ikke rydde filer');
@@ -332,6 +371,61 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
 
                     {/* Settings */}
                     <div className='space-y-4 pt-4 border-t border-white/10'>
+                        <div className='space-y-3'>
+                            <Label className='text-white'>Tilstand</Label>
+                            <RadioGroup
+                                value={compressionMode}
+                                onValueChange={(value) => setCompressionMode(value as 'quality' | 'target')}
+                                className='flex gap-4'>
+                                <div className='flex items-center space-x-2'>
+                                    <RadioGroupItem value='quality' id='mode-quality' />
+                                    <Label htmlFor='mode-quality' className='text-white/80 font-normal cursor-pointer'>
+                                        Fast kvalitet
+                                    </Label>
+                                </div>
+                                <div className='flex items-center space-x-2'>
+                                    <RadioGroupItem value='target' id='mode-target' />
+                                    <Label htmlFor='mode-target' className='text-white/80 font-normal cursor-pointer'>
+                                        Målstørrelse
+                                    </Label>
+                                </div>
+                            </RadioGroup>
+                        </div>
+
+                        {compressionMode === 'target' ? (
+                            <div className='space-y-3'>
+                                <div className='space-y-2'>
+                                    <Label htmlFor='target-kb' className='text-white'>
+                                        Maksimal filstørrelse (KB)
+                                    </Label>
+                                    <Input
+                                        id='target-kb'
+                                        type='number'
+                                        min={10}
+                                        step={10}
+                                        value={targetKb}
+                                        onChange={(e) => setTargetKb(e.target.value)}
+                                        disabled={isCompressing}
+                                        className='bg-white/5 border-white/10 text-white'
+                                    />
+                                    <p className='text-xs text-white/50'>
+                                        Den højeste kvalitet, der holder sig under grænsen, findes for hver fil.
+                                    </p>
+                                </div>
+                                <div className='flex items-center justify-between'>
+                                    <Label htmlFor='allow-resize' className='text-white'>
+                                        Skalér ned, hvis det er nødvendigt
+                                    </Label>
+                                    <Switch
+                                        id='allow-resize'
+                                        checked={allowResize}
+                                        onCheckedChange={setAllowResize}
+                                        disabled={isCompressing}
+                                    />
+                                </div>
+                            </div>
+                        ) : (
+                        <>
                         <div className='space-y-3'>
                             <Label className='text-white'>Kvalitetsindstilling</Label>
                             <RadioGroup value={qualityPreset} onValueChange={setQualityPreset}>
@@ -362,6 +456,8 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
                                 />
                             </div>
                         )}
+                        </>
+                        )}
 
                         <div className='space-y-2'>
                             <Label className='text-white'>Output format</Label>
@@ -409,7 +505,9 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
                         ) : (
                             <>
                                 <Zap className='mr-2 h-4 w-4' />
-                                Komprimer ({getEffectiveQuality()}%)
+                                {compressionMode === 'target'
+                                    ? `Komprimer (≤ ${targetKb} KB)`
+                                    : `Komprimer (${getEffectiveQuality()}%)`}
                             </>
                         )}
                     </Button>
@@ -469,6 +567,14 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
                                             <p className='text-sm font-medium text-white truncate flex-1'>
                                                 {file.originalName}
                                             </p>
+                                            <Button
+                                                onClick={() => setComparingIndex(comparingIndex === index ? null : index)}
+                                                size='sm'
+                                                variant='ghost'
+                                                title='Sammenlign før og efter'
+                                                className='text-white hover:bg-white/10'>
+                                                <SplitSquareHorizontal className='h-4 w-4' />
+                                            </Button>
                                             <Button
                                                 onClick={() => handleDownloadSingle(file)}
                                                 size='sm'
@@ -489,6 +595,29 @@ export function ImageCompressor({ clientPasswordHash }: ImageCompressorProps) {
                                                 style={{ width: `${100 - file.savedPercentage}%` }}
                                             />
                                         </div>
+                                        <div className='flex flex-wrap gap-x-3 text-xs text-white/50'>
+                                            <span>Kvalitet {file.quality}</span>
+                                            <span>
+                                                {file.width}×{file.height}
+                                                {file.scale !== undefined && file.scale < 1 && ` (${Math.round(file.scale * 100)}%)`}
+                                            </span>
+                                            <span title='Strukturel lighed med originalen (1 = identisk)'>
+                                                SSIM {file.ssim.toFixed(3)}
+                                            </span>
+                                            {file.fitsTarget === false && file.targetSize && (
+                                                <span className='text-amber-400'>
+                                                    Over målet på {formatFileSize(file.targetSize)}
+                                                </span>
+                                            )}
+                                        </div>
+                                        {comparingIndex === index && (
+                                            <BeforeAfterComparison
+                                                beforeSrc={file.originalUrl}
+                                                afterSrc={file.url}
+                                                width={file.width}
+                                                height={file.height}
+                                            />
+                                        )}
                                     </div>
                                 ))}
                             </div>
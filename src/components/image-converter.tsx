@@ -9,6 +9,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Progress } from '@/components/ui/progress';
 import { MultiImageDropZone } from '@/components/multi-image-drop-zone';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Switch } from '@/components/ui/switch';
 import { 
     FileType, 
     Upload, 
@@ -19,28 +20,36 @@ import {
     AlertCircle,
     CheckCircle
 } from 'lucide-react';
+import { useCSRF } from '@/hooks/use-csrf';
+import type { ConversionCapabilities } from '@/lib/image-conversion';
 import * as React from 'react';
 
-interface ImageConverterProps {
-    clientPasswordHash: string | null;
-}
-
 interface ConvertedFile {
     url: string;
     originalName: string;
     outputFormat: string;
+    width: number;
+    height: number;
 }
 
 const FORMAT_OPTIONS = [
     { value: 'jpg', label: 'JPG' },
     { value: 'png', label: 'PNG' },
     { value: 'webp', label: 'WebP' },
+    { value: 'avif', label: 'AVIF' },
+    { value: 'jxl', label: 'JPEG XL' },
     { value: 'gif', label: 'GIF' },
     { value: 'tiff', label: 'TIFF' },
     { value: 'bmp', label: 'BMP' },
 ];
 
-export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
+// Formats with a quality setting
+const LOSSY_FORMATS = ['jpg', 'webp', 'avif', 'jxl'];
+
+const HEIC_FILE = /\.(heic|heif)$/i;
+
+export function ImageConverter() {
+    const { addCSRFToken } = useCSRF();
     const [inputFiles, setInputFiles] = React.useState<File[]>([]);
     const [convertedFiles, setConvertedFiles] = React.useState<ConvertedFile[]>([]);
     const [isConverting, setIsConverting] = React.useState(false);
@@ -51,6 +60,21 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
     // Settings
     const [outputFormat, setOutputFormat] = React.useState('jpg');
     const [quality, setQuality] = React.useState([85]);
+    const [colorProfile, setColorProfile] = React.useState<'srgb' | 'keep'>('srgb');
+    const [metadata, setMetadata] = React.useState<'strip' | 'keep'>('strip');
+    const [autoRotate, setAutoRotate] = React.useState(true);
+    const [capabilities, setCapabilities] = React.useState<ConversionCapabilities | null>(null);
+
+    // Which formats the server's image library can handle
+    React.useEffect(() => {
+        fetch('/api/konverter/convert/convert')
+            .then((response) => (response.ok ? response.json() : null))
+            .then(setCapabilities)
+            .catch(() => setCapabilities(null));
+    }, []);
+
+    const hasUnreadableHeic =
+        capabilities !== null && !capabilities.heicInput && inputFiles.some((file) => HEIC_FILE.test(file.name));
 
     // Handle file upload
     const handleFilesAdded = (files: File[]) => {
@@ -74,6 +98,7 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
         try {
             const totalFiles = inputFiles.length;
             const results: ConvertedFile[] = [];
+            const failures: string[] = [];
 
             for (let i = 0; i < totalFiles; i++) {
                 const file = inputFiles[i];
@@ -84,18 +109,19 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
                 formData.append('file', file);
                 formData.append('outputFormat', outputFormat);
                 formData.append('quality', quality[0].toString());
-                if (clientPasswordHash) {
-                    formData.append('passwordHash', clientPasswordHash);
-                }
+                formData.append('colorProfile', colorProfile);
+                formData.append('metadata', metadata);
+                formData.append('autoRotate', String(autoRotate));
 
-                const response = await fetch('/api/konverter/convert/convert', {
+                const response = await fetch('/api/konverter/convert/convert', addCSRFToken({
                     method: 'POST',
                     body: formData,
-                });
+                }));
 
                 if (!response.ok) {
                     const errorData = await response.json();
                     console.error(`Failed to convert ${file.name}:`, errorData.error);
+                    failures.push(`${file.name}: ${errorData.error || 'Konvertering fejlede'}`);
                     continue;
                 }
 
@@ -103,13 +129,18 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
                 results.push({
                     url: result.convertedPath,
                     originalName: result.originalName,
-                    outputFormat: result.outputFormat
+                    outputFormat: result.outputFormat,
+                    width: result.width,
+                    height: result.height
                 });
             }
 
             setConvertedFiles(results);
             setProgress(100);
             setProgressText('Konvertering fuldført!');
+            if (failures.length > 0) {
+                setError(failures.join('\n'));
+            }
 
         } catch (err) {
             console.error('Error converting files:', err);
@@ -126,16 +157,15 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
     // Download all as ZIP
     const handleDownloadAll = async () => {
         try {
-            const response = await fetch('/api/konverter/convert/download-all', {
+            const response = await fetch('/api/konverter/convert/download-all', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({ 
-                    files: convertedFiles.map(f => f.url),
-                    passwordHash: clientPasswordHash 
+                    files: convertedFiles.map(f => f.url)
                 }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Download fejlede');
@@ -159,13 +189,9 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
     // Clear all files
     const handleClearAll = async () => {
         try {
-            const response = await fetch('/api/konverter/convert/clear-all', {
+            const response = await fetch('/api/konverter/convert/clear-all', addCSRFToken({
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ passwordHash: clientPasswordHash }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Kunne ikke rydde filer');
@@ -234,7 +260,10 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
                                 </SelectTrigger>
                                 <SelectContent>
                                     {FORMAT_OPTIONS.map(option => (
-                                        <SelectItem key={option.value} value={option.value}>
+                                        <SelectItem
+                                            key={option.value}
+                                            value={option.value}
+                                            disabled={capabilities !== null && !capabilities.outputFormats.some(format => format === option.value)}>
                                             {option.label}
                                         </SelectItem>
                                     ))}
@@ -242,7 +271,7 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
                             </Select>
                         </div>
 
-                        {(outputFormat === 'jpg' || outputFormat === 'webp') && (
+                        {LOSSY_FORMATS.includes(outputFormat) && (
                             <div className='space-y-2'>
                                 <Label className='text-white'>
                                     Kvalitet: {quality[0]}%
@@ -261,6 +290,47 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
                                 </p>
                             </div>
                         )}
+
+                        <div className='space-y-2'>
+                            <Label className='text-white'>Farveprofil</Label>
+                            <Select value={colorProfile} onValueChange={(value) => setColorProfile(value as 'srgb' | 'keep')}>
+                                <SelectTrigger className='bg-white/5 border-white/10 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value='srgb'>Konvertér til sRGB</SelectItem>
+                                    <SelectItem value='keep'>Bevar original profil (f.eks. Adobe RGB)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <p className='text-xs text-white/60'>
+                                sRGB vises ens i browsere og webshops. Bevar profilen til tryk og videre redigering.
+                            </p>
+                        </div>
+
+                        <div className='space-y-2'>
+                            <Label className='text-white'>Metadata</Label>
+                            <Select value={metadata} onValueChange={(value) => setMetadata(value as 'strip' | 'keep')}>
+                                <SelectTrigger className='bg-white/5 border-white/10 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value='strip'>Fjern EXIF og XMP</SelectItem>
+                                    <SelectItem value='keep'>Bevar EXIF og XMP</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className='flex items-center justify-between'>
+                            <Label htmlFor='auto-rotate' className='text-white'>
+                                Rotér efter EXIF-orientering
+                            </Label>
+                            <Switch
+                                id='auto-rotate'
+                                checked={autoRotate}
+                                onCheckedChange={setAutoRotate}
+                                disabled={isConverting}
+                            />
+                        </div>
                     </div>
 
                     {/* Progress */}
@@ -271,11 +341,21 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
                         </div>
                     )}
 
+                    {hasUnreadableHeic && (
+                        <Alert className='border-amber-500/20 bg-amber-500/10 text-amber-200'>
+                            <AlertCircle className='h-4 w-4' />
+                            <AlertDescription>
+                                Serveren kan ikke læse HEIC/HEIF-filer. Eksportér dem som JPEG først, eller vælg
+                                &quot;Mest kompatible&quot; under Kamera &gt; Formater på iPhone.
+                            </AlertDescription>
+                        </Alert>
+                    )}
+
                     {/* Error */}
                     {error && (
                         <Alert variant='destructive' className='border-red-500/20 bg-red-500/10'>
                             <AlertCircle className='h-4 w-4' />
-                            <AlertDescription>{error}</AlertDescription>
+                            <AlertDescription className='whitespace-pre-line'>{error}</AlertDescription>
                         </Alert>
                     )}
                 </CardContent>
@@ -362,7 +442,9 @@ export function ImageConverter({ clientPasswordHash }: ImageConverterProps) {
                                     </div>
                                     <div className='absolute bottom-0 left-0 right-0 bg-black/80 p-2'>
                                         <p className='text-xs text-white truncate'>{file.originalName}</p>
-                                        <p className='text-xs text-white/60'>{file.outputFormat.toUpperCase()}</p>
+                                        <p className='text-xs text-white/60'>
+                                            {file.outputFormat.toUpperCase()} · {file.width}×{file.height}
+                                        </p>
                                     </div>
                                 </div>
                             ))}
@@ -4,15 +4,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PackshotEditor } from '@/components/packshot-editor';
 import { MoodImageEditor } from '@/components/mood-image-editor';
-import { Package, Sparkles } from 'lucide-react';
+import { BatchGenerationPanel } from '@/components/batch-generation-panel';
+import { FileSpreadsheet, Package, Sparkles } from 'lucide-react';
 import * as React from 'react';
 
-interface ImageEditingSuiteProps {
-    clientPasswordHash: string | null;
-}
-
-export function ImageEditingSuite({ clientPasswordHash }: ImageEditingSuiteProps) {
-    const [activeEditingTool, setActiveEditingTool] = React.useState<'packshot' | 'mood'>('packshot');
+export function ImageEditingSuite() {
+    const [activeEditingTool, setActiveEditingTool] = React.useState<'packshot' | 'mood' | 'batch'>('packshot');
 
     return (
         <div className='space-y-6'>
@@ -24,8 +21,8 @@ export function ImageEditingSuite({ clientPasswordHash }: ImageEditingSuiteProps
                     </CardDescription>
                 </CardHeader>
                 <CardContent>
-                    <Tabs value={activeEditingTool} onValueChange={(value) => setActiveEditingTool(value as 'packshot' | 'mood')}>
-                        <TabsList className='grid w-full grid-cols-2 bg-neutral-900/50 border border-white/10'>
+                    <Tabs value={activeEditingTool} onValueChange={(value) => setActiveEditingTool(value as 'packshot' | 'mood' | 'batch')}>
+                        <TabsList className='grid w-full grid-cols-3 bg-neutral-900/50 border border-white/10'>
                             <TabsTrigger value='packshot' className='flex items-center gap-2'>
                                 <Package className='h-4 w-4' />
                                 Packshot
@@ -34,14 +31,22 @@ export function ImageEditingSuite({ clientPasswordHash }: ImageEditingSuiteProps
                                 <Sparkles className='h-4 w-4' />
                                 Stemningsbilleder
                             </TabsTrigger>
+                            <TabsTrigger value='batch' className='flex items-center gap-2'>
+                                <FileSpreadsheet className='h-4 w-4' />
+                                Batch fra feed
+                            </TabsTrigger>
                         </TabsList>
 
                         <TabsContent value='packshot' className='mt-6'>
-                            <PackshotEditor clientPasswordHash={clientPasswordHash} />
+                            <PackshotEditor />
                         </TabsContent>
 
                         <TabsContent value='mood' className='mt-6'>
-                            <MoodImageEditor clientPasswordHash={clientPasswordHash} />
+                            <MoodImageEditor />
+                        </TabsContent>
+
+                        <TabsContent value='batch' className='mt-6'>
+                            <BatchGenerationPanel />
                         </TabsContent>
                     </Tabs>
                 </CardContent>
@@ -2,12 +2,11 @@
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Slider } from '@/components/ui/slider';
+import { MaskToolbar } from '@/components/mask-toolbar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useMaskDrawing } from '@/hooks/useMaskDrawing';
 import { cn } from '@/lib/utils';
-import { Loader2, Grid, Download, Edit3, Sparkles, Paintbrush, Type, Eraser } from 'lucide-react';
+import { Loader2, Grid, Download, Edit3, Sparkles, Paintbrush, Type } from 'lucide-react';
 import Image from 'next/image';
 import * as React from 'react';
 
@@ -144,18 +143,11 @@ export function ImageOutput({
     const [imageDimensions, setImageDimensions] = React.useState({ width: 1024, height: 1024 });
     
     // Mask drawing hook
-    const {
-        canvasRef,
-        maskFile,
-        maskPreviewUrl,
-        brushSize,
-        setBrushSize,
-        clearMask,
-        hasDrawn
-    } = useMaskDrawing({
-        imageWidth: imageDimensions.width,
-        imageHeight: imageDimensions.height,
-        enabled: editMode === 'mask'
+    const mask = useMaskDrawing({
+        width: imageDimensions.width,
+        height: imageDimensions.height,
+        enabled: editMode === 'mask',
+        image: typeof viewMode === 'number' ? imageBatch?.[viewMode]?.path : null
     });
 
     const handleQuickEditSubmit = async () => {
@@ -171,10 +163,15 @@ export function ImageOutput({
 
         setIsQuickEditing(true);
         try {
-            await onQuickEdit(imageBatch[viewMode].filename, quickEditText, editMode === 'mask' ? maskFile : null);
+            let maskFile: File | null = null;
+            if (editMode === 'mask') {
+                maskFile = await mask.generateMaskFile();
+                await mask.saveMask();
+            }
+            await onQuickEdit(imageBatch[viewMode].filename, quickEditText, maskFile);
             setQuickEditText('');
             if (editMode === 'mask') {
-                clearMask();
+                mask.reset();
             }
         } catch (error) {
             console.error('Quick edit failed:', error);
@@ -305,18 +302,7 @@ export function ImageOutput({
                                         {/* Mask Mode Content */}
                                         <TabsContent value='mask' className='space-y-3'>
                                             <div className='space-y-3'>
-                                                {/* Brush Size Control */}
-                                                <div className='space-y-2'>
-                                                    <Label className='text-xs text-white/80'>Penselstørrelse: {brushSize}px</Label>
-                                                    <Slider
-                                                        value={[brushSize]}
-                                                        onValueChange={([value]) => setBrushSize(value)}
-                                                        min={5}
-                                                        max={50}
-                                                        step={1}
-                                                        className='[&>button]:border-black [&>button]:bg-white [&>button]:ring-offset-black [&>span:first-child]:h-1 [&>span:first-child>span]:bg-white'
-                                                    />
-                                                </div>
+                                                <MaskToolbar mask={mask} disabled={isQuickEditing} />
 
                                                 {/* Canvas Container */}
                                                 <div className='relative overflow-hidden rounded border border-white/20 bg-black'>
@@ -336,10 +322,10 @@ export function ImageOutput({
                                                         }}
                                                     />
                                                     <canvas
-                                                        ref={canvasRef}
+                                                        ref={mask.canvasRef}
                                                         width={imageDimensions.width}
                                                         height={imageDimensions.height}
-                                                        className='absolute inset-0 max-h-48 w-full cursor-crosshair'
+                                                        className='absolute inset-0 max-h-48 w-full cursor-crosshair touch-none opacity-50'
                                                         style={{
                                                             width: '100%',
                                                             height: 'auto',
@@ -347,29 +333,10 @@ export function ImageOutput({
                                                             objectFit: 'contain'
                                                         }}
                                                     />
-                                                    {maskPreviewUrl && (
-                                                        <Image
-                                                            src={maskPreviewUrl}
-                                                            alt='Mask overlay'
-                                                            width={imageDimensions.width}
-                                                            height={imageDimensions.height}
-                                                            className='pointer-events-none absolute inset-0 max-h-48 w-full object-contain opacity-50'
-                                                            unoptimized
-                                                        />
-                                                    )}
                                                 </div>
 
                                                 {/* Mask Controls */}
                                                 <div className='flex items-center gap-2'>
-                                                    <Button
-                                                        onClick={clearMask}
-                                                        disabled={!hasDrawn || isQuickEditing}
-                                                        variant='outline'
-                                                        size='sm'
-                                                        className='border-white/20 text-white/80 hover:bg-white/10'>
-                                                        <Eraser className='mr-2 h-4 w-4' />
-                                                        Ryd mask
-                                                    </Button>
                                                     <Input
                                                         value={quickEditText}
                                                         onChange={(e) => setQuickEditText(e.target.value)}
@@ -380,7 +347,7 @@ export function ImageOutput({
                                                     />
                                                     <Button
                                                         onClick={handleQuickEditSubmit}
-                                                        disabled={!hasDrawn || !quickEditText.trim() || isQuickEditing}
+                                                        disabled={mask.isEmpty || !quickEditText.trim() || isQuickEditing}
                                                         className='bg-blue-600 text-white hover:bg-blue-700'
                                                         size='sm'>
                                                         {isQuickEditing ? (
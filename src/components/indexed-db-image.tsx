@@ -41,32 +41,26 @@ export function IndexedDbImage({
 
                 // Check if it's an API path
                 if (src.startsWith('/api/image/')) {
-                    // First, try to fetch from the API
-                    const response = await fetch(src);
-                    
-                    if (response.status === 418) {
-                        // Special IndexedDB mode response
-                        const data = await response.json();
-                        const filename = data.filename;
-                        
-                        // Try to load from IndexedDB
-                        const imageRecord = await db.images.get(filename);
-                        
-                        if (imageRecord?.blob && mounted) {
-                            objectUrl = URL.createObjectURL(imageRecord.blob);
+                    // In IndexedDB mode the image only exists in the browser, so look there first
+                    const filename = decodeURIComponent(src.slice('/api/image/'.length));
+                    const storedBlob = await db.getImageBlob(filename);
+
+                    if (storedBlob) {
+                        if (mounted) {
+                            objectUrl = URL.createObjectURL(storedBlob);
                             setImageUrl(objectUrl);
-                        } else {
-                            throw new Error('Image not found in IndexedDB');
                         }
-                    } else if (response.ok) {
-                        // Normal image response
+                    } else {
+                        const response = await fetch(src);
+                        if (!response.ok) {
+                            throw new Error('Failed to load image');
+                        }
+
                         const blob = await response.blob();
                         if (mounted) {
                             objectUrl = URL.createObjectURL(blob);
                             setImageUrl(objectUrl);
                         }
-                    } else {
-                        throw new Error('Failed to load image');
                     }
                 } else if (src.startsWith('blob:') || src.startsWith('data:') || src.startsWith('http')) {
                     // Direct URL
@@ -75,10 +69,10 @@ export function IndexedDbImage({
                     }
                 } else {
                     // Try to load from IndexedDB by filename
-                    const imageRecord = await db.images.get(src);
+                    const storedBlob = await db.getImageBlob(src);
                     
-                    if (imageRecord?.blob && mounted) {
-                        objectUrl = URL.createObjectURL(imageRecord.blob);
+                    if (storedBlob && mounted) {
+                        objectUrl = URL.createObjectURL(storedBlob);
                         setImageUrl(objectUrl);
                     } else {
                         throw new Error('Image not found');
@@ -0,0 +1,140 @@
+'use client';
+
+import type { HistoryMetadata } from '@/app/page';
+import { Button } from '@/components/ui/button';
+import { LINEAGE_OPERATION_LABELS, type LineageNode } from '@/lib/lineage';
+import { cn } from '@/lib/utils';
+import { Brush, GitBranch, Video } from 'lucide-react';
+import Image from 'next/image';
+import * as React from 'react';
+
+interface LineageTreeProps {
+    root: LineageNode;
+    // The entry the tree was opened from
+    focusTimestamp: number;
+    getThumbnailUrl: (item: HistoryMetadata, filename: string) => string | undefined;
+    onSelect: (item: HistoryMetadata) => void;
+    onBranch?: (filename: string) => void;
+}
+
+/** Derivation tree of history entries, from the original image down through its edits and videos */
+export function LineageTree({ root, ...props }: LineageTreeProps) {
+    return (
+        <ul className='space-y-2'>
+            <LineageTreeNode node={root} {...props} />
+        </ul>
+    );
+}
+
+function LineageTreeNode({
+    node,
+    focusTimestamp,
+    getThumbnailUrl,
+    onSelect,
+    onBranch
+}: { node: LineageNode } & Omit<LineageTreeProps, 'root'>) {
+    const { item, children, videos, missingParents } = node;
+    const operation = item.lineage?.operation ?? (item.mode === 'edit' ? 'edit' : 'generate');
+    const isFocus = item.timestamp === focusTimestamp;
+
+    return (
+        <li>
+            <div
+                className={cn(
+                    'flex items-start gap-3 rounded-md border p-2',
+                    isFocus ? 'border-white/50 bg-white/10' : 'border-white/10 bg-neutral-900/60'
+                )}>
+                <div className='flex shrink-0 gap-1'>
+                    {item.images.map((image) => {
+                        const thumbnailUrl = getThumbnailUrl(item, image.filename);
+                        return (
+                            <button
+                                key={image.filename}
+                                type='button'
+                                disabled={!onBranch}
+                                onClick={() => onBranch?.(image.filename)}
+                                title={onBranch ? 'Forgren fra dette billede' : image.filename}
+                                className='group relative h-12 w-12 overflow-hidden rounded border border-white/20 disabled:cursor-default'>
+                                {thumbnailUrl ? (
+                                    <Image
+                                        src={thumbnailUrl}
+                                        alt={image.filename}
+                                        width={48}
+                                        height={48}
+                                        className='h-full w-full object-cover'
+                                        unoptimized
+                                    />
+                                ) : (
+                                    <div className='flex h-full w-full items-center justify-center bg-neutral-800 text-neutral-500'>
+                                        ?
+                                    </div>
+                                )}
+                                {onBranch && (
+                                    <div className='absolute inset-0 flex items-center justify-center bg-black/60 opacity-0 transition-opacity group-hover:opacity-100'>
+                                        <GitBranch size={16} className='text-white' />
+                                    </div>
+                                )}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className='min-w-0 flex-1 space-y-1 text-xs'>
+                    <div className='flex flex-wrap items-center gap-1'>
+                        <span
+                            className={cn(
+                                'rounded-full px-1.5 py-0.5 text-[11px] text-white',
+                                operation === 'generate' ? 'bg-blue-600/80' : 'bg-orange-600/80'
+                            )}>
+                            {LINEAGE_OPERATION_LABELS[operation]}
+                        </span>
+                        {item.lineage?.mask && (
+                            <span
+                                className='flex items-center gap-1 rounded-full border border-white/10 bg-neutral-800 px-1.5 py-0.5 text-[11px] text-white/70'
+                                title={`Maske: ${item.lineage.mask.filename}`}>
+                                <Brush size={11} />
+                                Maske
+                            </span>
+                        )}
+                        <span className='text-white/40'>{new Date(item.timestamp).toLocaleString()}</span>
+                    </div>
+                    <p className='truncate text-white/70' title={item.prompt}>
+                        {item.prompt || 'Ingen prompt'}
+                    </p>
+                    {missingParents.length > 0 && (
+                        <p className='text-amber-300'>Udgangsbilledet er slettet fra historikken</p>
+                    )}
+                    {videos.map((video) => (
+                        <p key={video.id} className='flex items-center gap-1 text-purple-300' title={video.promptText}>
+                            <Video size={12} className='shrink-0' />
+                            <span className='truncate'>Video: {video.promptText || video.id}</span>
+                        </p>
+                    ))}
+                </div>
+
+                <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() => onSelect(item)}
+                    className='h-6 shrink-0 border-white/20 px-2 py-1 text-xs text-white/70 hover:bg-white/10 hover:text-white'>
+                    Vis
+                </Button>
+            </div>
+
+            {children.length > 0 && (
+                <ul className='mt-2 ml-5 space-y-2 border-l border-white/10 pl-3'>
+                    {children.map((child) => (
+                        <LineageTreeNode
+                            key={child.item.timestamp}
+                            node={child}
+                            focusTimestamp={focusTimestamp}
+                            getThumbnailUrl={getThumbnailUrl}
+                            onSelect={onSelect}
+                            onBranch={onBranch}
+                        />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { UseMaskDrawingReturn } from '@/hooks/useMaskDrawing';
+import { MAX_MASK_FEATHER, MAX_MASK_GROW, type MaskTool } from '@/lib/mask-document';
+import { Brush, Circle, Eraser, History, Lasso, Loader2, Redo2, Square, Trash2, Undo2, Wand2 } from 'lucide-react';
+import * as React from 'react';
+
+const MASK_TOOLS: Array<{ value: MaskTool; label: string; icon: React.ElementType }> = [
+    { value: 'brush', label: 'Pensel', icon: Brush },
+    { value: 'eraser', label: 'Viskelæder', icon: Eraser },
+    { value: 'lasso', label: 'Lasso', icon: Lasso },
+    { value: 'rect', label: 'Rektangel', icon: Square },
+    { value: 'ellipse', label: 'Ellipse', icon: Circle }
+];
+
+const sliderClassName =
+    '[&>button]:border-black [&>button]:bg-white [&>button]:ring-offset-black [&>span:first-child]:h-1 [&>span:first-child>span]:bg-white';
+
+const buttonClassName = 'border-white/20 text-white/80 hover:bg-white/10 hover:text-white disabled:opacity-50';
+
+interface MaskToolbarProps {
+    mask: UseMaskDrawingReturn;
+    disabled?: boolean;
+}
+
+/**
+ * Tools and settings for a mask drawn with useMaskDrawing
+ */
+export function MaskToolbar({ mask, disabled }: MaskToolbarProps) {
+    const id = React.useId();
+    const { document } = mask;
+    const isShapeTool = mask.tool === 'lasso' || mask.tool === 'rect' || mask.tool === 'ellipse';
+
+    return (
+        <div className='space-y-3'>
+            <div className='flex flex-wrap items-center justify-between gap-2'>
+                <ToggleGroup
+                    type='single'
+                    variant='outline'
+                    size='sm'
+                    value={mask.tool}
+                    onValueChange={(value) => value && mask.setTool(value as MaskTool)}
+                    disabled={disabled}>
+                    {MASK_TOOLS.map(({ value, label, icon: Icon }) => (
+                        <ToggleGroupItem
+                            key={value}
+                            value={value}
+                            aria-label={label}
+                            title={label}
+                            className='border-white/20 text-white/80 hover:bg-white/10 hover:text-white data-[state=on]:bg-white/20 data-[state=on]:text-white'>
+                            <Icon className='h-4 w-4' />
+                        </ToggleGroupItem>
+                    ))}
+                </ToggleGroup>
+
+                <div className='flex gap-1'>
+                    <Button
+                        type='button'
+                        variant='outline'
+                        size='icon'
+                        onClick={mask.undo}
+                        disabled={disabled || !mask.canUndo}
+                        title='Fortryd'
+                        className={`h-8 w-8 ${buttonClassName}`}>
+                        <Undo2 className='h-4 w-4' />
+                    </Button>
+                    <Button
+                        type='button'
+                        variant='outline'
+                        size='icon'
+                        onClick={mask.redo}
+                        disabled={disabled || !mask.canRedo}
+                        title='Gentag'
+                        className={`h-8 w-8 ${buttonClassName}`}>
+                        <Redo2 className='h-4 w-4' />
+                    </Button>
+                    <Button
+                        type='button'
+                        variant='outline'
+                        size='icon'
+                        onClick={mask.clearMask}
+                        disabled={disabled || (mask.isEmpty && document.shapes.length === 0)}
+                        title='Ryd mask'
+                        className={`h-8 w-8 ${buttonClassName}`}>
+                        <Trash2 className='h-4 w-4' />
+                    </Button>
+                    {mask.hasSavedMask && (
+                        <Button
+                            type='button'
+                            variant='outline'
+                            size='sm'
+                            onClick={mask.loadSavedMask}
+                            disabled={disabled}
+                            className={`h-8 ${buttonClassName}`}>
+                            <History className='mr-1 h-4 w-4' />
+                            Gemt mask
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className='flex flex-wrap items-center gap-2'>
+                <Button
+                    type='button'
+                    variant='outline'
+                    size='sm'
+                    onClick={() => mask.selectAutomatically('subject')}
+                    disabled={disabled || mask.isSelecting}
+                    className={`h-8 ${buttonClassName}`}>
+                    {mask.isSelecting ? (
+                        <Loader2 className='mr-1 h-4 w-4 animate-spin' />
+                    ) : (
+                        <Wand2 className='mr-1 h-4 w-4' />
+                    )}
+                    Markér motiv
+                </Button>
+                <Button
+                    type='button'
+                    variant='outline'
+                    size='sm'
+                    onClick={() => mask.selectAutomatically('background')}
+                    disabled={disabled || mask.isSelecting}
+                    className={`h-8 ${buttonClassName}`}>
+                    <Wand2 className='mr-1 h-4 w-4' />
+                    Markér baggrund
+                </Button>
+            </div>
+            {mask.selectionError && <p className='text-xs text-red-400'>{mask.selectionError}</p>}
+
+            {isShapeTool ? (
+                <p className='text-xs text-white/60'>Hold Alt nede for at fjerne området fra masken.</p>
+            ) : (
+                <div className='space-y-2'>
+                    <Label htmlFor={`${id}-brush`} className='text-sm text-white'>
+                        Penselstørrelse: {mask.brushSize}px
+                    </Label>
+                    <Slider
+                        id={`${id}-brush`}
+                        min={5}
+                        max={100}
+                        step={1}
+                        value={[mask.brushSize]}
+                        onValueChange={([value]) => mask.setBrushSize(value)}
+                        disabled={disabled}
+                        className={sliderClassName}
+                    />
+                </div>
+            )}
+
+            <div className='grid gap-3 sm:grid-cols-2'>
+                <div className='space-y-2'>
+                    <Label htmlFor={`${id}-grow`} className='text-sm text-white'>
+                        {document.grow < 0 ? 'Formindsk' : 'Udvid'}: {Math.abs(document.grow)}px
+                    </Label>
+                    <Slider
+                        id={`${id}-grow`}
+                        min={-MAX_MASK_GROW}
+                        max={MAX_MASK_GROW}
+                        step={1}
+                        value={[document.grow]}
+                        onValueChange={([value]) => mask.setGrow(value)}
+                        disabled={disabled}
+                        className={sliderClassName}
+                    />
+                </div>
+                <div className='space-y-2'>
+                    <Label htmlFor={`${id}-feather`} className='text-sm text-white'>
+                        Blød kant: {document.feather}px
+                    </Label>
+                    <Slider
+                        id={`${id}-feather`}
+                        min={0}
+                        max={MAX_MASK_FEATHER}
+                        step={1}
+                        value={[document.feather]}
+                        onValueChange={([value]) => mask.setFeather(value)}
+                        disabled={disabled}
+                        className={sliderClassName}
+                    />
+                </div>
+            </div>
+
+            <div className='flex items-center justify-between'>
+                <Label htmlFor={`${id}-invert`} className='text-sm text-white'>
+                    Invertér (redigér alt undtagen det markerede)
+                </Label>
+                <Switch
+                    id={`${id}-invert`}
+                    checked={document.invert}
+                    onCheckedChange={mask.setInvert}
+                    disabled={disabled}
+                />
+            </div>
+        </div>
+    );
+}
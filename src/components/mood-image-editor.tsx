@@ -8,53 +8,162 @@ import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Progress } from '@/components/ui/progress';
 import { MultiImageDropZone } from '@/components/multi-image-drop-zone';
+import { BatchProgressList } from '@/components/batch-progress-list';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { FocalPoint, MoodCropStrategy } from '@/lib/mood-processor';
+import {
+    applyBatchProgressEvent,
+    BATCH_PROGRESS_CONTENT_TYPE,
+    readBatchProgress,
+    type BatchFileProgress
+} from '@/lib/batch-progress';
 import { cn } from '@/lib/utils';
 import { 
     Sparkles, 
     Upload, 
     Download, 
     Trash2, 
-    Image, 
+    Image as ImageIcon, 
     Loader2, 
     AlertCircle,
     Maximize,
-    CropIcon
+    CropIcon,
+    Crosshair,
+    Square,
+    FolderPlus
 } from 'lucide-react';
+import { useCSRF } from '@/hooks/use-csrf';
+import { useSaveToProject } from '@/hooks/use-save-to-project';
+import { apiManager } from '@/lib/api-manager';
+import { fetchProcessedProjectItems } from '@/lib/projects';
+import { appendUploadedFile } from '@/lib/upload-protocol';
+import Image from 'next/image';
 import * as React from 'react';
 
-interface MoodImageEditorProps {
-    clientPasswordHash: string | null;
-}
-
 interface ProcessedMoodImage {
     filename: string;
     url: string;
     size?: number;
 }
 
-export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
+const OUTPUT_SIZES = [800, 1200, 1600, 2000];
+const COVER_ASPECT_RATIOS = ['1:1', '4:5', '3:4', '2:3', '4:3', '3:2', '16:9', '9:16'];
+
+// Thumbnail that sets a focal point where it's clicked
+function FocalPointThumbnail({
+    file,
+    focalPoint,
+    onChange,
+    disabled
+}: {
+    file: File;
+    focalPoint?: FocalPoint;
+    onChange: (point: FocalPoint | null) => void;
+    disabled?: boolean;
+}) {
+    const [url, setUrl] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        const objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [file]);
+
+    const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+        if (disabled) return;
+        const rect = event.currentTarget.getBoundingClientRect();
+        onChange({
+            x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+        });
+    };
+
+    return (
+        <div className='space-y-1'>
+            <div
+                onClick={handleClick}
+                className={cn('relative overflow-hidden rounded border border-white/10', !disabled && 'cursor-crosshair')}>
+                {url && (
+                    <Image
+                        src={url}
+                        alt={file.name}
+                        width={0}
+                        height={0}
+                        sizes='100vw'
+                        unoptimized
+                        className='block h-auto w-full'
+                    />
+                )}
+                {focalPoint && (
+                    <div
+                        className='pointer-events-none absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-red-500/70 shadow'
+                        style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+                    />
+                )}
+            </div>
+            <div className='flex items-center justify-between gap-1'>
+                <span className='truncate text-xs text-white/60'>{file.name}</span>
+                {focalPoint && (
+                    <button
+                        type='button'
+                        onClick={() => onChange(null)}
+                        disabled={disabled}
+                        className='text-xs text-white/60 underline hover:text-white'>
+                        Nulstil
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export function MoodImageEditor() {
+    const { addCSRFToken } = useCSRF();
+    const { activeProject, saveToProject, isSaving: isSavingToProject, message: projectMessage } = useSaveToProject();
     const [inputImages, setInputImages] = React.useState<File[]>([]);
     const [processedImages, setProcessedImages] = React.useState<ProcessedMoodImage[]>([]);
     const [isProcessing, setIsProcessing] = React.useState(false);
     const [progress, setProgress] = React.useState(0);
     const [progressText, setProgressText] = React.useState('');
     const [error, setError] = React.useState<string | null>(null);
+    const [fileProgress, setFileProgress] = React.useState<BatchFileProgress[]>([]);
+    const abortControllerRef = React.useRef<AbortController | null>(null);
     
     // Settings
     const [detectBorders, setDetectBorders] = React.useState(true);
     const [trimThreshold, setTrimThreshold] = React.useState([240]);
     const [maintainAspectRatio, setMaintainAspectRatio] = React.useState(true);
     const [outputFormat, setOutputFormat] = React.useState<'square' | 'original' | 'cover'>('square');
+    const [outputSize, setOutputSize] = React.useState(800);
+    const [aspectRatio, setAspectRatio] = React.useState('1:1');
+    const [cropStrategy, setCropStrategy] = React.useState<MoodCropStrategy>('attention');
+    const [focalPoints, setFocalPoints] = React.useState<Record<string, FocalPoint>>({});
     const [isPngFormat, setIsPngFormat] = React.useState(true);
     const [selectedImages, setSelectedImages] = React.useState<string[]>([]);
 
     // Handle file upload
     const handleFilesAdded = (files: File[]) => {
         setInputImages(files);
+        setFocalPoints({});
         setError(null);
     };
 
+    // Only the cropping modes use a crop strategy and focal points
+    const isCropping = outputFormat === 'cover' || (outputFormat === 'square' && !maintainAspectRatio);
+
+    const handleFocalPointChange = (filename: string, point: FocalPoint | null) => {
+        setFocalPoints(current => {
+            const next = { ...current };
+            if (point) {
+                next[filename] = point;
+            } else {
+                delete next[filename];
+            }
+            return next;
+        });
+    };
+
     // Process images
     const handleProcess = async () => {
         if (inputImages.length === 0) {
@@ -66,63 +175,106 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
         setProgress(0);
         setProgressText('Forbereder billeder...');
         setError(null);
+        setFileProgress(inputImages.map((file) => ({ filename: file.name, status: 'pending' })));
 
         try {
-            // Upload images
-            const formData = new FormData();
-            inputImages.forEach(file => {
-                formData.append('files', file);
+            // Upload images in resumable chunks, then hand them to the tool
+            setProgressText('Uploader billeder...');
+            const uploaded = await apiManager.uploadFiles(inputImages, {
+                addCSRFToken,
+                onProgress: ({ percent }) => {
+                    setProgress(percent);
+                    setProgressText(`Uploader billeder... ${percent}%`);
+                }
             });
-            if (clientPasswordHash) {
-                formData.append('passwordHash', clientPasswordHash);
-            }
 
-            setProgressText('Uploader billeder...');
-            const uploadResponse = await fetch('/api/image-edit/mood/upload', {
+            const formData = new FormData();
+            uploaded.forEach(file => appendUploadedFile(formData, 'files', file));
+
+            const uploadResponse = await fetch('/api/image-edit/mood/upload', addCSRFToken({
                 method: 'POST',
                 body: formData,
-            });
+            }));
 
             if (!uploadResponse.ok) {
                 const errorData = await uploadResponse.json();
                 throw new Error(errorData.error || 'Upload fejlede');
             }
 
-            // Process images
+            // Process images, following per-file progress as it streams in
             setProgressText('Behandler stemningsbilleder...');
-            setProgress(30);
 
-            const processResponse = await fetch('/api/image-edit/mood/process', {
+            const controller = new AbortController();
+            abortControllerRef.current = controller;
+
+            const processResponse = await fetch('/api/image-edit/mood/process', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
+                    Accept: BATCH_PROGRESS_CONTENT_TYPE,
                 },
                 body: JSON.stringify({
                     detectBorders,
                     trimThreshold: trimThreshold[0],
                     maintainAspectRatio,
                     outputFormat,
-                    passwordHash: clientPasswordHash,
+                    size: outputSize,
+                    aspectRatio,
+                    cropStrategy,
+                    focalPoints: isCropping ? focalPoints : {}
                 }),
-            });
+                signal: controller.signal,
+            }));
 
             if (!processResponse.ok) {
                 const errorData = await processResponse.json();
                 throw new Error(errorData.error || 'Behandling fejlede');
             }
 
-            const result = await processResponse.json();
+            let total = inputImages.length;
+            let finished = 0;
+            let failed = 0;
+            let completed = false;
+
+            await readBatchProgress(processResponse, (event) => {
+                setFileProgress((files) => applyBatchProgressEvent(files, event));
+
+                if (event.type === 'start') {
+                    total = event.total;
+                } else if (event.type === 'file-done' || event.type === 'file-error') {
+                    finished++;
+                    if (event.type === 'file-error') failed++;
+                    setProgress(Math.round((finished / total) * 100));
+                    setProgressText(`Behandlet ${finished} af ${total} billeder`);
+                } else if (event.type === 'done') {
+                    completed = true;
+                } else if (event.type === 'fatal') {
+                    throw new Error(event.error);
+                }
+            });
+
+            if (!completed) {
+                throw new Error('Behandlingen stoppede uventet');
+            }
+            if (failed > 0) {
+                setError(`${failed} billede${failed !== 1 ? 'r' : ''} kunne ikke behandles`);
+            }
+
             setProgress(100);
             setProgressText('Færdig!');
-            
-            // Load processed images
-            await loadProcessedImages();
 
         } catch (err) {
             console.error('Error processing mood images:', err);
-            setError(err instanceof Error ? err.message : 'Ukendt fejl opstod');
+            if (err instanceof Error && err.name === 'AbortError') {
+                setError('Behandlingen blev stoppet');
+            } else {
+                setError(err instanceof Error ? err.message : 'Ukendt fejl opstod');
+            }
         } finally {
+            abortControllerRef.current = null;
             setIsProcessing(false);
+            // Outputs are stored as each file finishes, so a stopped batch keeps what was done
+            await loadProcessedImages();
             setTimeout(() => {
                 setProgress(0);
                 setProgressText('');
@@ -130,6 +282,11 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
         }
     };
 
+    // Stop the running batch; files already processed are kept
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     // Load processed images
     const loadProcessedImages = async () => {
         try {
@@ -148,13 +305,9 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
     // Clear all images
     const handleClearAll = async () => {
         try {
-            const response = await fetch('/api/image-edit/mood/clear', {
+            const response = await fetch('/api/image-edit/mood/clear', addCSRFToken({
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ passwordHash: clientPasswordHash }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Kunne ikke rydde billeder');
@@ -163,6 +316,7 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
             setInputImages([]);
             setProcessedImages([]);
             setError(null);
+            setFileProgress([]);
         } catch (err) {
             console.error('Error clearing images:', err);
             setError('Kunne ikke rydde billeder');
@@ -191,16 +345,15 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
     // Download all images as ZIP
     const handleDownloadAll = async () => {
         try {
-            const response = await fetch('/api/image-edit/mood/download-all', {
+            const response = await fetch('/api/image-edit/mood/download-all', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({ 
-                    passwordHash: clientPasswordHash,
                     format: isPngFormat ? 'png' : 'jpg'
                 }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Download fejlede');
@@ -226,17 +379,16 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
         if (selectedImages.length === 0) return;
 
         try {
-            const response = await fetch('/api/image-edit/mood/download-selected', {
+            const response = await fetch('/api/image-edit/mood/download-selected', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({ 
-                    passwordHash: clientPasswordHash,
                     format: isPngFormat ? 'png' : 'jpg',
                     selectedFiles: selectedImages
                 }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Download fejlede');
@@ -257,6 +409,15 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
         }
     };
 
+    // Keep the selected images (or all of them) in the active project, as they expire from the temp store
+    const handleSaveToProject = () => {
+        const images =
+            selectedImages.length > 0
+                ? processedImages.filter(image => selectedImages.includes(image.filename))
+                : processedImages;
+        saveToProject(() => fetchProcessedProjectItems('mood', images));
+    };
+
     // Load processed images on mount
     React.useEffect(() => {
         loadProcessedImages();
@@ -369,11 +530,101 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
                                     onClick={() => setOutputFormat('cover')}
                                     disabled={isProcessing}
                                     className={outputFormat === 'cover' ? 'bg-white text-black' : 'border-white/20 text-white'}>
-                                    <Image className='mr-2 h-4 w-4' />
+                                    <ImageIcon className='mr-2 h-4 w-4' />
                                     Fyld
                                 </Button>
                             </div>
+                            <p className='text-xs text-white/60'>
+                                {outputFormat === 'original'
+                                    ? 'Beholder billedets eget format uden beskæring'
+                                    : outputFormat === 'square'
+                                      ? maintainAspectRatio
+                                          ? 'Hele billedet på et kvadratisk lærred'
+                                          : 'Beskæres til kvadrat omkring motivet'
+                                      : 'Beskæres til det valgte format omkring motivet'}
+                            </p>
+                        </div>
+
+                        <div className='grid grid-cols-2 gap-3'>
+                            <div className='space-y-2'>
+                                <Label className='text-white'>Længste side</Label>
+                                <Select
+                                    value={String(outputSize)}
+                                    onValueChange={value => setOutputSize(parseInt(value, 10))}
+                                    disabled={isProcessing}>
+                                    <SelectTrigger className='bg-white/5 border-white/10 text-white'>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {OUTPUT_SIZES.map(size => (
+                                            <SelectItem key={size} value={String(size)}>
+                                                {size}px
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {outputFormat === 'cover' && (
+                                <div className='space-y-2'>
+                                    <Label className='text-white'>Billedformat</Label>
+                                    <Select value={aspectRatio} onValueChange={setAspectRatio} disabled={isProcessing}>
+                                        <SelectTrigger className='bg-white/5 border-white/10 text-white'>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {COVER_ASPECT_RATIOS.map(ratio => (
+                                                <SelectItem key={ratio} value={ratio}>
+                                                    {ratio}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
                         </div>
+
+                        {isCropping && (
+                            <div className='space-y-2'>
+                                <Label className='text-white'>Beskæring</Label>
+                                <Select
+                                    value={cropStrategy}
+                                    onValueChange={value => setCropStrategy(value as MoodCropStrategy)}
+                                    disabled={isProcessing}>
+                                    <SelectTrigger className='bg-white/5 border-white/10 text-white'>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value='attention'>Find motivet</SelectItem>
+                                        <SelectItem value='entropy'>Flest detaljer</SelectItem>
+                                        <SelectItem value='center'>Midten</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
+                        {isCropping && inputImages.length > 0 && (
+                            <div className='space-y-2'>
+                                <Label className='flex items-center gap-2 text-white'>
+                                    <Crosshair className='h-4 w-4' />
+                                    Fokuspunkt
+                                </Label>
+                                <p className='text-xs text-white/60'>
+                                    Klik på et billede for at vælge hvad beskæringen skal centreres om. Billeder uden
+                                    fokuspunkt beskæres automatisk.
+                                </p>
+                                <div className='grid grid-cols-3 gap-2'>
+                                    {inputImages.map((file, index) => (
+                                        <FocalPointThumbnail
+                                            key={`${file.name}-${index}`}
+                                            file={file}
+                                            focalPoint={focalPoints[file.name]}
+                                            onChange={point => handleFocalPointChange(file.name, point)}
+                                            disabled={isProcessing}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </div>
 
                     {/* Progress */}
@@ -383,6 +634,7 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
                             <p className='text-sm text-white/60 text-center'>{progressText}</p>
                         </div>
                     )}
+                    <BatchProgressList files={fileProgress} />
 
                     {/* Error */}
                     {error && (
@@ -411,6 +663,15 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
                             </>
                         )}
                     </Button>
+                    {isProcessing && (
+                        <Button
+                            onClick={handleCancel}
+                            variant='outline'
+                            className='border-white/20 text-white hover:bg-white/10'>
+                            <Square className='mr-2 h-4 w-4' />
+                            Stop
+                        </Button>
+                    )}
                     <Button
                         onClick={handleClearAll}
                         variant='outline'
@@ -427,7 +688,7 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
                     <div className='flex items-center justify-between'>
                         <div>
                             <CardTitle className='flex items-center gap-2 text-white'>
-                                <Image className='h-5 w-5' />
+                                <ImageIcon className='h-5 w-5' />
                                 Behandlede stemningsbilleder
                             </CardTitle>
                             <CardDescription className='text-white/60'>
@@ -465,6 +726,22 @@ export function MoodImageEditor({ clientPasswordHash }: MoodImageEditorProps) {
                                         Download valgte ({selectedImages.length})
                                     </Button>
                                 )}
+                                {activeProject && (
+                                    <Button
+                                        onClick={handleSaveToProject}
+                                        disabled={isSavingToProject}
+                                        size='sm'
+                                        variant='outline'
+                                        title={projectMessage ?? `Gem i ${activeProject.name}`}
+                                        className='border-white/20 text-white hover:bg-white/10'>
+                                        {isSavingToProject ? (
+                                            <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                                        ) : (
+                                            <FolderPlus className='mr-2 h-4 w-4' />
+                                        )}
+                                        {projectMessage ?? 'Gem i projekt'}
+                                    </Button>
+                                )}
                             </div>
                         )}
                     </div>
@@ -1,9 +1,15 @@
 'use client';
 
+import { useDuplicateHints } from '@/hooks/use-duplicate-hints';
 import { cn } from '@/lib/utils';
-import { Upload, X, FileImage } from 'lucide-react';
+import { Upload, X, FileImage, Copy } from 'lucide-react';
 import * as React from 'react';
 
+// Browsers that can't display HEIC give .heic/.heif files an empty type
+const HEIF_FILE = /\.(heic|heif)$/i;
+
+const isImageFile = (file: File) => file.type.startsWith('image/') || HEIF_FILE.test(file.name);
+
 interface MultiImageDropZoneProps {
     onFilesAdded: (files: File[]) => void;
     maxImages?: number;
@@ -20,6 +26,7 @@ export function MultiImageDropZone({
     const [isDragging, setIsDragging] = React.useState(false);
     const [files, setFiles] = React.useState<File[]>([]);
     const fileInputRef = React.useRef<HTMLInputElement>(null);
+    const duplicateHints = useDuplicateHints(files);
 
     const handleDragEnter = (e: React.DragEvent) => {
         e.preventDefault();
@@ -47,9 +54,7 @@ export function MultiImageDropZone({
 
         if (disabled) return;
 
-        const droppedFiles = Array.from(e.dataTransfer.files).filter(
-            file => file.type.startsWith('image/')
-        );
+        const droppedFiles = Array.from(e.dataTransfer.files).filter(isImageFile);
 
         if (droppedFiles.length > 0) {
             const newFiles = [...files, ...droppedFiles].slice(0, maxImages);
@@ -61,9 +66,7 @@ export function MultiImageDropZone({
     const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (disabled) return;
 
-        const selectedFiles = Array.from(e.target.files || []).filter(
-            file => file.type.startsWith('image/')
-        );
+        const selectedFiles = Array.from(e.target.files || []).filter(isImageFile);
 
         if (selectedFiles.length > 0) {
             const newFiles = [...files, ...selectedFiles].slice(0, maxImages);
@@ -105,7 +108,7 @@ export function MultiImageDropZone({
                     ref={fileInputRef}
                     type='file'
                     multiple
-                    accept='image/*'
+                    accept='image/*,.heic,.heif'
                     onChange={handleFileInput}
                     disabled={disabled}
                     className='hidden'
@@ -156,6 +159,12 @@ export function MultiImageDropZone({
                                         <X className='h-4 w-4 text-white/60 hover:text-white' />
                                     </button>
                                 </div>
+                                {duplicateHints[index] && (
+                                    <p className='mt-1 flex items-center gap-1 text-xs text-amber-300'>
+                                        <Copy className='h-3 w-3 shrink-0' />
+                                        <span className='truncate'>{duplicateHints[index]?.message}</span>
+                                    </p>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -3,8 +3,9 @@
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { useDragDrop } from '@/hooks/use-drag-drop';
+import { useDuplicateHints } from '@/hooks/use-duplicate-hints';
 import { cn } from '@/lib/utils';
-import { Upload, X, Image as ImageIcon, AlertCircle, Move, Plus } from 'lucide-react';
+import { Upload, X, Image as ImageIcon, AlertCircle, Move, Plus, Copy } from 'lucide-react';
 import Image from 'next/image';
 import * as React from 'react';
 
@@ -33,6 +34,8 @@ export function MultiImageDropZone({
 }: MultiImageDropZoneProps) {
     const [draggedIndex, setDraggedIndex] = React.useState<number | null>(null);
     const [draggedOverIndex, setDraggedOverIndex] = React.useState<number | null>(null);
+    const files = React.useMemo(() => images.map((image) => image.file), [images]);
+    const duplicateHints = useDuplicateHints(files);
 
     // Helper function to ensure valid preview URL
     const ensureValidPreviewUrl = React.useCallback((imageFile: ImageFile): string => {
@@ -265,6 +268,12 @@ export function MultiImageDropZone({
                                     <p className='text-muted-foreground text-xs'>
                                         {(imageFile.file.size / (1024 * 1024)).toFixed(1)} MB
                                     </p>
+                                    {duplicateHints[index] && (
+                                        <p className='flex items-center gap-1 text-xs text-amber-500'>
+                                            <Copy className='h-3 w-3 shrink-0' />
+                                            <span className='truncate'>{duplicateHints[index]?.message}</span>
+                                        </p>
+                                    )}
                                 </div>
                             </Card>
                         ))}
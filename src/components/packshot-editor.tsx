@@ -6,7 +6,11 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
 import { MultiImageDropZone } from '@/components/multi-image-drop-zone';
+import { PackshotProfileManager } from '@/components/packshot-profile-manager';
+import { BatchProgressList } from '@/components/batch-progress-list';
 import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
 import { 
@@ -17,21 +21,52 @@ import {
     Image, 
     Loader2, 
     AlertCircle,
-    CheckCircle
+    CheckCircle,
+    Square,
+    FolderPlus
 } from 'lucide-react';
+import { useCSRF } from '@/hooks/use-csrf';
+import { useSaveToProject } from '@/hooks/use-save-to-project';
+import { apiManager } from '@/lib/api-manager';
+import {
+    applyBatchProgressEvent,
+    BATCH_PROGRESS_CONTENT_TYPE,
+    readBatchProgress,
+    type BatchFileProgress
+} from '@/lib/batch-progress';
+import {
+    BUILT_IN_PACKSHOT_PROFILES,
+    CUSTOM_PACKSHOT_PROFILES_KEY,
+    DEFAULT_CONTACT_SHADOW,
+    DEFAULT_DROP_SHADOW,
+    DEFAULT_PACKSHOT_PROFILE,
+    DEFAULT_REFLECTION,
+    isBuiltInPackshotProfile,
+    normalizePackshotProfile,
+    type PackshotProfile
+} from '@/lib/packshot-profiles';
+import { fetchProcessedProjectItems } from '@/lib/projects';
+import { appendUploadedFile } from '@/lib/upload-protocol';
 import * as React from 'react';
 
-interface PackshotEditorProps {
-    clientPasswordHash: string | null;
-}
-
 interface ProcessedImage {
     filename: string;
     url: string;
     size?: number;
 }
 
-export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
+const SELECTED_PROFILES_KEY = 'packshotSelectedProfiles';
+
+interface BackgroundRemoverOption {
+    id: string;
+    label: string;
+    billable: boolean;
+    configured: boolean;
+}
+
+export function PackshotEditor() {
+    const { addCSRFToken } = useCSRF();
+    const { activeProject, saveToProject, isSaving: isSavingToProject, message: projectMessage } = useSaveToProject();
     const [inputImages, setInputImages] = React.useState<File[]>([]);
     const [processedImages, setProcessedImages] = React.useState<ProcessedImage[]>([]);
     const [isProcessing, setIsProcessing] = React.useState(false);
@@ -39,10 +74,67 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
     const [progressText, setProgressText] = React.useState('');
     const [error, setError] = React.useState<string | null>(null);
     const [removeBackground, setRemoveBackground] = React.useState(true);
-    const [frameSize, setFrameSize] = React.useState(800);
+    const [removers, setRemovers] = React.useState<BackgroundRemoverOption[]>([]);
+    const [removerId, setRemoverId] = React.useState('');
+    const [tolerance, setTolerance] = React.useState([24]);
+    const [feather, setFeather] = React.useState([1.5]);
+    const [failedFiles, setFailedFiles] = React.useState<Array<{ filename: string; error: string }>>([]);
+    const [fileProgress, setFileProgress] = React.useState<BatchFileProgress[]>([]);
+    const abortControllerRef = React.useRef<AbortController | null>(null);
+    const [customProfiles, setCustomProfiles] = React.useState<PackshotProfile[]>([]);
+    const [selectedProfileIds, setSelectedProfileIds] = React.useState<string[]>([DEFAULT_PACKSHOT_PROFILE.id]);
+    const [profilesLoaded, setProfilesLoaded] = React.useState(false);
+    const [contactShadow, setContactShadow] = React.useState(false);
+    const [contactShadowOpacity, setContactShadowOpacity] = React.useState([60]);
+    const [dropShadowMode, setDropShadowMode] = React.useState<'profile' | 'on' | 'off'>('profile');
+    const [dropShadowAngle, setDropShadowAngle] = React.useState([90]);
+    const [dropShadowOpacity, setDropShadowOpacity] = React.useState([35]);
+    const [reflection, setReflection] = React.useState(false);
+    const [reflectionOpacity, setReflectionOpacity] = React.useState([30]);
+    const [reflectionHeight, setReflectionHeight] = React.useState([35]);
     const [isPngFormat, setIsPngFormat] = React.useState(true);
     const [selectedImages, setSelectedImages] = React.useState<string[]>([]);
 
+    const profiles = React.useMemo(() => [...BUILT_IN_PACKSHOT_PROFILES, ...customProfiles], [customProfiles]);
+    const selectedProfiles = profiles.filter(profile => selectedProfileIds.includes(profile.id));
+
+    // Custom profiles and the selection are kept in the browser
+    React.useEffect(() => {
+        try {
+            const storedProfiles = JSON.parse(localStorage.getItem(CUSTOM_PACKSHOT_PROFILES_KEY) || '[]');
+            if (Array.isArray(storedProfiles)) {
+                // Normalizing fills in settings added since the profile was saved
+                setCustomProfiles(
+                    storedProfiles
+                        .filter((profile: PackshotProfile) => !isBuiltInPackshotProfile(profile.id))
+                        .map(normalizePackshotProfile)
+                );
+            }
+            const storedSelection = JSON.parse(localStorage.getItem(SELECTED_PROFILES_KEY) || 'null');
+            if (Array.isArray(storedSelection)) {
+                setSelectedProfileIds(storedSelection);
+            }
+        } catch (e) {
+            console.error('Failed to load packshot profiles from localStorage:', e);
+        }
+        setProfilesLoaded(true);
+    }, []);
+
+    React.useEffect(() => {
+        if (!profilesLoaded) return;
+        localStorage.setItem(CUSTOM_PACKSHOT_PROFILES_KEY, JSON.stringify(customProfiles));
+        localStorage.setItem(SELECTED_PROFILES_KEY, JSON.stringify(selectedProfileIds));
+    }, [customProfiles, selectedProfileIds, profilesLoaded]);
+
+    // Working inside a project starts from its output profiles. Compared as a string so
+    // other changes to the project don't override the user's own selection.
+    const projectProfileIds = activeProject?.defaults.packshotProfileIds?.join(',') ?? '';
+    React.useEffect(() => {
+        if (profilesLoaded && projectProfileIds) {
+            setSelectedProfileIds(projectProfileIds.split(','));
+        }
+    }, [projectProfileIds, profilesLoaded]);
+
     // Handle file upload
     const handleFilesAdded = (files: File[]) => {
         setInputImages(files);
@@ -55,87 +147,134 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
             setError('Vælg mindst ét billede at behandle');
             return;
         }
+        if (selectedProfiles.length === 0) {
+            setError('Vælg mindst én output-profil');
+            return;
+        }
 
         setIsProcessing(true);
         setProgress(0);
         setProgressText('Forbereder billeder...');
         setError(null);
+        setFailedFiles([]);
+        setFileProgress(inputImages.map((file) => ({ filename: file.name, status: 'pending' })));
 
         try {
-            // Upload images
-            const formData = new FormData();
-            inputImages.forEach(file => {
-                formData.append('files', file);
+            // Upload images in resumable chunks, then hand them to the tool
+            setProgressText('Uploader billeder...');
+            const uploaded = await apiManager.uploadFiles(inputImages, {
+                addCSRFToken,
+                onProgress: ({ percent }) => {
+                    setProgress(percent);
+                    setProgressText(`Uploader billeder... ${percent}%`);
+                }
             });
+
+            const formData = new FormData();
+            uploaded.forEach(file => appendUploadedFile(formData, 'files', file));
             formData.append('removeBackground', removeBackground.toString());
-            formData.append('frameSize', frameSize.toString());
-            if (clientPasswordHash) {
-                formData.append('passwordHash', clientPasswordHash);
-            }
 
-            setProgressText('Uploader billeder...');
-            const uploadResponse = await fetch('/api/image-edit/packshot/upload', {
+            const uploadResponse = await fetch('/api/image-edit/packshot/upload', addCSRFToken({
                 method: 'POST',
                 body: formData,
-            });
+            }));
 
             if (!uploadResponse.ok) {
                 const errorData = await uploadResponse.json();
                 throw new Error(errorData.error || 'Upload fejlede');
             }
 
-            // Process images
-            setProgressText(`Behandler ${inputImages.length} billede${inputImages.length !== 1 ? 'r' : ''}...`);
-            setProgress(30);
-
-            if (removeBackground) {
-                setProgressText('Fjerner baggrunde med Remove.bg...');
-                setProgress(50);
-            }
+            // Process images, following per-file progress as it streams in
+            const remover = removeBackground ? removers.find(r => r.id === removerId) : undefined;
+            setProgressText(
+                remover
+                    ? `Fjerner baggrunde med ${remover.label}...`
+                    : `Behandler ${inputImages.length} billede${inputImages.length !== 1 ? 'r' : ''}...`
+            );
 
-            // Add AbortController for timeout
             const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
+            abortControllerRef.current = controller;
 
-            const processResponse = await fetch('/api/image-edit/packshot/process', {
+            const processResponse = await fetch('/api/image-edit/packshot/process', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
+                    Accept: BATCH_PROGRESS_CONTENT_TYPE,
                 },
                 body: JSON.stringify({
                     removeBackground,
-                    frameSize,
-                    passwordHash: clientPasswordHash,
+                    backgroundRemover: removerId || undefined,
+                    tolerance: tolerance[0],
+                    feather: feather[0],
+                    profiles: selectedProfiles,
+                    contactShadow: contactShadow
+                        ? { ...DEFAULT_CONTACT_SHADOW, opacity: contactShadowOpacity[0] / 100 }
+                        : undefined,
+                    // Left out, the profiles' own drop shadow settings apply
+                    dropShadow:
+                        dropShadowMode === 'profile'
+                            ? undefined
+                            : dropShadowMode === 'on'
+                              ? {
+                                    ...DEFAULT_DROP_SHADOW,
+                                    angle: dropShadowAngle[0],
+                                    opacity: dropShadowOpacity[0] / 100
+                                }
+                              : null,
+                    reflection: reflection
+                        ? { ...DEFAULT_REFLECTION, opacity: reflectionOpacity[0] / 100, height: reflectionHeight[0] }
+                        : undefined
                 }),
                 signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
-
-            const result = await processResponse.json();
+            }));
 
             if (!processResponse.ok) {
-                throw new Error(result.error || 'Behandling fejlede');
+                const errorData = await processResponse.json();
+                throw new Error(errorData.error || 'Behandling fejlede');
             }
 
-            setProgress(90);
-            setProgressText(`Behandlet ${result.success || 0} af ${inputImages.length} billeder`);
+            let total = inputImages.length;
+            let finished = 0;
+            let completed = false;
+            const failed: Array<{ filename: string; error: string }> = [];
+
+            await readBatchProgress(processResponse, (event) => {
+                setFileProgress((files) => applyBatchProgressEvent(files, event));
+
+                if (event.type === 'start') {
+                    total = event.total;
+                } else if (event.type === 'file-done' || event.type === 'file-error') {
+                    finished++;
+                    setProgress(Math.round((finished / total) * 100));
+                    setProgressText(`Behandlet ${finished} af ${total} billeder`);
+                    if (event.type === 'file-error') {
+                        failed.push({ filename: event.filename, error: event.error });
+                    } else if (event.errors.length) {
+                        failed.push({ filename: event.filename, error: event.errors.join('; ') });
+                    }
+                } else if (event.type === 'done') {
+                    completed = true;
+                } else if (event.type === 'fatal') {
+                    throw new Error(event.error);
+                }
+            });
 
-            if (result.failed > 0) {
-                setError(`${result.failed} billede${result.failed !== 1 ? 'r' : ''} kunne ikke behandles`);
+            if (!completed) {
+                throw new Error('Behandlingen stoppede uventet');
+            }
+            if (failed.length > 0) {
+                setError(`${failed.length} billede${failed.length !== 1 ? 'r' : ''} kunne ikke behandles`);
+                setFailedFiles(failed);
             }
 
             setProgress(100);
             setProgressText('Færdig!');
-            
-            // Load processed images
-            await loadProcessedImages();
 
         } catch (err) {
             console.error('Error processing images:', err);
             if (err instanceof Error) {
                 if (err.name === 'AbortError') {
-                    setError('Behandling tog for lang tid (timeout efter 60 sekunder)');
+                    setError('Behandlingen blev stoppet');
                 } else {
                     setError(err.message);
                 }
@@ -143,7 +282,10 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
                 setError('Ukendt fejl opstod');
             }
         } finally {
+            abortControllerRef.current = null;
             setIsProcessing(false);
+            // Outputs are stored as each file finishes, so a stopped batch keeps what was done
+            await loadProcessedImages();
             setTimeout(() => {
                 setProgress(0);
                 setProgressText('');
@@ -151,6 +293,11 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
         }
     };
 
+    // Stop the running batch; files already processed are kept
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     // Load processed images
     const loadProcessedImages = async () => {
         try {
@@ -169,13 +316,9 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
     // Clear all images
     const handleClearAll = async () => {
         try {
-            const response = await fetch('/api/image-edit/packshot/clear', {
+            const response = await fetch('/api/image-edit/packshot/clear', addCSRFToken({
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ passwordHash: clientPasswordHash }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Kunne ikke rydde billeder');
@@ -184,6 +327,8 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
             setInputImages([]);
             setProcessedImages([]);
             setError(null);
+            setFailedFiles([]);
+            setFileProgress([]);
         } catch (err) {
             console.error('Error clearing images:', err);
             setError('Kunne ikke rydde billeder');
@@ -212,16 +357,15 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
     // Download all images as ZIP
     const handleDownloadAll = async () => {
         try {
-            const response = await fetch('/api/image-edit/packshot/download-all', {
+            const response = await fetch('/api/image-edit/packshot/download-all', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({ 
-                    passwordHash: clientPasswordHash,
                     format: isPngFormat ? 'png' : 'jpg'
                 }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Download fejlede');
@@ -247,17 +391,16 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
         if (selectedImages.length === 0) return;
 
         try {
-            const response = await fetch('/api/image-edit/packshot/download-selected', {
+            const response = await fetch('/api/image-edit/packshot/download-selected', addCSRFToken({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({ 
-                    passwordHash: clientPasswordHash,
                     format: isPngFormat ? 'png' : 'jpg',
                     selectedFiles: selectedImages
                 }),
-            });
+            }));
 
             if (!response.ok) {
                 throw new Error('Download fejlede');
@@ -278,11 +421,31 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
         }
     };
 
-    // Load processed images on mount
+    // Keep the selected images (or all of them) in the active project, as they expire from the temp store
+    const handleSaveToProject = () => {
+        const images =
+            selectedImages.length > 0
+                ? processedImages.filter(image => selectedImages.includes(image.filename))
+                : processedImages;
+        saveToProject(() => fetchProcessedProjectItems('packshot', images));
+    };
+
+    // Load processed images and available background removers on mount
     React.useEffect(() => {
         loadProcessedImages();
+
+        fetch('/api/image-edit/packshot/background-removers')
+            .then(response => (response.ok ? response.json() : null))
+            .then(data => {
+                if (!data) return;
+                setRemovers(data.removers || []);
+                setRemoverId(data.default || '');
+            })
+            .catch(err => console.error('Error loading background removers:', err));
     }, []);
 
+    const isLocalRemover = removerId === 'local';
+
     return (
         <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
             {/* Input Section */}
@@ -330,14 +493,180 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
                                 disabled={isProcessing}
                             />
                         </div>
+
+                        {removeBackground && removers.length > 0 && (
+                            <div className='flex items-center justify-between'>
+                                <Label className='text-white'>Metode</Label>
+                                <Select value={removerId} onValueChange={setRemoverId} disabled={isProcessing}>
+                                    <SelectTrigger className='w-48 bg-white/5 border-white/10 text-white'>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {removers.map(remover => (
+                                            <SelectItem key={remover.id} value={remover.id} disabled={!remover.configured}>
+                                                {remover.label}
+                                                {!remover.configured && ' (ikke konfigureret)'}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
+                        {removeBackground && isLocalRemover && (
+                            <>
+                                <div className='space-y-2'>
+                                    <Label className='text-white'>Tolerance: {tolerance[0]}</Label>
+                                    <Slider
+                                        value={tolerance}
+                                        onValueChange={setTolerance}
+                                        max={80}
+                                        min={4}
+                                        step={1}
+                                        disabled={isProcessing}
+                                        className='w-full'
+                                    />
+                                    <p className='text-xs text-white/60'>
+                                        Hvor meget baggrundens farve må variere. Hæv den ved skygger på baggrunden,
+                                        sænk den hvis lyse dele af produktet forsvinder
+                                    </p>
+                                </div>
+                                <div className='space-y-2'>
+                                    <Label className='text-white'>Blød kant: {feather[0]}px</Label>
+                                    <Slider
+                                        value={feather}
+                                        onValueChange={setFeather}
+                                        max={6}
+                                        min={0}
+                                        step={0.5}
+                                        disabled={isProcessing}
+                                        className='w-full'
+                                    />
+                                </div>
+                            </>
+                        )}
                         
-                        <div className='space-y-2'>
-                            <Label className='text-white'>
-                                Ramme størrelse: {frameSize}x{frameSize}px
-                            </Label>
-                            <p className='text-xs text-white/60'>
-                                Standard størrelse for produktbilleder
-                            </p>
+                        <PackshotProfileManager
+                            profiles={profiles}
+                            selectedIds={selectedProfileIds}
+                            onProfilesChange={all => setCustomProfiles(all.filter(profile => !isBuiltInPackshotProfile(profile.id)))}
+                            onSelectedIdsChange={setSelectedProfileIds}
+                            disabled={isProcessing}
+                        />
+
+                        {/* Grounding effects, applied to every profile */}
+                        <div className='space-y-3'>
+                            <Label className='text-white'>Effekter</Label>
+                            <div className='flex items-center justify-between'>
+                                <Label htmlFor='contact-shadow' className='text-white/80'>
+                                    Kontaktskygge
+                                </Label>
+                                <Switch
+                                    id='contact-shadow'
+                                    checked={contactShadow}
+                                    onCheckedChange={setContactShadow}
+                                    disabled={isProcessing}
+                                />
+                            </div>
+                            {contactShadow && (
+                                <div className='space-y-2'>
+                                    <Label className='text-xs text-white/60'>Styrke: {contactShadowOpacity[0]}%</Label>
+                                    <Slider
+                                        value={contactShadowOpacity}
+                                        onValueChange={setContactShadowOpacity}
+                                        max={100}
+                                        min={5}
+                                        step={5}
+                                        disabled={isProcessing}
+                                        className='w-full'
+                                    />
+                                </div>
+                            )}
+
+                            <div className='flex items-center justify-between'>
+                                <Label className='text-white/80'>Slagskygge</Label>
+                                <Select
+                                    value={dropShadowMode}
+                                    onValueChange={value => setDropShadowMode(value as 'profile' | 'on' | 'off')}
+                                    disabled={isProcessing}>
+                                    <SelectTrigger className='w-40 bg-white/5 border-white/10 text-white'>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value='profile'>Som profilen</SelectItem>
+                                        <SelectItem value='on'>Til</SelectItem>
+                                        <SelectItem value='off'>Fra</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {dropShadowMode === 'on' && (
+                                <>
+                                    <div className='space-y-2'>
+                                        <Label className='text-xs text-white/60'>Vinkel: {dropShadowAngle[0]}°</Label>
+                                        <Slider
+                                            value={dropShadowAngle}
+                                            onValueChange={setDropShadowAngle}
+                                            max={180}
+                                            min={0}
+                                            step={5}
+                                            disabled={isProcessing}
+                                            className='w-full'
+                                        />
+                                    </div>
+                                    <div className='space-y-2'>
+                                        <Label className='text-xs text-white/60'>Styrke: {dropShadowOpacity[0]}%</Label>
+                                        <Slider
+                                            value={dropShadowOpacity}
+                                            onValueChange={setDropShadowOpacity}
+                                            max={100}
+                                            min={5}
+                                            step={5}
+                                            disabled={isProcessing}
+                                            className='w-full'
+                                        />
+                                    </div>
+                                </>
+                            )}
+
+                            <div className='flex items-center justify-between'>
+                                <Label htmlFor='reflection' className='text-white/80'>
+                                    Spejling i gulvet
+                                </Label>
+                                <Switch
+                                    id='reflection'
+                                    checked={reflection}
+                                    onCheckedChange={setReflection}
+                                    disabled={isProcessing}
+                                />
+                            </div>
+                            {reflection && (
+                                <>
+                                    <div className='space-y-2'>
+                                        <Label className='text-xs text-white/60'>Styrke: {reflectionOpacity[0]}%</Label>
+                                        <Slider
+                                            value={reflectionOpacity}
+                                            onValueChange={setReflectionOpacity}
+                                            max={100}
+                                            min={5}
+                                            step={5}
+                                            disabled={isProcessing}
+                                            className='w-full'
+                                        />
+                                    </div>
+                                    <div className='space-y-2'>
+                                        <Label className='text-xs text-white/60'>Længde: {reflectionHeight[0]}%</Label>
+                                        <Slider
+                                            value={reflectionHeight}
+                                            onValueChange={setReflectionHeight}
+                                            max={100}
+                                            min={5}
+                                            step={5}
+                                            disabled={isProcessing}
+                                            className='w-full'
+                                        />
+                                    </div>
+                                </>
+                            )}
                         </div>
                     </div>
 
@@ -348,6 +677,7 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
                             <p className='text-sm text-white/60 text-center'>{progressText}</p>
                         </div>
                     )}
+                    <BatchProgressList files={fileProgress} />
 
                     {/* Error */}
                     {error && (
@@ -356,13 +686,22 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
                                 <AlertCircle className='h-4 w-4' />
                                 <span className='text-sm'>{error}</span>
                             </div>
+                            {failedFiles.length > 0 && (
+                                <ul className='mt-2 space-y-1 text-xs text-red-300'>
+                                    {failedFiles.map((file, index) => (
+                                        <li key={index}>
+                                            <span className='font-medium'>{file.filename}:</span> {file.error}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
                         </div>
                     )}
                 </CardContent>
                 <CardFooter className='flex gap-2'>
                     <Button
                         onClick={handleProcess}
-                        disabled={isProcessing || inputImages.length === 0}
+                        disabled={isProcessing || inputImages.length === 0 || selectedProfiles.length === 0}
                         className='flex-1 bg-white text-black hover:bg-white/90'>
                         {isProcessing ? (
                             <>
@@ -376,6 +715,15 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
                             </>
                         )}
                     </Button>
+                    {isProcessing && (
+                        <Button
+                            onClick={handleCancel}
+                            variant='outline'
+                            className='border-white/20 text-white hover:bg-white/10'>
+                            <Square className='mr-2 h-4 w-4' />
+                            Stop
+                        </Button>
+                    )}
                     <Button
                         onClick={handleClearAll}
                         variant='outline'
@@ -430,6 +778,22 @@ export function PackshotEditor({ clientPasswordHash }: PackshotEditorProps) {
                                         Download valgte ({selectedImages.length})
                                     </Button>
                                 )}
+                                {activeProject && (
+                                    <Button
+                                        onClick={handleSaveToProject}
+                                        disabled={isSavingToProject}
+                                        size='sm'
+                                        variant='outline'
+                                        title={projectMessage ?? `Gem i ${activeProject.name}`}
+                                        className='border-white/20 text-white hover:bg-white/10'>
+                                        {isSavingToProject ? (
+                                            <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                                        ) : (
+                                            <FolderPlus className='mr-2 h-4 w-4' />
+                                        )}
+                                        {projectMessage ?? 'Gem i projekt'}
+                                    </Button>
+                                )}
                             </div>
                         )}
                     </div>
@@ -0,0 +1,415 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+    DEFAULT_DROP_SHADOW,
+    DEFAULT_PACKSHOT_PROFILE,
+    formatPackshotFilename,
+    getPackshotCanvasSize,
+    isBuiltInPackshotProfile,
+    normalizePackshotProfile,
+    PACKSHOT_ASPECT_RATIOS,
+    type PackshotAlignment,
+    type PackshotOutputFormat,
+    type PackshotProfile
+} from '@/lib/packshot-profiles';
+import { Copy, Pencil, Plus, Trash2 } from 'lucide-react';
+import * as React from 'react';
+
+type PackshotProfileManagerProps = {
+    profiles: PackshotProfile[];
+    selectedIds: string[];
+    onProfilesChange: (profiles: PackshotProfile[]) => void;
+    onSelectedIdsChange: (ids: string[]) => void;
+    disabled?: boolean;
+};
+
+const FORMAT_LABELS: Record<PackshotOutputFormat, string> = { png: 'PNG', jpeg: 'JPEG', webp: 'WebP' };
+
+function describeProfile(profile: PackshotProfile): string {
+    const { width, height } = getPackshotCanvasSize(profile);
+    const background = profile.background === 'transparent' ? 'transparent' : profile.background;
+    return `${width}×${height} · ${FORMAT_LABELS[profile.format]} · ${profile.fillPercent}% · ${background}`;
+}
+
+function uniqueProfileId(name: string, profiles: PackshotProfile[]): string {
+    const base =
+        name
+            .toLowerCase()
+            .normalize('NFKD')
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .slice(0, 32) || 'profil';
+    let id = base;
+    for (let n = 2; profiles.some((profile) => profile.id === id); n++) {
+        id = `${base}-${n}`;
+    }
+    return id;
+}
+
+/**
+ * Lists built-in and custom packshot output profiles, lets the user pick which
+ * ones to render and edit their own. Built-in profiles can be copied but not
+ * changed.
+ */
+export function PackshotProfileManager({
+    profiles,
+    selectedIds,
+    onProfilesChange,
+    onSelectedIdsChange,
+    disabled
+}: PackshotProfileManagerProps) {
+    const [draft, setDraft] = React.useState<PackshotProfile | null>(null);
+    const [isNewDraft, setIsNewDraft] = React.useState(false);
+    const [draftError, setDraftError] = React.useState<string | null>(null);
+
+    const toggleSelected = (id: string, checked: boolean) => {
+        onSelectedIdsChange(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id));
+    };
+
+    const startDraft = (source: PackshotProfile, isNew: boolean) => {
+        setDraft(
+            isNew
+                ? { ...source, id: uniqueProfileId(`${source.name} kopi`, profiles), name: `${source.name} (kopi)` }
+                : { ...source }
+        );
+        setIsNewDraft(isNew);
+        setDraftError(null);
+    };
+
+    const handleDelete = (id: string) => {
+        onProfilesChange(profiles.filter((profile) => profile.id !== id));
+        onSelectedIdsChange(selectedIds.filter((selected) => selected !== id));
+        if (draft?.id === id) setDraft(null);
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        try {
+            const profile = normalizePackshotProfile(draft);
+            if (isNewDraft) {
+                onProfilesChange([...profiles, profile]);
+                onSelectedIdsChange([...selectedIds, profile.id]);
+            } else {
+                onProfilesChange(profiles.map((existing) => (existing.id === profile.id ? profile : existing)));
+            }
+            setDraft(null);
+        } catch (err) {
+            setDraftError(err instanceof Error ? err.message : 'Ugyldig profil');
+        }
+    };
+
+    const updateDraft = (changes: Partial<PackshotProfile>) => {
+        setDraft((current) => (current ? { ...current, ...changes } : current));
+    };
+
+    return (
+        <div className='space-y-3'>
+            <div className='flex items-center justify-between'>
+                <Label className='text-white'>Output-profiler</Label>
+                <Button
+                    type='button'
+                    size='sm'
+                    variant='outline'
+                    onClick={() => startDraft(DEFAULT_PACKSHOT_PROFILE, true)}
+                    disabled={disabled}
+                    className='border-white/20 text-white hover:bg-white/10'>
+                    <Plus className='mr-1 h-4 w-4' />
+                    Ny profil
+                </Button>
+            </div>
+
+            <div className='space-y-1 rounded border border-white/10 p-2'>
+                {profiles.map((profile) => {
+                    const builtIn = isBuiltInPackshotProfile(profile.id);
+                    return (
+                        <div key={profile.id} className='flex items-center gap-2'>
+                            <Checkbox
+                                id={`profile-${profile.id}`}
+                                checked={selectedIds.includes(profile.id)}
+                                onCheckedChange={(checked) => toggleSelected(profile.id, checked === true)}
+                                disabled={disabled}
+                                className='border-white/40 data-[state=checked]:bg-white data-[state=checked]:text-black'
+                            />
+                            <label htmlFor={`profile-${profile.id}`} className='min-w-0 flex-1 cursor-pointer'>
+                                <div className='truncate text-sm text-white'>{profile.name}</div>
+                                <div className='truncate text-xs text-white/50'>{describeProfile(profile)}</div>
+                            </label>
+                            <Button
+                                type='button'
+                                size='icon'
+                                variant='ghost'
+                                title='Kopiér'
+                                onClick={() => startDraft(profile, true)}
+                                disabled={disabled}
+                                className='h-7 w-7 text-white/60 hover:bg-white/10 hover:text-white'>
+                                <Copy className='h-3.5 w-3.5' />
+                            </Button>
+                            {!builtIn && (
+                                <>
+                                    <Button
+                                        type='button'
+                                        size='icon'
+                                        variant='ghost'
+                                        title='Redigér'
+                                        onClick={() => startDraft(profile, false)}
+                                        disabled={disabled}
+                                        className='h-7 w-7 text-white/60 hover:bg-white/10 hover:text-white'>
+                                        <Pencil className='h-3.5 w-3.5' />
+                                    </Button>
+                                    <Button
+                                        type='button'
+                                        size='icon'
+                                        variant='ghost'
+                                        title='Slet'
+                                        onClick={() => handleDelete(profile.id)}
+                                        disabled={disabled}
+                                        className='h-7 w-7 text-white/60 hover:bg-white/10 hover:text-red-400'>
+                                        <Trash2 className='h-3.5 w-3.5' />
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            {selectedIds.length === 0 && <p className='text-xs text-amber-400'>Vælg mindst én profil</p>}
+
+            {draft && (
+                <div className='space-y-3 rounded border border-white/10 bg-white/5 p-3'>
+                    <div className='space-y-1'>
+                        <Label htmlFor='profile-name' className='text-white'>
+                            Navn
+                        </Label>
+                        <Input
+                            id='profile-name'
+                            value={draft.name}
+                            onChange={(e) => updateDraft({ name: e.target.value })}
+                            className='border-white/10 bg-white/5 text-white'
+                        />
+                    </div>
+
+                    <div className='grid grid-cols-2 gap-3'>
+                        <div className='space-y-1'>
+                            <Label htmlFor='profile-size' className='text-white'>
+                                Længste side (px)
+                            </Label>
+                            <Input
+                                id='profile-size'
+                                type='number'
+                                min={64}
+                                max={6000}
+                                value={draft.size}
+                                onChange={(e) => updateDraft({ size: parseInt(e.target.value, 10) || 0 })}
+                                className='border-white/10 bg-white/5 text-white'
+                            />
+                        </div>
+                        <div className='space-y-1'>
+                            <Label className='text-white'>Billedformat</Label>
+                            <Select
+                                value={draft.aspectRatio}
+                                onValueChange={(value) => updateDraft({ aspectRatio: value })}>
+                                <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {PACKSHOT_ASPECT_RATIOS.map((ratio) => (
+                                        <SelectItem key={ratio} value={ratio}>
+                                            {ratio}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className='space-y-2'>
+                        <Label className='text-white'>Udfyldning: {draft.fillPercent}%</Label>
+                        <Slider
+                            value={[draft.fillPercent]}
+                            onValueChange={([value]) => updateDraft({ fillPercent: value })}
+                            min={10}
+                            max={100}
+                            step={1}
+                        />
+                    </div>
+
+                    <div className='grid grid-cols-2 gap-3'>
+                        <div className='space-y-1'>
+                            <Label className='text-white'>Placering</Label>
+                            <Select
+                                value={draft.alignment}
+                                onValueChange={(value) => updateDraft({ alignment: value as PackshotAlignment })}>
+                                <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value='center'>Centreret</SelectItem>
+                                    <SelectItem value='bottom'>Bund</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {draft.alignment === 'bottom' && (
+                            <div className='space-y-2'>
+                                <Label className='text-white'>Bundmargen: {draft.bottomMarginPercent}%</Label>
+                                <Slider
+                                    value={[draft.bottomMarginPercent]}
+                                    onValueChange={([value]) => updateDraft({ bottomMarginPercent: value })}
+                                    min={0}
+                                    max={45}
+                                    step={1}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className='flex items-center justify-between gap-3'>
+                        <div className='flex items-center gap-2'>
+                            <Switch
+                                id='profile-transparent'
+                                checked={draft.background === 'transparent'}
+                                onCheckedChange={(checked) =>
+                                    updateDraft({ background: checked ? 'transparent' : '#ffffff' })
+                                }
+                                disabled={draft.format === 'jpeg'}
+                            />
+                            <Label htmlFor='profile-transparent' className='text-white'>
+                                Transparent baggrund
+                            </Label>
+                        </div>
+                        {draft.background !== 'transparent' && (
+                            <Input
+                                type='color'
+                                value={draft.background}
+                                onChange={(e) => updateDraft({ background: e.target.value })}
+                                className='h-8 w-16 border-white/10 bg-white/5 p-1'
+                            />
+                        )}
+                    </div>
+
+                    <div className='flex items-center justify-between'>
+                        <Label htmlFor='profile-shadow' className='text-white'>
+                            Skygge
+                        </Label>
+                        <Switch
+                            id='profile-shadow'
+                            checked={!!draft.dropShadow}
+                            onCheckedChange={(checked) =>
+                                updateDraft({ dropShadow: checked ? DEFAULT_DROP_SHADOW : null })
+                            }
+                        />
+                    </div>
+                    {draft.dropShadow && (
+                        <div className='space-y-2'>
+                            <Label className='text-white'>
+                                Skyggestyrke: {Math.round(draft.dropShadow.opacity * 100)}%
+                            </Label>
+                            <Slider
+                                value={[Math.round(draft.dropShadow.opacity * 100)]}
+                                onValueChange={([value]) =>
+                                    updateDraft({ dropShadow: { ...draft.dropShadow!, opacity: value / 100 } })
+                                }
+                                min={5}
+                                max={100}
+                                step={5}
+                            />
+                            <Label className='text-white'>Skyggevinkel: {draft.dropShadow.angle}°</Label>
+                            <Slider
+                                value={[draft.dropShadow.angle]}
+                                onValueChange={([value]) =>
+                                    updateDraft({ dropShadow: { ...draft.dropShadow!, angle: value } })
+                                }
+                                min={0}
+                                max={180}
+                                step={5}
+                            />
+                        </div>
+                    )}
+
+                    <div className='grid grid-cols-2 gap-3'>
+                        <div className='space-y-1'>
+                            <Label className='text-white'>Filformat</Label>
+                            <Select
+                                value={draft.format}
+                                onValueChange={(value) => {
+                                    const format = value as PackshotOutputFormat;
+                                    updateDraft(
+                                        format === 'jpeg' && draft.background === 'transparent'
+                                            ? { format, background: '#ffffff' }
+                                            : { format }
+                                    );
+                                }}>
+                                <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value='png'>PNG</SelectItem>
+                                    <SelectItem value='jpeg'>JPEG</SelectItem>
+                                    <SelectItem value='webp'>WebP</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {draft.format !== 'png' && (
+                            <div className='space-y-2'>
+                                <Label className='text-white'>Kvalitet: {draft.quality}</Label>
+                                <Slider
+                                    value={[draft.quality]}
+                                    onValueChange={([value]) => updateDraft({ quality: value })}
+                                    min={1}
+                                    max={100}
+                                    step={1}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className='space-y-1'>
+                        <Label htmlFor='profile-pattern' className='text-white'>
+                            Filnavn
+                        </Label>
+                        <Input
+                            id='profile-pattern'
+                            value={draft.filenamePattern}
+                            onChange={(e) => updateDraft({ filenamePattern: e.target.value })}
+                            className='border-white/10 bg-white/5 font-mono text-white'
+                        />
+                        <p className='text-xs text-white/50'>
+                            {'{ean}'}, {'{seq}'}, {'{name}'} og {'{profile}'} · f.eks.{' '}
+                            {formatPackshotFilename(draft, {
+                                ean: '5701234567892',
+                                sequence: '2',
+                                originalName: '5701234567892-2.jpg'
+                            })}
+                        </p>
+                    </div>
+
+                    {draftError && <p className='text-xs text-red-400'>{draftError}</p>}
+
+                    <div className='flex justify-end gap-2'>
+                        <Button
+                            type='button'
+                            size='sm'
+                            variant='ghost'
+                            onClick={() => setDraft(null)}
+                            className='text-white/70 hover:bg-white/10 hover:text-white'>
+                            Annuller
+                        </Button>
+                        <Button
+                            type='button'
+                            size='sm'
+                            onClick={handleSave}
+                            className='bg-white text-black hover:bg-white/90'>
+                            Gem profil
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
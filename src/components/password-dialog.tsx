@@ -10,75 +10,143 @@ import {
     DialogTitle
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import type { PublicUser } from '@/lib/user-store';
+import { Loader2 } from 'lucide-react';
 import * as React from 'react';
 
-interface PasswordDialogProps {
+interface LoginDialogProps {
     isOpen: boolean;
     onOpenChange: (isOpen: boolean) => void;
-    onSave: (password: string) => void;
+    currentUser: PublicUser | null;
+    onLogin: (user: PublicUser) => void;
+    onLogout: () => void;
     title?: string;
     description?: string;
 }
 
-export function PasswordDialog({
+const ROLE_LABELS: Record<PublicUser['role'], string> = {
+    viewer: 'Læser',
+    editor: 'Redaktør',
+    admin: 'Administrator'
+};
+
+export function LoginDialog({
     isOpen,
     onOpenChange,
-    onSave,
-    title = 'Konfigurer kodeord',
+    currentUser,
+    onLogin,
+    onLogout,
+    title = 'Log ind',
     description
-}: PasswordDialogProps) {
-    const [currentPassword, setCurrentPassword] = React.useState('');
-    const inputRef = React.useRef<HTMLInputElement>(null);
+}: LoginDialogProps) {
+    const [username, setUsername] = React.useState('');
+    const [password, setPassword] = React.useState('');
+    const [error, setError] = React.useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+    const resetForm = () => {
+        setPassword('');
+        setError(null);
+    };
+
+    const handleLogin = async () => {
+        setIsSubmitting(true);
+        setError(null);
 
-    const handleSave = () => {
-        inputRef.current?.blur();
-        onSave(currentPassword);
-        setCurrentPassword('');
-        onOpenChange(false);
+        try {
+            const response = await fetch('/api/auth/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username: username.trim(), password })
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(
+                    response.status === 401 ? 'Forkert brugernavn eller kodeord.' : data.error || 'Login fejlede.'
+                );
+            }
+
+            resetForm();
+            onLogin(data.user);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Login fejlede.');
+        } finally {
+            setIsSubmitting(false);
+        }
     };
 
     const handleDialogClose = (open: boolean) => {
         if (!open) {
-            setCurrentPassword('');
+            resetForm();
         }
         onOpenChange(open);
     };
 
+    const canSubmit = !!username.trim() && !!password && !isSubmitting;
+
     return (
         <Dialog open={isOpen} onOpenChange={handleDialogClose}>
             <DialogContent className='border-white/20 bg-black text-white sm:max-w-[425px]'>
                 <DialogHeader>
-                    <DialogTitle className='text-white'>{title}</DialogTitle>
-                    {description && <DialogDescription className='text-white/60'>{description}</DialogDescription>}
+                    <DialogTitle className='text-white'>{currentUser ? 'Konto' : title}</DialogTitle>
+                    {!currentUser && description && (
+                        <DialogDescription className='text-white/60'>{description}</DialogDescription>
+                    )}
                 </DialogHeader>
-                <div className='grid gap-4 py-4'>
-                    <div className='grid grid-cols-1 items-center gap-4'>
-                        <Input
-                            ref={inputRef}
-                            id='password-input'
-                            type='password'
-                            placeholder='Indtast dit kodeord'
-                            value={currentPassword}
-                            onChange={(e) => setCurrentPassword(e.target.value)}
-                            className='col-span-1 border-white/20 bg-black text-white placeholder:text-white/40 focus:border-white/50 focus:ring-white/50'
-                            onKeyDown={(e) => {
-                                if (e.key === 'Enter' && currentPassword.trim()) {
-                                    e.preventDefault();
-                                    handleSave();
-                                }
-                            }}
-                        />
-                    </div>
-                </div>
-                <DialogFooter>
-                    <Button
-                        type='button'
-                        onClick={handleSave}
-                        disabled={!currentPassword.trim()}
-                        className='bg-white px-6 text-black hover:bg-white/90 disabled:bg-white/10 disabled:text-white/40'>
-                        Gem
-                    </Button>
-                </DialogFooter>
+                {currentUser ? (
+                    <>
+                        <p className='py-4 text-sm text-white/80'>
+                            Logget ind som <span className='font-medium text-white'>{currentUser.username}</span> (
+                            {ROLE_LABELS[currentUser.role]})
+                        </p>
+                        <DialogFooter>
+                            <Button
+                                type='button'
+                                variant='outline'
+                                onClick={onLogout}
+                                className='border-white/20 text-white hover:bg-white/10'>
+                                Log ud
+                            </Button>
+                        </DialogFooter>
+                    </>
+                ) : (
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            if (canSubmit) handleLogin();
+                        }}>
+                        <div className='grid gap-4 py-4'>
+                            <Input
+                                id='login-username'
+                                autoComplete='username'
+                                placeholder='Brugernavn'
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                className='border-white/20 bg-black text-white placeholder:text-white/40 focus:border-white/50 focus:ring-white/50'
+                            />
+                            <Input
+                                id='login-password'
+                                type='password'
+                                autoComplete='current-password'
+                                placeholder='Kodeord'
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className='border-white/20 bg-black text-white placeholder:text-white/40 focus:border-white/50 focus:ring-white/50'
+                            />
+                            {error && <p className='text-sm text-red-400'>{error}</p>}
+                        </div>
+                        <DialogFooter>
+                            <Button
+                                type='submit'
+                                disabled={!canSubmit}
+                                className='bg-white px-6 text-black hover:bg-white/90 disabled:bg-white/10 disabled:text-white/40'>
+                                {isSubmitting && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+                                Log ind
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                )}
             </DialogContent>
         </Dialog>
     );
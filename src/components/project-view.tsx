@@ -0,0 +1,465 @@
+'use client';
+
+import { PromptTagSelector } from '@/components/prompt-tag-selector';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useProject } from '@/contexts/project-context';
+import { db } from '@/lib/db';
+import {
+    BUILT_IN_PACKSHOT_PROFILES,
+    CUSTOM_PACKSHOT_PROFILES_KEY,
+    isBuiltInPackshotProfile
+} from '@/lib/packshot-profiles';
+import { exportProjectAsZip } from '@/lib/project-export';
+import {
+    PROJECT_ITEM_KIND_LABELS,
+    type Project,
+    type ProjectDefaults,
+    type ProjectItem,
+    type ProjectItemKind
+} from '@/lib/projects';
+import { PROMPT_TEMPLATES } from '@/lib/prompt-templates';
+import { cn } from '@/lib/utils';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Download, FileText, FolderOpen, Loader2, Plus, Trash2, Video, X } from 'lucide-react';
+import Image from 'next/image';
+import * as React from 'react';
+
+// Select value for "no default"
+const NONE = 'none';
+
+const ITEM_KIND_ORDER: ProjectItemKind[] = ['image', 'processed', 'video', 'style-analysis'];
+
+// Built-in profiles plus the ones made in the packshot tool
+function loadPackshotProfileOptions(): Array<{ id: string; name: string }> {
+    let custom: Array<{ id: string; name: string }> = [];
+    try {
+        const stored = JSON.parse(localStorage.getItem(CUSTOM_PACKSHOT_PROFILES_KEY) || '[]');
+        if (Array.isArray(stored)) {
+            custom = stored
+                .filter((profile) => typeof profile?.id === 'string' && !isBuiltInPackshotProfile(profile.id))
+                .map((profile) => ({ id: profile.id, name: profile.name || profile.id }));
+        }
+    } catch (e) {
+        console.error('Failed to load packshot profiles from localStorage:', e);
+    }
+    return [...BUILT_IN_PACKSHOT_PROFILES.map(({ id, name }) => ({ id, name })), ...custom];
+}
+
+// Object URL for contents kept in IndexedDB, or a server URL, for previews
+function useItemPreviewUrl(item: ProjectItem): string | undefined {
+    const [objectUrl, setObjectUrl] = React.useState<string>();
+    const serverUrl =
+        item.kind === 'image' && !item.hash && item.storageModeUsed !== 'indexeddb'
+            ? `/api/image/${item.filename}`
+            : undefined;
+
+    React.useEffect(() => {
+        if (serverUrl || item.kind === 'style-analysis') return;
+
+        let cancelled = false;
+        let url: string | undefined;
+        const load = async () => {
+            let blob: Blob | undefined;
+            if (item.hash) {
+                blob = await db.getBlob(item.hash);
+            } else if (item.kind === 'image') {
+                blob = await db.getImageBlob(item.filename);
+            } else if (item.kind === 'video') {
+                blob = (await db.videos.get(item.videoId))?.blob;
+            }
+            if (blob && !cancelled) {
+                url = URL.createObjectURL(blob);
+                setObjectUrl(url);
+            }
+        };
+        load().catch(console.error);
+
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [item, serverUrl]);
+
+    if (serverUrl) return serverUrl;
+    if (item.kind === 'video') return objectUrl ?? item.videoUrl;
+    return objectUrl;
+}
+
+function ProjectItemCard({ item, onRemove }: { item: ProjectItem; onRemove: () => void }) {
+    const previewUrl = useItemPreviewUrl(item);
+
+    return (
+        <div className='group relative overflow-hidden rounded-md border border-white/10 bg-neutral-900/60'>
+            <div className='flex aspect-square items-center justify-center bg-black/50'>
+                {item.kind === 'style-analysis' ? (
+                    <div className='h-full w-full overflow-hidden p-2 text-xs text-white/70'>
+                        <FileText className='mb-1 h-4 w-4 text-white/40' />
+                        {item.analysis.promptSuggestion || item.analysis.overallStyle.description}
+                    </div>
+                ) : item.kind === 'video' ? (
+                    previewUrl ? (
+                        <video src={previewUrl} className='h-full w-full object-cover' muted playsInline />
+                    ) : (
+                        <Video className='h-8 w-8 text-white/20' />
+                    )
+                ) : previewUrl ? (
+                    <Image
+                        src={previewUrl}
+                        alt={item.name}
+                        width={160}
+                        height={160}
+                        className='h-full w-full object-contain'
+                        unoptimized
+                    />
+                ) : (
+                    <span className='text-xs text-white/40'>Ikke tilgængelig</span>
+                )}
+            </div>
+            <div className='space-y-0.5 p-2 text-xs'>
+                <p className='truncate text-white/80' title={item.name}>
+                    {item.name}
+                </p>
+                <p className='text-white/40'>
+                    {item.kind === 'processed' ? (item.tool === 'packshot' ? 'Packshot' : 'Stemning') + ' · ' : ''}
+                    {new Date(item.addedAt).toLocaleDateString()}
+                </p>
+            </div>
+            <Button
+                variant='ghost'
+                size='sm'
+                onClick={onRemove}
+                className='absolute top-1 right-1 h-6 w-6 bg-black/70 p-0 text-white/70 opacity-0 transition-opacity group-hover:opacity-100 hover:bg-red-600/80 hover:text-white'
+                aria-label='Fjern fra projekt'>
+                <X className='h-3 w-3' />
+            </Button>
+        </div>
+    );
+}
+
+function ProjectDefaultsEditor({ project }: { project: Project }) {
+    const [profileOptions, setProfileOptions] = React.useState<Array<{ id: string; name: string }>>([]);
+
+    React.useEffect(() => {
+        setProfileOptions(loadPackshotProfileOptions());
+    }, []);
+
+    const updateDefaults = (changes: Partial<ProjectDefaults>) =>
+        db.updateProject(project.id, { defaults: { ...project.defaults, ...changes } });
+
+    const selectedProfileIds = project.defaults.packshotProfileIds ?? [];
+    const toggleProfile = (id: string, checked: boolean) =>
+        updateDefaults({
+            packshotProfileIds: checked
+                ? [...selectedProfileIds, id]
+                : selectedProfileIds.filter((profileId) => profileId !== id)
+        });
+
+    return (
+        <div className='space-y-4'>
+            <div className='space-y-2'>
+                <Label className='text-white'>Standardskabelon</Label>
+                <Select
+                    value={project.defaults.templateId ?? NONE}
+                    onValueChange={(value) => updateDefaults({ templateId: value === NONE ? undefined : value })}>
+                    <SelectTrigger className='border-white/10 bg-white/5 text-white'>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={NONE}>Ingen skabelon</SelectItem>
+                        {PROMPT_TEMPLATES.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                                {template.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className='space-y-2'>
+                <Label className='text-white'>Packshot outputprofiler</Label>
+                <div className='grid grid-cols-1 gap-2 sm:grid-cols-2'>
+                    {profileOptions.map((profile) => (
+                        <label key={profile.id} className='flex items-center gap-2 text-sm text-white/80'>
+                            <Checkbox
+                                checked={selectedProfileIds.includes(profile.id)}
+                                onCheckedChange={(checked) => toggleProfile(profile.id, !!checked)}
+                            />
+                            {profile.name}
+                        </label>
+                    ))}
+                </div>
+                <p className='text-xs text-white/40'>Ingen valgt: packshot-værktøjet beholder sit eget valg.</p>
+            </div>
+
+            <PromptTagSelector
+                selectedTags={project.defaults.tags ?? []}
+                onTagsChange={(tags) => updateDefaults({ tags })}
+            />
+        </div>
+    );
+}
+
+/** Create, switch between and export projects, and edit the active one */
+export function ProjectView() {
+    const { projects, activeProject, setActiveProjectId } = useProject();
+    const [newName, setNewName] = React.useState('');
+    const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
+    const [isExporting, setIsExporting] = React.useState(false);
+    const [exportMessage, setExportMessage] = React.useState<string | null>(null);
+
+    const activeProjectId = activeProject?.id;
+    const items = useLiveQuery(() => (activeProjectId ? db.getProjectItems(activeProjectId) : []), [activeProjectId]);
+    const itemCounts = useLiveQuery(async () => {
+        const counts = new Map<string, number>();
+        await db.projectItems.each((item) => counts.set(item.projectId, (counts.get(item.projectId) ?? 0) + 1));
+        return counts;
+    }, []);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newName.trim();
+        if (!name) return;
+        const project = await db.createProject(name);
+        setActiveProjectId(project.id);
+        setNewName('');
+    };
+
+    const handleDelete = async () => {
+        if (!activeProject) return;
+        await db.deleteProject(activeProject.id);
+        setActiveProjectId(null);
+        setIsDeleteDialogOpen(false);
+    };
+
+    const handleExport = async () => {
+        if (!activeProject || !items) return;
+        setIsExporting(true);
+        setExportMessage(null);
+        try {
+            const { missing } = await exportProjectAsZip(activeProject, items);
+            if (missing.length > 0) {
+                setExportMessage(`${missing.length} element(er) kunne ikke findes og er kun med i manifestet`);
+            }
+        } catch (err) {
+            console.error('Error exporting project:', err);
+            setExportMessage('Eksport fejlede');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className='grid grid-cols-1 gap-6 lg:grid-cols-3'>
+            <Card className='border-white/10 bg-black'>
+                <CardHeader>
+                    <CardTitle className='text-white'>Projekter</CardTitle>
+                    <CardDescription className='text-white/60'>
+                        Saml billeder, videoer, stilanalyser og behandlede billeder til en kampagne eller lancering
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className='space-y-4'>
+                    <form onSubmit={handleCreate} className='flex gap-2'>
+                        <Input
+                            placeholder='Nyt projekt...'
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            className='border-white/10 bg-white/5 text-white'
+                        />
+                        <Button
+                            type='submit'
+                            disabled={!newName.trim()}
+                            className='bg-white text-black hover:bg-white/90'>
+                            <Plus className='h-4 w-4' />
+                        </Button>
+                    </form>
+
+                    {projects.length === 0 ? (
+                        <p className='text-sm text-white/40'>Ingen projekter endnu.</p>
+                    ) : (
+                        <ul className='space-y-1'>
+                            {projects.map((project) => (
+                                <li key={project.id}>
+                                    <button
+                                        type='button'
+                                        onClick={() => setActiveProjectId(project.id)}
+                                        className={cn(
+                                            'flex w-full items-center justify-between rounded-md border px-3 py-2 text-left text-sm',
+                                            project.id === activeProjectId
+                                                ? 'border-white/50 bg-white/10 text-white'
+                                                : 'border-white/10 text-white/70 hover:bg-white/5'
+                                        )}>
+                                        <span className='truncate'>{project.name}</span>
+                                        <span className='ml-2 shrink-0 text-xs text-white/40'>
+                                            {itemCounts?.get(project.id) ?? 0}
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </CardContent>
+            </Card>
+
+            {activeProject ? (
+                <div className='space-y-6 lg:col-span-2'>
+                    <Card className='border-white/10 bg-black'>
+                        <CardHeader className='flex flex-row items-start justify-between gap-4'>
+                            <div className='min-w-0 flex-1 space-y-2'>
+                                <Input
+                                    key={`name-${activeProject.id}`}
+                                    defaultValue={activeProject.name}
+                                    onBlur={(e) => {
+                                        const name = e.target.value.trim();
+                                        if (name && name !== activeProject.name) {
+                                            db.updateProject(activeProject.id, { name });
+                                        }
+                                    }}
+                                    aria-label='Projektnavn'
+                                    className='border-white/10 bg-white/5 text-lg font-medium text-white'
+                                />
+                                <Textarea
+                                    key={`description-${activeProject.id}`}
+                                    defaultValue={activeProject.description ?? ''}
+                                    onBlur={(e) => {
+                                        if (e.target.value !== (activeProject.description ?? '')) {
+                                            db.updateProject(activeProject.id, { description: e.target.value });
+                                        }
+                                    }}
+                                    placeholder='Beskrivelse'
+                                    rows={2}
+                                    className='border-white/10 bg-white/5 text-sm text-white'
+                                />
+                            </div>
+                            <div className='flex shrink-0 flex-col gap-2'>
+                                <Button
+                                    onClick={handleExport}
+                                    disabled={isExporting || !items?.length}
+                                    size='sm'
+                                    variant='outline'
+                                    className='border-white/20 text-white hover:bg-white/10'>
+                                    {isExporting ? (
+                                        <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                                    ) : (
+                                        <Download className='mr-2 h-4 w-4' />
+                                    )}
+                                    Eksportér ZIP
+                                </Button>
+                                <Button
+                                    onClick={() => setActiveProjectId(null)}
+                                    size='sm'
+                                    variant='outline'
+                                    className='border-white/20 text-white hover:bg-white/10'>
+                                    Luk projekt
+                                </Button>
+                                <Button
+                                    onClick={() => setIsDeleteDialogOpen(true)}
+                                    size='sm'
+                                    className='bg-red-700/60 text-white hover:bg-red-600/60'>
+                                    <Trash2 className='mr-2 h-4 w-4' />
+                                    Slet
+                                </Button>
+                            </div>
+                        </CardHeader>
+                        <CardContent className='space-y-4'>
+                            {exportMessage && <p className='text-sm text-amber-300'>{exportMessage}</p>}
+                            {!items?.length ? (
+                                <p className='text-sm text-white/60'>
+                                    Projektet er tomt. Tilføj billeder fra historikken, videoer, stilanalyser og
+                                    behandlede packshots mens projektet er aktivt.
+                                </p>
+                            ) : (
+                                ITEM_KIND_ORDER.map((kind) => {
+                                    const kindItems = items.filter((item) => item.kind === kind);
+                                    if (kindItems.length === 0) return null;
+                                    return (
+                                        <div key={kind} className='space-y-2'>
+                                            <h3 className='text-sm font-medium text-white'>
+                                                {PROJECT_ITEM_KIND_LABELS[kind]} ({kindItems.length})
+                                            </h3>
+                                            <div className='grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4'>
+                                                {kindItems.map((item) => (
+                                                    <ProjectItemCard
+                                                        key={item.id}
+                                                        item={item}
+                                                        onRemove={() => db.removeProjectItem(item.id)}
+                                                    />
+                                                ))}
+                                            </div>
+                                        </div>
+                                    );
+                                })
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card className='border-white/10 bg-black'>
+                        <CardHeader>
+                            <CardTitle className='text-white'>Standarder</CardTitle>
+                            <CardDescription className='text-white/60'>
+                                Udfyldes automatisk i formularerne mens projektet er aktivt
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <ProjectDefaultsEditor project={activeProject} />
+                        </CardContent>
+                    </Card>
+                </div>
+            ) : (
+                <Card className='border-white/10 bg-black lg:col-span-2'>
+                    <CardContent className='flex flex-col items-center justify-center py-12 text-center'>
+                        <FolderOpen className='mb-4 h-12 w-12 text-white/20' />
+                        <p className='text-white/60'>
+                            Vælg eller opret et projekt for at arbejde i det.
+                            <br />
+                            Nye billeder, videoer og behandlede billeder kan så tilføjes til projektet.
+                        </p>
+                    </CardContent>
+                </Card>
+            )}
+
+            <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+                <DialogContent className='border-neutral-700 bg-neutral-900 text-white sm:max-w-md'>
+                    <DialogHeader>
+                        <DialogTitle className='text-white'>Slet projekt</DialogTitle>
+                        <DialogDescription className='pt-2 text-neutral-300'>
+                            Projektet og dets kopier af behandlede billeder slettes. Billeder og videoer i historikken
+                            beholdes.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter className='gap-2 sm:justify-end'>
+                        <Button
+                            type='button'
+                            variant='outline'
+                            size='sm'
+                            onClick={() => setIsDeleteDialogOpen(false)}
+                            className='border-neutral-600 text-neutral-300 hover:bg-neutral-700 hover:text-white'>
+                            Annuller
+                        </Button>
+                        <Button
+                            type='button'
+                            variant='destructive'
+                            size='sm'
+                            onClick={handleDelete}
+                            className='bg-red-600 text-white hover:bg-red-500'>
+                            Slet
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
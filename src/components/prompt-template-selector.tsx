@@ -9,6 +9,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
+import { useProject } from '@/contexts/project-context';
 import { usePromptRefinement } from '@/hooks/usePromptRefinement';
 import { formatTagsForPrompt } from '@/lib/prompt-tags';
 import {
@@ -40,9 +41,16 @@ import {
 } from 'lucide-react';
 import * as React from 'react';
 
+/** Where the prompt came from, recorded on the history entry */
+export interface PromptTemplateSelection {
+    templateId: string | null;
+    tags: string[];
+}
+
 interface PromptTemplateSelectorProps {
     value: string;
     onChange: (value: string) => void;
+    onSelectionChange?: (selection: PromptTemplateSelection) => void;
     className?: string;
     imageFiles?: File[];
 }
@@ -55,7 +63,13 @@ const CATEGORY_ICONS = {
     Sparkles
 };
 
-export function PromptTemplateSelector({ value, onChange, className, imageFiles }: PromptTemplateSelectorProps) {
+export function PromptTemplateSelector({
+    value,
+    onChange,
+    onSelectionChange,
+    className,
+    imageFiles
+}: PromptTemplateSelectorProps) {
     const [selectedTemplate, setSelectedTemplate] = React.useState<PromptTemplate | null>(null);
     const [templateVariables, setTemplateVariables] = React.useState<Record<string, string>>({});
     const [searchQuery, setSearchQuery] = React.useState('');
@@ -64,10 +78,35 @@ export function PromptTemplateSelector({ value, onChange, className, imageFiles
     const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
     const [customPromptText, setCustomPromptText] = React.useState('');
     const [transferredTemplate, setTransferredTemplate] = React.useState<string | null>(null);
+    // The template the prompt started from; kept when it is copied into a custom prompt
+    const [sourceTemplateId, setSourceTemplateId] = React.useState<string | null>(null);
 
     // Prompt refinement hook
     const { refinePrompt, isRefining, error: refinementError } = usePromptRefinement();
 
+    // Working inside a project starts from its template and tags. Serialized so the
+    // defaults are only reapplied when they change, not on every project update.
+    const { activeProject } = useProject();
+    const projectDefaults = activeProject
+        ? JSON.stringify({ templateId: activeProject.defaults.templateId, tags: activeProject.defaults.tags })
+        : null;
+    React.useEffect(() => {
+        if (!projectDefaults) return;
+        const { templateId, tags } = JSON.parse(projectDefaults) as { templateId?: string; tags?: string[] };
+        const template = PROMPT_TEMPLATES.find((candidate) => candidate.id === templateId);
+
+        if (tags?.length) {
+            setSelectedTags(tags);
+        }
+        if (template) {
+            setSelectedTemplate(template);
+            setSourceTemplateId(template.id);
+            setActiveTab('browse');
+        } else if (tags?.length) {
+            setActiveTab('custom');
+        }
+    }, [projectDefaults]);
+
     // Initialize template variables when template changes
     React.useEffect(() => {
         if (selectedTemplate) {
@@ -92,6 +131,10 @@ export function PromptTemplateSelector({ value, onChange, className, imageFiles
         }
     }, [selectedTemplate, templateVariables, activeTab, customPromptText, selectedTags, onChange]);
 
+    React.useEffect(() => {
+        onSelectionChange?.({ templateId: sourceTemplateId, tags: activeTab === 'custom' ? selectedTags : [] });
+    }, [sourceTemplateId, selectedTags, activeTab, onSelectionChange]);
+
     // Initialize custom prompt text from value when switching to custom tab
     React.useEffect(() => {
         if (activeTab === 'custom' && !customPromptText && value && !selectedTemplate) {
@@ -109,6 +152,7 @@ export function PromptTemplateSelector({ value, onChange, className, imageFiles
 
     const handleTemplateSelect = (template: PromptTemplate) => {
         setSelectedTemplate(template);
+        setSourceTemplateId(template.id);
     };
 
     const handleVariableChange = (variableName: string, variableValue: string) => {
@@ -120,6 +164,7 @@ export function PromptTemplateSelector({ value, onChange, className, imageFiles
 
     const handleClearTemplate = () => {
         setSelectedTemplate(null);
+        setSourceTemplateId(null);
         setTemplateVariables({});
         onChange('');
     };
@@ -135,6 +180,7 @@ export function PromptTemplateSelector({ value, onChange, className, imageFiles
     const handleClearCustom = () => {
         setCustomPromptText('');
         setSelectedTags([]);
+        setSourceTemplateId(null);
         onChange('');
     };
 
@@ -162,6 +208,7 @@ export function PromptTemplateSelector({ value, onChange, className, imageFiles
 
         const processedPrompt = processTemplate(template, defaultVariables);
         setCustomPromptText(processedPrompt);
+        setSourceTemplateId(template.id);
         setActiveTab('custom');
 
         // Show feedback
@@ -0,0 +1,447 @@
+'use client';
+
+import { MultiImageDropZone } from '@/components/multi-image-drop-zone';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useCSRF } from '@/hooks/use-csrf';
+import { apiManager } from '@/lib/api-manager';
+import { formatBytes } from '@/lib/download-manager';
+import {
+    DEFAULT_RENDITION_SET,
+    formatRenditionName,
+    parseRenditionSet,
+    RenditionError,
+    RENDITION_FORMATS,
+    type RenditionFile,
+    type RenditionFormat
+} from '@/lib/renditions';
+import { appendUploadedFile } from '@/lib/upload-protocol';
+import { AlertCircle, Download, Layers, Loader2, Trash2 } from 'lucide-react';
+import * as React from 'react';
+
+interface RenderedImage {
+    source: string;
+    name: string;
+    width: number;
+    height: number;
+    renditions: Array<RenditionFile & { path: string }>;
+    srcset: Partial<Record<RenditionFormat, string>>;
+}
+
+const FORMAT_LABELS: Record<RenditionFormat, string> = {
+    webp: 'WebP',
+    jpg: 'JPG',
+    avif: 'AVIF',
+    png: 'PNG'
+};
+
+/**
+ * Base names for a batch with duplicates numbered (shoe, shoe-2), so the
+ * renditions of two files with the same name don't overwrite each other in the ZIP
+ */
+function getUniqueNames(files: File[]): string[] {
+    const used = new Map<string, number>();
+    return files.map((file) => {
+        const base = file.name.replace(/\.[^/.]+$/, '');
+        const count = (used.get(base) ?? 0) + 1;
+        used.set(base, count);
+        return count === 1 ? base : `${base}-${count}`;
+    });
+}
+
+export function RenditionExporter() {
+    const { addCSRFToken } = useCSRF();
+    const [inputFiles, setInputFiles] = React.useState<File[]>([]);
+    const [renderedImages, setRenderedImages] = React.useState<RenderedImage[]>([]);
+    const [isRendering, setIsRendering] = React.useState(false);
+    const [progress, setProgress] = React.useState(0);
+    const [progressText, setProgressText] = React.useState('');
+    const [error, setError] = React.useState<string | null>(null);
+
+    // Settings
+    const [widths, setWidths] = React.useState(DEFAULT_RENDITION_SET.widths.join(', '));
+    const [formats, setFormats] = React.useState<RenditionFormat[]>(DEFAULT_RENDITION_SET.formats);
+    const [quality, setQuality] = React.useState([DEFAULT_RENDITION_SET.quality]);
+    const [namePattern, setNamePattern] = React.useState(DEFAULT_RENDITION_SET.namePattern);
+
+    const renditionCount = renderedImages.reduce((count, image) => count + image.renditions.length, 0);
+
+    const getRenditionSet = () =>
+        parseRenditionSet({
+            widths: widths
+                .split(/[\s,;]+/)
+                .filter(Boolean)
+                .map(Number),
+            formats,
+            quality: quality[0],
+            namePattern
+        });
+
+    // Filename of the first rendition, as a hint while the pattern is edited
+    const namePreview = (() => {
+        try {
+            const set = getRenditionSet();
+            return formatRenditionName(set.namePattern, {
+                name: inputFiles[0]?.name.replace(/\.[^/.]+$/, '') ?? 'produkt',
+                width: set.widths[0],
+                height: Math.round(set.widths[0] * 0.75),
+                format: set.formats[0]
+            });
+        } catch {
+            return null;
+        }
+    })();
+
+    const handleFilesAdded = (files: File[]) => {
+        setInputFiles(files);
+        setError(null);
+    };
+
+    const handleRender = async () => {
+        if (inputFiles.length === 0) {
+            setError('Vælg mindst ét billede');
+            return;
+        }
+
+        let renditionSet;
+        try {
+            renditionSet = getRenditionSet();
+        } catch (err) {
+            setError(err instanceof RenditionError ? err.message : 'Ugyldige indstillinger');
+            return;
+        }
+
+        setIsRendering(true);
+        setProgress(0);
+        setError(null);
+        setRenderedImages([]);
+
+        const names = getUniqueNames(inputFiles);
+        const results: RenderedImage[] = [];
+        const failures: string[] = [];
+
+        try {
+            const totalFiles = inputFiles.length;
+            for (let i = 0; i < totalFiles; i++) {
+                const file = inputFiles[i];
+                setProgressText(`Uploader ${i + 1} af ${totalFiles}...`);
+
+                // Upload counts for the first half of this file's share of the bar
+                const uploaded = await apiManager.uploadFile(file, {
+                    addCSRFToken,
+                    onProgress: ({ percent }) => setProgress(Math.round(((i + percent / 200) / totalFiles) * 100))
+                });
+                setProgressText(`Genererer renditions ${i + 1} af ${totalFiles}...`);
+
+                const formData = new FormData();
+                appendUploadedFile(formData, 'file', uploaded);
+                formData.append('renditionSet', JSON.stringify(renditionSet));
+                formData.append('name', names[i]);
+
+                const response = await fetch(
+                    '/api/konverter/renditions/render',
+                    addCSRFToken({ method: 'POST', body: formData })
+                );
+                const result = await response.json();
+
+                if (!response.ok) {
+                    console.error(`Failed to render ${file.name}:`, result.error);
+                    failures.push(`${file.name}: ${result.error || 'Renditions fejlede'}`);
+                } else {
+                    results.push(result);
+                    setRenderedImages([...results]);
+                }
+                setProgress(Math.round(((i + 1) / totalFiles) * 100));
+            }
+
+            setProgressText('Renditions færdige!');
+            if (failures.length > 0) {
+                setError(failures.join('\n'));
+            }
+        } catch (err) {
+            console.error('Error rendering renditions:', err);
+            setError(err instanceof Error ? err.message : 'Ukendt fejl opstod');
+        } finally {
+            setIsRendering(false);
+            setTimeout(() => {
+                setProgress(0);
+                setProgressText('');
+            }, 2000);
+        }
+    };
+
+    const handleDownloadZip = async () => {
+        try {
+            const response = await fetch(
+                '/api/konverter/renditions/download-all',
+                addCSRFToken({
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        files: renderedImages.flatMap((image) => image.renditions.map((rendition) => rendition.path))
+                    })
+                })
+            );
+
+            if (!response.ok) {
+                throw new Error('Download fejlede');
+            }
+
+            const blob = await response.blob();
+            const url = window.URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `renditions-${Date.now()}.zip`;
+            document.body.appendChild(a);
+            a.click();
+            window.URL.revokeObjectURL(url);
+            document.body.removeChild(a);
+        } catch (err) {
+            console.error('Error downloading renditions:', err);
+            setError('Download fejlede');
+        }
+    };
+
+    const handleClearAll = async () => {
+        try {
+            const response = await fetch('/api/konverter/renditions/clear-all', addCSRFToken({ method: 'POST' }));
+
+            if (!response.ok) {
+                throw new Error('Kunne ikke rydde filer');
+            }
+
+            setInputFiles([]);
+            setRenderedImages([]);
+            setError(null);
+        } catch (err) {
+            console.error('Error clearing renditions:', err);
+            setError('Kunne ikke rydde filer');
+        }
+    };
+
+    return (
+        <div className='grid grid-cols-1 gap-6 lg:grid-cols-2'>
+            {/* Input Section */}
+            <Card className='border-white/10 bg-black/50'>
+                <CardHeader>
+                    <CardTitle className='flex items-center gap-2 text-white'>
+                        <Layers className='h-5 w-5' />
+                        Renditions
+                    </CardTitle>
+                    <CardDescription className='text-white/60'>
+                        Eksportér hvert billede i flere bredder og formater til responsive billeder (srcset)
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className='space-y-4'>
+                    <MultiImageDropZone
+                        onFilesAdded={handleFilesAdded}
+                        maxImages={50}
+                        disabled={isRendering}
+                        className='min-h-[200px]'
+                    />
+
+                    {/* Settings */}
+                    <div className='space-y-4 border-t border-white/10 pt-4'>
+                        <div className='space-y-2'>
+                            <Label htmlFor='rendition-widths' className='text-white'>
+                                Bredder (px)
+                            </Label>
+                            <Input
+                                id='rendition-widths'
+                                value={widths}
+                                onChange={(e) => setWidths(e.target.value)}
+                                disabled={isRendering}
+                                placeholder='400, 800, 1200, 2000'
+                                className='border-white/10 bg-white/5 text-white'
+                            />
+                            <p className='text-xs text-white/60'>
+                                Bredder over billedets egen bredde springes over, så intet skaleres op.
+                            </p>
+                        </div>
+
+                        <div className='space-y-2'>
+                            <Label className='text-white'>Formater</Label>
+                            <ToggleGroup
+                                type='multiple'
+                                variant='outline'
+                                size='sm'
+                                value={formats}
+                                onValueChange={(value) => setFormats(value as RenditionFormat[])}
+                                disabled={isRendering}
+                                className='justify-start'>
+                                {RENDITION_FORMATS.map((format) => (
+                                    <ToggleGroupItem
+                                        key={format}
+                                        value={format}
+                                        className='border-white/20 px-3 text-white/80 hover:bg-white/10 hover:text-white data-[state=on]:bg-white/20 data-[state=on]:text-white'>
+                                        {FORMAT_LABELS[format]}
+                                    </ToggleGroupItem>
+                                ))}
+                            </ToggleGroup>
+                        </div>
+
+                        <div className='space-y-2'>
+                            <Label className='text-white'>Kvalitet: {quality[0]}%</Label>
+                            <Slider
+                                value={quality}
+                                onValueChange={setQuality}
+                                max={100}
+                                min={1}
+                                step={1}
+                                disabled={isRendering}
+                                className='w-full'
+                            />
+                        </div>
+
+                        <div className='space-y-2'>
+                            <Label htmlFor='rendition-pattern' className='text-white'>
+                                Navnemønster
+                            </Label>
+                            <Input
+                                id='rendition-pattern'
+                                value={namePattern}
+                                onChange={(e) => setNamePattern(e.target.value)}
+                                disabled={isRendering}
+                                className='border-white/10 bg-white/5 font-mono text-white'
+                            />
+                            <p className='text-xs text-white/60'>
+                                {'{name}'} filnavn, {'{w}'} bredde, {'{h}'} højde, {'{ext}'} filtype
+                                {namePreview && (
+                                    <>
+                                        {' '}
+                                        – f.eks. <span className='font-mono text-white/80'>{namePreview}</span>
+                                    </>
+                                )}
+                            </p>
+                        </div>
+                    </div>
+
+                    {/* Progress */}
+                    {isRendering && (
+                        <div className='space-y-2'>
+                            <Progress value={progress} className='h-2' />
+                            <p className='text-center text-sm text-white/60'>{progressText}</p>
+                        </div>
+                    )}
+
+                    {/* Error */}
+                    {error && (
+                        <Alert variant='destructive' className='border-red-500/20 bg-red-500/10'>
+                            <AlertCircle className='h-4 w-4' />
+                            <AlertDescription className='whitespace-pre-line'>{error}</AlertDescription>
+                        </Alert>
+                    )}
+                </CardContent>
+                <CardFooter className='flex gap-2'>
+                    <Button
+                        onClick={handleRender}
+                        disabled={isRendering || inputFiles.length === 0 || formats.length === 0}
+                        className='flex-1 bg-white text-black hover:bg-white/90'>
+                        {isRendering ? (
+                            <>
+                                <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                                Genererer...
+                            </>
+                        ) : (
+                            <>
+                                <Layers className='mr-2 h-4 w-4' />
+                                Generér renditions
+                            </>
+                        )}
+                    </Button>
+                    <Button
+                        onClick={handleClearAll}
+                        variant='outline'
+                        disabled={isRendering}
+                        className='border-white/20 text-white hover:bg-white/10'>
+                        <Trash2 className='h-4 w-4' />
+                    </Button>
+                </CardFooter>
+            </Card>
+
+            {/* Output Section */}
+            <Card className='border-white/10 bg-black/50'>
+                <CardHeader>
+                    <div className='flex items-center justify-between'>
+                        <div>
+                            <CardTitle className='text-white'>Genererede filer</CardTitle>
+                            <CardDescription className='text-white/60'>
+                                {renditionCount > 0
+                                    ? `${renditionCount} filer fra ${renderedImages.length} billeder`
+                                    : 'ZIP med alle filer og manifest.json med srcset'}
+                            </CardDescription>
+                        </div>
+                        {renditionCount > 0 && (
+                            <Button
+                                onClick={handleDownloadZip}
+                                size='sm'
+                                variant='outline'
+                                disabled={isRendering}
+                                className='border-white/20 text-white hover:bg-white/10'>
+                                <Download className='mr-2 h-4 w-4' />
+                                Download ZIP
+                            </Button>
+                        )}
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {renderedImages.length === 0 ? (
+                        <div className='flex flex-col items-center justify-center py-12 text-center'>
+                            <Layers className='mb-4 h-12 w-12 text-white/20' />
+                            <p className='text-white/60'>
+                                Ingen renditions endnu.
+                                <br />
+                                Vælg billeder og et rendition-sæt for at starte.
+                            </p>
+                        </div>
+                    ) : (
+                        <ScrollArea className='h-[600px] pr-3'>
+                            <div className='space-y-4'>
+                                {renderedImages.map((image) => (
+                                    <div key={image.name} className='space-y-2 rounded-lg border border-white/10 p-3'>
+                                        <div className='flex items-baseline justify-between gap-2'>
+                                            <p className='truncate text-sm font-medium text-white'>{image.source}</p>
+                                            <p className='shrink-0 text-xs text-white/50'>
+                                                {image.width}×{image.height}
+                                            </p>
+                                        </div>
+                                        <div className='space-y-1'>
+                                            {image.renditions.map((rendition) => (
+                                                <div
+                                                    key={rendition.path}
+                                                    className='flex items-center justify-between gap-2 text-xs'>
+                                                    <a
+                                                        href={rendition.path}
+                                                        download={rendition.filename}
+                                                        className='truncate font-mono text-white/80 hover:text-white hover:underline'>
+                                                        {rendition.filename}
+                                                    </a>
+                                                    <span className='shrink-0 text-white/50'>
+                                                        {rendition.width}×{rendition.height} ·{' '}
+                                                        {formatBytes(rendition.bytes)}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                        {Object.entries(image.srcset).map(([format, srcset]) => (
+                                            <p key={format} className='font-mono text-[11px] break-all text-white/40'>
+                                                {format}: {srcset}
+                                            </p>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </ScrollArea>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -2,6 +2,7 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useSaveToProject } from '@/hooks/use-save-to-project';
 import { useStyleAnalysis, type StyleAnalysis, type StyleAnalysisSection } from '@/hooks/useStyleAnalysis';
 import { isPdfFile, formatFileSize } from '@/lib/pdf-utils';
 import { cn } from '@/lib/utils';
@@ -19,7 +20,8 @@ import {
     Loader2,
     Image as ImageIcon,
     AlertCircle,
-    FileText
+    FileText,
+    FolderPlus
 } from 'lucide-react';
 import * as React from 'react';
 
@@ -54,6 +56,18 @@ export function StyleAnalyzer({ onApplyPrompt, className }: StyleAnalyzerProps)
     const fileInputRef = React.useRef<HTMLInputElement>(null);
 
     const { analyzeStyle, isAnalyzing, error } = useStyleAnalysis();
+    const { activeProject, saveToProject, isSaving: isSavingToProject, message: projectMessage } = useSaveToProject();
+
+    const handleSaveToProject = () => {
+        if (!analysis) return;
+        saveToProject(() => [
+            {
+                kind: 'style-analysis',
+                name: `Stilanalyse af ${files.map((file) => file.name).join(', ') || 'referencer'}`,
+                analysis
+            }
+        ]);
+    };
 
     // Cleanup preview URLs on unmount
     React.useEffect(() => {
@@ -290,18 +304,36 @@ export function StyleAnalyzer({ onApplyPrompt, className }: StyleAnalyzerProps)
                         <div className="space-y-4">
                             <div className="flex items-center justify-between">
                                 <h3 className="text-lg font-semibold">Stilanalyse</h3>
-                                <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => {
-                                        setAnalysis(null);
-                                        setFiles([]);
-                                        setPreviewUrls([]);
-                                    }}
-                                >
-                                    <RefreshCw className="mr-2 h-4 w-4" />
-                                    Ny analyse
-                                </Button>
+                                <div className="flex gap-2">
+                                    {activeProject && (
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={handleSaveToProject}
+                                            disabled={isSavingToProject}
+                                            title={`Gem i ${activeProject.name}`}
+                                        >
+                                            {isSavingToProject ? (
+                                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            ) : (
+                                                <FolderPlus className="mr-2 h-4 w-4" />
+                                            )}
+                                            {projectMessage ?? 'Gem i projekt'}
+                                        </Button>
+                                    )}
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => {
+                                            setAnalysis(null);
+                                            setFiles([]);
+                                            setPreviewUrls([]);
+                                        }}
+                                    >
+                                        <RefreshCw className="mr-2 h-4 w-4" />
+                                        Ny analyse
+                                    </Button>
+                                </div>
                             </div>
 
                             <div className="space-y-3">
@@ -9,6 +9,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ImageSelector } from '@/components/image-selector';
 import { VideoPlayer } from '@/components/video-player';
+import { estimateVideoCost } from '@/lib/usage/pricing';
 import { cn } from '@/lib/utils';
 import { 
     Loader2, 
@@ -38,7 +39,6 @@ interface VideoGenerationFormProps {
     isLoading: boolean;
     availableImages: Array<{ filename: string; path: string; createdAt: string }>;
     onVideoGenerated?: (video: VideoHistoryItem) => void;
-    clientPasswordHash: string | null;
 }
 
 export function VideoGenerationForm({
@@ -46,8 +46,7 @@ export function VideoGenerationForm({
     onTaskStatusCheck,
     isLoading,
     availableImages,
-    onVideoGenerated,
-    clientPasswordHash
+    onVideoGenerated
 }: VideoGenerationFormProps) {
     // Form state
     const [selectedImages, setSelectedImages] = React.useState<ImageSource[]>([]);
@@ -110,7 +109,7 @@ export function VideoGenerationForm({
                     seed: seed ? parseInt(seed) : undefined,
                     status: 'completed',
                     videoUrl: videoUrl,
-                    cost: 0,
+                    cost: estimateVideoCost('gen4_turbo', duration),
                     metadata: {
                         fileSize: 0, // Will be determined when downloading
                         format: 'mp4'
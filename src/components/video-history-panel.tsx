@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { VideoPlayer } from '@/components/video-player';
+import { useSaveToProject } from '@/hooks/use-save-to-project';
 import { cn } from '@/lib/utils';
 import type { VideoHistoryItem } from '@/types/video';
 import { 
@@ -13,7 +14,8 @@ import {
     Video, 
     FileVideo,
     Calendar,
-    Play
+    Play,
+    FolderPlus
 } from 'lucide-react';
 import * as React from 'react';
 
@@ -32,6 +34,18 @@ export function VideoHistoryPanel({
 }: VideoHistoryPanelProps) {
     const [selectedVideo, setSelectedVideo] = React.useState<VideoHistoryItem | null>(null);
     const [isDeleting, setIsDeleting] = React.useState<string | null>(null);
+    const { activeProject, saveToProject, isSaving: isSavingToProject, message: projectMessage } = useSaveToProject();
+
+    const handleAddToProject = (video: VideoHistoryItem) =>
+        saveToProject(() => [
+            {
+                kind: 'video',
+                name: video.promptText.substring(0, 50) || video.id,
+                videoId: video.id,
+                prompt: video.promptText,
+                videoUrl: video.videoUrl
+            }
+        ]);
 
     const handleDelete = async (videoId: string) => {
         if (isDeleting) return;
@@ -83,6 +97,7 @@ export function VideoHistoryPanel({
                         <Clock className='h-5 w-5' />
                         Video historik
                     </CardTitle>
+                    {projectMessage && <span className='text-xs text-white/60'>{projectMessage}</span>}
                 </div>
             </CardHeader>
             <CardContent className='p-0'>
@@ -173,6 +188,21 @@ export function VideoHistoryPanel({
                                                             <Play className='h-3 w-3 mr-1' />
                                                             Afspil
                                                         </Button>
+                                                        {activeProject && (
+                                                            <Button
+                                                                size='sm'
+                                                                variant='ghost'
+                                                                className='h-7 text-xs'
+                                                                disabled={isSavingToProject}
+                                                                title={`Tilføj til ${activeProject.name}`}
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    handleAddToProject(video);
+                                                                }}>
+                                                                <FolderPlus className='h-3 w-3 mr-1' />
+                                                                Projekt
+                                                            </Button>
+                                                        )}
                                                     </>
                                                 )}
                                                 <Button
@@ -0,0 +1,67 @@
+'use client';
+
+import { db } from '@/lib/db';
+import type { NewProjectItem, Project } from '@/lib/projects';
+import { useLiveQuery } from 'dexie-react-hooks';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+const ACTIVE_PROJECT_KEY = 'activeProjectId';
+
+interface ProjectContextType {
+    projects: Project[];
+    // The project being worked in; its defaults are pre-filled into the forms
+    activeProject: Project | null;
+    setActiveProjectId: (id: string | null) => void;
+    // Resolves to how many items were added (items already in the project are skipped)
+    addToActiveProject: (items: NewProjectItem[]) => Promise<number>;
+}
+
+const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
+
+export function ProjectProvider({ children }: { children: React.ReactNode }) {
+    const projects = useLiveQuery(() => db.getProjects(), []);
+    const [activeProjectId, setActiveProjectIdState] = useState<string | null>(null);
+
+    useEffect(() => {
+        setActiveProjectIdState(localStorage.getItem(ACTIVE_PROJECT_KEY));
+    }, []);
+
+    const setActiveProjectId = useCallback((id: string | null) => {
+        setActiveProjectIdState(id);
+        if (id) {
+            localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+        } else {
+            localStorage.removeItem(ACTIVE_PROJECT_KEY);
+        }
+    }, []);
+
+    const activeProject = useMemo(
+        () => projects?.find((project) => project.id === activeProjectId) ?? null,
+        [projects, activeProjectId]
+    );
+
+    const addToActiveProject = useCallback(
+        async (items: NewProjectItem[]) => {
+            if (!activeProject) {
+                throw new Error('Intet aktivt projekt');
+            }
+            return db.addProjectItems(activeProject.id, items);
+        },
+        [activeProject]
+    );
+
+    const value = useMemo(
+        () => ({ projects: projects ?? [], activeProject, setActiveProjectId, addToActiveProject }),
+        [projects, activeProject, setActiveProjectId, addToActiveProject]
+    );
+
+    return <ProjectContext.Provider value={value}>{children}</ProjectContext.Provider>;
+}
+
+export function useProject() {
+    const context = useContext(ProjectContext);
+    if (context === undefined) {
+        throw new Error('useProject must be used within a ProjectProvider');
+    }
+    return context;
+}
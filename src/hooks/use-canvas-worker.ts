@@ -1,5 +1,6 @@
 'use client';
 
+import { renderMaskDocument, type MaskDocument } from '@/lib/mask-document';
 import { useRef, useCallback, useEffect } from 'react';
 
 interface WorkerMessage {
@@ -89,18 +90,18 @@ export function useCanvasWorker() {
         });
     }, []);
 
-    // Generate mask using worker
+    // Rasterize a mask document using worker
     const generateMask = useCallback(
-        async (points: Array<{ x: number; y: number; size: number }>, width: number, height: number): Promise<Blob> => {
+        async (document: MaskDocument): Promise<Blob> => {
             try {
                 return await sendMessage({
                     type: 'GENERATE_MASK',
-                    payload: { points, width, height }
+                    payload: { document }
                 });
             } catch (error) {
                 // Fallback to main thread if worker fails
                 console.warn('Worker mask generation failed, falling back to main thread:', error);
-                return generateMaskMainThread(points, width, height);
+                return generateMaskMainThread(document);
             }
         },
         [sendMessage]
@@ -150,45 +151,25 @@ export function useCanvasWorker() {
 }
 
 // Fallback function for mask generation on main thread
-function generateMaskMainThread(
-    points: Array<{ x: number; y: number; size: number }>,
-    width: number,
-    height: number
-): Promise<Blob> {
+async function generateMaskMainThread(maskDocument: MaskDocument): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = maskDocument.width;
+    canvas.height = maskDocument.height;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+        throw new Error('Failed to get canvas context');
+    }
+
+    await renderMaskDocument(ctx, maskDocument);
+
     return new Promise((resolve, reject) => {
-        try {
-            const canvas = document.createElement('canvas');
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-
-            if (!ctx) {
-                reject(new Error('Failed to get canvas context'));
-                return;
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(blob);
+            } else {
+                reject(new Error('Failed to generate mask blob'));
             }
-
-            // Set up mask
-            ctx.fillStyle = '#000000';
-            ctx.fillRect(0, 0, width, height);
-            ctx.globalCompositeOperation = 'destination-out';
-
-            // Draw all points
-            points.forEach((point) => {
-                ctx.fillStyle = 'white';
-                ctx.beginPath();
-                ctx.arc(point.x, point.y, point.size, 0, Math.PI * 2);
-                ctx.fill();
-            });
-
-            canvas.toBlob((blob) => {
-                if (blob) {
-                    resolve(blob);
-                } else {
-                    reject(new Error('Failed to generate mask blob'));
-                }
-            }, 'image/png');
-        } catch (error) {
-            reject(error);
-        }
+        }, 'image/png');
     });
 }
@@ -0,0 +1,92 @@
+'use client';
+
+import { sha256Hex } from '@/lib/content-hash';
+import { db } from '@/lib/db';
+import * as React from 'react';
+
+export interface DuplicateHint {
+    // Where the same contents were found
+    source: 'history' | 'uploaded' | 'selection';
+    message: string;
+}
+
+// Hashing is the slow part, so each File is only hashed once
+const fileHashes = new WeakMap<File, Promise<string | null>>();
+
+function hashFile(file: File): Promise<string | null> {
+    let hash = fileHashes.get(file);
+    if (!hash) {
+        hash = sha256Hex(file).catch(() => null);
+        fileHashes.set(file, hash);
+    }
+    return hash;
+}
+
+async function fetchUploadedHashes(hashes: string[]): Promise<Set<string>> {
+    if (hashes.length === 0) return new Set();
+    try {
+        const response = await fetch(`/api/uploads?hashes=${hashes.join(',')}`);
+        if (!response.ok) return new Set();
+        const { existing } = (await response.json()) as { existing: string[] };
+        return new Set(existing);
+    } catch {
+        return new Set();
+    }
+}
+
+/**
+ * Points out files whose contents already exist: picked twice in the same
+ * list, saved in the image history, or already uploaded in this session.
+ * Returns one hint (or null) per file, in the same order as `files`, which
+ * should be a stable array.
+ */
+export function useDuplicateHints(files: File[]): (DuplicateHint | null)[] {
+    const [result, setResult] = React.useState<{ files: File[]; hints: (DuplicateHint | null)[] } | null>(null);
+
+    React.useEffect(() => {
+        if (files.length === 0) return;
+
+        let cancelled = false;
+
+        const findDuplicates = async () => {
+            const hashes = await Promise.all(files.map(hashFile));
+            const uniqueHashes = Array.from(new Set(hashes.filter((hash): hash is string => !!hash)));
+
+            const [historyImages, uploadedHashes] = await Promise.all([
+                db.findImagesByHashes(uniqueHashes).catch(() => []),
+                fetchUploadedHashes(uniqueHashes)
+            ]);
+            const historyHashes = new Set(historyImages.map((image) => image.hash));
+
+            const firstWithHash = new Map<string, File>();
+            const nextHints = hashes.map((hash, index): DuplicateHint | null => {
+                if (!hash) return null;
+
+                const first = firstWithHash.get(hash);
+                if (first) {
+                    return { source: 'selection', message: `Dublet af ${first.name}` };
+                }
+                firstWithHash.set(hash, files[index]);
+
+                if (historyHashes.has(hash)) {
+                    return { source: 'history', message: 'Findes allerede i historikken' };
+                }
+                if (uploadedHashes.has(hash)) {
+                    return { source: 'uploaded', message: 'Allerede uploadet' };
+                }
+                return null;
+            });
+
+            if (!cancelled) setResult({ files, hints: nextHints });
+        };
+
+        findDuplicates();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [files]);
+
+    // Hints computed for an earlier list would land on the wrong files
+    return result?.files === files ? result.hints : [];
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useProject } from '@/contexts/project-context';
+import type { NewProjectItem } from '@/lib/projects';
+import * as React from 'react';
+
+/**
+ * Adds items to the active project and keeps a short status message for the
+ * button that triggered it
+ */
+export function useSaveToProject() {
+    const { activeProject, addToActiveProject } = useProject();
+    const [isSaving, setIsSaving] = React.useState(false);
+    const [message, setMessage] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        if (!message) return;
+        const timeout = setTimeout(() => setMessage(null), 3000);
+        return () => clearTimeout(timeout);
+    }, [message]);
+
+    const saveToProject = React.useCallback(
+        async (getItems: () => NewProjectItem[] | Promise<NewProjectItem[]>) => {
+            if (!activeProject) return;
+
+            setIsSaving(true);
+            try {
+                const added = await addToActiveProject(await getItems());
+                setMessage(
+                    added > 0
+                        ? `${added} tilføjet til ${activeProject.name}`
+                        : `Findes allerede i ${activeProject.name}`
+                );
+            } catch (error) {
+                console.error('Failed to add to project:', error);
+                setMessage('Kunne ikke tilføje til projektet');
+            } finally {
+                setIsSaving(false);
+            }
+        },
+        [activeProject, addToActiveProject]
+    );
+
+    return { activeProject, saveToProject, isSaving, message };
+}
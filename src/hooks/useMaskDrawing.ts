@@ -1,228 +1,430 @@
+import { useCanvasWorker } from '@/hooks/use-canvas-worker';
+import { useCSRF } from '@/hooks/use-csrf';
+import { sha256Hex } from '@/lib/content-hash';
+import { db } from '@/lib/db';
+import {
+    adjustMaskCoverage,
+    commitMaskDocument,
+    createMaskDocument,
+    createMaskHistory,
+    drawMaskShapes,
+    isMaskDocumentEmpty,
+    loadMaskMattes,
+    parseMaskDocument,
+    redoMaskHistory,
+    undoMaskHistory,
+    type MaskDocument,
+    type MaskHistory,
+    type MaskMattes,
+    type MaskPoint,
+    type MaskShape,
+    type MaskTool
+} from '@/lib/mask-document';
+import { useLiveQuery } from 'dexie-react-hooks';
 import * as React from 'react';
 
-interface DrawPoint {
-    x: number;
-    y: number;
-    size: number;
-}
+const OVERLAY_COLOR = '#ff0000';
+
+type MaskAdjustment = 'invert' | 'grow' | 'feather';
+
+export type MaskSelectionTarget = 'subject' | 'background';
 
 interface UseMaskDrawingProps {
-    imageWidth: number;
-    imageHeight: number;
+    // Pixel size of the image; the canvas must be given the same size
+    width: number;
+    height: number;
     enabled?: boolean;
+    // The image being masked. Masks are saved and loaded by its contents.
+    image?: Blob | string | null;
+    // Called whenever the user changes the mask
+    onChange?: () => void;
 }
 
-interface UseMaskDrawingReturn {
+export interface UseMaskDrawingReturn {
     canvasRef: React.RefObject<HTMLCanvasElement | null>;
-    maskFile: File | null;
-    maskPreviewUrl: string | null;
+    document: MaskDocument;
+    tool: MaskTool;
+    setTool: (tool: MaskTool) => void;
     brushSize: number;
     setBrushSize: (size: number) => void;
+    setInvert: (invert: boolean) => void;
+    setGrow: (grow: number) => void;
+    setFeather: (feather: number) => void;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
     clearMask: () => void;
+    // Starts over with an empty mask and no history, without calling onChange
+    reset: () => void;
     isDrawing: boolean;
-    hasDrawn: boolean;
+    isEmpty: boolean;
+    // Rasterizes the mask in the canvas worker; null when it edits nothing
+    generateMaskFile: () => Promise<File | null>;
+    hasSavedMask: boolean;
+    // Saves the mask for the image; false when the image can't be identified
+    saveMask: () => Promise<boolean>;
+    loadSavedMask: () => void;
+    // Replaces the mask with the image's subject or background, found on the server
+    selectAutomatically: (target: MaskSelectionTarget) => Promise<void>;
+    isSelecting: boolean;
+    selectionError: string | null;
+}
+
+function normalizeBox(start: MaskPoint, end: MaskPoint) {
+    return {
+        x: Math.min(start.x, end.x),
+        y: Math.min(start.y, end.y),
+        width: Math.abs(end.x - start.x),
+        height: Math.abs(end.y - start.y)
+    };
 }
 
-export function useMaskDrawing({ imageWidth, imageHeight, enabled = true }: UseMaskDrawingProps): UseMaskDrawingReturn {
+/**
+ * Draws a mask document on an overlay canvas: brush and eraser strokes,
+ * lasso polygons, rectangles and ellipses (hold Alt to cut shapes out) and
+ * automatic subject/background selection, with invert, grow/shrink, feather
+ * and undo/redo
+ */
+export function useMaskDrawing({
+    width,
+    height,
+    enabled = true,
+    image,
+    onChange
+}: UseMaskDrawingProps): UseMaskDrawingReturn {
     const canvasRef = React.useRef<HTMLCanvasElement>(null);
-    const [drawnPoints, setDrawnPoints] = React.useState<DrawPoint[]>([]);
-    const [maskFile, setMaskFile] = React.useState<File | null>(null);
-    const [maskPreviewUrl, setMaskPreviewUrl] = React.useState<string | null>(null);
+    const coverageCanvasRef = React.useRef<HTMLCanvasElement | null>(null);
+    const mattesRef = React.useRef<MaskMattes>(new Map());
+    const [history, setHistory] = React.useState<MaskHistory>(() =>
+        createMaskHistory(createMaskDocument(width, height))
+    );
+    const [tool, setTool] = React.useState<MaskTool>('brush');
     const [brushSize, setBrushSize] = React.useState(20);
-    const [isDrawing, setIsDrawing] = React.useState(false);
-    const isDrawingRef = React.useRef(false);
-    const lastPosRef = React.useRef<{ x: number; y: number } | null>(null);
+    const [draft, setDraft] = React.useState<MaskShape | null>(null);
+    const [imageHash, setImageHash] = React.useState<string | null>(null);
+    // Bumped when mattes finish decoding so the overlay is redrawn
+    const [mattesLoaded, setMattesLoaded] = React.useState(0);
+    const [isSelecting, setIsSelecting] = React.useState(false);
+    const [selectionError, setSelectionError] = React.useState<string | null>(null);
+    const draftRef = React.useRef<MaskShape | null>(null);
+    const startRef = React.useRef<MaskPoint | null>(null);
+    const lastAdjustmentRef = React.useRef<MaskAdjustment | null>(null);
+    const onChangeRef = React.useRef(onChange);
+    const { generateMask } = useCanvasWorker();
+    const { addCSRFToken } = useCSRF();
+
+    const doc = history.present;
 
-    // Clean up preview URL on unmount
     React.useEffect(() => {
-        return () => {
-            if (maskPreviewUrl) {
-                URL.revokeObjectURL(maskPreviewUrl);
-            }
-        };
-    }, [maskPreviewUrl]);
+        onChangeRef.current = onChange;
+    }, [onChange]);
+
+    // Each image starts with an empty mask
+    React.useEffect(() => {
+        setHistory(createMaskHistory(createMaskDocument(width, height)));
+        lastAdjustmentRef.current = null;
+        mattesRef.current = new Map();
+        setSelectionError(null);
+    }, [width, height, image]);
+
+    React.useEffect(() => {
+        if (!doc.shapes.some((shape) => shape.type === 'matte' && !mattesRef.current.has(shape.src))) return;
+
+        loadMaskMattes(doc.shapes, mattesRef.current)
+            .then(() => setMattesLoaded((count) => count + 1))
+            .catch((error) => console.error('Failed to decode mask selection:', error));
+    }, [doc.shapes]);
 
-    // Set up canvas and redraw when points change
     React.useEffect(() => {
-        if (!canvasRef.current || !enabled) return;
+        setImageHash(null);
+        if (!image) return;
+
+        let cancelled = false;
+        (async () => {
+            const blob = typeof image === 'string' ? await (await fetch(image)).blob() : image;
+            const hash = await sha256Hex(blob);
+            if (!cancelled) setImageHash(hash);
+        })().catch((error) => console.error('Failed to identify image for its mask:', error));
 
+        return () => {
+            cancelled = true;
+        };
+    }, [image]);
+
+    const savedMask = useLiveQuery(() => (imageHash ? db.getMask(imageHash) : undefined), [imageHash]);
+    const hasSavedMask = !!savedMask && savedMask.document.width === width && savedMask.document.height === height;
+
+    const commit = React.useCallback(
+        (update: (current: MaskDocument) => MaskDocument, adjustment: MaskAdjustment | null = null) => {
+            const merge = adjustment !== null && lastAdjustmentRef.current === adjustment;
+            setHistory((current) => commitMaskDocument(current, update(current.present), merge));
+            lastAdjustmentRef.current = adjustment;
+            onChangeRef.current?.();
+        },
+        []
+    );
+
+    // Draw the mask in red on the overlay; the canvas itself is shown half transparent
+    React.useEffect(() => {
         const canvas = canvasRef.current;
+        if (!canvas || !enabled) return;
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
 
-        // Clear canvas
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-        // Draw mask strokes
-        if (drawnPoints.length > 0) {
-            ctx.fillStyle = 'rgba(255, 0, 0, 0.5)'; // Red with transparency for visibility
-            drawnPoints.forEach((point) => {
-                ctx.beginPath();
-                ctx.arc(point.x, point.y, point.size, 0, Math.PI * 2);
-                ctx.fill();
-            });
+        if (!coverageCanvasRef.current) {
+            coverageCanvasRef.current = document.createElement('canvas');
         }
-    }, [drawnPoints, enabled]);
+        const coverageCanvas = coverageCanvasRef.current;
+        coverageCanvas.width = canvas.width;
+        coverageCanvas.height = canvas.height;
+        const coverageCtx = coverageCanvas.getContext('2d', { willReadFrequently: true });
+        if (!coverageCtx) return;
+
+        drawMaskShapes(coverageCtx, draft ? [...doc.shapes, draft] : doc.shapes, mattesRef.current);
+        coverageCtx.globalCompositeOperation = 'source-in';
+        coverageCtx.fillStyle = OVERLAY_COLOR;
+        coverageCtx.fillRect(0, 0, coverageCanvas.width, coverageCanvas.height);
+        coverageCtx.globalCompositeOperation = 'source-over';
 
-    // Generate mask file when points change
-    React.useEffect(() => {
-        if (!enabled || drawnPoints.length === 0) {
-            setMaskFile(null);
-            setMaskPreviewUrl(null);
-            return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.save();
+        if (doc.invert) {
+            ctx.fillStyle = OVERLAY_COLOR;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.globalCompositeOperation = 'destination-out';
         }
+        ctx.drawImage(coverageCanvas, 0, 0);
+        ctx.restore();
+
+        // Grow and feather are slower to compute, so they are shown once drawing pauses
+        if (draft || (doc.grow === 0 && doc.feather === 0)) return;
+
+        const timeout = setTimeout(() => {
+            const pixels = coverageCtx.getImageData(0, 0, canvas.width, canvas.height);
+            const coverage = new Uint8ClampedArray(canvas.width * canvas.height);
+            for (let i = 0; i < coverage.length; i++) coverage[i] = pixels.data[i * 4 + 3];
+
+            const adjusted = adjustMaskCoverage(coverage, canvas.width, canvas.height, doc);
+            for (let i = 0; i < adjusted.length; i++) {
+                pixels.data[i * 4] = 255;
+                pixels.data[i * 4 + 1] = 0;
+                pixels.data[i * 4 + 2] = 0;
+                pixels.data[i * 4 + 3] = adjusted[i];
+            }
+            ctx.putImageData(pixels, 0, 0);
+        }, 150);
 
-        // Create offscreen canvas for mask generation
-        const offscreenCanvas = document.createElement('canvas');
-        offscreenCanvas.width = imageWidth;
-        offscreenCanvas.height = imageHeight;
-        const offscreenCtx = offscreenCanvas.getContext('2d');
-
-        if (!offscreenCtx) return;
+        return () => clearTimeout(timeout);
+    }, [doc, draft, enabled, width, height, mattesLoaded]);
 
-        // Fill with black (transparent areas)
-        offscreenCtx.fillStyle = '#000000';
-        offscreenCtx.fillRect(0, 0, offscreenCanvas.width, offscreenCanvas.height);
+    // Pointer input
+    React.useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !enabled) return;
 
-        // Draw white areas (areas to edit) - using destination-out for transparency
-        offscreenCtx.globalCompositeOperation = 'destination-out';
-        drawnPoints.forEach((point) => {
-            offscreenCtx.beginPath();
-            offscreenCtx.arc(point.x, point.y, point.size, 0, Math.PI * 2);
-            offscreenCtx.fill();
-        });
+        const getPoint = (e: PointerEvent): MaskPoint => {
+            const rect = canvas.getBoundingClientRect();
+            return {
+                x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+                y: ((e.clientY - rect.top) * canvas.height) / rect.height
+            };
+        };
 
-        // Generate preview URL
-        try {
-            const dataUrl = offscreenCanvas.toDataURL('image/png');
-            setMaskPreviewUrl(dataUrl);
-        } catch (e) {
-            console.error('Error generating mask preview:', e);
-            setMaskPreviewUrl(null);
-        }
+        const updateDraft = (shape: MaskShape | null) => {
+            draftRef.current = shape;
+            setDraft(shape);
+        };
 
-        // Generate mask file
-        offscreenCanvas.toBlob((blob) => {
-            if (blob) {
-                const file = new File([blob], 'mask.png', { type: 'image/png' });
-                setMaskFile(file);
-            } else {
-                console.error('Failed to generate mask blob');
-                setMaskFile(null);
+        const handlePointerDown = (e: PointerEvent) => {
+            if (e.button !== 0) return;
+            e.preventDefault();
+            canvas.setPointerCapture(e.pointerId);
+
+            const point = getPoint(e);
+            startRef.current = point;
+            switch (tool) {
+                case 'brush':
+                case 'eraser':
+                    updateDraft({ type: tool, points: [point], radius: brushSize });
+                    break;
+                case 'lasso':
+                    updateDraft({ type: 'lasso', points: [point], erase: e.altKey });
+                    break;
+                case 'rect':
+                case 'ellipse':
+                    updateDraft({ type: tool, x: point.x, y: point.y, width: 0, height: 0, erase: e.altKey });
+                    break;
             }
-        }, 'image/png');
-    }, [drawnPoints, imageWidth, imageHeight, enabled]);
-
-    const getMousePos = React.useCallback((e: React.MouseEvent | React.TouchEvent): { x: number; y: number } | null => {
-        const canvas = canvasRef.current;
-        if (!canvas) return null;
-
-        const rect = canvas.getBoundingClientRect();
-        const scaleX = canvas.width / rect.width;
-        const scaleY = canvas.height / rect.height;
-        
-        const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-        const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
-        
-        return {
-            x: (clientX - rect.left) * scaleX,
-            y: (clientY - rect.top) * scaleY
         };
-    }, []);
-
-    const addPoint = React.useCallback((x: number, y: number) => {
-        setDrawnPoints((prev) => [...prev, { x, y, size: brushSize }]);
-    }, [brushSize]);
-
-    const startDrawing = React.useCallback((e: React.MouseEvent | React.TouchEvent) => {
-        if (!enabled) return;
-        e.preventDefault();
-        
-        const pos = getMousePos(e);
-        if (!pos) return;
-
-        isDrawingRef.current = true;
-        setIsDrawing(true);
-        lastPosRef.current = pos;
-        addPoint(pos.x, pos.y);
-    }, [enabled, getMousePos, addPoint]);
-
-    const draw = React.useCallback((e: React.MouseEvent | React.TouchEvent) => {
-        if (!isDrawingRef.current || !enabled) return;
-        e.preventDefault();
-
-        const currentPos = getMousePos(e);
-        if (!currentPos || !lastPosRef.current) return;
-
-        // Interpolate points for smooth drawing
-        const dist = Math.hypot(currentPos.x - lastPosRef.current.x, currentPos.y - lastPosRef.current.y);
-        const angle = Math.atan2(currentPos.y - lastPosRef.current.y, currentPos.x - lastPosRef.current.x);
-        const step = Math.max(1, brushSize / 4);
-
-        for (let i = step; i < dist; i += step) {
-            const x = lastPosRef.current.x + Math.cos(angle) * i;
-            const y = lastPosRef.current.y + Math.sin(angle) * i;
-            addPoint(x, y);
-        }
-        addPoint(currentPos.x, currentPos.y);
 
-        lastPosRef.current = currentPos;
-    }, [enabled, getMousePos, addPoint, brushSize]);
+        const handlePointerMove = (e: PointerEvent) => {
+            const current = draftRef.current;
+            if (!current || !startRef.current) return;
+            e.preventDefault();
 
-    const stopDrawing = React.useCallback(() => {
-        isDrawingRef.current = false;
-        setIsDrawing(false);
-        lastPosRef.current = null;
-    }, []);
+            const point = getPoint(e);
+            if (!('points' in current)) {
+                updateDraft({ ...current, ...normalizeBox(startRef.current, point) });
+                return;
+            }
 
-    const clearMask = React.useCallback(() => {
-        setDrawnPoints([]);
-        setMaskFile(null);
-        if (maskPreviewUrl) {
-            URL.revokeObjectURL(maskPreviewUrl);
-            setMaskPreviewUrl(null);
-        }
-    }, [maskPreviewUrl]);
+            // Skip points too close to the last one to matter
+            const last = current.points[current.points.length - 1];
+            const minDistance = 'radius' in current ? Math.max(1, current.radius / 4) : 2;
+            if (Math.hypot(point.x - last.x, point.y - last.y) < minDistance) return;
+            updateDraft({ ...current, points: [...current.points, point] });
+        };
 
-    // Set up event listeners
-    React.useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas || !enabled) return;
+        const handlePointerUp = () => {
+            const shape = draftRef.current;
+            updateDraft(null);
+            startRef.current = null;
+            if (!shape) return;
+
+            const isComplete =
+                shape.type === 'lasso'
+                    ? shape.points.length >= 3
+                    : shape.type === 'rect' || shape.type === 'ellipse'
+                      ? shape.width >= 1 && shape.height >= 1
+                      : true;
+            if (isComplete) {
+                commit((current) => ({ ...current, shapes: [...current.shapes, shape] }));
+            }
+        };
 
-        const handleMouseDown = (e: MouseEvent) => startDrawing(e as any);
-        const handleMouseMove = (e: MouseEvent) => draw(e as any);
-        const handleMouseUp = () => stopDrawing();
-        const handleTouchStart = (e: TouchEvent) => startDrawing(e as any);
-        const handleTouchMove = (e: TouchEvent) => draw(e as any);
-        const handleTouchEnd = () => stopDrawing();
-
-        canvas.addEventListener('mousedown', handleMouseDown);
-        canvas.addEventListener('mousemove', handleMouseMove);
-        canvas.addEventListener('mouseup', handleMouseUp);
-        canvas.addEventListener('mouseleave', handleMouseUp);
-        canvas.addEventListener('touchstart', handleTouchStart, { passive: false });
-        canvas.addEventListener('touchmove', handleTouchMove, { passive: false });
-        canvas.addEventListener('touchend', handleTouchEnd);
+        canvas.addEventListener('pointerdown', handlePointerDown);
+        canvas.addEventListener('pointermove', handlePointerMove);
+        canvas.addEventListener('pointerup', handlePointerUp);
+        canvas.addEventListener('pointercancel', handlePointerUp);
 
         return () => {
-            canvas.removeEventListener('mousedown', handleMouseDown);
-            canvas.removeEventListener('mousemove', handleMouseMove);
-            canvas.removeEventListener('mouseup', handleMouseUp);
-            canvas.removeEventListener('mouseleave', handleMouseUp);
-            canvas.removeEventListener('touchstart', handleTouchStart);
-            canvas.removeEventListener('touchmove', handleTouchMove);
-            canvas.removeEventListener('touchend', handleTouchEnd);
+            canvas.removeEventListener('pointerdown', handlePointerDown);
+            canvas.removeEventListener('pointermove', handlePointerMove);
+            canvas.removeEventListener('pointerup', handlePointerUp);
+            canvas.removeEventListener('pointercancel', handlePointerUp);
         };
-    }, [enabled, startDrawing, draw, stopDrawing]);
+    }, [enabled, tool, brushSize, commit]);
+
+    const setInvert = React.useCallback(
+        (invert: boolean) => commit((current) => ({ ...current, invert }), 'invert'),
+        [commit]
+    );
+    const setGrow = React.useCallback((grow: number) => commit((current) => ({ ...current, grow }), 'grow'), [commit]);
+    const setFeather = React.useCallback(
+        (feather: number) => commit((current) => ({ ...current, feather }), 'feather'),
+        [commit]
+    );
+
+    const undo = React.useCallback(() => {
+        setHistory(undoMaskHistory);
+        lastAdjustmentRef.current = null;
+        onChangeRef.current?.();
+    }, []);
+
+    const redo = React.useCallback(() => {
+        setHistory(redoMaskHistory);
+        lastAdjustmentRef.current = null;
+        onChangeRef.current?.();
+    }, []);
+
+    const clearMask = React.useCallback(
+        () => commit((current) => createMaskDocument(current.width, current.height)),
+        [commit]
+    );
+
+    const reset = React.useCallback(() => {
+        setHistory(createMaskHistory(createMaskDocument(width, height)));
+        lastAdjustmentRef.current = null;
+    }, [width, height]);
+
+    const generateMaskFile = React.useCallback(async (): Promise<File | null> => {
+        if (isMaskDocumentEmpty(doc)) return null;
+        const blob = await generateMask(doc);
+        return new File([blob], 'mask.png', { type: 'image/png' });
+    }, [doc, generateMask]);
+
+    const saveMask = React.useCallback(async (): Promise<boolean> => {
+        if (!imageHash) return false;
+        await db.saveMask(imageHash, doc);
+        return true;
+    }, [imageHash, doc]);
+
+    const loadSavedMask = React.useCallback(() => {
+        if (!savedMask) return;
+        try {
+            const saved = parseMaskDocument(savedMask.document);
+            commit(() => saved);
+        } catch (error) {
+            console.error('Failed to load saved mask:', error);
+        }
+    }, [savedMask, commit]);
+
+    const selectAutomatically = React.useCallback(
+        async (target: MaskSelectionTarget) => {
+            if (!image) return;
+
+            setIsSelecting(true);
+            setSelectionError(null);
+            try {
+                const blob = typeof image === 'string' ? await (await fetch(image)).blob() : image;
+                const formData = new FormData();
+                formData.append('image', blob, image instanceof File ? image.name : 'image.png');
+                formData.append('target', target);
+
+                const response = await fetch(
+                    '/api/images/subject-mask',
+                    addCSRFToken({ method: 'POST', body: formData })
+                );
+                if (!response.ok) {
+                    const result = await response.json().catch(() => ({}));
+                    throw new Error(result.error || `Markering fejlede (${response.status})`);
+                }
+
+                const matte = await response.blob();
+                const src = await new Promise<string>((resolve, reject) => {
+                    const reader = new FileReader();
+                    reader.onload = () => resolve(reader.result as string);
+                    reader.onerror = () => reject(reader.error);
+                    reader.readAsDataURL(matte);
+                });
+
+                // The selection becomes the whole mask; undo brings back what was there
+                commit((current) => ({ ...current, invert: false, shapes: [{ type: 'matte', src, erase: false }] }));
+            } catch (error) {
+                console.error('Automatic mask selection failed:', error);
+                setSelectionError(error instanceof Error ? error.message : 'Markering fejlede');
+            } finally {
+                setIsSelecting(false);
+            }
+        },
+        [image, commit, addCSRFToken]
+    );
 
     return {
         canvasRef,
-        maskFile,
-        maskPreviewUrl,
+        document: doc,
+        tool,
+        setTool,
         brushSize,
         setBrushSize,
+        setInvert,
+        setGrow,
+        setFeather,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
         clearMask,
-        isDrawing,
-        hasDrawn: drawnPoints.length > 0
+        reset,
+        isDrawing: draft !== null,
+        isEmpty: isMaskDocumentEmpty(doc),
+        generateMaskFile,
+        hasSavedMask,
+        saveMask,
+        loadSavedMask,
+        selectAutomatically,
+        isSelecting,
+        selectionError
     };
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { prepareImageForGemini } from '@/lib/image-utils';
+import { useCSRF } from '@/hooks/use-csrf';
 import { useState } from 'react';
 
 interface UsePromptRefinementReturn {
@@ -10,6 +11,7 @@ interface UsePromptRefinementReturn {
 export function usePromptRefinement(): UsePromptRefinementReturn {
     const [isRefining, setIsRefining] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const { addCSRFToken } = useCSRF();
 
     const refinePrompt = async (
         prompt: string,
@@ -45,13 +47,16 @@ export function usePromptRefinement(): UsePromptRefinementReturn {
                 selectedTags: selectedTags || []
             };
 
-            const response = await fetch('/api/refine-prompt', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(requestBody)
-            });
+            const response = await fetch(
+                '/api/refine-prompt',
+                addCSRFToken({
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify(requestBody)
+                })
+            );
 
             const data = await response.json();
 
@@ -1,5 +1,6 @@
 import { prepareImageForGemini } from '@/lib/image-utils';
 import { preparePdfForGemini, isPdfFile } from '@/lib/pdf-utils';
+import { useCSRF } from '@/hooks/use-csrf';
 import { useState } from 'react';
 
 export interface StyleAnalysisSection {
@@ -26,6 +27,7 @@ interface UseStyleAnalysisReturn {
 export function useStyleAnalysis(): UseStyleAnalysisReturn {
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const { addCSRFToken } = useCSRF();
 
     const analyzeStyle = async (files: File[]): Promise<StyleAnalysis | null> => {
         if (!files || files.length === 0) {
@@ -64,13 +66,16 @@ export function useStyleAnalysis(): UseStyleAnalysisReturn {
 
             const filesData = await Promise.all(fileDataPromises);
 
-            const response = await fetch('/api/analyze-style', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ files: filesData })
-            });
+            const response = await fetch(
+                '/api/analyze-style',
+                addCSRFToken({
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify({ files: filesData })
+                })
+            );
 
             const data = await response.json();
 
@@ -1,3 +1,6 @@
+import { sha256Hex } from '@/lib/content-hash';
+import { UPLOAD_CHUNK_SIZE, type UploadedFileReference, type UploadInitResponse } from '@/lib/upload-protocol';
+
 /**
  * Enhanced API request manager with retry logic and optimization
  */
@@ -6,13 +9,43 @@ interface RequestConfig {
     maxRetries?: number;
     retryDelay?: number;
     timeout?: number;
-    onProgress?: (progress: number) => void;
 }
 
 interface ApiRequestOptions extends RequestConfig {
     signal?: AbortSignal;
 }
 
+export interface UploadProgress {
+    loaded: number;
+    total: number;
+    // 0-100
+    percent: number;
+}
+
+export interface UploadOptions {
+    // Usually useCSRF().addCSRFToken
+    addCSRFToken?: (init: RequestInit) => RequestInit;
+    onProgress?: (progress: UploadProgress) => void;
+    signal?: AbortSignal;
+    // Attempts per chunk before the upload fails
+    maxRetries?: number;
+}
+
+export interface UploadResult extends UploadedFileReference {
+    // The server already had this content, nothing was sent
+    deduplicated: boolean;
+}
+
+class UploadRequestError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number
+    ) {
+        super(message);
+        this.name = 'UploadRequestError';
+    }
+}
+
 export class ApiRequestManager {
     private static instance: ApiRequestManager;
     private activeRequests = new Map<string, AbortController>();
@@ -32,7 +65,6 @@ export class ApiRequestManager {
             maxRetries = 3,
             retryDelay = 1000,
             timeout = 300000, // 5 minutes
-            onProgress,
             signal
         } = options;
 
@@ -54,20 +86,11 @@ export class ApiRequestManager {
 
             for (let attempt = 0; attempt <= maxRetries; attempt++) {
                 try {
-                    // Add progress tracking for FormData
-                    if (onProgress && init.body instanceof FormData) {
-                        onProgress(Math.min(attempt * 25, 75)); // Show progress up to 75%
-                    }
-
                     const response = await fetch(url, {
                         ...init,
                         signal: effectiveSignal
                     });
 
-                    if (onProgress) {
-                        onProgress(100);
-                    }
-
                     clearTimeout(timeoutId);
                     this.activeRequests.delete(requestId);
 
@@ -102,6 +125,118 @@ export class ApiRequestManager {
         }
     }
 
+    /**
+     * Uploads a file in chunks through /api/uploads (see @/lib/upload-protocol)
+     * with real byte progress. Only failed chunks are retried, and after a
+     * network drop the upload resumes from the chunks the server already has.
+     */
+    async uploadFile(file: File, options: UploadOptions = {}): Promise<UploadResult> {
+        const { addCSRFToken = (init: RequestInit) => init, onProgress, signal, maxRetries = 3 } = options;
+        const report = (loaded: number) =>
+            onProgress?.({
+                loaded,
+                total: file.size,
+                percent: file.size ? Math.round((loaded / file.size) * 100) : 100
+            });
+
+        const sha256 = await sha256Hex(file);
+        const postJson = async <T>(url: string, body: unknown): Promise<T> => {
+            const response = await this.enhancedFetch(
+                url,
+                addCSRFToken({
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body)
+                }),
+                { signal, maxRetries }
+            );
+            const data = await response.json();
+            if (!response.ok) {
+                throw new UploadRequestError(data.error || `Upload failed (${response.status})`, response.status);
+            }
+            return data as T;
+        };
+
+        for (let attempt = 0; ; attempt++) {
+            const init = await postJson<UploadInitResponse>('/api/uploads', {
+                filename: file.name,
+                size: file.size,
+                type: file.type,
+                sha256
+            });
+
+            if (init.complete) {
+                report(file.size);
+                return { ...init.file, deduplicated: true };
+            }
+
+            const chunkSize = init.chunkSize || UPLOAD_CHUNK_SIZE;
+            const received = new Set(init.receivedChunks);
+            const chunkBytes = (index: number) => Math.min(chunkSize, file.size - index * chunkSize);
+            let loaded = init.receivedChunks.reduce((sum, index) => sum + chunkBytes(index), 0);
+            report(loaded);
+
+            for (let index = 0; index < init.totalChunks; index++) {
+                if (received.has(index)) continue;
+
+                const chunk = file.slice(index * chunkSize, index * chunkSize + chunkSize);
+                await this.withRetries(maxRetries, signal, () =>
+                    this.sendChunk(
+                        `/api/uploads/${init.uploadId}/chunk?index=${index}`,
+                        chunk,
+                        addCSRFToken({}),
+                        (chunkLoaded) => report(loaded + chunkLoaded),
+                        signal
+                    )
+                );
+                loaded += chunk.size;
+                report(loaded);
+            }
+
+            try {
+                const completed = await postJson<UploadedFileReference>(`/api/uploads/${init.uploadId}/complete`, {
+                    filename: file.name,
+                    size: file.size,
+                    type: file.type
+                });
+                return { ...completed, deduplicated: false };
+            } catch (error) {
+                // Chunks went missing on the server (e.g. expired): start over from what is left
+                if (error instanceof UploadRequestError && error.status === 409 && attempt < maxRetries) {
+                    continue;
+                }
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Uploads files one after the other, reporting progress over all of them
+     */
+    async uploadFiles(files: File[], options: UploadOptions = {}): Promise<UploadResult[]> {
+        const total = files.reduce((sum, file) => sum + file.size, 0);
+        const results: UploadResult[] = [];
+        let done = 0;
+
+        for (const file of files) {
+            results.push(
+                await this.uploadFile(file, {
+                    ...options,
+                    onProgress: (progress) => {
+                        const loaded = done + progress.loaded;
+                        options.onProgress?.({
+                            loaded,
+                            total,
+                            percent: total ? Math.round((loaded / total) * 100) : 100
+                        });
+                    }
+                })
+            );
+            done += file.size;
+        }
+        return results;
+    }
+
     /**
      * Optimized FormData creation for multiple images
      */
@@ -159,6 +294,70 @@ export class ApiRequestManager {
         return this.activeRequests.size;
     }
 
+    private async withRetries(maxRetries: number, signal: AbortSignal | undefined, run: () => Promise<void>) {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await run();
+            } catch (error) {
+                const retryable = !(error instanceof UploadRequestError) || error.status >= 500 || error.status === 0;
+                if (signal?.aborted || !retryable || attempt >= maxRetries) {
+                    throw error;
+                }
+                console.log(`Chunk upload attempt ${attempt + 1} failed, retrying...`);
+                await this.delay(1000 * Math.pow(2, attempt));
+            }
+        }
+    }
+
+    // XMLHttpRequest rather than fetch, since only it reports upload progress
+    private sendChunk(
+        url: string,
+        chunk: Blob,
+        init: RequestInit,
+        onProgress: (loaded: number) => void,
+        signal?: AbortSignal
+    ): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new DOMException('Upload aborted', 'AbortError'));
+                return;
+            }
+
+            const xhr = new XMLHttpRequest();
+            const onAbort = () => xhr.abort();
+            signal?.addEventListener('abort', onAbort);
+            const settle = () => signal?.removeEventListener('abort', onAbort);
+
+            xhr.open('PUT', url);
+            new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+            xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+            xhr.upload.onprogress = (event) => onProgress(event.loaded);
+            xhr.onload = () => {
+                settle();
+                if (xhr.status >= 200 && xhr.status < 300) {
+                    resolve();
+                    return;
+                }
+                let message = `Chunk upload failed (${xhr.status})`;
+                try {
+                    message = JSON.parse(xhr.responseText).error || message;
+                } catch {
+                    // Not a JSON error body
+                }
+                reject(new UploadRequestError(message, xhr.status));
+            };
+            xhr.onerror = () => {
+                settle();
+                reject(new UploadRequestError('Network error during upload', 0));
+            };
+            xhr.onabort = () => {
+                settle();
+                reject(new DOMException('Upload aborted', 'AbortError'));
+            };
+            xhr.send(chunk);
+        });
+    }
+
     private delay(ms: number): Promise<void> {
         return new Promise((resolve) => setTimeout(resolve, ms));
     }
@@ -18,8 +18,9 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
     return bcrypt.compare(password, hash);
 }
 
-export async function createSession(userId: string) {
-    const token = await new SignJWT({ userId, sessionId: nanoid() })
+// The token version is checked on every request, so bumping it ends the user's existing sessions
+export async function createSession(user: { id: string; tokenVersion?: number }) {
+    const token = await new SignJWT({ userId: user.id, tokenVersion: user.tokenVersion ?? 0, sessionId: nanoid() })
         .setProtectedHeader({ alg: 'HS256' })
         .setIssuedAt()
         .setExpirationTime('24h')
@@ -47,7 +48,7 @@ export async function verifySession() {
 
     try {
         const { payload } = await jwtVerify(token, JWT_SECRET);
-        return payload as { userId: string; sessionId: string };
+        return payload as { userId: string; tokenVersion?: number; sessionId: string };
     } catch {
         return null;
     }
@@ -57,9 +58,3 @@ export async function destroySession() {
     const cookieStore = await cookies();
     cookieStore.delete('session');
 }
-
-// Migrate from SHA-256 to bcrypt
-export function needsPasswordMigration(hash: string): boolean {
-    // SHA-256 hashes are 64 characters long
-    return hash.length === 64 && /^[a-f0-9]{64}$/i.test(hash);
-}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { localBackgroundRemover } from './local-remover';
+import { removeBgRemover } from './removebg-remover';
+import type { BackgroundRemover } from './types';
+
+export { BackgroundRemovalError } from './types';
+export type { BackgroundRemovalOptions, BackgroundRemover } from './types';
+
+/**
+ * Registry of background removal engines. The packshot tool picks one per
+ * request and falls back to BACKGROUND_REMOVER, then to remove.bg when it has
+ * an API key, then to the local engine.
+ */
+
+const removers = new Map<string, BackgroundRemover>();
+
+export function registerBackgroundRemover(remover: BackgroundRemover) {
+    removers.set(remover.id, remover);
+}
+
+registerBackgroundRemover(localBackgroundRemover);
+registerBackgroundRemover(removeBgRemover);
+
+export function getDefaultBackgroundRemoverId(): string {
+    if (process.env.BACKGROUND_REMOVER) return process.env.BACKGROUND_REMOVER;
+    return removeBgRemover.isConfigured() ? removeBgRemover.id : localBackgroundRemover.id;
+}
+
+export function getBackgroundRemover(id?: string | null): BackgroundRemover | null {
+    return removers.get(id || getDefaultBackgroundRemoverId()) ?? null;
+}
+
+export function listBackgroundRemovers(): BackgroundRemover[] {
+    return Array.from(removers.values());
+}
@@ -0,0 +1,229 @@
+import sharp from 'sharp';
+import { BackgroundRemovalError, type BackgroundRemovalOptions, type BackgroundRemover } from './types';
+
+/**
+ * Built-in background removal for studio shots on white or grey sweeps, using
+ * only sharp. The background is flood-filled from the image border: a pixel
+ * joins when its colour is within `tolerance` of the background colour carried
+ * along from its neighbour, so slow gradients in a sweep are followed while
+ * the hard step to the product stops the fill. The matte is then refined so
+ * anti-aliased edge pixels get partial alpha, and feathered.
+ *
+ * Enclosed background (e.g. inside a mug handle) isn't reachable from the
+ * border and stays opaque.
+ */
+
+const ENGINE_ID = 'local';
+// The matte is computed at this size and scaled up, which keeps big photos fast
+const MATTE_MAX_SIZE = 2000;
+const DEFAULT_TOLERANCE = 24;
+const DEFAULT_FEATHER = 1.5;
+// Share of border pixels that must match the background colour for a "studio" shot
+const MIN_UNIFORM_BORDER = 0.6;
+// Background drift per pixel; the carried colour moves this far towards each new pixel
+const REFERENCE_ADAPT = 0.125;
+
+function colourDistance(r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number {
+    const dr = r1 - r2;
+    const dg = g1 - g2;
+    const db = b1 - b2;
+    return Math.sqrt((dr * dr + dg * dg + db * db) / 3);
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+function borderIndices(width: number, height: number): number[] {
+    const indices: number[] = [];
+    for (let x = 0; x < width; x++) {
+        indices.push(x, (height - 1) * width + x);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        indices.push(y * width, y * width + width - 1);
+    }
+    return indices;
+}
+
+/**
+ * Flood fill from the border. Returns a mask where 0 is background and 255 is
+ * foreground, plus the estimated background colour.
+ */
+function floodFillBackground(data: Buffer, width: number, height: number, channels: number, tolerance: number) {
+    const pixelCount = width * height;
+    const border = borderIndices(width, height);
+    const background = [0, 1, 2].map((channel) => median(border.map((index) => data[index * channels + channel])));
+
+    const mask = new Uint8Array(pixelCount).fill(255);
+    // Background colour carried along the fill, per pixel
+    const reference = new Float32Array(pixelCount * 3);
+    const queue = new Int32Array(pixelCount);
+    let head = 0;
+    let tail = 0;
+
+    let uniformBorder = 0;
+    for (const index of border) {
+        const offset = index * channels;
+        const distance = colourDistance(
+            data[offset],
+            data[offset + 1],
+            data[offset + 2],
+            background[0],
+            background[1],
+            background[2]
+        );
+        if (distance > tolerance * 2 || mask[index] === 0) continue;
+
+        uniformBorder++;
+        mask[index] = 0;
+        reference[index * 3] = data[offset];
+        reference[index * 3 + 1] = data[offset + 1];
+        reference[index * 3 + 2] = data[offset + 2];
+        queue[tail++] = index;
+    }
+
+    while (head < tail) {
+        const index = queue[head++];
+        const x = index % width;
+        const y = (index - x) / width;
+        const r = reference[index * 3];
+        const g = reference[index * 3 + 1];
+        const b = reference[index * 3 + 2];
+
+        const neighbours = [
+            x > 0 ? index - 1 : -1,
+            x < width - 1 ? index + 1 : -1,
+            y > 0 ? index - width : -1,
+            y < height - 1 ? index + width : -1
+        ];
+        for (const next of neighbours) {
+            if (next < 0 || mask[next] === 0) continue;
+
+            const offset = next * channels;
+            if (colourDistance(data[offset], data[offset + 1], data[offset + 2], r, g, b) > tolerance) continue;
+
+            mask[next] = 0;
+            reference[next * 3] = r + (data[offset] - r) * REFERENCE_ADAPT;
+            reference[next * 3 + 1] = g + (data[offset + 1] - g) * REFERENCE_ADAPT;
+            reference[next * 3 + 2] = b + (data[offset + 2] - b) * REFERENCE_ADAPT;
+            queue[tail++] = next;
+        }
+    }
+
+    return { mask, background, uniformBorder: uniformBorder / border.length, removed: tail / pixelCount };
+}
+
+/**
+ * Foreground pixels next to the background are often a blend of product and
+ * sweep. Give them alpha by how far their colour is from the background.
+ */
+function refineMatte(
+    mask: Uint8Array,
+    data: Buffer,
+    width: number,
+    height: number,
+    channels: number,
+    background: number[],
+    tolerance: number
+): Uint8Array {
+    const alpha = new Uint8Array(mask);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = y * width + x;
+            if (mask[index] === 0) continue;
+
+            const touchesBackground =
+                (x > 0 && mask[index - 1] === 0) ||
+                (x < width - 1 && mask[index + 1] === 0) ||
+                (y > 0 && mask[index - width] === 0) ||
+                (y < height - 1 && mask[index + width] === 0);
+            if (!touchesBackground) continue;
+
+            const offset = index * channels;
+            const distance = colourDistance(
+                data[offset],
+                data[offset + 1],
+                data[offset + 2],
+                background[0],
+                background[1],
+                background[2]
+            );
+            // Fully opaque once the colour is clearly away from the background
+            alpha[index] = Math.round(Math.min(1, Math.max(0, (distance - tolerance / 2) / (tolerance * 2))) * 255);
+        }
+    }
+    return alpha;
+}
+
+export const localBackgroundRemover: BackgroundRemover = {
+    id: ENGINE_ID,
+    label: 'Lokal (studiebaggrund)',
+    billable: false,
+
+    isConfigured() {
+        return true;
+    },
+
+    async remove(imageBuffer: Buffer, options: BackgroundRemovalOptions): Promise<Buffer> {
+        const tolerance = Math.min(128, Math.max(1, options.tolerance ?? DEFAULT_TOLERANCE));
+        const feather = Math.min(20, Math.max(0, options.feather ?? DEFAULT_FEATHER));
+        console.log(
+            `[BG_LOCAL_START] Removing background for ${options.filename} (tolerance ${tolerance}, feather ${feather})`
+        );
+
+        const { data: fullData, info: fullInfo } = await sharp(imageBuffer)
+            .rotate()
+            .removeAlpha()
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+
+        const scaled = fullInfo.width > MATTE_MAX_SIZE || fullInfo.height > MATTE_MAX_SIZE;
+        const { data, info } = scaled
+            ? await sharp(fullData, {
+                  raw: { width: fullInfo.width, height: fullInfo.height, channels: fullInfo.channels }
+              })
+                  .resize({ width: MATTE_MAX_SIZE, height: MATTE_MAX_SIZE, fit: 'inside' })
+                  .raw()
+                  .toBuffer({ resolveWithObject: true })
+            : { data: fullData, info: fullInfo };
+
+        const fill = floodFillBackground(data, info.width, info.height, info.channels, tolerance);
+        if (fill.uniformBorder < MIN_UNIFORM_BORDER) {
+            throw new BackgroundRemovalError(
+                `Background of ${options.filename} is not a plain studio background (only ${Math.round(fill.uniformBorder * 100)}% of the border matches)`,
+                ENGINE_ID
+            );
+        }
+        if (fill.removed > 0.995) {
+            throw new BackgroundRemovalError(
+                `No product found in ${options.filename}; it blends into the background at tolerance ${tolerance}`,
+                ENGINE_ID
+            );
+        }
+
+        const matte = refineMatte(fill.mask, data, info.width, info.height, info.channels, fill.background, tolerance);
+
+        let alpha = sharp(Buffer.from(matte), { raw: { width: info.width, height: info.height, channels: 1 } });
+        if (scaled) {
+            alpha = alpha.resize(fullInfo.width, fullInfo.height, { fit: 'fill' });
+        }
+        if (feather > 0) {
+            // sharp needs a sigma of at least 0.3
+            alpha = alpha.blur(Math.max(0.3, feather));
+        }
+        const alphaChannel = await alpha.extractChannel(0).raw().toBuffer();
+
+        const result = await sharp(fullData, {
+            raw: { width: fullInfo.width, height: fullInfo.height, channels: fullInfo.channels }
+        })
+            .joinChannel(alphaChannel, { raw: { width: fullInfo.width, height: fullInfo.height, channels: 1 } })
+            .png()
+            .toBuffer();
+
+        console.log(
+            `[BG_LOCAL_SUCCESS] Removed ${Math.round(fill.removed * 100)}% of ${options.filename} as background`
+        );
+        return result;
+    }
+};
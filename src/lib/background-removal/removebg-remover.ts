@@ -0,0 +1,103 @@
+import sharp from 'sharp';
+import axios from 'axios';
+import FormData from 'form-data';
+import { describeRemoveBgUsage, recordUsage, REMOVE_BG_PREVIEW_CREDITS } from '@/lib/usage';
+import { BackgroundRemovalError, type BackgroundRemovalOptions, type BackgroundRemover } from './types';
+
+const ENGINE_ID = 'removebg';
+const MAX_MEGAPIXELS_API = 50; // Max megapixels for remove.bg API
+
+/**
+ * Remove background using remove.bg API. Requires REMOVE_BG_API_KEY.
+ */
+export const removeBgRemover: BackgroundRemover = {
+    id: ENGINE_ID,
+    label: 'Remove.bg',
+    billable: true,
+
+    isConfigured() {
+        return !!process.env.REMOVE_BG_API_KEY;
+    },
+
+    async remove(imageBuffer: Buffer, options: BackgroundRemovalOptions): Promise<Buffer> {
+        const apiKey = process.env.REMOVE_BG_API_KEY;
+        if (!apiKey) {
+            throw new BackgroundRemovalError('REMOVE_BG_API_KEY is not configured', ENGINE_ID);
+        }
+
+        const originalFilename = options.filename;
+        console.log(`[IMG_PROC_BG_REMOVE_START] Attempting background removal for: ${originalFilename}`);
+
+        try {
+            // Get image metadata to check size before API call
+            const metadata = await sharp(imageBuffer).metadata();
+            const { width, height } = metadata;
+            const megapixels = (width! * height!) / 1000000;
+
+            if (megapixels > MAX_MEGAPIXELS_API) {
+                console.warn(
+                    `[IMG_PROC_BG_PRE_SCALE] Image ${originalFilename} (${megapixels.toFixed(2)} MP) exceeds ${MAX_MEGAPIXELS_API} MP. Pre-scaling.`
+                );
+                const scaleRatio = Math.sqrt(MAX_MEGAPIXELS_API / megapixels);
+                const newWidth = Math.floor(width! * scaleRatio);
+                const newHeight = Math.floor(height! * scaleRatio);
+
+                imageBuffer = await sharp(imageBuffer)
+                    .resize(newWidth, newHeight, {
+                        fit: 'inside',
+                        withoutEnlargement: false
+                    })
+                    .toBuffer();
+            }
+
+            const formData = new FormData();
+            formData.append('size', 'preview');
+            formData.append('image_file', imageBuffer, 'image.png');
+
+            const response = await axios({
+                method: 'post',
+                url: 'https://api.remove.bg/v1.0/removebg',
+                data: formData,
+                headers: {
+                    ...formData.getHeaders(),
+                    'X-Api-Key': apiKey
+                },
+                responseType: 'arraybuffer',
+                timeout: 30000, // 30 second timeout
+                maxContentLength: 50 * 1024 * 1024, // 50MB max
+                maxBodyLength: 50 * 1024 * 1024 // 50MB max
+            });
+
+            console.log(`[IMG_PROC_BG_REMOVE_SUCCESS] Background removed successfully for ${originalFilename}`);
+
+            if (options.usage) {
+                // remove.bg reports the credits it charged; fall back to the preview price
+                const charged = parseFloat(response.headers['x-credits-charged']);
+                await recordUsage(options.usage, {
+                    provider: 'removebg',
+                    model: 'removebg-preview',
+                    operation: 'remove-background',
+                    ...describeRemoveBgUsage(isNaN(charged) ? REMOVE_BG_PREVIEW_CREDITS : charged)
+                });
+            }
+
+            return Buffer.from(response.data);
+        } catch (error) {
+            let errorMessage = error instanceof Error ? error.message : String(error);
+            if (axios.isAxiosError(error) && error.response && error.response.data) {
+                try {
+                    const errorText = Buffer.from(error.response.data).toString('utf-8');
+                    const errorJson = JSON.parse(errorText);
+                    errorMessage = `Status: ${error.response.status}, Details: ${JSON.stringify(errorJson)}`;
+                } catch {
+                    // Not JSON, use raw string
+                    errorMessage = `Status: ${error.response.status}, Data: ${error.response.data}`;
+                }
+            }
+            console.error(
+                `[IMG_PROC_BG_REMOVE_ERROR] Error removing background for ${originalFilename}: ${errorMessage}`
+            );
+            throw new BackgroundRemovalError(`remove.bg failed: ${errorMessage}`, ENGINE_ID);
+        }
+    }
+};
@@ -0,0 +1,39 @@
+import type { UsageContext } from '@/lib/usage';
+
+/**
+ * Shared contract for background removal engines (local sharp matte, remove.bg, ...)
+ */
+
+export interface BackgroundRemovalOptions {
+    // Used in logs and error messages
+    filename: string;
+    // Who billable engines charge the call to
+    usage?: UsageContext;
+    // Local engine: max colour distance (0-255) between neighbouring background pixels
+    tolerance?: number;
+    // Local engine: edge softening radius in pixels
+    feather?: number;
+}
+
+export interface BackgroundRemover {
+    readonly id: string;
+    readonly label: string;
+    // Whether each call costs money (and so is subject to usage budgets)
+    readonly billable: boolean;
+
+    /** Whether the engine has the configuration (API keys etc.) it needs to run */
+    isConfigured(): boolean;
+
+    /** Returns a PNG with a transparent background, or throws BackgroundRemovalError */
+    remove(imageBuffer: Buffer, options: BackgroundRemovalOptions): Promise<Buffer>;
+}
+
+export class BackgroundRemovalError extends Error {
+    constructor(
+        message: string,
+        public readonly engine: string
+    ) {
+        super(message);
+        this.name = 'BackgroundRemovalError';
+    }
+}
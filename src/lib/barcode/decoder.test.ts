@@ -0,0 +1,138 @@
+import { barcodeToGTIN, decodeBarcodeLine } from './decoder';
+import { describe, expect, it } from 'vitest';
+
+// EAN-13 digit encodings from the GS1 spec, as modules (1 = bar)
+const EAN_L = [
+    '0001101',
+    '0011001',
+    '0010011',
+    '0111101',
+    '0100011',
+    '0110001',
+    '0101111',
+    '0111011',
+    '0110111',
+    '0001011'
+];
+const EAN_R = EAN_L.map((code) => Array.from(code, (bit) => (bit === '1' ? '0' : '1')).join(''));
+const EAN_G = EAN_R.map((code) => Array.from(code).reverse().join(''));
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGLGGL', 'LGLGLG', 'LGGLGL'];
+
+const QUIET_ZONE = '0'.repeat(12);
+const PIXELS_PER_MODULE = 3;
+
+function modulesToLine(modules: string): number[] {
+    return Array.from(modules).flatMap((bit) => Array(PIXELS_PER_MODULE).fill(bit === '1' ? 20 : 235));
+}
+
+function ean13Line(code: string): number[] {
+    const digits = Array.from(code, Number);
+    const parity = EAN_PARITY[digits[0]];
+    const left = digits
+        .slice(1, 7)
+        .map((digit, index) => (parity[index] === 'L' ? EAN_L : EAN_G)[digit])
+        .join('');
+    const right = digits
+        .slice(7)
+        .map((digit) => EAN_R[digit])
+        .join('');
+    return modulesToLine(`${QUIET_ZONE}101${left}01010${right}101${QUIET_ZONE}`);
+}
+
+// Code 128 symbols as bar/space module widths, starting with a bar
+function code128Line(symbols: string[]): number[] {
+    const modules = symbols
+        .join('')
+        .split('')
+        .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+        .join('');
+    return modulesToLine(`${QUIET_ZONE}${modules}${QUIET_ZONE}`);
+}
+
+const CODE128 = {
+    1: '222122',
+    5: '131222',
+    12: '112232',
+    34: '131123',
+    57: '312113',
+    69: '112214',
+    82: '121241',
+    90: '214121',
+    fnc1: '411131',
+    startC: '211232',
+    stop: '2331112'
+};
+
+describe('decodeBarcodeLine', () => {
+    it('decodes an EAN-13 scanline', () => {
+        const line = ean13Line('5901234123457');
+        const decoded = decodeBarcodeLine(line);
+
+        expect(decoded).toMatchObject({ symbology: 'EAN-13', text: '5901234123457' });
+        expect(decoded!.start).toBe(QUIET_ZONE.length * PIXELS_PER_MODULE);
+        expect(decoded!.end).toBe(line.length - QUIET_ZONE.length * PIXELS_PER_MODULE);
+    });
+
+    it('reports codes starting with 0 as UPC-A', () => {
+        expect(decodeBarcodeLine(ean13Line('0036000291452'))).toMatchObject({
+            symbology: 'UPC-A',
+            text: '0036000291452'
+        });
+    });
+
+    it('reads a scanline in either direction', () => {
+        const reversed = ean13Line('5901234123457').reverse();
+        expect(decodeBarcodeLine(reversed)?.text).toBe('5901234123457');
+    });
+
+    it('rejects a barcode with a wrong check digit', () => {
+        expect(decodeBarcodeLine(ean13Line('5901234123458'))).toBeNull();
+    });
+
+    it('returns null for a line without bars', () => {
+        expect(decodeBarcodeLine(Array(300).fill(235))).toBeNull();
+    });
+
+    it('decodes Code 128 in code set C', () => {
+        const line = code128Line([CODE128.startC, CODE128[12], CODE128[34], CODE128[82], CODE128.stop]);
+        expect(decodeBarcodeLine(line)).toMatchObject({ symbology: 'Code128', text: '1234', gs1: false });
+    });
+
+    it('rejects Code 128 with a wrong checksum', () => {
+        const line = code128Line([CODE128.startC, CODE128[12], CODE128[34], CODE128[69], CODE128.stop]);
+        expect(decodeBarcodeLine(line)).toBeNull();
+    });
+
+    it('decodes GS1-128 and finds the GTIN in AI (01)', () => {
+        const line = code128Line([
+            CODE128.startC,
+            CODE128.fnc1,
+            CODE128[1],
+            CODE128[5],
+            CODE128[90],
+            CODE128[12],
+            CODE128[34],
+            CODE128[12],
+            CODE128[34],
+            CODE128[57],
+            CODE128[69],
+            CODE128.stop
+        ]);
+        const decoded = decodeBarcodeLine(line);
+
+        expect(decoded).toMatchObject({ symbology: 'Code128', text: '0105901234123457', gs1: true });
+        expect(barcodeToGTIN(decoded!)).toBe('5901234123457');
+    });
+});
+
+describe('barcodeToGTIN', () => {
+    it('passes EAN-13 text through', () => {
+        expect(barcodeToGTIN({ symbology: 'EAN-13', text: '5901234123457' })).toBe('5901234123457');
+    });
+
+    it('accepts Code 128 payloads that are valid GTINs on their own', () => {
+        expect(barcodeToGTIN({ symbology: 'Code128', text: '5901234123457' })).toBe('5901234123457');
+        expect(barcodeToGTIN({ symbology: 'Code128', text: 'ABC-123' })).toBeNull();
+        expect(barcodeToGTIN({ symbology: 'Code128', text: '5901234123458' })).toBeNull();
+    });
+});
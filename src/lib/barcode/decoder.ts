@@ -0,0 +1,342 @@
+import { hasValidCheckDigit, isValidEAN, toGTINLength } from '@/lib/ean-processor';
+import type { DecodedBarcode } from './types';
+
+/**
+ * Pure-JS 1D barcode decoding (EAN-13/UPC-A and Code 128) over a single line
+ * of greyscale pixels. The line is binarized against a moving average, turned
+ * into alternating bar/space run lengths and matched against the symbology's
+ * module patterns. Both symbologies carry a check digit, which rejects most
+ * misreads, so one clean scanline is enough for a result.
+ */
+
+// Average deviation (in modules) allowed between measured runs and a pattern
+const MAX_AVG_VARIANCE = 0.45;
+
+// EAN "L" digit patterns as space/bar/space/bar module widths. "R" digits use
+// the same widths starting with a bar; "G" digits are the reversed widths.
+const EAN_L_PATTERNS = [
+    [3, 2, 1, 1],
+    [2, 2, 2, 1],
+    [2, 1, 2, 2],
+    [1, 4, 1, 1],
+    [1, 1, 3, 2],
+    [1, 2, 3, 1],
+    [1, 1, 1, 4],
+    [1, 3, 1, 2],
+    [1, 2, 1, 3],
+    [3, 1, 1, 2]
+];
+const EAN_G_PATTERNS = EAN_L_PATTERNS.map((pattern) => [...pattern].reverse());
+
+// L/G parity of the six left-hand digits encodes the first (13th) digit
+const EAN_FIRST_DIGIT_PARITY = [
+    'LLLLLL',
+    'LLGLGG',
+    'LLGGLG',
+    'LLGGGL',
+    'LGLLGG',
+    'LGGLLG',
+    'LGGGLG',
+    'LGLGGL',
+    'LGLGLG',
+    'LGGLGL'
+];
+
+// Start guard, six digits, middle guard, six digits, end guard
+const EAN_RUN_COUNT = 3 + 24 + 5 + 24 + 3;
+
+// Code 128 symbol values 0-106 as bar/space module widths (106 is the stop pattern)
+const CODE128_PATTERNS = [
+    '212222 222122 222221 121223 121322 131222 122213 122312 132212 221213',
+    '221312 231212 112232 122132 122231 113222 123122 123221 223211 221132',
+    '221231 213212 223112 312131 311222 321122 321221 312212 322112 322211',
+    '212123 212321 232121 111323 131123 131321 112313 132113 132311 211313',
+    '231113 231311 112133 112331 132131 113123 113321 133121 313121 211331',
+    '231131 213113 213311 213131 311123 311321 331121 312113 312311 332111',
+    '314111 221411 431111 111224 111422 121124 121421 141122 141221 112214',
+    '112412 122114 122411 142112 142211 241211 221114 413111 241112 134111',
+    '111242 121142 121241 114212 124112 124211 411212 421112 421211 212141',
+    '214121 412121 111143 111341 131141 114113 114311 411113 411311 113141',
+    '114131 311141 411131 211412 211214 211232 2331112'
+]
+    .join(' ')
+    .split(' ')
+    .map((pattern) => Array.from(pattern, Number));
+
+const CODE128_START_A = 103;
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+// Longest symbol sequence we try to read before giving up on a line
+const CODE128_MAX_SYMBOLS = 80;
+
+interface Runs {
+    // Alternating run lengths, starting with a bar
+    widths: number[];
+    // Pixel offset of each run
+    offsets: number[];
+}
+
+/**
+ * Binarizes a line against a moving average and returns its run lengths.
+ * A pixel only counts as dark when it is clearly below the local average, so
+ * noise in flat areas doesn't break up quiet zones.
+ */
+function toRuns(line: ArrayLike<number>): Runs {
+    const length = line.length;
+    const radius = Math.max(8, Math.round(length / 48));
+    const prefix = new Float64Array(length + 1);
+    for (let i = 0; i < length; i++) {
+        prefix[i + 1] = prefix[i] + line[i];
+    }
+
+    const widths: number[] = [];
+    const offsets: number[] = [];
+    let current: boolean | null = null;
+    for (let i = 0; i < length; i++) {
+        const from = Math.max(0, i - radius);
+        const to = Math.min(length, i + radius + 1);
+        const mean = (prefix[to] - prefix[from]) / (to - from);
+        const dark = line[i] < mean - 8;
+
+        if (current === null) {
+            // Skip the light area before the first bar
+            if (!dark) continue;
+            current = true;
+            widths.push(0);
+            offsets.push(i);
+        } else if (dark !== current) {
+            current = dark;
+            widths.push(0);
+            offsets.push(i);
+        }
+        widths[widths.length - 1]++;
+    }
+    return { widths, offsets };
+}
+
+/** Average deviation, in modules, of `count` runs from a pattern spanning `modules` modules */
+function patternVariance(widths: number[], offset: number, pattern: number[], modules: number): number {
+    let total = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        total += widths[offset + i];
+    }
+    const unit = total / modules;
+    let variance = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        variance += Math.abs(widths[offset + i] / unit - pattern[i]);
+    }
+    return variance / pattern.length;
+}
+
+function bestPatternMatch(widths: number[], offset: number, patterns: number[][], modules: number) {
+    let best = -1;
+    let bestVariance = MAX_AVG_VARIANCE;
+    patterns.forEach((pattern, index) => {
+        const variance = patternVariance(widths, offset, pattern, modules);
+        if (variance < bestVariance) {
+            best = index;
+            bestVariance = variance;
+        }
+    });
+    return best === -1 ? null : { index: best, variance: bestVariance };
+}
+
+function quietZone(runs: Runs, index: number): number {
+    return index === 0 ? runs.offsets[0] : runs.widths[index - 1];
+}
+
+function runsEnd(runs: Runs, index: number): number {
+    return runs.offsets[index] + runs.widths[index];
+}
+
+function decodeEAN13At(runs: Runs, start: number): DecodedBarcode | null {
+    const { widths } = runs;
+    if (start + EAN_RUN_COUNT > widths.length) return null;
+    if (patternVariance(widths, start, [1, 1, 1], 3) > MAX_AVG_VARIANCE) return null;
+
+    const moduleWidth = (widths[start] + widths[start + 1] + widths[start + 2]) / 3;
+    if (quietZone(runs, start) < moduleWidth * 3) return null;
+
+    let digits = '';
+    let parity = '';
+    for (let i = 0; i < 6; i++) {
+        const offset = start + 3 + i * 4;
+        const l = bestPatternMatch(widths, offset, EAN_L_PATTERNS, 7);
+        const g = bestPatternMatch(widths, offset, EAN_G_PATTERNS, 7);
+        if (!l && !g) return null;
+        if (l && (!g || l.variance <= g.variance)) {
+            digits += l.index;
+            parity += 'L';
+        } else if (g) {
+            digits += g.index;
+            parity += 'G';
+        }
+    }
+
+    if (patternVariance(widths, start + 27, [1, 1, 1, 1, 1], 5) > MAX_AVG_VARIANCE) return null;
+
+    for (let i = 0; i < 6; i++) {
+        const r = bestPatternMatch(widths, start + 32 + i * 4, EAN_L_PATTERNS, 7);
+        if (!r) return null;
+        digits += r.index;
+    }
+
+    const end = start + EAN_RUN_COUNT - 3;
+    if (patternVariance(widths, end, [1, 1, 1], 3) > MAX_AVG_VARIANCE) return null;
+    // The quiet zone after the end guard is the space following it, if the line goes on
+    if (end + 3 < widths.length && widths[end + 3] < moduleWidth * 3) return null;
+
+    const firstDigit = EAN_FIRST_DIGIT_PARITY.indexOf(parity);
+    if (firstDigit === -1) return null;
+
+    const text = `${firstDigit}${digits}`;
+    if (!hasValidCheckDigit(text)) return null;
+
+    return {
+        symbology: firstDigit === 0 ? 'UPC-A' : 'EAN-13',
+        text,
+        start: runs.offsets[start],
+        end: runsEnd(runs, end + 2)
+    };
+}
+
+function decodeCode128Values(startCode: number, values: number[]): { text: string; gs1: boolean } | null {
+    let codeSet = startCode === CODE128_START_A ? 'A' : startCode === CODE128_START_B ? 'B' : 'C';
+    let text = '';
+    let gs1 = false;
+    let shift = false;
+
+    for (const [index, value] of values.entries()) {
+        const set = shift ? (codeSet === 'A' ? 'B' : 'A') : codeSet;
+        shift = false;
+
+        if (value === 102) {
+            // FNC1: leading marks GS1-128, later ones separate variable-length fields
+            if (index === 0) {
+                gs1 = true;
+            } else {
+                text += '\x1d';
+            }
+        } else if (set === 'C') {
+            if (value < 100) {
+                text += String(value).padStart(2, '0');
+            } else if (value === 100) {
+                codeSet = 'B';
+            } else if (value === 101) {
+                codeSet = 'A';
+            } else {
+                return null;
+            }
+        } else if (value < 96) {
+            if (set === 'A') {
+                text += String.fromCharCode(value < 64 ? value + 32 : value - 64);
+            } else {
+                text += String.fromCharCode(value + 32);
+            }
+        } else if (value === 98) {
+            shift = true;
+        } else if (value === 99) {
+            codeSet = 'C';
+        } else if ((set === 'A' && value === 100) || (set === 'B' && value === 101)) {
+            codeSet = set === 'A' ? 'B' : 'A';
+        }
+        // FNC2-4 (96, 97 and the remaining 100/101) carry no text
+    }
+
+    return { text, gs1 };
+}
+
+function decodeCode128At(runs: Runs, start: number): DecodedBarcode | null {
+    const { widths } = runs;
+    if (start + 6 + 6 + 7 > widths.length) return null;
+
+    const startMatch = bestPatternMatch(
+        widths,
+        start,
+        CODE128_PATTERNS.slice(CODE128_START_A, CODE128_START_C + 1),
+        11
+    );
+    if (!startMatch) return null;
+    const startCode = CODE128_START_A + startMatch.index;
+
+    let startWidth = 0;
+    for (let i = 0; i < 6; i++) startWidth += widths[start + i];
+    if (quietZone(runs, start) < (startWidth / 11) * 5) return null;
+
+    const dataPatterns = CODE128_PATTERNS.slice(0, CODE128_START_A);
+    const values: number[] = [];
+    let offset = start + 6;
+    let stopOffset = -1;
+    while (values.length < CODE128_MAX_SYMBOLS && offset + 7 <= widths.length) {
+        // A data symbol followed by the next bar can pass for the 7-run stop pattern, so it has to fit better
+        const match = offset + 6 <= widths.length ? bestPatternMatch(widths, offset, dataPatterns, 11) : null;
+        const stopVariance = patternVariance(widths, offset, CODE128_PATTERNS[CODE128_STOP], 13);
+        if (stopVariance < MAX_AVG_VARIANCE && (!match || stopVariance < match.variance)) {
+            stopOffset = offset;
+            break;
+        }
+        if (!match) return null;
+        values.push(match.index);
+        offset += 6;
+    }
+    // At least one data symbol plus the check symbol
+    if (stopOffset === -1 || values.length < 2) return null;
+
+    const check = values.pop()!;
+    let sum = startCode;
+    values.forEach((value, index) => {
+        sum += value * (index + 1);
+    });
+    if (sum % 103 !== check) return null;
+
+    const decoded = decodeCode128Values(startCode, values);
+    if (!decoded || !decoded.text) return null;
+
+    return {
+        symbology: 'Code128',
+        text: decoded.text,
+        gs1: decoded.gs1,
+        start: runs.offsets[start],
+        end: runsEnd(runs, stopOffset + 6)
+    };
+}
+
+function decodeRuns(runs: Runs): DecodedBarcode | null {
+    // Even run indices are bars, where every symbol starts
+    for (let i = 0; i < runs.widths.length; i += 2) {
+        const decoded = decodeEAN13At(runs, i) ?? decodeCode128At(runs, i);
+        if (decoded) return decoded;
+    }
+    return null;
+}
+
+/**
+ * Decodes the first EAN-13/UPC-A or Code 128 barcode crossing a line of
+ * greyscale pixels, reading it in both directions
+ */
+export function decodeBarcodeLine(line: ArrayLike<number>): DecodedBarcode | null {
+    const forward = decodeRuns(toRuns(line));
+    if (forward) return forward;
+
+    const reversed = Array.from(line).reverse();
+    const backward = decodeRuns(toRuns(reversed));
+    if (!backward) return null;
+    return { ...backward, start: line.length - backward.end, end: line.length - backward.start };
+}
+
+/**
+ * GTIN carried by a decoded barcode: the EAN-13 itself, GS1-128 application
+ * identifier (01), or a Code 128 payload that is a valid GTIN on its own.
+ * GTIN-14 with a leading zero is shortened to its EAN-13 form.
+ */
+export function barcodeToGTIN(barcode: Pick<DecodedBarcode, 'symbology' | 'text' | 'gs1'>): string | null {
+    if (barcode.symbology !== 'Code128') {
+        return barcode.text;
+    }
+
+    const gs1Match = barcode.gs1 ? barcode.text.match(/^01(\d{14})/) : null;
+    const candidate = gs1Match ? gs1Match[1] : barcode.text;
+    if (!isValidEAN(candidate)) return null;
+    return candidate.length === 14 ? (toGTINLength(candidate, 13) ?? candidate) : candidate;
+}
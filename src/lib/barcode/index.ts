@@ -0,0 +1,3 @@
+export { barcodeToGTIN, decodeBarcodeLine } from './decoder';
+export { createBarcodeCropPreview, scanImageForBarcode } from './scanner';
+export type { BarcodeBox, BarcodeScanResult, BarcodeSymbology, DecodedBarcode } from './types';
@@ -0,0 +1,127 @@
+import sharp from 'sharp';
+import { barcodeToGTIN, decodeBarcodeLine } from './decoder';
+import type { BarcodeBox, BarcodeScanResult, DecodedBarcode } from './types';
+
+// Images are scanned at this size; barcode cards fill enough of the frame to survive it
+const SCAN_MAX_SIZE = 1600;
+// Scanlines per direction, spread evenly across the image
+const SCANLINES = 48;
+const CROP_PREVIEW_WIDTH = 320;
+
+interface LineHit extends DecodedBarcode {
+    // Row (horizontal scan) or column (vertical scan) of the scanline
+    line: number;
+    vertical: boolean;
+}
+
+function readLine(data: Buffer, width: number, channels: number, index: number, vertical: boolean, length: number) {
+    const line = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+        const x = vertical ? index : i;
+        const y = vertical ? i : index;
+        line[i] = data[(y * width + x) * channels];
+    }
+    return line;
+}
+
+function hitsToBox(hits: LineHit[], spacing: number, width: number, height: number): BarcodeBox {
+    const vertical = hits[0].vertical;
+    const alongStart = Math.min(...hits.map((hit) => hit.start));
+    const alongEnd = Math.max(...hits.map((hit) => hit.end));
+    // Pad with the quiet zone along the code and one scanline across it
+    const padAlong = (alongEnd - alongStart) * 0.1;
+    const acrossStart = Math.min(...hits.map((hit) => hit.line)) - spacing;
+    const acrossEnd = Math.max(...hits.map((hit) => hit.line)) + spacing;
+
+    const [x0, x1, y0, y1] = vertical
+        ? [acrossStart, acrossEnd, alongStart - padAlong, alongEnd + padAlong]
+        : [alongStart - padAlong, alongEnd + padAlong, acrossStart, acrossEnd];
+    const left = Math.max(0, Math.floor(x0));
+    const top = Math.max(0, Math.floor(y0));
+    return {
+        left,
+        top,
+        width: Math.max(1, Math.min(width, Math.ceil(x1)) - left),
+        height: Math.max(1, Math.min(height, Math.ceil(y1)) - top)
+    };
+}
+
+/**
+ * Looks for an EAN-13/UPC-A or Code 128 barcode in an image. Horizontal and
+ * vertical scanlines are decoded independently and the barcode read by the
+ * most lines wins. Returns null when nothing decodes.
+ */
+export async function scanImageForBarcode(imageBuffer: Buffer): Promise<BarcodeScanResult | null> {
+    const image = sharp(imageBuffer).rotate();
+    const metadata = await image.metadata();
+    // EXIF orientations 5-8 swap width and height once rotated
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const sourceWidth = (rotated ? metadata.height : metadata.width) ?? 0;
+
+    const { data, info } = await image
+        .greyscale()
+        .resize({ width: SCAN_MAX_SIZE, height: SCAN_MAX_SIZE, fit: 'inside', withoutEnlargement: true })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    const { width, height, channels } = info;
+
+    const hits = new Map<string, LineHit[]>();
+    for (const vertical of [false, true]) {
+        const lines = vertical ? width : height;
+        const length = vertical ? height : width;
+        for (let k = 1; k <= SCANLINES; k++) {
+            const index = Math.round((k * lines) / (SCANLINES + 1));
+            const decoded = decodeBarcodeLine(readLine(data, width, channels, index, vertical, length));
+            if (!decoded) continue;
+
+            // Keep horizontal and vertical hits apart so a box never mixes axes
+            const key = `${vertical ? 'v' : 'h'}:${decoded.symbology}:${decoded.text}`;
+            hits.set(key, [...(hits.get(key) ?? []), { ...decoded, line: index, vertical }]);
+        }
+    }
+
+    const best = Array.from(hits.values()).sort((a, b) => b.length - a.length)[0];
+    if (!best) return null;
+
+    const spacing = (best[0].vertical ? width : height) / (SCANLINES + 1);
+    const box = hitsToBox(best, spacing, width, height);
+    const scale = sourceWidth && width ? sourceWidth / width : 1;
+
+    return {
+        symbology: best[0].symbology,
+        text: best[0].text,
+        gtin: barcodeToGTIN(best[0]),
+        box: {
+            left: Math.round(box.left * scale),
+            top: Math.round(box.top * scale),
+            width: Math.round(box.width * scale),
+            height: Math.round(box.height * scale)
+        },
+        hits: best.length
+    };
+}
+
+/**
+ * Small JPEG of the barcode area for the rename preview
+ */
+export async function createBarcodeCropPreview(imageBuffer: Buffer, box: BarcodeBox): Promise<Buffer> {
+    const image = sharp(imageBuffer).rotate();
+    const { width = 0, height = 0, orientation = 1 } = await image.metadata();
+    const [imageWidth, imageHeight] = orientation >= 5 ? [height, width] : [width, height];
+
+    // Scaling can push the box a pixel past the edge
+    const left = Math.min(box.left, Math.max(0, imageWidth - 1));
+    const top = Math.min(box.top, Math.max(0, imageHeight - 1));
+    const extract = {
+        left,
+        top,
+        width: Math.max(1, Math.min(box.width, imageWidth - left)),
+        height: Math.max(1, Math.min(box.height, imageHeight - top))
+    };
+
+    return image
+        .extract(extract)
+        .resize({ width: CROP_PREVIEW_WIDTH, height: CROP_PREVIEW_WIDTH, fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+}
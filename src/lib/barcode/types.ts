@@ -0,0 +1,30 @@
+export type BarcodeSymbology = 'EAN-13' | 'UPC-A' | 'Code128';
+
+export interface DecodedBarcode {
+    symbology: BarcodeSymbology;
+    // EAN-13 and UPC-A are both reported as the 13-digit EAN-13 form
+    text: string;
+    // Code 128 started with FNC1, i.e. GS1-128 with application identifiers
+    gs1?: boolean;
+    // Pixel offsets along the scanline of the first bar and the end of the last bar
+    start: number;
+    end: number;
+}
+
+export interface BarcodeBox {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface BarcodeScanResult {
+    symbology: BarcodeSymbology;
+    text: string;
+    // GTIN carried by the barcode, if any (Code 128 may hold arbitrary text)
+    gtin: string | null;
+    // Where the barcode was found, in pixels of the EXIF-rotated image
+    box: BarcodeBox;
+    // Number of scanlines that decoded to this barcode
+    hits: number;
+}
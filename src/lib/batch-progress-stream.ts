@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BATCH_PROGRESS_CONTENT_TYPE, type BatchProgressEvent } from '@/lib/batch-progress';
+
+export function wantsBatchProgressStream(request: NextRequest): boolean {
+    return request.headers.get('accept')?.includes(BATCH_PROGRESS_CONTENT_TYPE) ?? false;
+}
+
+/**
+ * Runs a batch and streams its events. `signal` aborts when the client goes
+ * away; `run` should stop starting new files once it has.
+ */
+export function createBatchProgressResponse(
+    request: NextRequest,
+    run: (send: (event: BatchProgressEvent) => void, signal: AbortSignal) => Promise<void>
+): NextResponse {
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false;
+            const send = (event: BatchProgressEvent) => {
+                if (closed || abort.signal.aborted) return;
+                try {
+                    controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+                } catch {
+                    // The client disconnected between the check and the write
+                    closed = true;
+                }
+            };
+
+            try {
+                await run(send, abort.signal);
+            } catch (error) {
+                console.error('Batch progress stream failed:', error);
+                send({ type: 'fatal', error: error instanceof Error ? error.message : 'Unknown error' });
+            } finally {
+                if (!closed) {
+                    closed = true;
+                    try {
+                        controller.close();
+                    } catch {
+                        // Already cancelled by the client
+                    }
+                }
+            }
+        },
+        cancel() {
+            abort.abort();
+        }
+    });
+
+    return new NextResponse(stream, {
+        headers: {
+            'Content-Type': `${BATCH_PROGRESS_CONTENT_TYPE}; charset=utf-8`,
+            'Cache-Control': 'no-cache, no-transform',
+            // Stop proxies such as nginx from buffering the stream
+            'X-Accel-Buffering': 'no'
+        }
+    });
+}
+
+/** Small WebP preview (keeps transparency) for progress events */
+export async function createProgressThumbnail(buffer: Buffer): Promise<string | null> {
+    try {
+        const sharp = (await import('sharp')).default;
+        const thumbnail = await sharp(buffer)
+            .resize(96, 96, { fit: 'inside', withoutEnlargement: true })
+            .webp({ quality: 60 })
+            .toBuffer();
+        return `data:image/webp;base64,${thumbnail.toString('base64')}`;
+    } catch (error) {
+        console.error('Failed to create progress thumbnail:', error);
+        return null;
+    }
+}
@@ -0,0 +1,105 @@
+/**
+ * Live progress for the packshot and mood batch tools. A process request sent
+ * with `Accept: application/x-ndjson` gets one JSON event per line while the
+ * batch runs instead of a single JSON body at the end. Closing the connection
+ * (aborting the fetch) cancels the remaining files. The server side lives in
+ * batch-progress-stream.ts.
+ */
+
+export const BATCH_PROGRESS_CONTENT_TYPE = 'application/x-ndjson';
+
+export interface BatchProgressOutput {
+    key: string;
+    filename: string;
+    size: number;
+    // Small data URL preview of the output
+    thumbnail: string | null;
+}
+
+export type BatchProgressEvent =
+    | { type: 'start'; total: number }
+    | { type: 'file-start'; index: number; filename: string }
+    | {
+          type: 'file-done';
+          index: number;
+          filename: string;
+          outputs: BatchProgressOutput[];
+          // Outputs of this file that failed (e.g. one profile of several)
+          errors: string[];
+      }
+    | { type: 'file-error'; index: number; filename: string; error: string }
+    | { type: 'done'; success: number; failed: number; cancelled: boolean }
+    | { type: 'fatal'; error: string };
+
+/**
+ * Reads an NDJSON progress response, calling `onEvent` for each
+ * event as it arrives. Resolves when the stream ends.
+ */
+export async function readBatchProgress(
+    response: Response,
+    onEvent: (event: BatchProgressEvent) => void
+): Promise<void> {
+    if (!response.body) {
+        throw new Error('Response has no body to stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) onEvent(JSON.parse(line) as BatchProgressEvent);
+        }
+
+        if (done) break;
+    }
+    if (buffered.trim()) onEvent(JSON.parse(buffered) as BatchProgressEvent);
+}
+
+export type BatchFileStatus = 'pending' | 'processing' | 'done' | 'error';
+
+/** One row of the live progress list in the batch editors */
+export interface BatchFileProgress {
+    filename: string;
+    status: BatchFileStatus;
+    thumbnail?: string | null;
+    error?: string;
+}
+
+/**
+ * Applies a progress event to the editor's file list. Rows are matched by
+ * filename since the server's processing order is not the upload order.
+ */
+export function applyBatchProgressEvent(files: BatchFileProgress[], event: BatchProgressEvent): BatchFileProgress[] {
+    if (event.type !== 'file-start' && event.type !== 'file-done' && event.type !== 'file-error') {
+        return files;
+    }
+
+    const index = files.findIndex(
+        (file) =>
+            file.filename === event.filename &&
+            (event.type === 'file-start' ? file.status === 'pending' : file.status === 'processing')
+    );
+    if (index === -1) return files;
+
+    const next = [...files];
+    if (event.type === 'file-start') {
+        next[index] = { ...files[index], status: 'processing' };
+    } else if (event.type === 'file-done') {
+        next[index] = {
+            ...files[index],
+            status: 'done',
+            thumbnail: event.outputs[0]?.thumbnail ?? null,
+            error: event.errors.length ? event.errors.join('; ') : undefined
+        };
+    } else {
+        next[index] = { ...files[index], status: 'error', error: event.error };
+    }
+    return next;
+}
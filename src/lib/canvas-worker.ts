@@ -1,6 +1,7 @@
 /**
  * Web Worker for heavy canvas operations to prevent UI blocking
  */
+import { renderMaskDocument, type MaskDocument } from './mask-document';
 
 interface WorkerMessage {
     type: 'GENERATE_MASK' | 'COMPRESS_IMAGE' | 'RESIZE_IMAGE';
@@ -37,25 +38,11 @@ class CanvasWorker {
         return this.ctx;
     }
 
-    async generateMask(
-        points: Array<{ x: number; y: number; size: number }>,
-        width: number,
-        height: number
-    ): Promise<Blob> {
-        const ctx = this.ensureCanvas(width, height);
-
-        // Clear canvas and set up mask
-        ctx.fillStyle = '#000000';
-        ctx.fillRect(0, 0, width, height);
-        ctx.globalCompositeOperation = 'destination-out';
-
-        // Draw all points
-        points.forEach((point) => {
-            ctx.fillStyle = 'white'; // Will be transparent due to composite operation
-            ctx.beginPath();
-            ctx.arc(point.x, point.y, point.size, 0, Math.PI * 2);
-            ctx.fill();
-        });
+    async generateMask(doc: MaskDocument): Promise<Blob> {
+        const ctx = this.ensureCanvas(doc.width, doc.height);
+
+        // Shapes, invert, grow/shrink and feather
+        await renderMaskDocument(ctx, doc);
 
         // Convert to blob
         const blob = await this.canvas!.convertToBlob({ type: 'image/png' });
@@ -112,11 +99,7 @@ self.onmessage = async (event: MessageEvent) => {
 
         switch (message.type) {
             case 'GENERATE_MASK':
-                result = await canvasWorker.generateMask(
-                    message.payload.points,
-                    message.payload.width,
-                    message.payload.height
-                );
+                result = await canvasWorker.generateMask(message.payload.document);
                 break;
 
             case 'COMPRESS_IMAGE':
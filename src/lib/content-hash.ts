@@ -0,0 +1,11 @@
+/**
+ * SHA-256 of a blob or buffer as lowercase hex, as used for content
+ * addressing in IndexedDB and for chunked uploads. Returns null where Web
+ * Crypto is unavailable (pages served over plain http).
+ */
+export async function sha256Hex(data: Blob | ArrayBuffer): Promise<string | null> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+    const digest = await crypto.subtle.digest('SHA-256', data instanceof Blob ? await data.arrayBuffer() : data);
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
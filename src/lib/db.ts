@@ -1,14 +1,44 @@
 import Dexie, { type EntityTable } from 'dexie';
+import { nanoid } from 'nanoid';
+import type { HistoryMetadata } from '@/app/page';
+import { sha256Hex } from '@/lib/content-hash';
+import {
+    hasImageOnlyFacets,
+    HISTORY_SEARCH_LIMIT,
+    matchesPromptTokens,
+    tokenizePrompt,
+    type HistorySearchQuery,
+    type HistorySearchResult
+} from '@/lib/history-search';
+import type { MaskDocument } from '@/lib/mask-document';
+import { getProjectItemSourceKey, type NewProjectItem, type Project, type ProjectItem } from '@/lib/projects';
 import type { VideoHistoryItem } from '@/types/video';
 
 export interface ImageRecord {
     filename: string;
-    blob: Blob;
+    // Stored in `blobs` since version 4; filled in by getImageBlob/getImagesWithBlobs
+    blob?: Blob;
+    // Key into `blobs`: the SHA-256 of the contents
+    hash?: string;
     timestamp?: number;
     size?: number;
     compressed?: boolean;
 }
 
+/** Image contents, stored once however many images share them */
+export interface BlobRecord {
+    hash: string;
+    blob: Blob;
+    size: number;
+    // Images and project items using this blob; it is deleted when this drops to zero
+    refCount: number;
+    createdAt: number;
+}
+
+// Blobs keyed by something other than a content hash: moved over by the version 4
+// upgrade, or saved where Web Crypto was unavailable. rehashBlobs() re-keys them.
+const PROVISIONAL_HASH_PREFIXES = ['legacy:', 'unhashed:'];
+
 export interface ImageMetadata {
     filename: string;
     timestamp: number;
@@ -29,13 +59,43 @@ export interface VideoRecord {
 
 export interface VideoMetadata extends Omit<VideoHistoryItem, 'localVideoUrl'> {
     locallyStored: boolean;
+    promptTokens?: string[];
+}
+
+/** The mask last saved for an image, keyed by the image's content hash so it follows identical copies */
+export interface MaskRecord {
+    imageHash: string;
+    document: MaskDocument;
+    updatedAt: number;
+}
+
+/** A history entry with the derived fields it is searched by */
+export interface HistoryRecord extends HistoryMetadata {
+    id: string;
+    promptTokens: string[];
+    // 1 when the edit used a mask (booleans can't be indexed)
+    hasMask: 0 | 1;
+}
+
+function toHistoryRecord(entry: HistoryMetadata): HistoryRecord {
+    return {
+        ...entry,
+        id: entry.id ?? nanoid(),
+        promptTokens: tokenizePrompt(entry.prompt || ''),
+        hasMask: entry.lineage?.mask ? 1 : 0
+    };
 }
 
 export class ImageDB extends Dexie {
     images!: EntityTable<ImageRecord, 'filename'>;
+    blobs!: EntityTable<BlobRecord, 'hash'>;
     metadata!: EntityTable<ImageMetadata, 'filename'>;
     videos!: EntityTable<VideoRecord, 'id'>;
     videoMetadata!: EntityTable<VideoMetadata, 'id'>;
+    history!: EntityTable<HistoryRecord, 'id'>;
+    projects!: EntityTable<Project, 'id'>;
+    projectItems!: EntityTable<ProjectItem, 'id'>;
+    masks!: EntityTable<MaskRecord, 'imageHash'>;
 
     constructor() {
         super('ImageDB');
@@ -72,23 +132,156 @@ export class ImageDB extends Dexie {
                 videoMetadata: '&id, taskId, createdAt, status'
             });
 
+        // Version 4: Content-addressed blobs, shared by images with the same contents
+        this.version(4)
+            .stores({
+                images: '&filename, timestamp, size, hash',
+                blobs: '&hash, refCount',
+                metadata: '&filename, timestamp',
+                videos: '&id, taskId, timestamp, locallyStored',
+                videoMetadata: '&id, taskId, createdAt, status'
+            })
+            .upgrade(async (tx) => {
+                // Hashing can't run inside the upgrade transaction, so blobs move over
+                // under a provisional key and are re-keyed by rehashBlobs() after opening
+                const images: ImageRecord[] = await tx.table('images').toArray();
+                for (const record of images) {
+                    if (!record.blob) continue;
+                    const hash = `legacy:${record.filename}`;
+                    await tx.table('blobs').put({
+                        hash,
+                        blob: record.blob,
+                        size: record.blob.size,
+                        refCount: 1,
+                        createdAt: record.timestamp || Date.now()
+                    });
+                    record.hash = hash;
+                    delete record.blob;
+                }
+                await tx.table('images').bulkPut(images);
+            });
+
+        // Version 5: Searchable image history (previously kept in localStorage) and video prompts
+        this.version(5)
+            .stores({
+                images: '&filename, timestamp, size, hash',
+                blobs: '&hash, refCount',
+                metadata: '&filename, timestamp',
+                videos: '&id, taskId, timestamp, locallyStored',
+                videoMetadata: '&id, taskId, createdAt, status, *promptTokens',
+                history:
+                    '&timestamp, *promptTokens, mode, quality, output_format, provider, *tags, templateId, storageModeUsed, hasMask'
+            })
+            .upgrade((tx) => {
+                return tx
+                    .table('videoMetadata')
+                    .toCollection()
+                    .modify((video: VideoMetadata) => {
+                        video.promptTokens = tokenizePrompt(video.promptText || '');
+                    });
+            });
+
+        // Version 6: Projects collecting images, videos, style analyses and processed outputs
+        this.version(6).stores({
+            images: '&filename, timestamp, size, hash',
+            blobs: '&hash, refCount',
+            metadata: '&filename, timestamp',
+            videos: '&id, taskId, timestamp, locallyStored',
+            videoMetadata: '&id, taskId, createdAt, status, *promptTokens',
+            history:
+                '&timestamp, *promptTokens, mode, quality, output_format, provider, *tags, templateId, storageModeUsed, hasMask',
+            projects: '&id, updatedAt',
+            projectItems: '&id, projectId, kind, addedAt, hash'
+        });
+
+        // Version 7: Edit masks saved per image
+        this.version(7).stores({
+            images: '&filename, timestamp, size, hash',
+            blobs: '&hash, refCount',
+            metadata: '&filename, timestamp',
+            videos: '&id, taskId, timestamp, locallyStored',
+            videoMetadata: '&id, taskId, createdAt, status, *promptTokens',
+            history:
+                '&timestamp, *promptTokens, mode, quality, output_format, provider, *tags, templateId, storageModeUsed, hasMask',
+            projects: '&id, updatedAt',
+            projectItems: '&id, projectId, kind, addedAt, hash',
+            masks: '&imageHash, updatedAt'
+        });
+
+        // Version 8: History keyed by id, so entries saved in the same millisecond don't replace each other.
+        // IndexedDB can't change a primary key, so entries move to a new table.
+        this.version(8)
+            .stores({
+                images: '&filename, timestamp, size, hash',
+                blobs: '&hash, refCount',
+                metadata: '&filename, timestamp',
+                videos: '&id, taskId, timestamp, locallyStored',
+                videoMetadata: '&id, taskId, createdAt, status, *promptTokens',
+                history:
+                    '&timestamp, *promptTokens, mode, quality, output_format, provider, *tags, templateId, storageModeUsed, hasMask',
+                historyEntries:
+                    '&id, timestamp, *promptTokens, mode, quality, output_format, provider, *tags, templateId, storageModeUsed, hasMask',
+                projects: '&id, updatedAt',
+                projectItems: '&id, projectId, kind, addedAt, hash',
+                masks: '&imageHash, updatedAt'
+            })
+            .upgrade(async (tx) => {
+                const entries: HistoryMetadata[] = await tx.table('history').toArray();
+                await tx.table('historyEntries').bulkAdd(entries.map(toHistoryRecord));
+            });
+
+        // Version 9: Drop the timestamp-keyed history table
+        this.version(9).stores({
+            images: '&filename, timestamp, size, hash',
+            blobs: '&hash, refCount',
+            metadata: '&filename, timestamp',
+            videos: '&id, taskId, timestamp, locallyStored',
+            videoMetadata: '&id, taskId, createdAt, status, *promptTokens',
+            history: null,
+            historyEntries:
+                '&id, timestamp, *promptTokens, mode, quality, output_format, provider, *tags, templateId, storageModeUsed, hasMask',
+            projects: '&id, updatedAt',
+            projectItems: '&id, projectId, kind, addedAt, hash',
+            masks: '&imageHash, updatedAt'
+        });
+
         this.images = this.table('images');
+        this.blobs = this.table('blobs');
         this.metadata = this.table('metadata');
         this.videos = this.table('videos');
         this.videoMetadata = this.table('videoMetadata');
+        this.history = this.table('historyEntries');
+        this.projects = this.table('projects');
+        this.projectItems = this.table('projectItems');
+        this.masks = this.table('masks');
     }
 
     /**
-     * Add image with automatic metadata
+     * Add image with automatic metadata. Contents that are already stored are
+     * shared instead of stored again.
      */
-    async addImage(filename: string, blob: Blob, dimensions?: { width: number; height: number }): Promise<void> {
+    async addImage(
+        filename: string,
+        blob: Blob,
+        dimensions?: { width: number; height: number }
+    ): Promise<{ hash: string; deduplicated: boolean }> {
         const timestamp = Date.now();
         const size = blob.size;
+        const hash = (await sha256Hex(blob)) ?? `unhashed:${filename}:${timestamp}`;
+        let deduplicated = false;
+
+        await this.transaction('rw', [this.images, this.blobs, this.metadata], async () => {
+            const previous = await this.images.get(filename);
+
+            deduplicated = await this.retainBlob(hash, blob);
+            // Overwriting a filename drops its reference to the old contents
+            if (previous?.hash) {
+                await this.releaseBlob(previous.hash);
+            }
 
-        await this.transaction('rw', [this.images, this.metadata], async () => {
             await this.images.put({
                 filename,
-                blob,
+                hash,
                 timestamp,
                 size,
                 compressed: false
@@ -102,6 +295,102 @@ export class ImageDB extends Dexie {
                 compressed: false
             });
         });
+
+        return { hash, deduplicated };
+    }
+
+    /**
+     * Adds a reference to a blob, storing it if it's new. Returns whether it was
+     * already stored. Call inside a transaction that includes `blobs`.
+     */
+    private async retainBlob(hash: string, blob?: Blob): Promise<boolean> {
+        const existing = await this.blobs.get(hash);
+        if (existing) {
+            await this.blobs.update(hash, { refCount: existing.refCount + 1 });
+            return true;
+        }
+        if (blob) {
+            await this.blobs.add({ hash, blob, size: blob.size, refCount: 1, createdAt: Date.now() });
+        }
+        return false;
+    }
+
+    /**
+     * Drops one reference to a blob, deleting it once nothing uses it.
+     * Call inside a transaction that includes `blobs`.
+     */
+    private async releaseBlob(hash: string): Promise<void> {
+        const record = await this.blobs.get(hash);
+        if (!record) return;
+
+        if (record.refCount > 1) {
+            await this.blobs.update(hash, { refCount: record.refCount - 1 });
+        } else {
+            await this.blobs.delete(hash);
+        }
+    }
+
+    /**
+     * Get an image's contents
+     */
+    async getImageBlob(filename: string): Promise<Blob | undefined> {
+        const record = await this.images.get(filename);
+        if (!record) return undefined;
+        if (record.blob) return record.blob;
+        return record.hash ? (await this.blobs.get(record.hash))?.blob : undefined;
+    }
+
+    /**
+     * All images with their contents filled in
+     */
+    async getImagesWithBlobs(): Promise<ImageRecord[]> {
+        const [images, blobs] = await Promise.all([this.images.toArray(), this.blobs.toArray()]);
+        const blobsByHash = new Map(blobs.map((record) => [record.hash, record.blob]));
+
+        return images.map((record) => ({
+            ...record,
+            blob: record.blob ?? (record.hash ? blobsByHash.get(record.hash) : undefined)
+        }));
+    }
+
+    /**
+     * Images whose contents match any of the given SHA-256 hashes
+     */
+    async findImagesByHashes(hashes: string[]): Promise<ImageRecord[]> {
+        if (hashes.length === 0) return [];
+        return this.images.where('hash').anyOf(hashes).toArray();
+    }
+
+    /**
+     * Re-keys blobs stored under a provisional key by their content hash,
+     * merging any that turn out to be duplicates. Returns how many were re-keyed.
+     */
+    async rehashBlobs(): Promise<number> {
+        const provisional = await this.blobs.where('hash').startsWithAnyOf(PROVISIONAL_HASH_PREFIXES).toArray();
+        let rehashed = 0;
+
+        for (const record of provisional) {
+            const hash = await sha256Hex(record.blob);
+            if (!hash) break;
+
+            await this.transaction('rw', [this.images, this.blobs, this.projectItems], async () => {
+                const current = await this.blobs.get(record.hash);
+                if (!current) return;
+
+                const existing = await this.blobs.get(hash);
+                if (existing) {
+                    await this.blobs.update(hash, { refCount: existing.refCount + current.refCount });
+                } else {
+                    await this.blobs.add({ ...current, hash });
+                }
+                await this.blobs.delete(record.hash);
+                await this.images.where('hash').equals(record.hash).modify({ hash });
+                await this.projectItems.where('hash').equals(record.hash).modify({ hash });
+            });
+            rehashed++;
+        }
+
+        return rehashed;
     }
 
     /**
@@ -116,12 +405,7 @@ export class ImageDB extends Dexie {
             return 0;
         }
 
-        const filenames = oldImages.map((img) => img.filename);
-
-        await this.transaction('rw', [this.images, this.metadata], async () => {
-            await this.images.where('filename').anyOf(filenames).delete();
-            await this.metadata.where('filename').anyOf(filenames).delete();
-        });
+        await this.batchDelete(oldImages.map((img) => img.filename));
 
         return oldImages.length;
     }
@@ -146,7 +430,13 @@ export class ImageDB extends Dexie {
             };
         }
 
-        const totalSize = images.reduce((sum, img) => sum + (img.size || 0), 0);
+        // Bytes actually stored: shared contents count once
+        const blobSizes = new Map<string, number>();
+        await this.blobs.each((record) => {
+            blobSizes.set(record.hash, record.size);
+        });
+        const legacySize = images.reduce((sum, img) => sum + (img.blob ? img.size || 0 : 0), 0);
+        const totalSize = legacySize + Array.from(blobSizes.values()).reduce((sum, size) => sum + size, 0);
         const timestamps = images.map((img) => img.timestamp || 0).filter((t) => t > 0);
 
         return {
@@ -159,17 +449,150 @@ export class ImageDB extends Dexie {
     }
 
     /**
-     * Batch delete with proper cleanup
+     * Batch delete with proper cleanup. Blobs are only removed once no
+     * remaining image uses them.
      */
     async batchDelete(filenames: string[]): Promise<void> {
         if (filenames.length === 0) return;
 
-        await this.transaction('rw', [this.images, this.metadata], async () => {
+        await this.transaction('rw', [this.images, this.blobs, this.metadata], async () => {
+            const records = await this.images.where('filename').anyOf(filenames).toArray();
+            for (const record of records) {
+                if (record.hash) {
+                    await this.releaseBlob(record.hash);
+                }
+            }
             await this.images.where('filename').anyOf(filenames).delete();
             await this.metadata.where('filename').anyOf(filenames).delete();
         });
     }
 
+    /**
+     * Delete every image, and its contents unless a project still holds them
+     */
+    async clearImages(): Promise<void> {
+        await this.transaction('rw', [this.images, this.blobs, this.metadata], async () => {
+            const records = await this.images.toArray();
+            for (const record of records) {
+                if (record.hash) {
+                    await this.releaseBlob(record.hash);
+                }
+            }
+            await this.images.clear();
+            await this.metadata.clear();
+        });
+    }
+
+    /**
+     * Add a history entry, or replace it if it has an id already
+     */
+    async addHistoryEntry(entry: HistoryMetadata): Promise<void> {
+        await this.history.put(toHistoryRecord(entry));
+    }
+
+    /**
+     * Add entries kept elsewhere (e.g. the old localStorage history), keeping existing ones
+     */
+    async importHistory(entries: HistoryMetadata[]): Promise<number> {
+        const existing = new Set(await this.history.orderBy('timestamp').keys());
+        const added = entries.filter((entry) => entry?.timestamp && !existing.has(entry.timestamp));
+        await this.history.bulkPut(added.map(toHistoryRecord));
+        return added.length;
+    }
+
+    /**
+     * All history entries, newest first
+     */
+    async getHistory(): Promise<HistoryRecord[]> {
+        return this.history.orderBy('timestamp').reverse().toArray();
+    }
+
+    async deleteHistoryEntry(entry: HistoryMetadata): Promise<void> {
+        if (entry.id) {
+            await this.history.delete(entry.id);
+        } else {
+            await this.history.where('timestamp').equals(entry.timestamp).delete();
+        }
+    }
+
+    async clearHistory(): Promise<void> {
+        await this.history.clear();
+    }
+
+    /**
+     * Templates used by history entries, for the template facet
+     */
+    async getHistoryTemplateIds(): Promise<string[]> {
+        return (await this.history.orderBy('templateId').uniqueKeys()).map(String);
+    }
+
+    /**
+     * Searches image and video history, newest first. The most selective index
+     * for the query narrows the scan; the remaining conditions are checked per record.
+     */
+    async searchHistory(
+        query: HistorySearchQuery,
+        limit: number = HISTORY_SEARCH_LIMIT
+    ): Promise<{ results: HistorySearchResult[]; total: number }> {
+        const tokens = tokenizePrompt(query.text || '');
+        const from = query.from ?? 0;
+        const to = query.to ?? Number.MAX_SAFE_INTEGER;
+        const kind = query.kind ?? 'all';
+
+        let images: HistoryRecord[] = [];
+        if (kind !== 'videos') {
+            const collection =
+                tokens.length > 0
+                    ? this.history.where('promptTokens').startsWith(tokens[0]).distinct()
+                    : query.mode
+                      ? this.history.where('mode').equals(query.mode)
+                      : query.templateId
+                        ? this.history.where('templateId').equals(query.templateId)
+                        : query.hasMask !== undefined
+                          ? this.history.where('hasMask').equals(query.hasMask ? 1 : 0)
+                          : this.history.where('timestamp').between(from, to, true, true);
+
+            images = await collection
+                .and(
+                    (record) =>
+                        record.timestamp >= from &&
+                        record.timestamp <= to &&
+                        (!query.mode || record.mode === query.mode) &&
+                        (!query.templateId || record.templateId === query.templateId) &&
+                        (query.hasMask === undefined || record.hasMask === (query.hasMask ? 1 : 0)) &&
+                        (!query.storageMode || (record.storageModeUsed || 'fs') === query.storageMode) &&
+                        matchesPromptTokens(record.promptTokens, tokens)
+                )
+                .toArray();
+        }
+
+        let videos: VideoMetadata[] = [];
+        if (kind !== 'images' && !hasImageOnlyFacets(query)) {
+            const collection =
+                tokens.length > 0
+                    ? this.videoMetadata.where('promptTokens').startsWith(tokens[0]).distinct()
+                    : this.videoMetadata.toCollection();
+
+            videos = await collection
+                .and((video) => {
+                    const createdAt = Date.parse(video.createdAt);
+                    return (
+                        createdAt >= from &&
+                        createdAt <= to &&
+                        matchesPromptTokens(video.promptTokens ?? tokenizePrompt(video.promptText || ''), tokens)
+                    );
+                })
+                .toArray();
+        }
+
+        const results: HistorySearchResult[] = [
+            ...images.map((item) => ({ kind: 'image' as const, timestamp: item.timestamp, item })),
+            ...videos.map((video) => ({ kind: 'video' as const, timestamp: Date.parse(video.createdAt), video }))
+        ].sort((a, b) => b.timestamp - a.timestamp);
+
+        return { results: results.slice(0, limit), total: results.length };
+    }
+
     /**
      * Add video with metadata
      */
@@ -190,7 +613,8 @@ export class ImageDB extends Dexie {
 
             await this.videoMetadata.put({
                 ...videoData,
-                locallyStored
+                locallyStored,
+                promptTokens: tokenizePrompt(videoData.promptText || '')
             });
         });
     }
@@ -287,6 +711,143 @@ export class ImageDB extends Dexie {
         });
     }
 
+    /**
+     * Create a project
+     */
+    async createProject(name: string, description?: string): Promise<Project> {
+        const now = Date.now();
+        const project: Project = { id: nanoid(), name, description, createdAt: now, updatedAt: now, defaults: {} };
+        await this.projects.add(project);
+        return project;
+    }
+
+    /**
+     * Rename a project or change its description or defaults
+     */
+    async updateProject(id: string, changes: Partial<Pick<Project, 'name' | 'description' | 'defaults'>>): Promise<void> {
+        await this.projects.update(id, { ...changes, updatedAt: Date.now() });
+    }
+
+    /**
+     * Delete a project and its items, releasing the contents it kept
+     */
+    async deleteProject(id: string): Promise<void> {
+        await this.transaction('rw', [this.projects, this.projectItems, this.blobs], async () => {
+            const items = await this.projectItems.where('projectId').equals(id).toArray();
+            for (const item of items) {
+                if (item.hash) {
+                    await this.releaseBlob(item.hash);
+                }
+            }
+            await this.projectItems.where('projectId').equals(id).delete();
+            await this.projects.delete(id);
+        });
+    }
+
+    /**
+     * All projects, most recently changed first
+     */
+    async getProjects(): Promise<Project[]> {
+        return this.projects.orderBy('updatedAt').reverse().toArray();
+    }
+
+    /**
+     * A project's items in the order they were added
+     */
+    async getProjectItems(projectId: string): Promise<ProjectItem[]> {
+        const items = await this.projectItems.where('projectId').equals(projectId).toArray();
+        return items.sort((a, b) => a.addedAt - b.addedAt);
+    }
+
+    /**
+     * Add items to a project, skipping ones it already has. Images stored in
+     * IndexedDB and processed outputs are kept until the item is removed, even
+     * if the history entry is deleted. Returns how many were added.
+     */
+    async addProjectItems(projectId: string, items: NewProjectItem[]): Promise<number> {
+        // Hashing can't run inside a transaction
+        const hashes = await Promise.all(
+            items.map(async (item) =>
+                item.kind === 'processed'
+                    ? ((await sha256Hex(item.blob)) ?? `unhashed:${item.filename}:${Date.now()}`)
+                    : undefined
+            )
+        );
+        let added = 0;
+
+        await this.transaction('rw', [this.projects, this.projectItems, this.images, this.blobs], async () => {
+            const existing = await this.projectItems.where('projectId').equals(projectId).toArray();
+            const sourceKeys = new Set(existing.map((item) => getProjectItemSourceKey(item, item.hash)));
+            const addedAt = Date.now();
+
+            for (const [index, newItem] of items.entries()) {
+                let hash = hashes[index];
+                const sourceKey = getProjectItemSourceKey(newItem, hash);
+                if (sourceKey && sourceKeys.has(sourceKey)) continue;
+
+                if (newItem.kind === 'processed') {
+                    const { blob, ...rest } = newItem;
+                    await this.retainBlob(hash!, blob);
+                    await this.projectItems.add({ ...rest, id: nanoid(), projectId, addedAt: addedAt + index, hash });
+                } else {
+                    if (newItem.kind === 'image' && newItem.storageModeUsed === 'indexeddb') {
+                        hash = (await this.images.get(newItem.filename))?.hash;
+                        if (hash) {
+                            await this.retainBlob(hash);
+                        }
+                    }
+                    await this.projectItems.add({ ...newItem, id: nanoid(), projectId, addedAt: addedAt + index, hash });
+                }
+
+                if (sourceKey) sourceKeys.add(sourceKey);
+                added++;
+            }
+
+            if (added > 0) {
+                await this.projects.update(projectId, { updatedAt: addedAt });
+            }
+        });
+
+        return added;
+    }
+
+    /**
+     * Remove an item from its project
+     */
+    async removeProjectItem(id: string): Promise<void> {
+        await this.transaction('rw', [this.projects, this.projectItems, this.blobs], async () => {
+            const item = await this.projectItems.get(id);
+            if (!item) return;
+            if (item.hash) {
+                await this.releaseBlob(item.hash);
+            }
+            await this.projectItems.delete(id);
+            await this.projects.update(item.projectId, { updatedAt: Date.now() });
+        });
+    }
+
+    /**
+     * Contents kept in the blob store, by hash
+     */
+    async getBlob(hash: string): Promise<Blob | undefined> {
+        return (await this.blobs.get(hash))?.blob;
+    }
+
+    /**
+     * Saves the mask for an image, replacing any earlier one
+     */
+    async saveMask(imageHash: string, document: MaskDocument): Promise<void> {
+        await this.masks.put({ imageHash, document, updatedAt: Date.now() });
+    }
+
+    async getMask(imageHash: string): Promise<MaskRecord | undefined> {
+        return this.masks.get(imageHash);
+    }
+
+    async deleteMask(imageHash: string): Promise<void> {
+        await this.masks.delete(imageHash);
+    }
+
     /**
      * Get combined storage stats
      */
@@ -342,6 +903,7 @@ if (typeof window !== 'undefined') {
                 db.cleanupOldImages(),
                 db.cleanupOldVideos()
             ]);
+            await db.rehashBlobs();
             
             if (deletedImages > 0) {
                 console.log(`Cleaned up ${deletedImages} old images from IndexedDB`);
@@ -0,0 +1,126 @@
+import {
+    calculateCheckDigit,
+    detectGTINKind,
+    ean13ToUPC,
+    extractEANFromFilename,
+    hasValidCheckDigit,
+    isValidEAN,
+    parseGTIN,
+    toGTINLength,
+    upcToEAN13
+} from './ean-processor';
+import { describe, expect, it } from 'vitest';
+
+describe('calculateCheckDigit', () => {
+    it('computes the GS1 check digit for every GTIN length', () => {
+        expect(calculateCheckDigit('590123412345')).toBe(7); // GTIN-13
+        expect(calculateCheckDigit('03600029145')).toBe(2); // GTIN-12 (UPC-A)
+        expect(calculateCheckDigit('9638507')).toBe(4); // GTIN-8
+        expect(calculateCheckDigit('1003600029145')).toBe(9); // GTIN-14
+    });
+
+    it('gives the same digit with or without leading zeros', () => {
+        expect(calculateCheckDigit('003600029145')).toBe(calculateCheckDigit('03600029145'));
+    });
+});
+
+describe('hasValidCheckDigit', () => {
+    it('accepts correct codes and rejects a wrong last digit', () => {
+        expect(hasValidCheckDigit('5901234123457')).toBe(true);
+        expect(hasValidCheckDigit('5901234123458')).toBe(false);
+    });
+
+    it('rejects anything that is not at least two digits', () => {
+        expect(hasValidCheckDigit('7')).toBe(false);
+        expect(hasValidCheckDigit('59012341234a7')).toBe(false);
+        expect(hasValidCheckDigit('')).toBe(false);
+    });
+});
+
+describe('GTIN length conversion', () => {
+    it('pads and drops leading zeros', () => {
+        expect(toGTINLength('036000291452', 13)).toBe('0036000291452');
+        expect(toGTINLength('0036000291452', 12)).toBe('036000291452');
+        expect(toGTINLength('036000291452', 14)).toBe('00036000291452');
+    });
+
+    it('refuses to drop significant digits', () => {
+        expect(toGTINLength('5901234123457', 12)).toBeNull();
+        expect(toGTINLength('123456789012345', 14)).toBeNull();
+    });
+
+    it('converts between UPC-A and EAN-13', () => {
+        expect(upcToEAN13('036000291452')).toBe('0036000291452');
+        expect(ean13ToUPC('0036000291452')).toBe('036000291452');
+        expect(ean13ToUPC('5901234123457')).toBeNull();
+        expect(upcToEAN13('5901234123457')).toBeNull();
+    });
+});
+
+describe('parseGTIN', () => {
+    it('reports format, kind and check digit', () => {
+        expect(parseGTIN('5901234123457')).toEqual({
+            gtin: '5901234123457',
+            format: 'GTIN-13',
+            kind: 'product',
+            checkDigitValid: true
+        });
+        expect(parseGTIN(' 036000291452 ')?.format).toBe('GTIN-12');
+        expect(parseGTIN('96385074')?.format).toBe('GTIN-8');
+        expect(parseGTIN('5901234123458')?.checkDigitValid).toBe(false);
+    });
+
+    it('returns null for lengths that are not GTIN lengths', () => {
+        expect(parseGTIN('12345')).toBeNull();
+        expect(parseGTIN('12345678901')).toBeNull();
+        expect(parseGTIN('abc')).toBeNull();
+    });
+
+    it('only treats codes with a valid check digit as valid EANs', () => {
+        expect(isValidEAN('5901234123457')).toBe(true);
+        expect(isValidEAN('5901234123458')).toBe(false);
+        expect(isValidEAN('12345')).toBe(false);
+    });
+});
+
+describe('detectGTINKind', () => {
+    it('classifies bookland, music and serial prefixes', () => {
+        expect(detectGTINKind('9780306406157')).toBe('isbn');
+        expect(detectGTINKind('9791234567896')).toBe('isbn');
+        expect(detectGTINKind('9790230671187')).toBe('ismn');
+        expect(detectGTINKind('9771234567003')).toBe('issn');
+        expect(detectGTINKind('5901234123457')).toBe('product');
+    });
+
+    it('looks through the leading zero of a GTIN-14', () => {
+        expect(detectGTINKind('09780306406157')).toBe('isbn');
+    });
+});
+
+describe('extractEANFromFilename', () => {
+    it('reads EAN-only and EAN-number names', () => {
+        expect(extractEANFromFilename('5901234123457.jpg')).toMatchObject({
+            ean: '5901234123457',
+            format: 'ean_only'
+        });
+        expect(extractEANFromFilename('5901234123457-2.png')).toMatchObject({
+            ean: '5901234123457',
+            number: '2',
+            format: 'hyphen'
+        });
+    });
+
+    it('keeps long codes with a bad check digit so they can be flagged', () => {
+        expect(extractEANFromFilename('5901234123458.jpg')?.gtin.checkDigitValid).toBe(false);
+    });
+
+    it('ignores 8-digit names unless they are valid GTIN-8 codes', () => {
+        expect(extractEANFromFilename('20240131.jpg')).toBeNull();
+        expect(extractEANFromFilename('96385074.jpg')?.gtin.format).toBe('GTIN-8');
+    });
+
+    it('ignores names that are not codes', () => {
+        expect(extractEANFromFilename('IMG_1234.jpg')).toBeNull();
+        expect(extractEANFromFilename('5901234123457 copy.jpg')).toBeNull();
+    });
+});
@@ -10,86 +10,230 @@ export function removeLeadingZeros(ean: string): string {
     return ean.replace(/^0+/, '') || '0'; // Keep at least one zero if all zeros
 }
 
+export type GTINFormat = 'GTIN-8' | 'GTIN-12' | 'GTIN-13' | 'GTIN-14';
+
+/**
+ * What a GTIN-13 prefix says the code is. Bookland (978/979) codes are ISBNs,
+ * except 979-0 which is reserved for ISMN (printed music); 977 is ISSN.
+ */
+export type GTINKind = 'product' | 'isbn' | 'ismn' | 'issn';
+
+export interface GTINInfo {
+    gtin: string;
+    format: GTINFormat;
+    kind: GTINKind;
+    checkDigitValid: boolean;
+}
+
+const GTIN_FORMATS: Record<number, GTINFormat> = {
+    8: 'GTIN-8',
+    12: 'GTIN-12',
+    13: 'GTIN-13',
+    14: 'GTIN-14'
+};
+
 /**
- * Validates if a string is a valid EAN (12 or 13 digits)
+ * Calculates the GS1 Mod-10 check digit for the digits before it.
+ * Weights alternate 3,1,3,... starting from the rightmost digit, so the same
+ * function covers every GTIN length.
+ */
+export function calculateCheckDigit(digits: string): number {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        const digit = digits.charCodeAt(digits.length - 1 - i) - 48;
+        sum += i % 2 === 0 ? digit * 3 : digit;
+    }
+    return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks the last digit of a GTIN against its Mod-10 check digit
+ */
+export function hasValidCheckDigit(code: string): boolean {
+    if (!/^\d{2,}$/.test(code)) return false;
+    return calculateCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Converts a GTIN to another length. GTINs are right-aligned in a 14-digit
+ * field, so leading zeros can be added or dropped without changing the check
+ * digit. Returns null when the code doesn't fit (e.g. an EAN-13 that doesn't
+ * start with 0 has no UPC-A form).
+ * Example: toGTINLength("036000291452", 13) -> "0036000291452"
+ */
+export function toGTINLength(code: string, length: 8 | 12 | 13 | 14): string | null {
+    if (!/^\d+$/.test(code) || code.length > 14) return null;
+    const padded = code.padStart(14, '0');
+    const dropped = padded.slice(0, 14 - length);
+    return /^0*$/.test(dropped) ? padded.slice(14 - length) : null;
+}
+
+/**
+ * Converts a UPC-A (GTIN-12) code to EAN-13 by adding a leading zero
+ */
+export function upcToEAN13(upc: string): string | null {
+    return upc.length === 12 ? toGTINLength(upc, 13) : null;
+}
+
+/**
+ * Converts an EAN-13 starting with 0 to its UPC-A form
+ */
+export function ean13ToUPC(ean: string): string | null {
+    return ean.length === 13 ? toGTINLength(ean, 12) : null;
+}
+
+/**
+ * Classifies a GTIN by its GS1 prefix (ISBN, ISMN, ISSN or a regular product)
+ */
+export function detectGTINKind(code: string): GTINKind {
+    const gtin13 = code.length === 14 ? toGTINLength(code, 13) : code;
+    if (!gtin13 || gtin13.length !== 13) return 'product';
+    if (gtin13.startsWith('9790')) return 'ismn';
+    if (gtin13.startsWith('978') || gtin13.startsWith('979')) return 'isbn';
+    if (gtin13.startsWith('977')) return 'issn';
+    return 'product';
+}
+
+/**
+ * Parses a GTIN-8/12/13/14 code. Returns null when the length isn't a GTIN
+ * length; check digit failures are reported through `checkDigitValid` so
+ * callers can tell a mistyped barcode from something that isn't one.
+ */
+export function parseGTIN(value: string): GTINInfo | null {
+    const gtin = value.trim();
+    if (!/^\d+$/.test(gtin) || !GTIN_FORMATS[gtin.length]) return null;
+    return {
+        gtin,
+        format: GTIN_FORMATS[gtin.length],
+        kind: detectGTINKind(gtin),
+        checkDigitValid: hasValidCheckDigit(gtin)
+    };
+}
+
+/**
+ * Validates if a string is a valid GTIN-8/12/13/14 with a correct check digit
  */
 export function isValidEAN(value: string): boolean {
-    return /^\d{12,13}$/.test(value);
+    return parseGTIN(value)?.checkDigitValid ?? false;
+}
+
+/**
+ * How GTIN-12/13 codes are written in new filenames: as found, always as
+ * EAN-13, or as UPC-A where possible
+ */
+export type GTINOutputFormat = 'keep' | 'ean13' | 'upca';
+
+export function isGTINOutputFormat(value: unknown): value is GTINOutputFormat {
+    return value === 'keep' || value === 'ean13' || value === 'upca';
+}
+
+function formatGTIN(ean: string, options: { gtinFormat?: GTINOutputFormat; removeLeadingZeros?: boolean }): string {
+    let formatted = ean;
+    // GTIN-8 and GTIN-14 are left alone; they're different symbols, not padded UPC/EAN codes
+    const convertible = ean.length === 12 || ean.length === 13;
+    if (convertible && options.gtinFormat === 'ean13') {
+        formatted = toGTINLength(ean, 13) ?? ean;
+    } else if (convertible && options.gtinFormat === 'upca') {
+        formatted = toGTINLength(ean, 12) ?? ean;
+    }
+    return options.removeLeadingZeros ? removeLeadingZeros(formatted) : formatted;
 }
 
 /**
  * Extracts EAN from filename using pattern matching
  * Returns null if no valid EAN found
+ *
+ * GTIN-12/13/14 lengths are always picked up, even with a bad check digit, so
+ * the preview can flag them. 8-digit names are only treated as GTIN-8 when the
+ * check digit is valid, since dates and SKUs often have 8 digits too.
  */
 export function extractEANFromFilename(filename: string): {
     ean: string;
     number?: string;
     format: 'hyphen' | 'ean_only' | null;
+    gtin: GTINInfo;
 } | null {
     // Remove extension for analysis
     const lastDotIndex = filename.lastIndexOf('.');
     const namePart = lastDotIndex > -1 ? filename.substring(0, lastDotIndex) : filename;
     
-    // Check hyphen format: EAN-NUMBER (like 0630870296793-1)
-    const hyphenMatch = namePart.match(/^(\d{12,13})-(\d+)$/);
-    if (hyphenMatch) {
-        return {
-            ean: hyphenMatch[1],
-            number: hyphenMatch[2],
-            format: 'hyphen'
-        };
+    // Check hyphen format: EAN-NUMBER (like 0630870296793-1), otherwise EAN-only (like 0843251198986)
+    const match = namePart.match(/^(\d{8}|\d{12,14})(?:-(\d+))?$/);
+    if (!match) {
+        return null;
     }
     
-    // Check EAN-only format: just EAN (like 0843251198986)
-    const eanOnlyMatch = namePart.match(/^(\d{12,13})$/);
-    if (eanOnlyMatch) {
+    const gtin = parseGTIN(match[1]);
+    if (!gtin || (gtin.format === 'GTIN-8' && !gtin.checkDigitValid)) {
+        return null;
+    }
+    
+    if (match[2] !== undefined) {
         return {
-            ean: eanOnlyMatch[1],
-            format: 'ean_only'
+            ean: match[1],
+            number: match[2],
+            format: 'hyphen',
+            gtin
         };
     }
     
-    return null;
+    return {
+        ean: match[1],
+        format: 'ean_only',
+        gtin
+    };
 }
 
 /**
- * Processes a list of filenames for EAN renaming
- * Returns preview data for each file
+ * Preview status of a file. `invalid_check_digit` means a GTIN was found but
+ * its check digit is wrong; those files keep their name so the bad code never
+ * makes it into the PIM. `barcode_card` marks a photographed barcode card that
+ * starts a product group.
  */
-export function processFilesForPreview(
-    filenames: string[],
-    options: {
-        removeLeadingZeros?: boolean;
-        aiResults?: Array<{ ean: string | null; confidence: number }>;
-    } = {}
-): Array<{
+export type EANPreviewStatus = 'will_rename' | 'keep_original' | 'invalid_check_digit' | 'barcode_card';
+
+export interface EANPreviewOptions {
+    removeLeadingZeros?: boolean;
+    gtinFormat?: GTINOutputFormat;
+    aiResults?: Array<{ ean: string | null; confidence: number }>;
+}
+
+export interface EANPreviewResult {
     originalName: string;
     newName: string;
     ean: string | null;
-    status: 'will_rename' | 'keep_original';
-    extractionMethod: 'pattern' | 'ai';
+    status: EANPreviewStatus;
+    extractionMethod: 'pattern' | 'ai' | 'barcode';
     confidence?: number;
-}> {
-    const results: Array<{
-        originalName: string;
-        newName: string;
-        ean: string | null;
-        status: 'will_rename' | 'keep_original';
-        extractionMethod: 'pattern' | 'ai';
-        confidence?: number;
-    }> = [];
+    gtinFormat?: GTINFormat;
+    gtinKind?: GTINKind;
+}
+
+/**
+ * Processes a list of filenames for EAN renaming
+ * Returns preview data for each file
+ */
+export function processFilesForPreview(filenames: string[], options: EANPreviewOptions = {}): EANPreviewResult[] {
+    const results: EANPreviewResult[] = [];
     
     const eanCountMap = new Map<string, number>();
     
     filenames.forEach((filename, index) => {
         const extraction = extractEANFromFilename(filename);
         
-        if (extraction) {
+        if (extraction && !extraction.gtin.checkDigitValid) {
+            results.push({
+                originalName: filename,
+                newName: filename,
+                ean: extraction.ean,
+                status: 'invalid_check_digit',
+                extractionMethod: 'pattern',
+                gtinFormat: extraction.gtin.format,
+                gtinKind: extraction.gtin.kind
+            });
+        } else if (extraction) {
             // Pattern-based extraction
-            let ean = extraction.ean;
-            if (options.removeLeadingZeros) {
-                ean = removeLeadingZeros(ean);
-            }
+            const ean = formatGTIN(extraction.ean, options);
             
             // Track EAN for sequential numbering
             if (extraction.format === 'hyphen' && extraction.number) {
@@ -112,16 +256,27 @@ export function processFilesForPreview(
                 newName,
                 ean,
                 status: newName !== filename ? 'will_rename' : 'keep_original',
-                extractionMethod: 'pattern'
+                extractionMethod: 'pattern',
+                gtinFormat: extraction.gtin.format,
+                gtinKind: extraction.gtin.kind
             });
         } else if (options.aiResults && options.aiResults[index]) {
             // AI-based extraction
             const aiResult = options.aiResults[index];
-            if (aiResult.ean && aiResult.confidence > 0.5) {
-                let ean = aiResult.ean;
-                if (options.removeLeadingZeros) {
-                    ean = removeLeadingZeros(ean);
-                }
+            const gtin = aiResult.ean ? parseGTIN(aiResult.ean) : null;
+            if (gtin && !gtin.checkDigitValid) {
+                results.push({
+                    originalName: filename,
+                    newName: filename,
+                    ean: gtin.gtin,
+                    status: 'invalid_check_digit',
+                    extractionMethod: 'ai',
+                    confidence: aiResult.confidence,
+                    gtinFormat: gtin.format,
+                    gtinKind: gtin.kind
+                });
+            } else if (gtin && aiResult.confidence > 0.5) {
+                const ean = formatGTIN(gtin.gtin, options);
                 
                 // Generate sequential number for this EAN
                 const count = eanCountMap.get(ean) || 0;
@@ -137,7 +292,9 @@ export function processFilesForPreview(
                     ean,
                     status: 'will_rename',
                     extractionMethod: 'ai',
-                    confidence: aiResult.confidence
+                    confidence: aiResult.confidence,
+                    gtinFormat: gtin.format,
+                    gtinKind: gtin.kind
                 });
             } else {
                 // No valid AI result
@@ -165,21 +322,95 @@ export function processFilesForPreview(
     return results;
 }
 
+/**
+ * How decoded barcodes name files: `card_sequence` treats an image with a
+ * barcode as a card that starts a product group, so every following image is
+ * named `<EAN>-1..n` until the next card; `per_image` names each image after
+ * the barcode in it and falls back to the filename.
+ */
+export type BarcodeSequenceMode = 'card_sequence' | 'per_image';
+
+export function isBarcodeSequenceMode(value: unknown): value is BarcodeSequenceMode {
+    return value === 'card_sequence' || value === 'per_image';
+}
+
+/**
+ * Builds the rename preview from barcodes decoded in the images, in upload order
+ */
+export function processBarcodeScansForPreview(
+    scans: Array<{ filename: string; gtin: string | null }>,
+    options: Omit<EANPreviewOptions, 'aiResults'> & { mode: BarcodeSequenceMode }
+): EANPreviewResult[] {
+    const fallback = options.mode === 'per_image' ? processFilesForPreview(scans.map(scan => scan.filename), options) : [];
+    const eanCountMap = new Map<string, number>();
+    let currentEAN: string | null = null;
+    
+    // Continue after numbers already taken by files named EAN-NUMBER
+    for (const result of fallback) {
+        const number = result.ean ? result.newName.match(/-(\d+)\.[^.]+$/) : null;
+        if (result.ean && number) {
+            eanCountMap.set(result.ean, Math.max(eanCountMap.get(result.ean) || 0, parseInt(number[1])));
+        }
+    }
+    
+    return scans.map((scan, index): EANPreviewResult => {
+        const gtin = scan.gtin ? parseGTIN(scan.gtin) : null;
+        const extension = scan.filename.substring(scan.filename.lastIndexOf('.'));
+        
+        if (options.mode === 'card_sequence' && gtin) {
+            // The card itself keeps its name; it only sets the EAN for what follows
+            currentEAN = formatGTIN(gtin.gtin, options);
+            return {
+                originalName: scan.filename,
+                newName: scan.filename,
+                ean: currentEAN,
+                status: 'barcode_card',
+                extractionMethod: 'barcode',
+                gtinFormat: gtin.format,
+                gtinKind: gtin.kind
+            };
+        }
+        
+        const ean = options.mode === 'card_sequence' ? currentEAN : gtin ? formatGTIN(gtin.gtin, options) : null;
+        if (!ean) {
+            return fallback[index] ?? {
+                originalName: scan.filename,
+                newName: scan.filename,
+                ean: null,
+                status: 'keep_original',
+                extractionMethod: 'barcode'
+            };
+        }
+        
+        // Generate sequential number for this EAN
+        const number = (eanCountMap.get(ean) || 0) + 1;
+        eanCountMap.set(ean, number);
+        
+        return {
+            originalName: scan.filename,
+            newName: `${ean}-${number}${extension}`,
+            ean,
+            status: 'will_rename',
+            extractionMethod: 'barcode',
+            gtinFormat: gtin?.format,
+            gtinKind: gtin?.kind
+        };
+    });
+}
+
 /**
  * Processes uploaded files and renames them based on EAN
  * Returns a map of original filename to new filename
  */
 export function processFilesForRename(
     files: Array<{ originalName: string; buffer: Buffer }>,
-    options: {
-        removeLeadingZeros?: boolean;
-        aiResults?: Array<{ ean: string | null; confidence: number }>;
-    } = {}
+    options: EANPreviewOptions = {}
 ): Array<{
     originalName: string;
     newName: string;
     buffer: Buffer;
     ean: string | null;
+    status: EANPreviewStatus;
     success: boolean;
 }> {
     const filenames = files.map(f => f.originalName);
@@ -192,6 +423,7 @@ export function processFilesForRename(
             newName: preview.newName,
             buffer: file.buffer,
             ean: preview.ean,
+            status: preview.status,
             success: preview.status === 'will_rename'
         };
     });
@@ -0,0 +1,59 @@
+import type { HistoryMetadata } from '@/app/page';
+import type { VideoHistoryItem } from '@/types/video';
+
+/**
+ * Search over the image and video history. Prompts are split into lowercase
+ * word tokens kept in a multi-entry index, and every word of the search text
+ * must prefix one of them, so "flask" finds "flasker". Facets narrow the
+ * results further; the image-only ones leave videos out.
+ */
+
+export interface HistorySearchQuery {
+    text?: string;
+    // Inclusive timestamp range
+    from?: number;
+    to?: number;
+    mode?: HistoryMetadata['mode'];
+    templateId?: string;
+    hasMask?: boolean;
+    storageMode?: 'fs' | 'indexeddb';
+    kind?: 'all' | 'images' | 'videos';
+}
+
+export type HistorySearchResult =
+    | { kind: 'image'; timestamp: number; item: HistoryMetadata }
+    | { kind: 'video'; timestamp: number; video: VideoHistoryItem };
+
+// Most results rendered at once
+export const HISTORY_SEARCH_LIMIT = 200;
+
+export function tokenizePrompt(text: string): string[] {
+    const tokens = text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((token) => token.length > 1);
+    return Array.from(new Set(tokens));
+}
+
+export function matchesPromptTokens(promptTokens: string[], searchTokens: string[]): boolean {
+    return searchTokens.every((searchToken) => promptTokens.some((token) => token.startsWith(searchToken)));
+}
+
+export function hasImageOnlyFacets(query: HistorySearchQuery): boolean {
+    return (
+        query.mode !== undefined ||
+        query.templateId !== undefined ||
+        query.hasMask !== undefined ||
+        query.storageMode !== undefined
+    );
+}
+
+export function isEmptyHistoryQuery(query: HistorySearchQuery): boolean {
+    return (
+        !query.text?.trim() &&
+        query.from === undefined &&
+        query.to === undefined &&
+        (query.kind ?? 'all') === 'all' &&
+        !hasImageOnlyFacets(query)
+    );
+}
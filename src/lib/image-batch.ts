@@ -0,0 +1,166 @@
+import archiver from 'archiver';
+import type { Job, JobStatus, JobStore } from '@/lib/job-store';
+import { getStorage } from '@/lib/storage';
+
+/**
+ * Batch generation from a product feed: one image job per feed row. The
+ * manifest records which row became which job; job status and results are
+ * read back from the job store when the batch is polled or downloaded.
+ */
+
+export interface ImageBatchRow {
+    // 1-based row number in the feed (excluding the header)
+    row: number;
+    ean: string | null;
+    prompt: string;
+    mode: 'generate' | 'edit' | null;
+    // Uploaded files used as edit input
+    sourceImages: string[];
+    jobId: string | null;
+    // Set when the row was not queued
+    skipped?: string;
+}
+
+export interface ImageBatchManifest {
+    id: string;
+    createdAt: number;
+    template: string;
+    rows: ImageBatchRow[];
+}
+
+export type ImageBatchRowStatus = JobStatus | 'skipped' | 'missing';
+
+export interface ImageBatchOutput {
+    name: string;
+    // Where the job stored the image; absent in IndexedDB mode
+    path?: string;
+    b64_json?: string;
+}
+
+export interface ImageBatchRowState extends ImageBatchRow {
+    status: ImageBatchRowStatus;
+    progress: number;
+    error?: string;
+    outputs: ImageBatchOutput[];
+}
+
+export interface ImageBatchState {
+    id: string;
+    createdAt: number;
+    template: string;
+    done: boolean;
+    counts: Record<ImageBatchRowStatus, number>;
+    rows: ImageBatchRowState[];
+}
+
+/**
+ * Joins the manifest with the current job records. Outputs are named
+ * `<EAN>-<n>.png`, numbered per EAN in feed order so rows sharing an EAN
+ * don't overwrite each other.
+ */
+export async function getImageBatchState(manifest: ImageBatchManifest, store: JobStore): Promise<ImageBatchState> {
+    const jobs = await Promise.all(
+        manifest.rows.map((row) => (row.jobId ? store.get(row.jobId) : Promise.resolve(null)))
+    );
+
+    const sequence = new Map<string, number>();
+    const counts: Record<ImageBatchRowStatus, number> = {
+        queued: 0,
+        running: 0,
+        completed: 0,
+        failed: 0,
+        cancelled: 0,
+        skipped: 0,
+        missing: 0
+    };
+
+    const rows = manifest.rows.map((row, index): ImageBatchRowState => {
+        const job: Job | null = jobs[index];
+        // Jobs expire after a day and are lost on restart in IndexedDB mode
+        const status: ImageBatchRowStatus = row.skipped ? 'skipped' : job ? job.status : 'missing';
+        counts[status]++;
+
+        const outputs = (job?.status === 'completed' ? (job.result?.images ?? []) : []).map((image) => {
+            const baseName = row.ean ?? `row-${row.row}`;
+            const n = (sequence.get(baseName) ?? 0) + 1;
+            sequence.set(baseName, n);
+            return { name: `${baseName}-${n}.png`, path: image.path, b64_json: image.b64_json };
+        });
+
+        return {
+            ...row,
+            status,
+            progress: job?.progress ?? (status === 'skipped' ? 0 : 100),
+            error: row.skipped ?? job?.error,
+            outputs
+        };
+    });
+
+    return {
+        id: manifest.id,
+        createdAt: manifest.createdAt,
+        template: manifest.template,
+        done: counts.queued === 0 && counts.running === 0,
+        counts,
+        rows
+    };
+}
+
+/** ZIP of all finished images plus a manifest.json of row → output files and status */
+export async function createImageBatchArchive(state: ImageBatchState): Promise<Buffer> {
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const chunks: Buffer[] = [];
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const ended = new Promise<void>((resolve, reject) => {
+        archive.on('end', () => resolve());
+        archive.on('error', reject);
+    });
+
+    const manifestRows = [];
+    for (const row of state.rows) {
+        const files: string[] = [];
+        for (const output of row.outputs) {
+            let data: Buffer | null = null;
+            if (output.b64_json) {
+                data = Buffer.from(output.b64_json, 'base64');
+            } else if (output.path) {
+                const stored = await getStorage().get(decodeURIComponent(output.path.replace(/^\/api\/image\//, '')));
+                data = stored?.data ?? null;
+            }
+
+            if (data) {
+                archive.append(data, { name: output.name });
+                files.push(output.name);
+            }
+        }
+
+        manifestRows.push({
+            row: row.row,
+            ean: row.ean,
+            prompt: row.prompt,
+            sourceImages: row.sourceImages,
+            status: row.status,
+            error: row.error ?? null,
+            files
+        });
+    }
+
+    archive.append(
+        JSON.stringify(
+            {
+                batchId: state.id,
+                createdAt: new Date(state.createdAt).toISOString(),
+                template: state.template,
+                counts: state.counts,
+                rows: manifestRows
+            },
+            null,
+            2
+        ),
+        { name: 'manifest.json' }
+    );
+
+    await archive.finalize();
+    await ended;
+    return Buffer.concat(chunks);
+}
@@ -0,0 +1,41 @@
+import { isHeicBuffer } from './image-conversion';
+import { describe, expect, it } from 'vitest';
+
+// A leading ftyp box with the given major and compatible brands
+function ftypBox(majorBrand: string, compatibleBrands: string[] = []): Buffer {
+    const box = Buffer.alloc(16 + compatibleBrands.length * 4);
+    box.writeUInt32BE(box.length, 0);
+    box.write('ftyp', 4, 'latin1');
+    box.write(majorBrand, 8, 'latin1');
+    compatibleBrands.forEach((brand, index) => box.write(brand, 16 + index * 4, 'latin1'));
+    return box;
+}
+
+describe('isHeicBuffer', () => {
+    it('recognises HEIC by its major brand', () => {
+        expect(isHeicBuffer(ftypBox('heic'))).toBe(true);
+        expect(isHeicBuffer(ftypBox('heix'))).toBe(true);
+    });
+
+    it('recognises HEIC listed as a compatible brand', () => {
+        expect(isHeicBuffer(ftypBox('mif1', ['mif1', 'heic']))).toBe(true);
+    });
+
+    it('does not mistake AVIF for HEIC', () => {
+        expect(isHeicBuffer(ftypBox('avif', ['avif', 'mif1', 'miaf']))).toBe(false);
+    });
+
+    it('ignores brands past the end of the ftyp box', () => {
+        const box = ftypBox('mif1', ['mif1']);
+        const trailing = Buffer.from('heic', 'latin1');
+        expect(isHeicBuffer(Buffer.concat([box, trailing]))).toBe(false);
+    });
+
+    it('rejects other files and short buffers', () => {
+        expect(
+            isHeicBuffer(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0, 0, 0, 0, 0]))
+        ).toBe(false);
+        expect(isHeicBuffer(Buffer.from('ftyp', 'latin1'))).toBe(false);
+        expect(isHeicBuffer(Buffer.alloc(0))).toBe(false);
+    });
+});
@@ -0,0 +1,240 @@
+import sharp from 'sharp';
+
+/**
+ * Format conversion for the Konverter tool. Besides the output format this
+ * decides what happens to colour and metadata: images are turned upright from
+ * their EXIF orientation, converted to sRGB (or keep their own ICC profile, e.g.
+ * Adobe RGB from a camera), and keep or lose their EXIF/XMP metadata.
+ */
+
+export const CONVERT_FORMATS = ['jpg', 'png', 'webp', 'avif', 'jxl', 'gif', 'tiff', 'bmp'] as const;
+export type ConvertFormat = (typeof CONVERT_FORMATS)[number];
+
+// 'srgb' converts the colours to sRGB and embeds an sRGB profile; 'keep' leaves
+// the pixels in the input's colour space and embeds its profile
+export type ColorProfileMode = 'srgb' | 'keep';
+export type MetadataMode = 'strip' | 'keep';
+
+export interface ConvertOptions {
+    format: ConvertFormat;
+    // 1-100; used by the lossy formats
+    quality: number;
+    colorProfile: ColorProfileMode;
+    metadata: MetadataMode;
+    autoRotate: boolean;
+    // Scale down to this width; smaller images are never enlarged
+    width?: number;
+}
+
+export interface ConvertResult {
+    buffer: Buffer;
+    format: ConvertFormat;
+    contentType: string;
+    width: number;
+    height: number;
+    inputFormat: string;
+    // Whether the input carried an ICC profile
+    inputHasIccProfile: boolean;
+}
+
+export interface ConversionCapabilities {
+    outputFormats: ConvertFormat[];
+    // HEIC needs a libvips built with libheif and an HEVC decoder; the prebuilt sharp binaries only read AVIF
+    heicInput: boolean;
+}
+
+export class ConversionError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number = 400
+    ) {
+        super(message);
+        this.name = 'ConversionError';
+    }
+}
+
+export const CONVERT_CONTENT_TYPES: Record<ConvertFormat, string> = {
+    jpg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    jxl: 'image/jxl',
+    gif: 'image/gif',
+    tiff: 'image/tiff',
+    bmp: 'image/bmp'
+};
+
+// ISO-BMFF brands of HEVC-coded HEIF files (iPhone photos are 'heic')
+const HEIC_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs']);
+
+export function isConvertFormat(value: string): value is ConvertFormat {
+    return (CONVERT_FORMATS as readonly string[]).includes(value);
+}
+
+export function getConversionCapabilities(): ConversionCapabilities {
+    return {
+        outputFormats: CONVERT_FORMATS.filter((format) => format !== 'jxl' || sharp.format.jxl.output.buffer),
+        heicInput: sharp.format.heif.input.fileSuffix?.includes('.heic') ?? false
+    };
+}
+
+/**
+ * Whether the buffer is an HEVC-coded HEIF file, judged by the brands in its
+ * leading ftyp box. AVIF shares the container but has its own brands.
+ */
+export function isHeicBuffer(buffer: Buffer): boolean {
+    if (buffer.length < 16 || buffer.toString('latin1', 4, 8) !== 'ftyp') {
+        return false;
+    }
+    const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+    // Major brand at 8, minor version at 12, compatible brands from 16
+    const brands = [buffer.toString('latin1', 8, 12)];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+        brands.push(buffer.toString('latin1', offset, offset + 4));
+    }
+    return brands.some((brand) => HEIC_BRANDS.has(brand));
+}
+
+/**
+ * Uncompressed 24-bit BMP, which libvips can't write. Transparency is
+ * flattened onto white since few BMP readers understand an alpha channel.
+ */
+async function encodeBmp(pipeline: sharp.Sharp): Promise<Buffer> {
+    const { data, info } = await pipeline
+        .flatten({ background: '#ffffff' })
+        .toColourspace('srgb')
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    const { width, height } = info;
+    const rowSize = Math.ceil((width * 3) / 4) * 4;
+    const headerSize = 14 + 40;
+    const bmp = Buffer.alloc(headerSize + rowSize * height);
+
+    bmp.write('BM', 0, 'latin1');
+    bmp.writeUInt32LE(bmp.length, 2);
+    bmp.writeUInt32LE(headerSize, 10);
+    bmp.writeUInt32LE(40, 14);
+    bmp.writeInt32LE(width, 18);
+    bmp.writeInt32LE(height, 22);
+    bmp.writeUInt16LE(1, 26);
+    bmp.writeUInt16LE(24, 28);
+    bmp.writeUInt32LE(rowSize * height, 34);
+    // 72 dpi
+    bmp.writeInt32LE(2835, 38);
+    bmp.writeInt32LE(2835, 42);
+
+    // Rows are stored bottom-up, pixels as BGR
+    for (let y = 0; y < height; y++) {
+        const rowOffset = headerSize + (height - 1 - y) * rowSize;
+        for (let x = 0; x < width; x++) {
+            const source = (y * width + x) * info.channels;
+            const target = rowOffset + x * 3;
+            bmp[target] = data[source + 2];
+            bmp[target + 1] = data[source + 1];
+            bmp[target + 2] = data[source];
+        }
+    }
+    return bmp;
+}
+
+/**
+ * Reads the header of an uploaded image, with a clear error for HEIC files the
+ * server can't decode and for files that aren't images at all
+ */
+export async function readImageMetadata(input: Buffer): Promise<sharp.Metadata> {
+    const heic = isHeicBuffer(input);
+    if (heic && !getConversionCapabilities().heicInput) {
+        throw new ConversionError(
+            'HEIC/HEIF-billeder (f.eks. fra iPhone) kan ikke læses, fordi serverens libvips er bygget uden HEVC-understøttelse. ' +
+                'Eksportér billedet som JPEG, eller vælg "Mest kompatible" under Kamera > Formater på iPhone.',
+            415
+        );
+    }
+
+    try {
+        return await sharp(input).metadata();
+    } catch (error) {
+        throw new ConversionError(
+            heic
+                ? 'HEIC-billedet kunne ikke afkodes: ' + (error instanceof Error ? error.message : 'ukendt fejl')
+                : 'Filen er ikke et billedformat, der kan læses',
+            415
+        );
+    }
+}
+
+export async function convertImage(input: Buffer, options: ConvertOptions): Promise<ConvertResult> {
+    const { format, quality, colorProfile, metadata, autoRotate, width } = options;
+
+    if (!getConversionCapabilities().outputFormats.includes(format)) {
+        throw new ConversionError(`${format.toUpperCase()} understøttes ikke af serverens billedbibliotek`);
+    }
+
+    const inputMetadata = await readImageMetadata(input);
+
+    let pipeline = sharp(input);
+    if (autoRotate) {
+        pipeline = pipeline.rotate();
+    }
+    if (width) {
+        pipeline = pipeline.resize({ width, withoutEnlargement: true });
+    }
+
+    if (format === 'bmp') {
+        const buffer = await encodeBmp(pipeline);
+        return {
+            buffer,
+            format,
+            contentType: CONVERT_CONTENT_TYPES[format],
+            width: buffer.readInt32LE(18),
+            height: buffer.readInt32LE(22),
+            inputFormat: inputMetadata.format ?? 'ukendt',
+            inputHasIccProfile: Boolean(inputMetadata.icc)
+        };
+    }
+
+    if (colorProfile === 'keep' && inputMetadata.icc) {
+        pipeline = pipeline.keepIccProfile();
+    } else {
+        pipeline = pipeline.withIccProfile('srgb');
+    }
+    if (metadata === 'keep') {
+        // Orientation is reset to 1 by sharp when the image was rotated upright
+        pipeline = pipeline.keepExif().keepXmp();
+    }
+
+    switch (format) {
+        case 'jpg':
+            pipeline = pipeline.jpeg({ quality });
+            break;
+        case 'png':
+            pipeline = pipeline.png();
+            break;
+        case 'webp':
+            pipeline = pipeline.webp({ quality });
+            break;
+        case 'avif':
+            pipeline = pipeline.avif({ quality });
+            break;
+        case 'jxl':
+            pipeline = pipeline.jxl({ quality });
+            break;
+        case 'gif':
+            pipeline = pipeline.gif();
+            break;
+        case 'tiff':
+            pipeline = pipeline.tiff();
+            break;
+    }
+
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    return {
+        buffer: data,
+        format,
+        contentType: CONVERT_CONTENT_TYPES[format],
+        width: info.width,
+        height: info.height,
+        inputFormat: inputMetadata.format ?? 'ukendt',
+        inputHasIccProfile: Boolean(inputMetadata.icc)
+    };
+}
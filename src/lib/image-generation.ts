@@ -0,0 +1,269 @@
+import { lookup } from 'mime-types';
+import { getImageProvider, type ImageProvider, type ImageProviderResult } from '@/lib/image-providers';
+import type { JobContext } from '@/lib/job-queue';
+import type { JobKind, JobResult, JobResultImage } from '@/lib/job-store';
+import { logger } from '@/lib/logger';
+import { getStorage, putContentAddressed } from '@/lib/storage';
+import {
+    describeBudgetExceeded,
+    describeImageUsage,
+    getBudgetStatus,
+    recordUsage,
+    type UsageContext,
+    type UsageOperation
+} from '@/lib/usage';
+
+/**
+ * Server-side image generation/edit logic used by the image job worker
+ */
+
+// Define valid output formats for type safety
+const VALID_OUTPUT_FORMATS = ['png', 'jpeg', 'webp'] as const;
+type ValidOutputFormat = (typeof VALID_OUTPUT_FORMATS)[number];
+
+// Validate and normalize output format
+function validateOutputFormat(format: unknown): ValidOutputFormat {
+    const normalized = String(format || 'png').toLowerCase();
+
+    // Handle jpg -> jpeg normalization
+    const mapped = normalized === 'jpg' ? 'jpeg' : normalized;
+
+    if (VALID_OUTPUT_FORMATS.includes(mapped as ValidOutputFormat)) {
+        return mapped as ValidOutputFormat;
+    }
+
+    return 'png'; // default fallback
+}
+
+export function getServerStorageMode(): 'fs' | 'indexeddb' {
+    const explicitMode = process.env.NEXT_PUBLIC_IMAGE_STORAGE_MODE;
+    const isOnVercel = process.env.VERCEL === '1';
+
+    if (explicitMode === 'fs') {
+        return 'fs';
+    } else if (explicitMode === 'indexeddb') {
+        return 'indexeddb';
+    } else if (isOnVercel) {
+        return 'indexeddb';
+    }
+    return 'fs';
+}
+
+export type ImageJobMode = 'generate' | 'edit' | 'variations';
+
+export const IMAGE_JOB_KINDS: Record<ImageJobMode, JobKind> = {
+    generate: 'image-generate',
+    edit: 'image-edit',
+    variations: 'image-variation'
+};
+
+export interface ImageJobInput {
+    mode: ImageJobMode;
+    provider: ImageProvider;
+    model: string;
+    prompt: string;
+    n: number;
+    size: string;
+    quality: string;
+    output_format: string | null;
+    output_compression: number | null;
+    background: string;
+    moderation: string;
+    imageFiles: File[];
+    maskFile: File | null;
+    // Who the provider call is billed to; set by the route
+    usage?: UsageContext;
+}
+
+const USAGE_OPERATIONS: Record<ImageJobMode, UsageOperation> = {
+    generate: 'image-generate',
+    edit: 'image-edit',
+    variations: 'image-variation'
+};
+
+/**
+ * Reads and validates the /api/images form fields into a job input.
+ * Returns an error message instead when required fields are missing or the
+ * requested provider/model cannot be used.
+ */
+export function parseImageJobInput(
+    formData: FormData
+): { input: ImageJobInput } | { error: string; status?: number } {
+    const mode = formData.get('mode') as ImageJobMode | null;
+    // Variations are driven by the source image alone
+    const prompt = (formData.get('prompt') as string | null) || (mode === 'variations' ? '' : null);
+
+    if (!mode || prompt === null) {
+        return { error: 'Missing required parameters: mode and prompt' };
+    }
+    if (mode !== 'generate' && mode !== 'edit' && mode !== 'variations') {
+        return { error: 'Invalid mode specified' };
+    }
+
+    const providerId = formData.get('provider') as string | null;
+    const provider = getImageProvider(providerId);
+    if (!provider) {
+        return { error: `Unknown image provider: ${providerId}` };
+    }
+    if (!provider.isConfigured()) {
+        console.error(`Image provider '${provider.id}' is not configured.`);
+        return { error: 'Server configuration error: API key not found.', status: 500 };
+    }
+
+    const model = (formData.get('model') as string | null) || provider.defaultModel;
+    if (!provider.models.includes(model)) {
+        return { error: `Model '${model}' is not supported by provider '${provider.id}'.` };
+    }
+
+    const n = parseInt((formData.get('n') as string) || '1', 10);
+    const output_compression_str = formData.get('output_compression') as string | null;
+    const compression = output_compression_str ? parseInt(output_compression_str, 10) : NaN;
+
+    const imageFiles: File[] = [];
+    for (const [key, value] of formData.entries()) {
+        if (key.startsWith('image_') && value instanceof File) {
+            imageFiles.push(value);
+        }
+    }
+
+    if (mode === 'edit' && imageFiles.length === 0) {
+        return { error: 'No image file provided for editing.' };
+    }
+    if (mode === 'variations' && imageFiles.length !== 1) {
+        return { error: 'Variations require exactly one source image.' };
+    }
+
+    return {
+        input: {
+            mode,
+            provider,
+            model,
+            prompt,
+            n: Math.max(1, Math.min(n || 1, 10)),
+            size: (formData.get('size') as string) || (mode === 'generate' ? '1024x1024' : 'auto'),
+            quality: (formData.get('quality') as string) || 'auto',
+            output_format: formData.get('output_format') as string | null,
+            output_compression: !isNaN(compression) && compression >= 0 && compression <= 100 ? compression : null,
+            background: (formData.get('background') as string) || 'auto',
+            moderation: (formData.get('moderation') as string) || 'auto',
+            imageFiles,
+            maskFile: formData.get('mask') as File | null
+        }
+    };
+}
+
+/**
+ * Dispatches the request to the selected provider and stores the resulting
+ * images according to the storage mode
+ */
+export async function runImageJob(
+    input: ImageJobInput,
+    context: JobContext
+): Promise<JobResult> {
+    const effectiveStorageMode = getServerStorageMode();
+    logger.log(`Effective Image Storage Mode: ${effectiveStorageMode}`);
+
+    const { provider, model } = input;
+    const output_format = validateOutputFormat(input.output_format);
+    const options = { signal: context.signal };
+    let result: ImageProviderResult;
+
+    // The budget was checked when the job was queued, but queued jobs (a batch especially)
+    // can use it up before this one starts
+    if (input.usage) {
+        const budget = await getBudgetStatus(input.usage.userId);
+        if (budget.exceeded) {
+            throw new Error(describeBudgetExceeded(budget));
+        }
+    }
+
+    await context.reportProgress(10);
+
+    if (input.mode === 'generate') {
+        result = await provider.generate(
+            {
+                model,
+                prompt: input.prompt,
+                n: input.n,
+                size: input.size,
+                quality: input.quality,
+                output_format,
+                output_compression: input.output_compression,
+                background: input.background,
+                moderation: input.moderation
+            },
+            options
+        );
+    } else if (input.mode === 'variations') {
+        result = await provider.variations(
+            { model, image: input.imageFiles[0], n: input.n, size: input.size, output_format },
+            options
+        );
+    } else {
+        const editRequest = {
+            model,
+            prompt: input.prompt,
+            images: input.imageFiles,
+            n: input.n,
+            size: input.size,
+            quality: input.quality,
+            output_format
+        };
+        result = input.maskFile
+            ? await provider.maskEdit({ ...editRequest, mask: input.maskFile }, options)
+            : await provider.edit(editRequest, options);
+    }
+
+    console.log(`Image provider '${provider.id}' (${result.model}) call successful.`);
+
+    const measurement = describeImageUsage({
+        provider: provider.id,
+        model: result.model,
+        imageCount: result.images.length,
+        size: input.size,
+        quality: input.quality,
+        usage: result.usage
+    });
+    if (input.usage) {
+        await recordUsage(input.usage, {
+            provider: provider.id,
+            model: result.model,
+            operation: USAGE_OPERATIONS[input.mode],
+            ...measurement
+        });
+    }
+    await context.reportProgress(90);
+
+    const fileExtension = result.output_format || output_format;
+    const savedImagesData = await Promise.all(
+        result.images.map(async (imageData, index) => {
+            const buffer = Buffer.from(imageData.b64_json, 'base64');
+            // The job id keeps names unique when several jobs finish in the same millisecond
+            const timestamp = Date.now();
+            const filename = `${timestamp}-${context.jobId}-${index}.${fileExtension}`;
+
+            const imageResult: JobResultImage = {
+                filename: filename,
+                output_format: fileExtension
+            };
+
+            if (effectiveStorageMode === 'fs') {
+                // Stored under the content hash; identical outputs share one object
+                imageResult.filename = await putContentAddressed(getStorage(), buffer, fileExtension, {
+                    contentType: lookup(filename) || undefined
+                });
+                console.log(`Successfully saved image: ${imageResult.filename}`);
+                imageResult.path = `/api/image/${imageResult.filename}`;
+            } else {
+                // IndexedDB mode: the client stores the image, so hand back the data
+                imageResult.b64_json = imageData.b64_json;
+            }
+
+            return imageResult;
+        })
+    );
+
+    console.log(`All images processed. Mode: ${effectiveStorageMode}`);
+
+    return { images: savedImagesData, provider: provider.id, model: result.model, costUsd: measurement.costUsd };
+}
@@ -1,218 +1,423 @@
 import sharp from 'sharp';
-import axios from 'axios';
-import FormData from 'form-data';
+import type { BackgroundRemover } from '@/lib/background-removal';
+import {
+    DEFAULT_PACKSHOT_PROFILE,
+    formatPackshotFilename,
+    frameSizeProfile,
+    getPackshotCanvasSize,
+    resolvePackshotEffects,
+    type PackshotContactShadow,
+    type PackshotDropShadow,
+    type PackshotEffects,
+    type PackshotProfile,
+    type PackshotReflection
+} from '@/lib/packshot-profiles';
+import type { UsageContext } from '@/lib/usage';
 
-const TARGET_SIZE = 800; // Target frame size (square)
+export interface PackshotResult {
+    buffer: Buffer;
+    filename: string;
+    // Profile the output was rendered with; unset when the image failed before rendering
+    profileId?: string;
+    sourceFilename: string;
+    error?: string;
+}
 
 /**
- * Remove background using remove.bg API
- * @param imageBuffer - Input image as buffer
- * @param apiKey - Remove.bg API key
- * @returns Image with transparent background
+ * Crop away the uniform (or transparent) margin around the product so the
+ * profile's fill percentage applies to the product itself
  */
-export async function removeBackground(
-    imageBuffer: Buffer, 
-    apiKey: string,
-    originalFilename: string = 'unknown_file'
-): Promise<Buffer> {
-    console.log(`[IMG_PROC_BG_REMOVE_START] Attempting background removal for: ${originalFilename}`);
-    
+async function trimToProduct(imageBuffer: Buffer): Promise<Buffer> {
     try {
-        // Get image metadata to check size before API call
-        const metadata = await sharp(imageBuffer).metadata();
-        const { width, height } = metadata;
-        const megapixels = (width! * height!) / 1000000;
-
-        const MAX_MEGAPIXELS_API = 50; // Max megapixels for remove.bg API
-
-        if (megapixels > MAX_MEGAPIXELS_API) {
-            console.warn(`[IMG_PROC_BG_PRE_SCALE] Image ${originalFilename} (${megapixels.toFixed(2)} MP) exceeds ${MAX_MEGAPIXELS_API} MP. Pre-scaling.`);
-            const scaleRatio = Math.sqrt(MAX_MEGAPIXELS_API / megapixels);
-            const newWidth = Math.floor(width! * scaleRatio);
-            const newHeight = Math.floor(height! * scaleRatio);
-            
-            imageBuffer = await sharp(imageBuffer)
-                .resize(newWidth, newHeight, { 
-                    fit: 'inside', 
-                    withoutEnlargement: false 
-                })
-                .toBuffer();
+        return await sharp(imageBuffer).rotate().ensureAlpha().trim({ threshold: 10 }).png().toBuffer();
+    } catch {
+        // trim() fails on images that are one flat colour; use them as they are
+        return sharp(imageBuffer).rotate().ensureAlpha().png().toBuffer();
+    }
+}
+
+/**
+ * Shadow cast by the product: its silhouette, darkened, shifted and blurred
+ */
+async function renderDropShadow(
+    productLayer: Buffer,
+    width: number,
+    height: number,
+    shadow: PackshotDropShadow
+): Promise<Buffer> {
+    const distance = (height * shadow.distance) / 100;
+    const offsetX = Math.round(Math.cos((shadow.angle * Math.PI) / 180) * distance);
+    const offsetY = Math.round(Math.sin((shadow.angle * Math.PI) / 180) * distance);
+    const sigma = (height * shadow.blur) / 100;
+
+    const silhouette = await sharp(productLayer).extractChannel(3).linear(shadow.opacity, 0).png().toBuffer();
+
+    // Shift by padding one side and cropping the other
+    const extended = await sharp(silhouette)
+        .extend({
+            top: Math.max(offsetY, 0),
+            bottom: Math.max(-offsetY, 0),
+            left: Math.max(offsetX, 0),
+            right: Math.max(-offsetX, 0),
+            background: { r: 0, g: 0, b: 0 }
+        })
+        .png()
+        .toBuffer();
+    let alpha = sharp(extended).extract({
+        left: Math.max(-offsetX, 0),
+        top: Math.max(-offsetY, 0),
+        width,
+        height
+    });
+    if (sigma >= 0.3) {
+        alpha = sharp(await alpha.png().toBuffer()).blur(sigma);
+    }
+    const alphaChannel = await alpha.extractChannel(0).raw().toBuffer();
+
+    return sharp({ create: { width, height, channels: 3, background: { r: 0, g: 0, b: 0 } } })
+        .joinChannel(alphaChannel, { raw: { width, height, channels: 1 } })
+        .png()
+        .toBuffer();
+}
+
+/**
+ * Contact shadow: the product's silhouette squashed flat, blurred and centred
+ * on the line the product stands on
+ */
+async function renderContactShadow(
+    product: Buffer,
+    placement: { left: number; top: number; width: number; height: number },
+    canvas: { width: number; height: number },
+    shadow: PackshotContactShadow
+): Promise<Buffer> {
+    const shadowHeight = Math.max(2, Math.round((placement.height * shadow.height) / 100));
+    const alphaChannel = await sharp(product)
+        .resize(placement.width, shadowHeight, { fit: 'fill' })
+        .extractChannel(3)
+        .linear(shadow.opacity, 0)
+        .raw()
+        .toBuffer();
+    const silhouette = await sharp({
+        create: { width: placement.width, height: shadowHeight, channels: 3, background: { r: 0, g: 0, b: 0 } }
+    })
+        .joinChannel(alphaChannel, { raw: { width: placement.width, height: shadowHeight, channels: 1 } })
+        .png()
+        .toBuffer();
+
+    const layer = sharp({
+        create: { width: canvas.width, height: canvas.height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } }
+    }).composite([
+        {
+            input: silhouette,
+            left: placement.left,
+            top: placement.top + placement.height - Math.round(shadowHeight / 2)
         }
+    ]);
 
-        const formData = new FormData();
-        formData.append('size', 'preview');
-        formData.append('image_file', imageBuffer, 'image.png');
-
-        const response = await axios({
-            method: 'post',
-            url: 'https://api.remove.bg/v1.0/removebg',
-            data: formData,
-            headers: {
-                ...formData.getHeaders(),
-                'X-Api-Key': apiKey,
-            },
-            responseType: 'arraybuffer',
-            timeout: 30000, // 30 second timeout
-            maxContentLength: 50 * 1024 * 1024, // 50MB max
-            maxBodyLength: 50 * 1024 * 1024, // 50MB max
-        });
-
-        console.log(`[IMG_PROC_BG_REMOVE_SUCCESS] Background removed successfully for ${originalFilename}`);
-        return Buffer.from(response.data);
-
-    } catch (error: any) {
-        let errorMessage = error.message;
-        if (error.response && error.response.data) {
-            try {
-                const errorText = Buffer.from(error.response.data).toString('utf-8');
-                const errorJson = JSON.parse(errorText);
-                errorMessage = `Status: ${error.response.status}, Details: ${JSON.stringify(errorJson)}`;
-            } catch (e) {
-                // Not JSON, use raw string
-                errorMessage = `Status: ${error.response.status}, Data: ${error.response.data}`;
-            }
+    const sigma = (placement.width * shadow.blur) / 100;
+    return sigma >= 0.3
+        ? sharp(await layer.png().toBuffer())
+              .blur(sigma)
+              .png()
+              .toBuffer()
+        : layer.png().toBuffer();
+}
+
+/**
+ * Floor reflection: the product flipped upside down under itself, fading from
+ * `opacity` to nothing over the reflection's height
+ */
+async function renderReflection(
+    product: Buffer,
+    placement: { left: number; top: number; width: number; height: number },
+    canvas: { width: number; height: number },
+    reflection: PackshotReflection
+): Promise<Buffer> {
+    const reflectionHeight = Math.max(1, Math.round((placement.height * reflection.height) / 100));
+    const { data, info } = await sharp(product)
+        .resize(placement.width, placement.height, { fit: 'fill' })
+        .flip()
+        .extract({ left: 0, top: 0, width: placement.width, height: Math.min(reflectionHeight, placement.height) })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    // Fade the alpha channel row by row
+    for (let y = 0; y < info.height; y++) {
+        const fade = reflection.opacity * Math.pow(1 - y / info.height, 1.5);
+        for (let x = 0; x < info.width; x++) {
+            const index = (y * info.width + x) * info.channels + 3;
+            data[index] = Math.round(data[index] * fade);
         }
-        console.error(`[IMG_PROC_BG_REMOVE_ERROR] Error removing background for ${originalFilename}: ${errorMessage}`);
-        
-        console.warn(`[IMG_PROC_BG_REMOVE_FALLBACK] Background removal failed for ${originalFilename}. Returning original image.`);
-        return imageBuffer; // Return the original buffer on error
     }
+    const faded = await sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+        .png()
+        .toBuffer();
+
+    return sharp({
+        create: { width: canvas.width, height: canvas.height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } }
+    })
+        .composite([
+            {
+                input: faded,
+                left: placement.left,
+                top: placement.top + placement.height + Math.round((canvas.height * reflection.gap) / 100)
+            }
+        ])
+        .png()
+        .toBuffer();
 }
 
 /**
- * Process image to fit in 800x800 frame
- * @param imageBuffer - Image with transparent background
+ * Render an image onto a profile's canvas
+ * @param imageBuffer - Product image, ideally with a transparent background
  * @param filename - Original filename
- * @returns Processed image buffer
+ * @param profile - Canvas, placement and output settings
+ * @param runEffects - Grounding effects that override the profile's
+ * @returns Encoded image in the profile's format
  */
 export async function processPackshotImage(
-    imageBuffer: Buffer, 
+    imageBuffer: Buffer,
     filename: string,
-    frameSize: number = TARGET_SIZE
+    profile: PackshotProfile = DEFAULT_PACKSHOT_PROFILE,
+    runEffects?: PackshotEffects
 ): Promise<Buffer> {
-    console.log(`[IMG_PROC_ITEM_START] Starting frame processing for: ${filename}`);
-    
+    console.log(`[IMG_PROC_ITEM_START] Rendering ${filename} with profile ${profile.id}`);
+
     try {
-        // Get image metadata
-        const metadata = await sharp(imageBuffer).metadata();
-        const { width, height } = metadata;
-        
+        const product = await trimToProduct(imageBuffer);
+        const { width, height } = await sharp(product).metadata();
+
         if (!width || !height) {
             throw new Error('Invalid image dimensions');
         }
-        
-        // Calculate scale to fit in target frame while preserving aspect ratio
-        const scale = Math.min(frameSize / width, frameSize / height);
-        const newWidth = Math.round(width * scale);
-        const newHeight = Math.round(height * scale);
-        
-        // Calculate position to center the image horizontally and vertically
-        const left = Math.floor((frameSize - newWidth) / 2);
-        const top = Math.floor((frameSize - newHeight) / 2);
-
-        // Resize the input image first
-        const resizedImage = await sharp(imageBuffer)
-            .resize(newWidth, newHeight, {
-                fit: 'inside',
-                withoutEnlargement: false
-            })
-            .toBuffer();
-        
-        // Create a blank transparent canvas and composite
-        const result = await sharp({
+
+        const canvas = getPackshotCanvasSize(profile);
+        const effects = resolvePackshotEffects(profile, runEffects);
+
+        // Scale the product to fill the profile's share of the canvas, preserving aspect ratio
+        const scale = Math.min(
+            (canvas.width * profile.fillPercent) / 100 / width,
+            (canvas.height * profile.fillPercent) / 100 / height
+        );
+        const newWidth = Math.max(1, Math.round(width * scale));
+        const newHeight = Math.max(1, Math.round(height * scale));
+
+        // A centred product is lifted so that it and its reflection are centred together
+        const reflectionSpace = effects.reflection
+            ? Math.round((newHeight * effects.reflection.height) / 100 + (canvas.height * effects.reflection.gap) / 100)
+            : 0;
+        const left = Math.floor((canvas.width - newWidth) / 2);
+        const top =
+            profile.alignment === 'bottom'
+                ? Math.max(
+                      0,
+                      canvas.height - Math.round((canvas.height * profile.bottomMarginPercent) / 100) - newHeight
+                  )
+                : Math.max(0, Math.floor((canvas.height - newHeight - reflectionSpace) / 2));
+        const placement = { left, top, width: newWidth, height: newHeight };
+
+        const resizedImage = await sharp(product).resize(newWidth, newHeight, { fit: 'fill' }).toBuffer();
+
+        // Product on a transparent, canvas sized layer; shadows are derived from it
+        const productLayer = await sharp({
             create: {
-                width: frameSize,
-                height: frameSize,
+                width: canvas.width,
+                height: canvas.height,
                 channels: 4,
                 background: { r: 0, g: 0, b: 0, alpha: 0 }
             }
         })
+            .composite([{ input: resizedImage, left, top }])
             .png()
-            .composite([
-                {
-                    input: resizedImage,
-                    left,
-                    top
-                }
-            ])
             .toBuffer();
 
-        console.log(`[IMG_PROC_ITEM_SUCCESS] Successfully processed ${filename}`);
+        // Bottom to top: reflection, drop shadow, contact shadow, product
+        const layers: sharp.OverlayOptions[] = [];
+        if (effects.reflection) {
+            layers.push({ input: await renderReflection(product, placement, canvas, effects.reflection) });
+        }
+        if (effects.dropShadow) {
+            layers.push({
+                input: await renderDropShadow(productLayer, canvas.width, canvas.height, effects.dropShadow)
+            });
+        }
+        if (effects.contactShadow) {
+            layers.push({ input: await renderContactShadow(product, placement, canvas, effects.contactShadow) });
+        }
+        layers.push({ input: productLayer });
+
+        const output = sharp({
+            create: {
+                width: canvas.width,
+                height: canvas.height,
+                channels: 4,
+                background: profile.background === 'transparent' ? { r: 0, g: 0, b: 0, alpha: 0 } : profile.background
+            }
+        }).composite(layers);
+
+        const result =
+            profile.format === 'jpeg'
+                ? await output.flatten({ background: profile.background }).jpeg({ quality: profile.quality }).toBuffer()
+                : profile.format === 'webp'
+                  ? await output.webp({ quality: profile.quality }).toBuffer()
+                  : await output.png().toBuffer();
+
+        console.log(`[IMG_PROC_ITEM_SUCCESS] Successfully processed ${filename} (${profile.id})`);
         return result;
-        
     } catch (error) {
-        console.error(`[IMG_PROC_ITEM_ERROR] Error processing ${filename}:`, error);
+        console.error(`[IMG_PROC_ITEM_ERROR] Error processing ${filename} (${profile.id}):`, error);
         throw error;
     }
 }
 
 /**
- * Process multiple images
+ * Process multiple images, rendering each once per profile. A failed
+ * background removal is reported as that file's `error` rather than silently
+ * framing the original photo. With more than one profile, each profile's
+ * outputs go in a folder named after it. Once `signal` aborts no further
+ * files are started; the results so far are returned.
  */
 export async function processAllPackshotImages(
     images: Array<{ buffer: Buffer; filename: string }>,
     options: {
         removeBackground: boolean;
-        removeBackgroundApiKey?: string;
+        backgroundRemover?: BackgroundRemover;
+        // Passed through to the remover; only the local engine uses them
+        tolerance?: number;
+        feather?: number;
+        profiles?: PackshotProfile[];
+        // Contact shadow, drop shadow and reflection for every profile
+        effects?: PackshotEffects;
+        // Legacy: a transparent square of this size when no profiles are given
         frameSize?: number;
+        usage?: UsageContext;
+        signal?: AbortSignal;
+        // Per-file progress; awaited so outputs can be stored as they finish
+        onFileStart?: (index: number, filename: string) => void | Promise<void>;
+        onFileDone?: (index: number, filename: string, results: PackshotResult[]) => void | Promise<void>;
     }
-): Promise<Array<{ buffer: Buffer; filename: string; error?: string }>> {
-    const results: Array<{ buffer: Buffer; filename: string; error?: string }> = [];
-    
-    for (const image of images) {
-        try {
-            let processedBuffer = image.buffer;
-            
-            // Step 1: Remove background if enabled
-            if (options.removeBackground && options.removeBackgroundApiKey) {
-                processedBuffer = await removeBackground(
-                    processedBuffer,
-                    options.removeBackgroundApiKey,
-                    image.filename
-                );
-            }
-            
-            // Step 2: Process to fit in frame
-            processedBuffer = await processPackshotImage(
-                processedBuffer,
-                image.filename,
-                options.frameSize
-            );
-            
-            // Extract EAN and sequence from filename
-            const eanMatch = image.filename.match(/^(\d+)/);
-            const ean = eanMatch ? eanMatch[1] : image.filename.split('.')[0];
-            
-            // Check for sequence number in various formats
-            let sequence: string | null = null;
-            const dashSeqMatch = image.filename.match(/-(\d+)/);
-            const parenthesesSeqMatch = image.filename.match(/\((\d+)\)/);
-            
-            if (dashSeqMatch) {
-                sequence = dashSeqMatch[1];
-            } else if (parenthesesSeqMatch) {
-                sequence = parenthesesSeqMatch[1];
+): Promise<PackshotResult[]> {
+    const profiles = options.profiles?.length
+        ? options.profiles
+        : [options.frameSize ? frameSizeProfile(options.frameSize) : DEFAULT_PACKSHOT_PROFILE];
+    const results: PackshotResult[] = [];
+
+    for (const [index, image] of images.entries()) {
+        if (options.signal?.aborted) {
+            console.log(`Packshot batch cancelled after ${index} of ${images.length} files`);
+            break;
+        }
+        await options.onFileStart?.(index, image.filename);
+
+        const fileResults: PackshotResult[] = [];
+        let cutout = image.buffer;
+
+        // Step 1: Remove background if enabled (once, shared by all profiles)
+        if (options.removeBackground && options.backgroundRemover) {
+            try {
+                cutout = await options.backgroundRemover.remove(cutout, {
+                    filename: image.filename,
+                    usage: options.usage,
+                    tolerance: options.tolerance,
+                    feather: options.feather
+                });
+            } catch (error) {
+                console.error(`Error removing background from ${image.filename}:`, error);
+                fileResults.push({
+                    buffer: image.buffer,
+                    filename: image.filename,
+                    sourceFilename: image.filename,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+                results.push(...fileResults);
+                await options.onFileDone?.(index, image.filename, fileResults);
+                continue;
             }
-            
-            // Generate output filename
-            const outputFilename = sequence ? 
-                `${ean}-${sequence}.png` : 
-                `${ean}.png`;
-            
-            results.push({
-                buffer: processedBuffer,
-                filename: outputFilename
-            });
-            
-        } catch (error) {
-            console.error(`Error processing ${image.filename}:`, error);
-            results.push({
-                buffer: image.buffer,
-                filename: image.filename,
-                error: error instanceof Error ? error.message : 'Unknown error'
+        }
+
+        // Extract EAN and sequence from filename
+        const eanMatch = image.filename.match(/^(\d+)/);
+        const ean = eanMatch ? eanMatch[1] : image.filename.split('.')[0];
+
+        // Check for sequence number in various formats
+        let sequence: string | null = null;
+        const dashSeqMatch = image.filename.match(/-(\d+)/);
+        const parenthesesSeqMatch = image.filename.match(/\((\d+)\)/);
+
+        if (dashSeqMatch) {
+            sequence = dashSeqMatch[1];
+        } else if (parenthesesSeqMatch) {
+            sequence = parenthesesSeqMatch[1];
+        }
+
+        // Step 2: Render onto each profile's canvas
+        for (const profile of profiles) {
+            const outputFilename = formatPackshotFilename(profile, {
+                ean,
+                sequence,
+                originalName: image.filename
             });
+            const filename = profiles.length > 1 ? `${profile.id}/${outputFilename}` : outputFilename;
+
+            try {
+                fileResults.push({
+                    buffer: await processPackshotImage(cutout, image.filename, profile, options.effects),
+                    filename,
+                    profileId: profile.id,
+                    sourceFilename: image.filename
+                });
+            } catch (error) {
+                fileResults.push({
+                    buffer: image.buffer,
+                    filename,
+                    profileId: profile.id,
+                    sourceFilename: image.filename,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
         }
+
+        results.push(...fileResults);
+        await options.onFileDone?.(index, image.filename, fileResults);
     }
-    
+
     return results;
-}
\ No newline at end of file
+}
+
+export type SelectionTarget = 'subject' | 'background';
+
+/**
+ * Selects the subject or the background of an image for an edit mask, using
+ * a background remover's cut-out. Returns a PNG the size of the image: white,
+ * opaque where the target is and transparent elsewhere, with the cut-out's
+ * soft edges kept.
+ */
+export async function createSelectionMatte(
+    imageBuffer: Buffer,
+    remover: BackgroundRemover,
+    target: SelectionTarget,
+    options: { filename: string; usage?: UsageContext }
+): Promise<Buffer> {
+    const { width, height } = await sharp(imageBuffer).metadata();
+    if (!width || !height) {
+        throw new Error(`Could not read the size of ${options.filename}`);
+    }
+
+    // Engines may return a smaller preview, so the cut-out's alpha is scaled back to the image
+    const cutout = await remover.remove(imageBuffer, options);
+    const alpha = await sharp(cutout)
+        .ensureAlpha()
+        .extractChannel(3)
+        .resize(width, height, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+    if (target === 'background') {
+        for (let i = 0; i < alpha.length; i++) alpha[i] = 255 - alpha[i];
+    }
+
+    return sharp({ create: { width, height, channels: 3, background: { r: 255, g: 255, b: 255 } } })
+        .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+        .png()
+        .toBuffer();
+}
@@ -0,0 +1,44 @@
+import { mockImageProvider } from './mock-provider';
+import { openAIImageProvider } from './openai-provider';
+import type { ImageProvider } from './types';
+
+export type {
+    ImageEditRequest,
+    ImageGenerateRequest,
+    ImageMaskEditRequest,
+    ImageOutputFormat,
+    ImageProvider,
+    ImageProviderCallOptions,
+    ImageProviderOperation,
+    ImageProviderResult,
+    ImageVariationRequest
+} from './types';
+
+/**
+ * Registry of image providers. /api/images picks one per request via the
+ * `provider` form field and falls back to IMAGE_PROVIDER (default: openai).
+ */
+
+const providers = new Map<string, ImageProvider>();
+
+export function registerImageProvider(provider: ImageProvider) {
+    providers.set(provider.id, provider);
+}
+
+registerImageProvider(openAIImageProvider);
+// Placeholder images have no place in a production history unless explicitly enabled
+if (process.env.NODE_ENV !== 'production' || process.env.IMAGE_PROVIDER_MOCK === '1') {
+    registerImageProvider(mockImageProvider);
+}
+
+export function getDefaultImageProviderId(): string {
+    return process.env.IMAGE_PROVIDER || openAIImageProvider.id;
+}
+
+export function getImageProvider(id?: string | null): ImageProvider | null {
+    return providers.get(id || getDefaultImageProviderId()) ?? null;
+}
+
+export function listImageProviders(): ImageProvider[] {
+    return Array.from(providers.values());
+}
@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import type {
+    ImageEditRequest,
+    ImageGenerateRequest,
+    ImageMaskEditRequest,
+    ImageOutputFormat,
+    ImageProvider,
+    ImageProviderOperation,
+    ImageProviderResult,
+    ImageVariationRequest
+} from './types';
+
+/**
+ * Offline provider that renders deterministic placeholder images with sharp.
+ * The same request always produces byte-identical output, which makes it
+ * usable for local development and tests without an API key.
+ */
+
+const MOCK_MODEL = 'mock-placeholder';
+const DEFAULT_SIZE = { width: 1024, height: 1024 };
+
+function parseSize(size: string): { width: number; height: number } {
+    const match = /^(\d+)x(\d+)$/.exec(size);
+    if (!match) return DEFAULT_SIZE;
+
+    const width = parseInt(match[1], 10);
+    const height = parseInt(match[2], 10);
+    if (width < 16 || height < 16 || width > 4096 || height > 4096) return DEFAULT_SIZE;
+
+    return { width, height };
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+async function hashFile(file: File): Promise<string> {
+    return crypto
+        .createHash('sha256')
+        .update(Buffer.from(await file.arrayBuffer()))
+        .digest('hex');
+}
+
+// Derive a stable colour for each image from the request seed
+function colorFromSeed(seed: string, index: number) {
+    const digest = crypto.createHash('sha256').update(`${seed}:${index}`).digest();
+    return { r: digest[0], g: digest[1], b: digest[2] };
+}
+
+function renderLabel(width: number, height: number, lines: string[]): Buffer {
+    const fontSize = Math.max(12, Math.round(Math.min(width, height) / 24));
+    const text = lines
+        .map(
+            (line, i) =>
+                `<text x="50%" y="${50 + (i - (lines.length - 1) / 2) * 8}%" font-size="${fontSize}" ` +
+                `font-family="sans-serif" fill="#fff" text-anchor="middle">${escapeXml(line)}</text>`
+        )
+        .join('');
+
+    return Buffer.from(
+        `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">` +
+            `<rect x="5%" y="30%" width="90%" height="40%" rx="${fontSize}" fill="#000" fill-opacity="0.45"/>` +
+            `${text}</svg>`
+    );
+}
+
+async function renderPlaceholder(options: {
+    operation: ImageProviderOperation;
+    prompt: string;
+    size: string;
+    index: number;
+    seed: string;
+    format: ImageOutputFormat;
+    source?: File;
+    mask?: File;
+}): Promise<string> {
+    const { width, height } = parseSize(options.size);
+    const color = colorFromSeed(options.seed, options.index);
+
+    let base: sharp.Sharp;
+    const layers: sharp.OverlayOptions[] = [];
+
+    if (options.source) {
+        base = sharp(Buffer.from(await options.source.arrayBuffer())).resize(width, height, { fit: 'cover' });
+
+        if (options.mask) {
+            // Tint only the transparent (editable) area of the mask
+            const alpha = await sharp(Buffer.from(await options.mask.arrayBuffer()))
+                .resize(width, height, { fit: 'fill' })
+                .ensureAlpha()
+                .extractChannel(3)
+                .negate()
+                .raw()
+                .toBuffer();
+            const tint = await sharp({ create: { width, height, channels: 3, background: color } })
+                .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+                .png()
+                .toBuffer();
+            layers.push({ input: tint });
+        } else {
+            layers.push({
+                input: { create: { width, height, channels: 4, background: { ...color, alpha: 0.35 } } }
+            });
+        }
+    } else {
+        base = sharp({ create: { width, height, channels: 3, background: color } });
+    }
+
+    const prompt = options.prompt.length > 60 ? `${options.prompt.slice(0, 57)}...` : options.prompt;
+    layers.push({
+        input: renderLabel(width, height, [
+            `${MOCK_MODEL} · ${options.operation} #${options.index + 1}`,
+            prompt || '(no prompt)'
+        ])
+    });
+
+    const buffer = await base.composite(layers).toFormat(options.format).toBuffer();
+    return buffer.toString('base64');
+}
+
+async function renderBatch(
+    operation: ImageProviderOperation,
+    request: { prompt: string; n: number; size: string; output_format: ImageOutputFormat },
+    source?: File,
+    mask?: File
+): Promise<ImageProviderResult> {
+    const seedParts = [operation, request.prompt, request.size];
+    if (source) seedParts.push(await hashFile(source));
+    if (mask) seedParts.push(await hashFile(mask));
+    const seed = seedParts.join('|');
+
+    const images = await Promise.all(
+        Array.from({ length: request.n }, async (_, index) => ({
+            b64_json: await renderPlaceholder({
+                operation,
+                prompt: request.prompt,
+                size: request.size,
+                index,
+                seed,
+                format: request.output_format,
+                source,
+                mask
+            })
+        }))
+    );
+
+    return { model: MOCK_MODEL, images };
+}
+
+export const mockImageProvider: ImageProvider = {
+    id: 'mock',
+    label: 'Mock (offline)',
+    defaultModel: MOCK_MODEL,
+    models: [MOCK_MODEL],
+
+    isConfigured() {
+        return true;
+    },
+
+    generate(request: ImageGenerateRequest) {
+        return renderBatch('generate', request);
+    },
+
+    edit(request: ImageEditRequest) {
+        return renderBatch('edit', request, request.images[0]);
+    },
+
+    maskEdit(request: ImageMaskEditRequest) {
+        return renderBatch('maskEdit', request, request.images[0], request.mask);
+    },
+
+    variations(request: ImageVariationRequest) {
+        return renderBatch('variations', { ...request, prompt: request.image.name }, request.image);
+    }
+};
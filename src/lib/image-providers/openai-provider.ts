@@ -0,0 +1,149 @@
+import OpenAI from 'openai';
+import type {
+    ImageEditRequest,
+    ImageGenerateRequest,
+    ImageMaskEditRequest,
+    ImageProvider,
+    ImageProviderCallOptions,
+    ImageProviderResult,
+    ImageVariationRequest
+} from './types';
+
+// Lazy initialization of OpenAI client
+let openai: OpenAI | null = null;
+
+function getOpenAIClient(): OpenAI {
+    if (!openai) {
+        openai = new OpenAI({
+            apiKey: process.env.OPENAI_API_KEY,
+            baseURL: process.env.OPENAI_API_BASE_URL
+        });
+    }
+    return openai;
+}
+
+// gpt-image-1 has no variations endpoint, so variations always go through dall-e-2
+const VARIATION_MODEL = 'dall-e-2';
+const VARIATION_SIZES = ['256x256', '512x512', '1024x1024'] as const;
+
+function toProviderResult(model: string, response: OpenAI.Images.ImagesResponse): ImageProviderResult {
+    if (!response || !Array.isArray(response.data) || response.data.length === 0) {
+        console.error('Invalid or empty data received from OpenAI API:', response);
+        throw new Error('Failed to retrieve image data from API.');
+    }
+
+    return {
+        model,
+        images: response.data.map((imageData, index) => {
+            if (!imageData.b64_json) {
+                console.error(`Image data ${index} is missing b64_json.`);
+                throw new Error(`Image data at index ${index} is missing base64 data.`);
+            }
+            return { b64_json: imageData.b64_json };
+        }),
+        usage: response.usage
+            ? {
+                  input_tokens: response.usage.input_tokens,
+                  output_tokens: response.usage.output_tokens,
+                  input_image_tokens: response.usage.input_tokens_details?.image_tokens,
+                  input_text_tokens: response.usage.input_tokens_details?.text_tokens
+              }
+            : undefined
+    };
+}
+
+async function runEdit(
+    request: ImageEditRequest & { mask?: File },
+    options?: ImageProviderCallOptions
+): Promise<ImageProviderResult> {
+    const size = request.size as OpenAI.Images.ImageEditParams['size'];
+    const quality = request.quality as OpenAI.Images.ImageEditParams['quality'];
+
+    const params: OpenAI.Images.ImageEditParams & { input_fidelity?: string } = {
+        model: request.model,
+        prompt: request.prompt,
+        image: request.images,
+        n: request.n,
+        size: size === 'auto' ? undefined : size,
+        quality: quality === 'auto' ? undefined : quality,
+        input_fidelity: 'high'
+    };
+
+    if (request.mask) {
+        params.mask = request.mask;
+    }
+
+    console.log('Calling OpenAI edit with params:', {
+        ...params,
+        image: `[${request.images.map((f) => f.name).join(', ')}]`,
+        mask: request.mask ? request.mask.name : 'N/A'
+    });
+    const response = await getOpenAIClient().images.edit(params, { signal: options?.signal });
+
+    return toProviderResult(request.model, response);
+}
+
+export const openAIImageProvider: ImageProvider = {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-image-1',
+    models: ['gpt-image-1', VARIATION_MODEL],
+
+    isConfigured() {
+        return !!process.env.OPENAI_API_KEY;
+    },
+
+    async generate(request: ImageGenerateRequest, options?: ImageProviderCallOptions) {
+        const params: OpenAI.Images.ImageGenerateParams = {
+            model: request.model,
+            prompt: request.prompt,
+            n: request.n,
+            size: request.size as OpenAI.Images.ImageGenerateParams['size'],
+            quality: request.quality as OpenAI.Images.ImageGenerateParams['quality'],
+            output_format: request.output_format,
+            background: request.background as OpenAI.Images.ImageGenerateParams['background'],
+            moderation: request.moderation as OpenAI.Images.ImageGenerateParams['moderation']
+        };
+
+        if (
+            (request.output_format === 'jpeg' || request.output_format === 'webp') &&
+            request.output_compression !== null
+        ) {
+            params.output_compression = request.output_compression;
+        }
+
+        console.log('Calling OpenAI generate with params:', params);
+        const response = await getOpenAIClient().images.generate(params, { signal: options?.signal });
+
+        return toProviderResult(request.model, response);
+    },
+
+    edit(request: ImageEditRequest, options?: ImageProviderCallOptions) {
+        return runEdit(request, options);
+    },
+
+    maskEdit(request: ImageMaskEditRequest, options?: ImageProviderCallOptions) {
+        return runEdit(request, options);
+    },
+
+    async variations(request: ImageVariationRequest, options?: ImageProviderCallOptions) {
+        const size = VARIATION_SIZES.includes(request.size as (typeof VARIATION_SIZES)[number])
+            ? (request.size as (typeof VARIATION_SIZES)[number])
+            : '1024x1024';
+
+        console.log(`Calling OpenAI variations for ${request.image.name} (n=${request.n}, size=${size})`);
+        const response = await getOpenAIClient().images.createVariation(
+            {
+                model: VARIATION_MODEL,
+                image: request.image,
+                n: request.n,
+                size,
+                response_format: 'b64_json'
+            },
+            { signal: options?.signal }
+        );
+
+        // The variations endpoint only returns PNG
+        return { ...toProviderResult(VARIATION_MODEL, response), output_format: 'png' };
+    }
+};
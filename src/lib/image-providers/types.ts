@@ -0,0 +1,72 @@
+import type { ImageTokenUsage } from '@/lib/usage/pricing';
+
+/**
+ * Shared contract for image generation backends (OpenAI, local mock, ...)
+ */
+
+export type ImageProviderOperation = 'generate' | 'edit' | 'maskEdit' | 'variations';
+
+export type ImageOutputFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ImageGenerateRequest {
+    model: string;
+    prompt: string;
+    n: number;
+    size: string;
+    quality: string;
+    output_format: ImageOutputFormat;
+    output_compression: number | null;
+    background: string;
+    moderation: string;
+}
+
+export interface ImageEditRequest {
+    model: string;
+    prompt: string;
+    images: File[];
+    n: number;
+    size: string;
+    quality: string;
+    output_format: ImageOutputFormat;
+}
+
+export interface ImageMaskEditRequest extends ImageEditRequest {
+    mask: File;
+}
+
+export interface ImageVariationRequest {
+    model: string;
+    image: File;
+    n: number;
+    size: string;
+    output_format: ImageOutputFormat;
+}
+
+export interface ImageProviderCallOptions {
+    signal?: AbortSignal;
+}
+
+export interface ImageProviderResult {
+    // The model that actually produced the images (may differ from the requested one)
+    model: string;
+    images: { b64_json: string }[];
+    // Set when the provider ignores the requested output format
+    output_format?: ImageOutputFormat;
+    // Token counts, for providers that bill per token
+    usage?: ImageTokenUsage;
+}
+
+export interface ImageProvider {
+    readonly id: string;
+    readonly label: string;
+    readonly defaultModel: string;
+    readonly models: readonly string[];
+
+    /** Whether the provider has the configuration (API keys etc.) it needs to run */
+    isConfigured(): boolean;
+
+    generate(request: ImageGenerateRequest, options?: ImageProviderCallOptions): Promise<ImageProviderResult>;
+    edit(request: ImageEditRequest, options?: ImageProviderCallOptions): Promise<ImageProviderResult>;
+    maskEdit(request: ImageMaskEditRequest, options?: ImageProviderCallOptions): Promise<ImageProviderResult>;
+    variations(request: ImageVariationRequest, options?: ImageProviderCallOptions): Promise<ImageProviderResult>;
+}
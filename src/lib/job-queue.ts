@@ -0,0 +1,187 @@
+import { nanoid } from 'nanoid';
+import { getServerStorageMode } from '@/lib/image-generation';
+import {
+    createJobStore,
+    isTerminalStatus,
+    JOB_TTL_MS,
+    type Job,
+    type JobKind,
+    type JobResult,
+    type JobStore
+} from '@/lib/job-store';
+
+/**
+ * In-process job queue: submit returns immediately, a worker runs the handler
+ * and writes status/progress/results to the configured JobStore.
+ */
+
+export interface JobContext {
+    jobId: string;
+    signal: AbortSignal;
+    reportProgress: (progress: number) => Promise<void>;
+}
+
+export type JobHandler = (context: JobContext) => Promise<JobResult>;
+
+interface QueuedJob {
+    id: string;
+    handler: JobHandler;
+}
+
+const MAX_CONCURRENT_JOBS = parseInt(process.env.MAX_CONCURRENT_JOBS || '2', 10);
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+class JobQueue {
+    private pending: QueuedJob[] = [];
+    private running = new Map<string, AbortController>();
+    private lastCleanup = 0;
+    private recovered: Promise<void>;
+
+    constructor(readonly store: JobStore) {
+        this.recovered = this.recoverInterruptedJobs();
+
+        // Finished jobs hold their images, so expire them even while nothing new is submitted
+        const timer = setInterval(() => {
+            void this.cleanupExpiredJobs();
+        }, CLEANUP_INTERVAL_MS);
+        // Don't keep the process alive just for the cleanup
+        timer.unref?.();
+    }
+
+    /**
+     * Job inputs (uploaded files) only live in memory, so anything that was
+     * queued or running when the server stopped cannot be resumed.
+     */
+    private async recoverInterruptedJobs(): Promise<void> {
+        try {
+            const jobs = await this.store.list();
+            for (const job of jobs) {
+                if (!isTerminalStatus(job.status)) {
+                    await this.store.update(job.id, {
+                        status: 'failed',
+                        error: 'Job was interrupted by a server restart.',
+                        finishedAt: Date.now()
+                    });
+                }
+            }
+        } catch (error) {
+            console.error('Failed to recover interrupted jobs:', error);
+        }
+    }
+
+    async submit(
+        kind: JobKind,
+        params: Job['params'],
+        handler: JobHandler,
+        options: { userId?: string } = {}
+    ): Promise<Job> {
+        await this.recovered;
+        await this.cleanupExpiredJobs();
+
+        const now = Date.now();
+        const job: Job = {
+            id: nanoid(),
+            kind,
+            status: 'queued',
+            progress: 0,
+            createdAt: now,
+            updatedAt: now,
+            userId: options.userId,
+            params
+        };
+
+        await this.store.create(job);
+        this.pending.push({ id: job.id, handler });
+        this.drain();
+
+        return job;
+    }
+
+    async cancel(id: string): Promise<Job | null> {
+        const job = await this.store.get(id);
+        if (!job || isTerminalStatus(job.status)) {
+            return job;
+        }
+
+        this.pending = this.pending.filter((queued) => queued.id !== id);
+        this.running.get(id)?.abort();
+
+        return this.store.update(id, { status: 'cancelled', finishedAt: Date.now() });
+    }
+
+    private drain() {
+        while (this.running.size < MAX_CONCURRENT_JOBS && this.pending.length > 0) {
+            const next = this.pending.shift()!;
+            const controller = new AbortController();
+            this.running.set(next.id, controller);
+
+            this.execute(next, controller).finally(() => {
+                this.running.delete(next.id);
+                this.drain();
+            });
+        }
+    }
+
+    private async execute({ id, handler }: QueuedJob, controller: AbortController): Promise<void> {
+        if (controller.signal.aborted) return;
+
+        // The store leaves a job that was cancelled in the meantime as it is
+        const started = await this.store.update(id, { status: 'running', startedAt: Date.now() });
+        if (!started || started.status !== 'running') return;
+
+        const reportProgress = async (progress: number) => {
+            if (controller.signal.aborted) return;
+            await this.store.update(id, { progress: Math.max(0, Math.min(100, Math.round(progress))) });
+        };
+
+        try {
+            const result = await handler({ jobId: id, signal: controller.signal, reportProgress });
+            if (controller.signal.aborted) return;
+
+            await this.store.update(id, {
+                status: 'completed',
+                progress: 100,
+                result,
+                finishedAt: Date.now()
+            });
+            console.log(`Job ${id} completed.`);
+        } catch (error: unknown) {
+            // Cancellation already updated the job record
+            if (controller.signal.aborted) return;
+
+            console.error(`Job ${id} failed:`, error);
+            await this.store.update(id, {
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+                finishedAt: Date.now()
+            });
+        }
+    }
+
+    private async cleanupExpiredJobs() {
+        const now = Date.now();
+        if (now - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+        this.lastCleanup = now;
+
+        try {
+            const jobs = await this.store.list();
+            for (const job of jobs) {
+                if (isTerminalStatus(job.status) && now - job.updatedAt > JOB_TTL_MS) {
+                    await this.store.delete(job.id);
+                }
+            }
+        } catch (error) {
+            console.error('Failed to clean up expired jobs:', error);
+        }
+    }
+}
+
+// Keep a single queue per server process, also across dev-mode module reloads
+const globalForJobs = globalThis as unknown as { imageJobQueue?: JobQueue };
+
+export function getJobQueue(): JobQueue {
+    if (!globalForJobs.imageJobQueue) {
+        globalForJobs.imageJobQueue = new JobQueue(createJobStore(getServerStorageMode()));
+    }
+    return globalForJobs.imageJobQueue;
+}
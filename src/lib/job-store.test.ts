@@ -0,0 +1,89 @@
+import { FileJobStore, isTerminalStatus, type Job, type JobStore, MemoryJobStore } from './job-store';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+function queuedJob(id: string): Job {
+    return { id, kind: 'image-generate', status: 'queued', progress: 0, createdAt: 1, updatedAt: 1, params: {} };
+}
+
+describe('isTerminalStatus', () => {
+    it('treats completed, failed and cancelled as final', () => {
+        const statuses: Job['status'][] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+        expect(statuses.filter(isTerminalStatus)).toEqual(['completed', 'failed', 'cancelled']);
+    });
+});
+
+describe.each([
+    ['MemoryJobStore', false],
+    ['FileJobStore', true]
+])('%s', (_name, onDisk) => {
+    let dir: string;
+    let store: JobStore;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-store-'));
+        store = onDisk ? new FileJobStore(dir) : new MemoryJobStore();
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('moves a job through running to completed', async () => {
+        await store.create(queuedJob('job-1'));
+        await store.update('job-1', { status: 'running', startedAt: 2 });
+        await store.update('job-1', { progress: 40 });
+        const completed = await store.update('job-1', { status: 'completed', progress: 100, finishedAt: 3 });
+
+        expect(completed).toMatchObject({ status: 'completed', progress: 100, startedAt: 2, finishedAt: 3 });
+        expect(completed!.updatedAt).toBeGreaterThan(1);
+        expect(await store.get('job-1')).toEqual(completed);
+    });
+
+    it('leaves a terminal job unchanged', async () => {
+        await store.create(queuedJob('job-1'));
+        const cancelled = await store.update('job-1', { status: 'cancelled', finishedAt: 2 });
+
+        expect(await store.update('job-1', { status: 'running', progress: 50 })).toEqual(cancelled);
+        expect(await store.update('job-1', { status: 'completed' })).toEqual(cancelled);
+        expect(await store.get('job-1')).toEqual(cancelled);
+    });
+
+    it('keeps a cancellation that races with progress updates', async () => {
+        await store.create(queuedJob('job-1'));
+        await store.update('job-1', { status: 'running' });
+
+        await Promise.all([
+            store.update('job-1', { progress: 10 }),
+            store.update('job-1', { status: 'cancelled', finishedAt: 2 }),
+            store.update('job-1', { progress: 20 }),
+            store.update('job-1', { status: 'completed', progress: 100 })
+        ]);
+
+        expect(await store.get('job-1')).toMatchObject({ status: 'cancelled', progress: 10 });
+    });
+
+    it('returns null for unknown jobs', async () => {
+        expect(await store.get('missing')).toBeNull();
+        expect(await store.update('missing', { progress: 10 })).toBeNull();
+        expect(await store.delete('missing')).toBe(false);
+    });
+
+    it('lists and deletes jobs', async () => {
+        await store.create(queuedJob('job-1'));
+        await store.create(queuedJob('job-2'));
+        expect(await store.delete('job-1')).toBe(true);
+
+        expect((await store.list()).map((job) => job.id)).toEqual(['job-2']);
+    });
+});
+
+describe('FileJobStore', () => {
+    it('ignores ids that are not plain file names', async () => {
+        const store = new FileJobStore(os.tmpdir());
+        expect(await store.get('../etc/passwd')).toBeNull();
+        expect(await store.delete('../etc/passwd')).toBe(false);
+    });
+});
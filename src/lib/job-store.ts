@@ -0,0 +1,197 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Persistence for background jobs (image generation/edit requests)
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobKind = 'image-generate' | 'image-edit' | 'image-variation';
+
+export interface JobResultImage {
+    filename: string;
+    b64_json?: string;
+    path?: string;
+    output_format: string;
+}
+
+export interface JobResult {
+    images: JobResultImage[];
+    // Image provider id and model that produced the images
+    provider?: string;
+    model?: string;
+    // Estimated cost of the provider call in USD
+    costUsd?: number;
+}
+
+export interface Job {
+    id: string;
+    kind: JobKind;
+    status: JobStatus;
+    progress: number;
+    createdAt: number;
+    updatedAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    error?: string;
+    // Account that submitted the job; unset on jobs created before accounts existed
+    userId?: string;
+    // Serializable summary of the request (files are kept out of the store)
+    params: Record<string, string | number | boolean | null>;
+    result?: JobResult;
+}
+
+export interface JobStore {
+    create(job: Job): Promise<void>;
+    get(id: string): Promise<Job | null>;
+    // A job in a terminal status is final: updating it returns it unchanged
+    update(id: string, patch: Partial<Omit<Job, 'id'>>): Promise<Job | null>;
+    delete(id: string): Promise<boolean>;
+    list(): Promise<Job[]>;
+}
+
+export const JOB_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export function isTerminalStatus(status: JobStatus): boolean {
+    return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Keeps jobs in process memory. Jobs are lost when the server restarts.
+ */
+export class MemoryJobStore implements JobStore {
+    private jobs = new Map<string, Job>();
+
+    async create(job: Job): Promise<void> {
+        this.jobs.set(job.id, { ...job });
+    }
+
+    async get(id: string): Promise<Job | null> {
+        const job = this.jobs.get(id);
+        return job ? { ...job } : null;
+    }
+
+    async update(id: string, patch: Partial<Omit<Job, 'id'>>): Promise<Job | null> {
+        const job = this.jobs.get(id);
+        if (!job) return null;
+        if (isTerminalStatus(job.status)) return { ...job };
+
+        const updated: Job = { ...job, ...patch, updatedAt: Date.now() };
+        this.jobs.set(id, updated);
+        return { ...updated };
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.jobs.delete(id);
+    }
+
+    async list(): Promise<Job[]> {
+        return Array.from(this.jobs.values()).map((job) => ({ ...job }));
+    }
+}
+
+/**
+ * Stores one JSON file per job so job status survives server restarts.
+ */
+export class FileJobStore implements JobStore {
+    private ensured = false;
+    // Pending read-modify-write per job id, so concurrent updates apply in order
+    private locks = new Map<string, Promise<unknown>>();
+
+    constructor(private readonly baseDir: string) {}
+
+    private filePath(id: string): string {
+        return path.join(this.baseDir, `${id}.json`);
+    }
+
+    private async ensureDir(): Promise<void> {
+        if (this.ensured) return;
+        await fs.mkdir(this.baseDir, { recursive: true });
+        this.ensured = true;
+    }
+
+    private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.locks.get(id) ?? Promise.resolve();
+        const next = previous.then(task, task);
+        const settled = next.catch(() => undefined);
+        this.locks.set(id, settled);
+        settled.then(() => {
+            if (this.locks.get(id) === settled) this.locks.delete(id);
+        });
+        return next;
+    }
+
+    private async write(job: Job): Promise<void> {
+        await this.ensureDir();
+        // Write to a temp file first so readers never see a partial job
+        const target = this.filePath(job.id);
+        const tmp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(job));
+        await fs.rename(tmp, target);
+    }
+
+    async create(job: Job): Promise<void> {
+        await this.withLock(job.id, () => this.write(job));
+    }
+
+    async get(id: string): Promise<Job | null> {
+        if (!/^[\w-]+$/.test(id)) return null;
+
+        try {
+            const raw = await fs.readFile(this.filePath(id), 'utf-8');
+            return JSON.parse(raw) as Job;
+        } catch (error: unknown) {
+            if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async update(id: string, patch: Partial<Omit<Job, 'id'>>): Promise<Job | null> {
+        return this.withLock(id, async () => {
+            const job = await this.get(id);
+            if (!job) return null;
+            if (isTerminalStatus(job.status)) return job;
+
+            const updated: Job = { ...job, ...patch, updatedAt: Date.now() };
+            await this.write(updated);
+            return updated;
+        });
+    }
+
+    async delete(id: string): Promise<boolean> {
+        if (!/^[\w-]+$/.test(id)) return false;
+
+        try {
+            await fs.unlink(this.filePath(id));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async list(): Promise<Job[]> {
+        await this.ensureDir();
+        const entries = await fs.readdir(this.baseDir);
+        const jobs: Job[] = [];
+
+        for (const entry of entries) {
+            if (!entry.endsWith('.json')) continue;
+            const job = await this.get(entry.slice(0, -'.json'.length));
+            if (job) jobs.push(job);
+        }
+
+        return jobs;
+    }
+}
+
+export function createJobStore(storageMode: 'fs' | 'indexeddb'): JobStore {
+    if (storageMode === 'fs') {
+        const baseDir = process.env.JOB_STORE_DIR || path.resolve(process.cwd(), '.jobs');
+        return new FileJobStore(baseDir);
+    }
+    return new MemoryJobStore();
+}
@@ -0,0 +1,45 @@
+import { buildLineageTree, countLineageNodes, getLineageParents } from './lineage';
+import type { HistoryMetadata } from '@/app/page';
+import { describe, expect, it } from 'vitest';
+
+function entry(id: string, timestamp: number, parents?: string[]): HistoryMetadata {
+    return {
+        id,
+        timestamp,
+        images: [{ filename: `${id}.png` }],
+        durationMs: 1000,
+        quality: 'high',
+        background: 'auto',
+        moderation: 'auto',
+        prompt: id,
+        mode: parents ? 'edit' : 'generate',
+        lineage: parents ? { operation: 'edit', parents } : undefined
+    };
+}
+
+describe('buildLineageTree', () => {
+    it('roots the tree at the oldest ancestor', () => {
+        const history = [entry('a', 1), entry('b', 2, ['a.png']), entry('c', 3, ['b.png']), entry('d', 4, ['a.png'])];
+        const tree = buildLineageTree(history[2], history);
+
+        expect(tree.item.id).toBe('a');
+        expect(tree.children.map((child) => child.item.id)).toEqual(['b', 'd']);
+        expect(countLineageNodes(tree)).toBe(4);
+    });
+
+    it('keeps entries that share a timestamp apart', () => {
+        // Two results of one batch, saved in the same millisecond, each edited further
+        const history = [entry('a', 1), entry('b', 1), entry('c', 2, ['a.png']), entry('d', 3, ['b.png'])];
+
+        expect(getLineageParents(history[3], history).map((parent) => parent.id)).toEqual(['b']);
+        const tree = buildLineageTree(history[3], history);
+        expect(tree.item.id).toBe('b');
+        expect(tree.children.map((child) => child.item.id)).toEqual(['d']);
+        expect(countLineageNodes(buildLineageTree(history[2], history))).toBe(2);
+    });
+
+    it('lists parents that are no longer in the history', () => {
+        const tree = buildLineageTree(entry('b', 2, ['gone.png']), [entry('b', 2, ['gone.png'])]);
+        expect(tree.missingParents).toEqual(['gone.png']);
+    });
+});
@@ -0,0 +1,133 @@
+import type { HistoryMetadata } from '@/app/page';
+import type { VideoHistoryItem } from '@/types/video';
+
+/**
+ * Generation lineage. Each history entry records the history images it was
+ * made from, the mask and how the edit was started; videos are linked through
+ * `VideoHistoryItem.sourceImages`. Together these give the derivation tree of
+ * any image, however many times it has been edited.
+ */
+
+export type LineageOperation = 'generate' | 'edit' | 'quick-edit' | 'continue-edit';
+
+export const LINEAGE_OPERATION_LABELS: Record<LineageOperation, string> = {
+    generate: 'Genereret',
+    edit: 'Redigeret',
+    'quick-edit': 'Hurtig redigering',
+    'continue-edit': 'Fortsat redigering'
+};
+
+export interface LineageMask {
+    filename: string;
+    // SHA-256 of the mask as uploaded
+    hash: string;
+}
+
+export interface HistoryLineage {
+    operation: LineageOperation;
+    // Filenames of the history images used as input. Files uploaded from disk have no entry and aren't listed.
+    parents: string[];
+    mask?: LineageMask;
+}
+
+export interface LineageNode {
+    item: HistoryMetadata;
+    children: LineageNode[];
+    // Videos made from this entry's images
+    videos: VideoHistoryItem[];
+    // Parent images that are no longer in the history
+    missingParents: string[];
+}
+
+// Entries are told apart by their database id; timestamps can repeat within a millisecond.
+// Only an entry that was never saved has no id yet.
+function entryKey(item: HistoryMetadata): string {
+    return item.id ?? `timestamp:${item.timestamp}`;
+}
+
+function indexByFilename(history: HistoryMetadata[]): Map<string, HistoryMetadata> {
+    const byFilename = new Map<string, HistoryMetadata>();
+    for (const item of history) {
+        for (const image of item.images) {
+            byFilename.set(image.filename, item);
+        }
+    }
+    return byFilename;
+}
+
+function findParents(item: HistoryMetadata, byFilename: Map<string, HistoryMetadata>): HistoryMetadata[] {
+    const parents = new Map<string, HistoryMetadata>();
+    for (const filename of item.lineage?.parents ?? []) {
+        const parent = byFilename.get(filename);
+        if (parent && entryKey(parent) !== entryKey(item)) {
+            parents.set(entryKey(parent), parent);
+        }
+    }
+    return Array.from(parents.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * The history entries an entry was made from, oldest first
+ */
+export function getLineageParents(item: HistoryMetadata, history: HistoryMetadata[]): HistoryMetadata[] {
+    return findParents(item, indexByFilename(history));
+}
+
+/**
+ * Builds the derivation tree containing `item`, rooted at its oldest
+ * ancestor. An entry edited from several parents appears once, under the
+ * first parent reached.
+ */
+export function buildLineageTree(
+    item: HistoryMetadata,
+    history: HistoryMetadata[],
+    videos: VideoHistoryItem[] = []
+): LineageNode {
+    const byFilename = indexByFilename(history);
+
+    let root = item;
+    const ancestors = new Set([entryKey(item)]);
+    for (;;) {
+        const [parent] = findParents(root, byFilename);
+        if (!parent || ancestors.has(entryKey(parent))) break;
+        ancestors.add(entryKey(parent));
+        root = parent;
+    }
+
+    const childrenOf = new Map<string, HistoryMetadata[]>();
+    for (const entry of history) {
+        for (const parent of findParents(entry, byFilename)) {
+            childrenOf.set(entryKey(parent), [...(childrenOf.get(entryKey(parent)) ?? []), entry]);
+        }
+    }
+
+    const visited = new Set<string>();
+    const build = (entry: HistoryMetadata): LineageNode => {
+        visited.add(entryKey(entry));
+        const filenames = new Set(entry.images.map((image) => image.filename));
+
+        const children: LineageNode[] = [];
+        const candidates = [...(childrenOf.get(entryKey(entry)) ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+        for (const child of candidates) {
+            if (!visited.has(entryKey(child))) {
+                children.push(build(child));
+            }
+        }
+
+        return {
+            item: entry,
+            children,
+            videos: videos.filter((video) => video.sourceImages.some((source) => filenames.has(source.filename))),
+            missingParents: (entry.lineage?.parents ?? []).filter((filename) => !byFilename.has(filename))
+        };
+    };
+
+    return build(root);
+}
+
+/**
+ * Number of entries in a lineage tree
+ */
+export function countLineageNodes(node: LineageNode): number {
+    return node.children.reduce((count, child) => count + countLineageNodes(child), 1);
+}
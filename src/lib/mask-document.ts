@@ -0,0 +1,411 @@
+/**
+ * Edit masks as documents rather than pixels. A mask is an ordered list of
+ * shapes (brush and eraser strokes, lasso polygons, rectangles, ellipses and
+ * automatic subject/background selections) that add to or cut from the area
+ * to edit, plus settings applied on top:
+ * invert, grow/shrink and a feathered edge. Documents are plain JSON so they
+ * can be kept per image, undone step by step and sent to the canvas worker,
+ * which rasterizes them into the PNG the image API expects: black where the
+ * image is kept and transparent where it is edited.
+ */
+
+export type MaskTool = 'brush' | 'eraser' | 'lasso' | 'rect' | 'ellipse';
+
+export interface MaskPoint {
+    x: number;
+    y: number;
+}
+
+export type MaskShape =
+    | { type: 'brush' | 'eraser'; points: MaskPoint[]; radius: number }
+    | { type: 'lasso'; points: MaskPoint[]; erase: boolean }
+    | { type: 'rect' | 'ellipse'; x: number; y: number; width: number; height: number; erase: boolean }
+    // A selection made for the whole image: a PNG data URL, white where selected (see createSelectionMatte)
+    | { type: 'matte'; src: string; erase: boolean };
+
+export interface MaskDocument {
+    version: 1;
+    // Pixel size of the image the mask belongs to
+    width: number;
+    height: number;
+    shapes: MaskShape[];
+    // Edit everything except the drawn area
+    invert: boolean;
+    // Pixels the edited area grows by; negative shrinks it
+    grow: number;
+    // Radius in pixels of the soft edge
+    feather: number;
+}
+
+export interface MaskHistory {
+    past: MaskDocument[];
+    present: MaskDocument;
+    future: MaskDocument[];
+}
+
+export class MaskDocumentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MaskDocumentError';
+    }
+}
+
+export const MAX_MASK_GROW = 50;
+export const MAX_MASK_FEATHER = 50;
+const MAX_MASK_HISTORY = 50;
+
+type MaskContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Decoded matte images by data URL; drawing is synchronous, so they are loaded up front */
+export type MaskMattes = Map<string, ImageBitmap>;
+
+export function createMaskDocument(width: number, height: number): MaskDocument {
+    return { version: 1, width, height, shapes: [], invert: false, grow: 0, feather: 0 };
+}
+
+export function isEraseShape(shape: MaskShape): boolean {
+    return 'erase' in shape ? shape.erase : shape.type === 'eraser';
+}
+
+/**
+ * True when the mask edits nothing
+ */
+export function isMaskDocumentEmpty(doc: MaskDocument): boolean {
+    return !doc.invert && !doc.shapes.some((shape) => !isEraseShape(shape));
+}
+
+export function createMaskHistory(doc: MaskDocument): MaskHistory {
+    return { past: [], present: doc, future: [] };
+}
+
+/**
+ * Makes `doc` the current state. With `merge` it replaces the current state
+ * instead of adding an undo step, so dragging a slider is undone in one go.
+ */
+export function commitMaskDocument(history: MaskHistory, doc: MaskDocument, merge = false): MaskHistory {
+    if (merge) {
+        return { ...history, present: doc, future: [] };
+    }
+    return { past: [...history.past, history.present].slice(-MAX_MASK_HISTORY), present: doc, future: [] };
+}
+
+export function undoMaskHistory(history: MaskHistory): MaskHistory {
+    const previous = history.past[history.past.length - 1];
+    if (!previous) return history;
+    return { past: history.past.slice(0, -1), present: previous, future: [history.present, ...history.future] };
+}
+
+export function redoMaskHistory(history: MaskHistory): MaskHistory {
+    const [next, ...future] = history.future;
+    if (!next) return history;
+    return { past: [...history.past, history.present], present: next, future };
+}
+
+/**
+ * Decodes the mattes used by `shapes` that aren't in `cache` yet
+ */
+export async function loadMaskMattes(shapes: MaskShape[], cache: MaskMattes = new Map()): Promise<MaskMattes> {
+    for (const shape of shapes) {
+        if (shape.type !== 'matte' || cache.has(shape.src)) continue;
+        const blob = await (await fetch(shape.src)).blob();
+        cache.set(shape.src, await createImageBitmap(blob));
+    }
+    return cache;
+}
+
+/**
+ * Draws shapes in order onto a transparent context: added areas in white,
+ * erased areas cut back out. Mattes missing from `mattes` are skipped.
+ */
+export function drawMaskShapes(ctx: MaskContext, shapes: MaskShape[], mattes?: MaskMattes): void {
+    ctx.save();
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    for (const shape of shapes) {
+        ctx.globalCompositeOperation = isEraseShape(shape) ? 'destination-out' : 'source-over';
+        ctx.beginPath();
+
+        switch (shape.type) {
+            case 'brush':
+            case 'eraser': {
+                const [first, ...rest] = shape.points;
+                if (!first) break;
+                if (rest.length === 0) {
+                    ctx.arc(first.x, first.y, shape.radius, 0, Math.PI * 2);
+                    ctx.fill();
+                } else {
+                    ctx.lineWidth = shape.radius * 2;
+                    ctx.moveTo(first.x, first.y);
+                    rest.forEach((point) => ctx.lineTo(point.x, point.y));
+                    ctx.stroke();
+                }
+                break;
+            }
+            case 'lasso': {
+                const [first, ...rest] = shape.points;
+                if (!first || rest.length < 2) break;
+                ctx.moveTo(first.x, first.y);
+                rest.forEach((point) => ctx.lineTo(point.x, point.y));
+                ctx.closePath();
+                ctx.fill();
+                break;
+            }
+            case 'rect':
+                ctx.rect(shape.x, shape.y, shape.width, shape.height);
+                ctx.fill();
+                break;
+            case 'ellipse':
+                ctx.ellipse(
+                    shape.x + shape.width / 2,
+                    shape.y + shape.height / 2,
+                    Math.abs(shape.width) / 2,
+                    Math.abs(shape.height) / 2,
+                    0,
+                    0,
+                    Math.PI * 2
+                );
+                ctx.fill();
+                break;
+            case 'matte': {
+                const matte = mattes?.get(shape.src);
+                if (matte) ctx.drawImage(matte, 0, 0, ctx.canvas.width, ctx.canvas.height);
+                break;
+            }
+        }
+    }
+
+    ctx.restore();
+}
+
+// Squared distance along one row or column to the nearest zero of f (Felzenszwalb & Huttenlocher)
+function distanceTransform1D(f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array): void {
+    let k = 0;
+    v[0] = 0;
+    z[0] = -Infinity;
+    z[1] = Infinity;
+    for (let q = 1; q < n; q++) {
+        if (f[q] === Infinity) continue;
+        if (f[v[k]] === Infinity) {
+            v[k] = q;
+            continue;
+        }
+        let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+        while (k > 0 && s <= z[k]) {
+            k--;
+            s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+        }
+        if (s <= z[k]) {
+            v[k] = q;
+            continue;
+        }
+        k++;
+        v[k] = q;
+        z[k] = s;
+        z[k + 1] = Infinity;
+    }
+    k = 0;
+    for (let q = 0; q < n; q++) {
+        while (z[k + 1] < q) k++;
+        d[q] = f[v[k]] === Infinity ? Infinity : (q - v[k]) * (q - v[k]) + f[v[k]];
+    }
+}
+
+/**
+ * Squared Euclidean distance from every pixel to the nearest pixel where `target` is set
+ */
+function squaredDistanceTo(target: Uint8Array, width: number, height: number): Float64Array {
+    const size = Math.max(width, height);
+    const f = new Float64Array(size);
+    const d = new Float64Array(size);
+    const v = new Int32Array(size);
+    const z = new Float64Array(size + 1);
+    const grid = new Float64Array(width * height);
+
+    for (let i = 0; i < grid.length; i++) {
+        grid[i] = target[i] ? 0 : Infinity;
+    }
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+        distanceTransform1D(f, height, d, v, z);
+        for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+        distanceTransform1D(f, width, d, v, z);
+        for (let x = 0; x < width; x++) grid[y * width + x] = d[x];
+    }
+    return grid;
+}
+
+// Running-sum box blur with clamped edges, horizontal then vertical
+function boxBlur(values: Float32Array, width: number, height: number, radius: number): void {
+    const line = new Float32Array(Math.max(width, height));
+    const window = radius * 2 + 1;
+
+    const blurLine = (length: number, get: (i: number) => number, set: (i: number, value: number) => void) => {
+        for (let i = 0; i < length; i++) line[i] = get(i);
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) sum += line[Math.min(length - 1, Math.max(0, i))];
+        for (let i = 0; i < length; i++) {
+            set(i, sum / window);
+            sum += line[Math.min(length - 1, i + radius + 1)] - line[Math.max(0, i - radius)];
+        }
+    };
+
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        blurLine(
+            width,
+            (x) => values[row + x],
+            (x, value) => (values[row + x] = value)
+        );
+    }
+    for (let x = 0; x < width; x++) {
+        blurLine(
+            height,
+            (y) => values[y * width + x],
+            (y, value) => (values[y * width + x] = value)
+        );
+    }
+}
+
+/**
+ * Applies invert, grow/shrink and feather to per-pixel coverage (0-255, how
+ * much of each pixel is edited), in that order
+ */
+export function adjustMaskCoverage(
+    coverage: Uint8ClampedArray,
+    width: number,
+    height: number,
+    { invert, grow, feather }: Pick<MaskDocument, 'invert' | 'grow' | 'feather'>
+): Uint8ClampedArray {
+    const result = new Uint8ClampedArray(coverage);
+
+    if (invert) {
+        for (let i = 0; i < result.length; i++) result[i] = 255 - result[i];
+    }
+
+    const radius = Math.round(grow);
+    if (radius !== 0) {
+        // Growing finds pixels near the area; shrinking keeps pixels far from its outside
+        const target = new Uint8Array(result.length);
+        for (let i = 0; i < result.length; i++) {
+            const inside = result[i] >= 128;
+            target[i] = (radius > 0 ? inside : !inside) ? 1 : 0;
+        }
+        const distances = squaredDistanceTo(target, width, height);
+        const limit = radius * radius;
+        for (let i = 0; i < result.length; i++) {
+            result[i] = (radius > 0 ? distances[i] <= limit : distances[i] > limit) ? 255 : 0;
+        }
+    }
+
+    // Three box blurs approximate a Gaussian
+    const blurRadius = Math.round(feather / 3);
+    if (blurRadius > 0) {
+        const values = Float32Array.from(result);
+        for (let pass = 0; pass < 3; pass++) boxBlur(values, width, height, blurRadius);
+        for (let i = 0; i < result.length; i++) result[i] = values[i];
+    }
+
+    return result;
+}
+
+/**
+ * Turns RGBA pixels with the document's shapes drawn in (by drawMaskShapes) into
+ * the mask itself: black, with the edited area transparent
+ */
+export function rasterizeMaskPixels(pixels: Uint8ClampedArray, doc: MaskDocument): void {
+    const { width, height } = doc;
+    const coverage = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < coverage.length; i++) coverage[i] = pixels[i * 4 + 3];
+
+    const adjusted = adjustMaskCoverage(coverage, width, height, doc);
+    for (let i = 0; i < adjusted.length; i++) {
+        pixels[i * 4] = 0;
+        pixels[i * 4 + 1] = 0;
+        pixels[i * 4 + 2] = 0;
+        pixels[i * 4 + 3] = 255 - adjusted[i];
+    }
+}
+
+/**
+ * Renders a document into a context the size of the mask. The caller turns the
+ * canvas into a PNG.
+ */
+export async function renderMaskDocument(ctx: MaskContext, doc: MaskDocument): Promise<void> {
+    const mattes = await loadMaskMattes(doc.shapes);
+    ctx.clearRect(0, 0, doc.width, doc.height);
+    drawMaskShapes(ctx, doc.shapes, mattes);
+    const image = ctx.getImageData(0, 0, doc.width, doc.height);
+    rasterizeMaskPixels(image.data, doc);
+    ctx.putImageData(image, 0, 0);
+}
+
+function isPoint(value: unknown): value is MaskPoint {
+    const point = value as MaskPoint;
+    return !!point && Number.isFinite(point.x) && Number.isFinite(point.y);
+}
+
+function parseShape(value: unknown): MaskShape {
+    const shape = value as Record<string, unknown>;
+    switch (shape?.type) {
+        case 'brush':
+        case 'eraser':
+            if (!Array.isArray(shape.points) || !shape.points.every(isPoint) || !Number.isFinite(shape.radius)) {
+                break;
+            }
+            return { type: shape.type, points: shape.points, radius: Number(shape.radius) };
+        case 'lasso':
+            if (!Array.isArray(shape.points) || !shape.points.every(isPoint)) break;
+            return { type: 'lasso', points: shape.points, erase: shape.erase === true };
+        case 'rect':
+        case 'ellipse':
+            if (![shape.x, shape.y, shape.width, shape.height].every(Number.isFinite)) break;
+            return {
+                type: shape.type,
+                x: Number(shape.x),
+                y: Number(shape.y),
+                width: Number(shape.width),
+                height: Number(shape.height),
+                erase: shape.erase === true
+            };
+        case 'matte':
+            if (typeof shape.src !== 'string' || !shape.src.startsWith('data:image/png')) break;
+            return { type: 'matte', src: shape.src, erase: shape.erase === true };
+    }
+    throw new MaskDocumentError(`Invalid mask shape: ${JSON.stringify(value)?.slice(0, 100)}`);
+}
+
+/**
+ * Validates a stored document
+ */
+export function parseMaskDocument(value: unknown): MaskDocument {
+    const raw = value as Partial<Record<keyof MaskDocument, unknown>>;
+    if (!raw || typeof raw !== 'object' || raw.version !== 1) {
+        throw new MaskDocumentError('Unsupported mask document');
+    }
+    const width = Number(raw.width);
+    const height = Number(raw.height);
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+        throw new MaskDocumentError('Mask document has no valid size');
+    }
+    if (!Array.isArray(raw.shapes)) {
+        throw new MaskDocumentError('Mask document has no shapes');
+    }
+    const clamp = (input: unknown, min: number, max: number) =>
+        Number.isFinite(input) ? Math.min(max, Math.max(min, Number(input))) : 0;
+
+    return {
+        version: 1,
+        width,
+        height,
+        shapes: raw.shapes.map(parseShape),
+        invert: raw.invert === true,
+        grow: clamp(raw.grow, -MAX_MASK_GROW, MAX_MASK_GROW),
+        feather: clamp(raw.feather, 0, MAX_MASK_FEATHER)
+    };
+}
@@ -1,5 +1,69 @@
 import sharp from 'sharp';
 
+export type MoodOutputFormat = 'square' | 'original' | 'cover';
+export type MoodCropStrategy = 'attention' | 'entropy' | 'center';
+
+// Point of interest as fractions (0-1) of the uploaded image's width and height
+export interface FocalPoint {
+    x: number;
+    y: number;
+}
+
+export const MOOD_CROP_STRATEGIES: MoodCropStrategy[] = ['attention', 'entropy', 'center'];
+export const DEFAULT_MOOD_SIZE = 800;
+
+export interface MoodProcessOptions {
+    detectBorders?: boolean;
+    trimThreshold?: number;
+    // 'square' without this crops to a square; with it the whole image is padded into one
+    maintainAspectRatio?: boolean;
+    // square: 1:1 canvas, original: the image's own aspect, cover: cropped to `aspectRatio`
+    outputFormat?: MoodOutputFormat;
+    // Long edge of the output in pixels
+    size?: number;
+    // Target aspect as "width:height" for 'cover'
+    aspectRatio?: string;
+    // How to pick the crop window when no focal point is given
+    cropStrategy?: MoodCropStrategy;
+    focalPoint?: FocalPoint | null;
+    background?: { r: number; g: number; b: number; alpha: number };
+}
+
+function parseAspectRatio(value: string | undefined): number | null {
+    const match = value?.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    const ratio = parseFloat(match[1]) / parseFloat(match[2]);
+    return Number.isFinite(ratio) && ratio > 0 ? ratio : null;
+}
+
+// Output dimensions with the given aspect (width / height) and long edge
+function fitLongEdge(aspect: number, size: number): { width: number; height: number } {
+    return aspect >= 1
+        ? { width: size, height: Math.max(1, Math.round(size / aspect)) }
+        : { width: Math.max(1, Math.round(size * aspect)), height: size };
+}
+
+/**
+ * Largest window of the target aspect that fits the image, centred on the
+ * focal point as far as the image edges allow
+ */
+function focalCropWindow(
+    width: number,
+    height: number,
+    aspect: number,
+    focus: { x: number; y: number }
+): { left: number; top: number; width: number; height: number } {
+    const cropWidth = width / height > aspect ? Math.round(height * aspect) : width;
+    const cropHeight = width / height > aspect ? height : Math.round(width / aspect);
+    const clamp = (value: number, max: number) => Math.min(Math.max(0, Math.round(value)), max);
+    return {
+        left: clamp(focus.x - cropWidth / 2, width - cropWidth),
+        top: clamp(focus.y - cropHeight / 2, height - cropHeight),
+        width: cropWidth,
+        height: cropHeight
+    };
+}
+
 // Simple white border detection - checks all edges for white pixels
 async function hasDetectableBorders(
     imagePathOrBuffer: string | Buffer, 
@@ -97,19 +161,15 @@ async function hasDetectableBorders(
 export async function processMoodImage(
     inputBuffer: Buffer,
     filename: string,
-    options: {
-        detectBorders?: boolean;
-        trimThreshold?: number;
-        maintainAspectRatio?: boolean;
-        outputFormat?: 'square' | 'original' | 'cover';
-        background?: { r: number; g: number; b: number; alpha: number };
-    } = {}
+    options: MoodProcessOptions = {}
 ): Promise<Buffer> {
     const opts = {
         detectBorders: true,
         trimThreshold: 240,
         maintainAspectRatio: true,
-        outputFormat: 'square' as const,
+        outputFormat: 'square' as MoodOutputFormat,
+        size: DEFAULT_MOOD_SIZE,
+        cropStrategy: 'attention' as MoodCropStrategy,
         background: { r: 255, g: 255, b: 255, alpha: 0 },
         ...options
     };
@@ -117,6 +177,12 @@ export async function processMoodImage(
     console.log(`[MOOD_SCALE_ITEM_START] Processing mood image: ${filename}`);
     
     try {
+        // Apply EXIF orientation first so focal points match the image as the browser shows it
+        const inputMetadata = await sharp(inputBuffer).metadata();
+        if (inputMetadata.orientation && inputMetadata.orientation > 1) {
+            inputBuffer = await sharp(inputBuffer).rotate().toBuffer();
+        }
+
         let image = sharp(inputBuffer);
 
         // Get image metadata
@@ -176,16 +242,50 @@ export async function processMoodImage(
             image = image.flatten({ background: opts.background });
         }
 
-        // Get metadata again after potential trimming and flattening
-        const currentMetadata = await image.metadata();
-        const isSquareAfterOps = currentMetadata.width === currentMetadata.height;
-        
-        // Now resize the (potentially trimmed/flattened) image
-        // Always use cover to ensure 800x800 output (as per smart_cropper logic)
-        image = image.resize(800, 800, {
-            fit: 'cover',
-            withoutEnlargement: false
-        });
+        // Materialise the trimmed image; the trim offsets map the focal point into it
+        const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+        image = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+        console.log(`[MOOD_SCALE_ITEM_DETAIL] ${filename} after trim: ${info.width}x${info.height}`);
+
+        const sourceAspect = info.width / info.height;
+        const targetAspect =
+            opts.outputFormat === 'original'
+                ? sourceAspect
+                : opts.outputFormat === 'square'
+                  ? 1
+                  : (parseAspectRatio(opts.aspectRatio) ?? 1);
+        const target = fitLongEdge(targetAspect, opts.size);
+
+        if (opts.outputFormat === 'original' || (opts.outputFormat === 'square' && opts.maintainAspectRatio)) {
+            // No cropping: scale the whole image, padding it onto a square canvas if needed
+            image = image.resize(target.width, target.height, {
+                fit: 'contain',
+                background: opts.background,
+                withoutEnlargement: false
+            });
+        } else if (opts.focalPoint) {
+            // sharp reports the trimmed-away margins as negative offsets
+            const focus = {
+                x: opts.focalPoint.x * metadata.width! + (info.trimOffsetLeft ?? 0),
+                y: opts.focalPoint.y * metadata.height! + (info.trimOffsetTop ?? 0)
+            };
+            const crop = focalCropWindow(info.width, info.height, targetAspect, focus);
+            console.log(`[MOOD_SCALE_ITEM_DETAIL] ${filename} focal crop: ${crop.width}x${crop.height} at ${crop.left},${crop.top}`);
+            image = image.extract(crop).resize(target.width, target.height, { fit: 'fill' });
+        } else {
+            // Let sharp find the interesting region: attention favours skin, saturation and
+            // luminance contrast, entropy the most detailed area
+            image = image.resize(target.width, target.height, {
+                fit: 'cover',
+                position:
+                    opts.cropStrategy === 'attention'
+                        ? sharp.strategy.attention
+                        : opts.cropStrategy === 'entropy'
+                          ? sharp.strategy.entropy
+                          : 'centre',
+                withoutEnlargement: false
+            });
+        }
 
         // Output as PNG
         const outputBuffer = await image.png().toBuffer();
@@ -200,17 +300,22 @@ export async function processMoodImage(
 }
 
 /**
- * Process multiple mood images
+ * Process multiple mood images. Once `signal` aborts no further batches are
+ * started; the results so far are returned.
  */
 export async function processAllMoodImages(
     images: Array<{ buffer: Buffer; filename: string }>,
-    options: {
-        detectBorders?: boolean;
-        trimThreshold?: number;
-        maintainAspectRatio?: boolean;
-        outputFormat?: 'square' | 'original' | 'cover';
-        background?: { r: number; g: number; b: number; alpha: number };
+    options: Omit<MoodProcessOptions, 'focalPoint'> & {
+        // Per-image focal points, keyed by filename
+        focalPoints?: Record<string, FocalPoint>;
         batchSize?: number;
+        signal?: AbortSignal;
+        // Per-file progress, called as each image in a batch starts and finishes
+        onFileStart?: (index: number, filename: string) => void | Promise<void>;
+        onFileDone?: (
+            index: number,
+            result: { buffer: Buffer; filename: string; error?: string }
+        ) => void | Promise<void>;
         progressCallback?: (progress: {
             total: number;
             processed: number;
@@ -234,33 +339,44 @@ export async function processAllMoodImages(
     const totalBatches = Math.ceil(images.length / batchSize);
     
     for (let i = 0; i < images.length; i += batchSize) {
+        if (options.signal?.aborted) {
+            console.log(`[MOOD_BATCH] Cancelled after ${results.length} of ${images.length} images`);
+            break;
+        }
+
         const batch = images.slice(i, i + batchSize);
         const currentBatch = Math.floor(i / batchSize) + 1;
         
         console.log(`[MOOD_BATCH] Processing batch ${currentBatch}/${totalBatches} (${batch.length} images)`);
         
         // Process batch in parallel
-        const batchPromises = batch.map(async (image) => {
+        const batchPromises = batch.map(async (image, batchIndex) => {
+            const index = i + batchIndex;
+            await options.onFileStart?.(index, image.filename);
+
+            let result: { buffer: Buffer; filename: string; error?: string };
             try {
-                const processedBuffer = await processMoodImage(
-                    image.buffer,
-                    image.filename,
-                    options
-                );
+                const processedBuffer = await processMoodImage(image.buffer, image.filename, {
+                    ...options,
+                    focalPoint: options.focalPoints?.[image.filename] ?? null
+                });
                 
-                return {
+                result = {
                     buffer: processedBuffer,
                     filename: image.filename.replace(/\.[^/.]+$/, '') + '.png' // Ensure .png extension
                 };
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                 console.error(`Failed to process ${image.filename}:`, errorMessage);
-                return {
+                result = {
                     buffer: image.buffer,
                     filename: image.filename,
                     error: errorMessage
                 };
             }
+
+            await options.onFileDone?.(index, result);
+            return result;
         });
         
         const batchResults = await Promise.all(batchPromises);
@@ -0,0 +1,318 @@
+/**
+ * Packshot output profiles. Each sales channel wants its own canvas: size and
+ * aspect, how much of it the product fills, where it sits, the background,
+ * a shadow, the file format and how files are named. A profile captures one
+ * channel's rules; the packshot tool renders every image once per profile.
+ * Used on both client and server.
+ */
+
+export type PackshotAlignment = 'center' | 'bottom';
+export type PackshotOutputFormat = 'png' | 'jpeg' | 'webp';
+
+export interface PackshotDropShadow {
+    // 0-1
+    opacity: number;
+    // Blur radius as a percentage of the canvas height
+    blur: number;
+    // Direction the shadow falls in degrees: 0 is right, 90 straight down
+    angle: number;
+    // Offset as a percentage of the canvas height
+    distance: number;
+}
+
+// Dark, squashed silhouette right under the product that grounds it on the floor
+export interface PackshotContactShadow {
+    // 0-1
+    opacity: number;
+    // Blur radius as a percentage of the product width
+    blur: number;
+    // Height of the squashed silhouette as a percentage of the product height
+    height: number;
+}
+
+// Mirrored copy of the product below it, fading out towards the bottom
+export interface PackshotReflection {
+    // Opacity where the reflection meets the product, 0-1
+    opacity: number;
+    // How much of the product is mirrored, as a percentage of its height
+    height: number;
+    // Gap between product and reflection as a percentage of the canvas height
+    gap: number;
+}
+
+/**
+ * Grounding effects requested for a whole run. A key that is set (to an effect
+ * or to null) overrides the profile; a missing key leaves the profile's choice.
+ */
+export interface PackshotEffects {
+    contactShadow?: PackshotContactShadow | null;
+    dropShadow?: PackshotDropShadow | null;
+    reflection?: PackshotReflection | null;
+}
+
+export interface PackshotProfile {
+    id: string;
+    name: string;
+    // Long edge of the canvas in pixels
+    size: number;
+    // Canvas aspect as "width:height", e.g. "1:1" or "4:5"
+    aspectRatio: string;
+    // How much of the canvas (per axis) the product may fill, 10-100
+    fillPercent: number;
+    alignment: PackshotAlignment;
+    // Gap under the product when bottom aligned, as a percentage of the canvas height
+    bottomMarginPercent: number;
+    // Hex colour, or 'transparent' (PNG/WebP only)
+    background: string;
+    dropShadow: PackshotDropShadow | null;
+    format: PackshotOutputFormat;
+    // 1-100, ignored for PNG
+    quality: number;
+    // Tokens: {ean}, {seq}, {name} (original file name) and {profile} (profile id)
+    filenamePattern: string;
+}
+
+export class PackshotProfileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PackshotProfileError';
+    }
+}
+
+export const MAX_PACKSHOT_PROFILES = 10;
+// localStorage key for the profiles made in the packshot tool
+export const CUSTOM_PACKSHOT_PROFILES_KEY = 'packshotProfiles';
+export const PACKSHOT_ASPECT_RATIOS = ['1:1', '4:5', '3:4', '2:3', '4:3', '16:9'];
+export const DEFAULT_FILENAME_PATTERN = '{ean}-{seq}';
+
+export const DEFAULT_DROP_SHADOW: PackshotDropShadow = { opacity: 0.35, blur: 1.5, angle: 90, distance: 1 };
+export const DEFAULT_CONTACT_SHADOW: PackshotContactShadow = { opacity: 0.6, blur: 3, height: 5 };
+export const DEFAULT_REFLECTION: PackshotReflection = { opacity: 0.3, height: 35, gap: 0 };
+
+export const BUILT_IN_PACKSHOT_PROFILES: PackshotProfile[] = [
+    {
+        id: 'transparent-800',
+        name: 'Transparent PNG 800px',
+        size: 800,
+        aspectRatio: '1:1',
+        fillPercent: 90,
+        alignment: 'center',
+        bottomMarginPercent: 0,
+        background: 'transparent',
+        dropShadow: null,
+        format: 'png',
+        quality: 100,
+        filenamePattern: DEFAULT_FILENAME_PATTERN
+    },
+    {
+        id: 'webshop-white-2000',
+        name: 'Webshop hvid JPEG 2000px',
+        size: 2000,
+        aspectRatio: '1:1',
+        fillPercent: 85,
+        alignment: 'center',
+        bottomMarginPercent: 0,
+        background: '#ffffff',
+        dropShadow: null,
+        format: 'jpeg',
+        quality: 90,
+        filenamePattern: DEFAULT_FILENAME_PATTERN
+    },
+    {
+        id: 'marketplace-shadow',
+        name: 'Markedsplads med skygge',
+        size: 1600,
+        aspectRatio: '4:5',
+        fillPercent: 80,
+        alignment: 'bottom',
+        bottomMarginPercent: 10,
+        background: '#f5f5f5',
+        dropShadow: DEFAULT_DROP_SHADOW,
+        format: 'jpeg',
+        quality: 88,
+        filenamePattern: '{ean}_{seq}_{profile}'
+    }
+];
+
+export const DEFAULT_PACKSHOT_PROFILE = BUILT_IN_PACKSHOT_PROFILES[0];
+
+/** Legacy behaviour: a transparent square of the given size */
+export function frameSizeProfile(frameSize: number): PackshotProfile {
+    return { ...DEFAULT_PACKSHOT_PROFILE, id: `transparent-${frameSize}`, size: frameSize };
+}
+
+export function isBuiltInPackshotProfile(id: string): boolean {
+    return BUILT_IN_PACKSHOT_PROFILES.some((profile) => profile.id === id);
+}
+
+function parseAspectRatio(value: string): [number, number] | null {
+    const match = value.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    const width = parseFloat(match[1]);
+    const height = parseFloat(match[2]);
+    return width > 0 && height > 0 ? [width, height] : null;
+}
+
+export function getPackshotCanvasSize(profile: PackshotProfile): { width: number; height: number } {
+    const [ratioWidth, ratioHeight] = parseAspectRatio(profile.aspectRatio) ?? [1, 1];
+    return ratioWidth >= ratioHeight
+        ? { width: profile.size, height: Math.round((profile.size * ratioHeight) / ratioWidth) }
+        : { width: Math.round((profile.size * ratioWidth) / ratioHeight), height: profile.size };
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+    const number = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+}
+
+function normalizeDropShadow(input: unknown): PackshotDropShadow | null {
+    if (!input || typeof input !== 'object') return null;
+    const shadow = input as Partial<Record<keyof PackshotDropShadow, unknown>>;
+    return {
+        opacity: clamp(shadow.opacity, 0, 1, DEFAULT_DROP_SHADOW.opacity),
+        blur: clamp(shadow.blur, 0, 10, DEFAULT_DROP_SHADOW.blur),
+        angle: clamp(shadow.angle, -360, 360, DEFAULT_DROP_SHADOW.angle),
+        distance: clamp(shadow.distance, 0, 10, DEFAULT_DROP_SHADOW.distance)
+    };
+}
+
+function normalizeContactShadow(input: unknown): PackshotContactShadow | null {
+    if (!input || typeof input !== 'object') return null;
+    const shadow = input as Partial<Record<keyof PackshotContactShadow, unknown>>;
+    return {
+        opacity: clamp(shadow.opacity, 0, 1, DEFAULT_CONTACT_SHADOW.opacity),
+        blur: clamp(shadow.blur, 0, 20, DEFAULT_CONTACT_SHADOW.blur),
+        height: clamp(shadow.height, 1, 30, DEFAULT_CONTACT_SHADOW.height)
+    };
+}
+
+function normalizeReflection(input: unknown): PackshotReflection | null {
+    if (!input || typeof input !== 'object') return null;
+    const reflection = input as Partial<Record<keyof PackshotReflection, unknown>>;
+    return {
+        opacity: clamp(reflection.opacity, 0, 1, DEFAULT_REFLECTION.opacity),
+        height: clamp(reflection.height, 5, 100, DEFAULT_REFLECTION.height),
+        gap: clamp(reflection.gap, 0, 10, DEFAULT_REFLECTION.gap)
+    };
+}
+
+/**
+ * Checks effects sent by a client. `true` turns an effect on with its
+ * defaults; `false` or null turns it off.
+ */
+export function normalizePackshotEffects(input: unknown): PackshotEffects {
+    if (!input || typeof input !== 'object') return {};
+    const raw = input as Partial<Record<keyof PackshotEffects, unknown>>;
+    const effects: PackshotEffects = {};
+
+    if (raw.contactShadow !== undefined) {
+        effects.contactShadow = normalizeContactShadow(raw.contactShadow === true ? {} : raw.contactShadow);
+    }
+    if (raw.dropShadow !== undefined) {
+        effects.dropShadow = normalizeDropShadow(raw.dropShadow === true ? {} : raw.dropShadow);
+    }
+    if (raw.reflection !== undefined) {
+        effects.reflection = normalizeReflection(raw.reflection === true ? {} : raw.reflection);
+    }
+    return effects;
+}
+
+/** The effects a render uses: the run's effects where set, otherwise the profile's */
+export function resolvePackshotEffects(
+    profile: PackshotProfile,
+    effects: PackshotEffects = {}
+): Required<PackshotEffects> {
+    return {
+        contactShadow: effects.contactShadow !== undefined ? effects.contactShadow : null,
+        dropShadow: effects.dropShadow !== undefined ? effects.dropShadow : profile.dropShadow,
+        reflection: effects.reflection !== undefined ? effects.reflection : null
+    };
+}
+
+/**
+ * Checks a profile sent by a client and fills in defaults. Throws
+ * PackshotProfileError for values that can't be rendered.
+ */
+export function normalizePackshotProfile(input: unknown): PackshotProfile {
+    if (!input || typeof input !== 'object') {
+        throw new PackshotProfileError('Profile must be an object');
+    }
+    const raw = input as Partial<Record<keyof PackshotProfile, unknown>>;
+
+    const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+    if (!/^[a-z0-9][a-z0-9_-]{0,39}$/i.test(id)) {
+        throw new PackshotProfileError(`Invalid profile id "${id}": use letters, digits, "-" and "_"`);
+    }
+
+    const aspectRatio = typeof raw.aspectRatio === 'string' ? raw.aspectRatio.trim() : '1:1';
+    if (!parseAspectRatio(aspectRatio)) {
+        throw new PackshotProfileError(`Invalid aspect ratio "${aspectRatio}" in profile ${id}`);
+    }
+
+    const format: PackshotOutputFormat =
+        raw.format === 'jpeg' || raw.format === 'jpg' ? 'jpeg' : raw.format === 'webp' ? 'webp' : 'png';
+
+    let background = typeof raw.background === 'string' ? raw.background.trim().toLowerCase() : 'transparent';
+    if (background !== 'transparent' && !/^#[0-9a-f]{6}$/.test(background)) {
+        throw new PackshotProfileError(`Invalid background "${background}" in profile ${id}`);
+    }
+    // JPEG has no alpha channel
+    if (background === 'transparent' && format === 'jpeg') {
+        background = '#ffffff';
+    }
+
+    const filenamePattern =
+        typeof raw.filenamePattern === 'string' && raw.filenamePattern.trim()
+            ? raw.filenamePattern.trim()
+            : DEFAULT_FILENAME_PATTERN;
+    if (/[\\/]/.test(filenamePattern)) {
+        throw new PackshotProfileError(`Filename pattern in profile ${id} must not contain "/" or "\\"`);
+    }
+
+    return {
+        id,
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : id,
+        size: Math.round(clamp(raw.size, 64, 6000, DEFAULT_PACKSHOT_PROFILE.size)),
+        aspectRatio,
+        fillPercent: clamp(raw.fillPercent, 10, 100, 100),
+        alignment: raw.alignment === 'bottom' ? 'bottom' : 'center',
+        bottomMarginPercent: clamp(raw.bottomMarginPercent, 0, 45, 0),
+        background,
+        dropShadow: normalizeDropShadow(raw.dropShadow),
+        format,
+        quality: Math.round(clamp(raw.quality, 1, 100, 90)),
+        filenamePattern
+    };
+}
+
+export function packshotFileExtension(format: PackshotOutputFormat): string {
+    return format === 'jpeg' ? 'jpg' : format;
+}
+
+/**
+ * Builds an output filename from the profile's pattern. An empty {seq}
+ * takes its neighbouring separator with it, so "{ean}-{seq}" gives "123" for
+ * the first image and "123-2" for the second.
+ */
+export function formatPackshotFilename(
+    profile: PackshotProfile,
+    values: { ean: string; sequence: string | null; originalName: string }
+): string {
+    const baseName = values.originalName.replace(/\.[^.]+$/, '');
+    const tokens: Record<string, string> = {
+        ean: values.ean,
+        seq: values.sequence ?? '',
+        name: baseName,
+        profile: profile.id
+    };
+
+    const name = profile.filenamePattern
+        .replace(/([-_ .]?)\{(\w+)\}/g, (match, separator: string, token: string) => {
+            if (!(token in tokens)) return match;
+            return tokens[token] ? separator + tokens[token] : '';
+        })
+        .replace(/^[-_ .]+/, '')
+        .replace(/[<>:"|?*]/g, '_');
+
+    return `${name || baseName}.${packshotFileExtension(profile.format)}`;
+}
@@ -0,0 +1,197 @@
+import { extractEANFromFilename, isValidEAN, removeLeadingZeros } from '@/lib/ean-processor';
+import { processTemplate } from '@/lib/prompt-templates';
+import type { PromptTemplate, TemplateVariable } from '@/types/templates';
+
+/**
+ * Product feed parsing for batch generation. A feed is a CSV or JSON file with
+ * one product per row; its columns fill template variables and its EAN column
+ * links each row to the uploaded source images. Used on both client and server.
+ */
+
+export interface ProductFeed {
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+export class ProductFeedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProductFeedError';
+    }
+}
+
+export const MAX_FEED_ROWS = 200;
+
+// Splits CSV text into records, honouring quoted fields with embedded delimiters, quotes and newlines
+function parseCsvRecords(text: string, delimiter: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// Spreadsheet exports with a Danish locale use ';' since ',' is the decimal separator
+function detectDelimiter(headerLine: string): string {
+    const candidates = [',', ';', '\t'];
+    return candidates.reduce((best, candidate) =>
+        headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+    );
+}
+
+function parseCsv(text: string): ProductFeed {
+    const headerLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const records = parseCsvRecords(text, detectDelimiter(headerLine));
+    if (records.length < 2) {
+        throw new ProductFeedError('CSV-filen skal have en overskriftsrække og mindst én produktrække');
+    }
+
+    const columns = records[0].map((column, index) => column.trim() || `Kolonne ${index + 1}`);
+    const rows = records.slice(1).map((record) => {
+        const row: Record<string, string> = {};
+        columns.forEach((column, index) => {
+            row[column] = (record[index] ?? '').trim();
+        });
+        return row;
+    });
+
+    return { columns, rows };
+}
+
+function parseJson(text: string): ProductFeed {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ProductFeedError('JSON-filen kunne ikke læses');
+    }
+
+    // Accept a bare array or a wrapper like { "products": [...] }
+    if (!Array.isArray(data) && typeof data === 'object' && data !== null) {
+        data = Object.values(data).find(Array.isArray);
+    }
+    if (!Array.isArray(data) || data.length === 0) {
+        throw new ProductFeedError('JSON-filen skal indeholde en liste af produkter');
+    }
+
+    const columns: string[] = [];
+    const rows = data
+        .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+        .map((item) => {
+            const row: Record<string, string> = {};
+            for (const [key, value] of Object.entries(item)) {
+                if (value === null || typeof value === 'object') continue;
+                if (!columns.includes(key)) columns.push(key);
+                row[key] = String(value).trim();
+            }
+            return row;
+        });
+
+    return { columns, rows };
+}
+
+export function parseProductFeed(text: string, filename: string): ProductFeed {
+    const trimmed = text.replace(/^\uFEFF/, '').trim();
+    const isJson = filename.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{');
+    const feed = isJson ? parseJson(trimmed) : parseCsv(trimmed);
+
+    if (feed.rows.length > MAX_FEED_ROWS) {
+        throw new ProductFeedError(`Feedet har ${feed.rows.length} rækker; maksimum er ${MAX_FEED_ROWS}`);
+    }
+    return feed;
+}
+
+/** Digits-only GTIN from a feed cell, or null when it isn't one or its check digit is wrong */
+export function normalizeFeedEAN(value: string | undefined): string | null {
+    const digits = (value ?? '').replace(/[\s-]/g, '');
+    return isValidEAN(digits) ? digits : null;
+}
+
+export function guessEANColumn(columns: string[]): string | null {
+    return columns.find((column) => /\b(ean|gtin|upc|barcode|stregkode)\b/i.test(column)) ?? null;
+}
+
+/** Picks the feed column whose name matches a template variable, if any */
+export function guessColumnForVariable(variable: TemplateVariable, columns: string[]): string | null {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9æøå]/g, '');
+    const names = [variable.name, variable.label].map(normalize);
+    return columns.find((column) => names.includes(normalize(column))) ?? null;
+}
+
+/** Builds an ad-hoc template from free text with {placeholders} */
+export function createCustomTemplate(text: string): PromptTemplate {
+    const names = Array.from(new Set(Array.from(text.matchAll(/\{([\w-]+)\}/g), (match) => match[1])));
+    return {
+        id: 'custom',
+        name: 'Egen prompt',
+        description: '',
+        category: 'custom',
+        template: text,
+        variables: names.map((name) => ({ name, label: name, placeholder: name, type: 'text' })),
+        tags: []
+    };
+}
+
+/**
+ * Fills a template for one feed row. `mapping` maps variable names to feed
+ * columns; unmapped or empty cells fall back to the variable's default.
+ */
+export function buildRowPrompt(
+    template: PromptTemplate,
+    mapping: Record<string, string>,
+    row: Record<string, string>
+): string {
+    const variables: Record<string, string> = {};
+    for (const variable of template.variables) {
+        const column = mapping[variable.name];
+        variables[variable.name] = (column && row[column]) || variable.defaultValue || variable.placeholder;
+    }
+    return processTemplate(template, variables);
+}
+
+/**
+ * Uploaded files whose name carries the given EAN (e.g. 0630870296793-2.jpg),
+ * ordered by their sequence number. UPC-A and its zero-padded EAN-13 form match.
+ */
+export function matchFilesByEAN<T extends { filename: string }>(ean: string, files: T[]): T[] {
+    const target = removeLeadingZeros(ean);
+    return files
+        .map((file) => ({ file, parsed: extractEANFromFilename(file.filename) }))
+        .filter(({ parsed }) => parsed && removeLeadingZeros(parsed.ean) === target)
+        .sort((a, b) => parseInt(a.parsed?.number || '0', 10) - parseInt(b.parsed?.number || '0', 10))
+        .map(({ file }) => file);
+}
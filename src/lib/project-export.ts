@@ -0,0 +1,150 @@
+import { db } from '@/lib/db';
+import type { Project, ProjectItem } from '@/lib/projects';
+
+interface ProjectManifestItem {
+    kind: ProjectItem['kind'];
+    name: string;
+    // Path inside the archive; null when the contents could no longer be found
+    file: string | null;
+    addedAt: string;
+    prompt?: string;
+    historyTimestamp?: number;
+    videoId?: string;
+    tool?: 'packshot' | 'mood';
+    contentHash?: string;
+}
+
+export interface ProjectExportResult {
+    exported: number;
+    // Items whose contents are gone, e.g. an expired video URL; they are still listed in the manifest
+    missing: string[];
+}
+
+function slugify(value: string): string {
+    return (
+        value
+            .toLowerCase()
+            .normalize('NFKD')
+            .replace(/[^\w.-]+/g, '-')
+            .replace(/^-+|-+$/g, '') || 'projekt'
+    );
+}
+
+async function fetchBlob(url: string): Promise<Blob | undefined> {
+    try {
+        const response = await fetch(url);
+        return response.ok ? await response.blob() : undefined;
+    } catch (error) {
+        console.error(`Failed to fetch ${url}:`, error);
+        return undefined;
+    }
+}
+
+async function getItemContents(item: ProjectItem): Promise<Blob | undefined> {
+    switch (item.kind) {
+        case 'image':
+            if (item.hash) return db.getBlob(item.hash);
+            return item.storageModeUsed === 'indexeddb'
+                ? db.getImageBlob(item.filename)
+                : fetchBlob(`/api/image/${item.filename}`);
+        case 'video': {
+            const stored = await db.videos.get(item.videoId);
+            if (stored?.blob) return stored.blob;
+            const url = stored?.url ?? item.videoUrl;
+            return url ? fetchBlob(url) : undefined;
+        }
+        case 'processed':
+            return item.hash ? db.getBlob(item.hash) : undefined;
+        case 'style-analysis':
+            return new Blob([JSON.stringify(item.analysis, null, 2)], { type: 'application/json' });
+    }
+}
+
+function getItemPath(item: ProjectItem): string {
+    switch (item.kind) {
+        case 'image':
+            return `images/${item.filename}`;
+        case 'video':
+            return `videos/${slugify(item.name)}.mp4`;
+        case 'processed':
+            return `processed/${item.tool}/${item.filename}`;
+        case 'style-analysis':
+            return `style-analyses/${slugify(item.name)}.json`;
+    }
+}
+
+// Adds a counter before the extension until the path is free
+function uniquePath(path: string, used: Set<string>): string {
+    let candidate = path;
+    const dot = path.lastIndexOf('.');
+    const [base, extension] = dot > path.lastIndexOf('/') ? [path.slice(0, dot), path.slice(dot)] : [path, ''];
+    for (let counter = 2; used.has(candidate); counter++) {
+        candidate = `${base}_${counter}${extension}`;
+    }
+    used.add(candidate);
+    return candidate;
+}
+
+/**
+ * Downloads a project as a ZIP: every item's file, sorted into folders by
+ * kind, and a manifest.json describing the project and each item.
+ */
+export async function exportProjectAsZip(project: Project, items: ProjectItem[]): Promise<ProjectExportResult> {
+    // Dynamic import to avoid bundling JSZip if not used
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+    const usedPaths = new Set(['manifest.json']);
+    const missing: string[] = [];
+
+    const manifestItems: ProjectManifestItem[] = [];
+    for (const item of items) {
+        const contents = await getItemContents(item);
+        let file: string | null = null;
+        if (contents) {
+            file = uniquePath(getItemPath(item), usedPaths);
+            zip.file(file, contents);
+        } else {
+            missing.push(item.name);
+        }
+
+        manifestItems.push({
+            kind: item.kind,
+            name: item.name,
+            file,
+            addedAt: new Date(item.addedAt).toISOString(),
+            prompt: item.kind === 'image' || item.kind === 'video' ? item.prompt : undefined,
+            historyTimestamp: item.kind === 'image' ? item.historyTimestamp : undefined,
+            videoId: item.kind === 'video' ? item.videoId : undefined,
+            tool: item.kind === 'processed' ? item.tool : undefined,
+            contentHash: item.hash
+        });
+    }
+
+    const manifest = {
+        project: {
+            id: project.id,
+            name: project.name,
+            description: project.description,
+            createdAt: new Date(project.createdAt).toISOString(),
+            defaults: project.defaults
+        },
+        exportedAt: new Date().toISOString(),
+        items: manifestItems
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    const url = URL.createObjectURL(zipBlob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${slugify(project.name)}_${new Date().toISOString().split('T')[0]}.zip`;
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+
+    return { exported: items.length - missing.length, missing };
+}
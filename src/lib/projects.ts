@@ -0,0 +1,119 @@
+import type { StyleAnalysis } from '@/hooks/useStyleAnalysis';
+
+/**
+ * Projects collect the work for one client campaign or product launch:
+ * generated images, videos, style analyses and processed packshot/mood
+ * outputs. Processed outputs only live in the server's temp store for an
+ * hour, so a project keeps its own copy in the IndexedDB blob store; images
+ * saved in IndexedDB are kept alive the same way. A project's defaults are
+ * pre-filled into the forms while it is active.
+ */
+
+export interface ProjectDefaults {
+    templateId?: string;
+    // Prompt tag ids
+    tags?: string[];
+    packshotProfileIds?: string[];
+}
+
+export interface Project {
+    id: string;
+    name: string;
+    description?: string;
+    createdAt: number;
+    updatedAt: number;
+    defaults: ProjectDefaults;
+}
+
+export type ProjectItemKind = 'image' | 'video' | 'style-analysis' | 'processed';
+
+export const PROJECT_ITEM_KIND_LABELS: Record<ProjectItemKind, string> = {
+    image: 'Billeder',
+    video: 'Videoer',
+    'style-analysis': 'Stilanalyser',
+    processed: 'Behandlede billeder'
+};
+
+interface ProjectItemBase {
+    id: string;
+    projectId: string;
+    kind: ProjectItemKind;
+    addedAt: number;
+    // Shown in the project view and used for the file name in exports
+    name: string;
+    // Key into the IndexedDB blob store for contents the project holds a reference to
+    hash?: string;
+}
+
+export interface ProjectImageItem extends ProjectItemBase {
+    kind: 'image';
+    filename: string;
+    historyTimestamp: number;
+    prompt: string;
+    storageModeUsed?: 'fs' | 'indexeddb';
+}
+
+export interface ProjectVideoItem extends ProjectItemBase {
+    kind: 'video';
+    videoId: string;
+    prompt: string;
+    videoUrl?: string;
+}
+
+export interface ProjectStyleAnalysisItem extends ProjectItemBase {
+    kind: 'style-analysis';
+    analysis: StyleAnalysis;
+}
+
+export interface ProjectProcessedItem extends ProjectItemBase {
+    kind: 'processed';
+    tool: 'packshot' | 'mood';
+    filename: string;
+}
+
+export type ProjectItem = ProjectImageItem | ProjectVideoItem | ProjectStyleAnalysisItem | ProjectProcessedItem;
+
+type NewItem<T extends ProjectItem> = Omit<T, 'id' | 'projectId' | 'addedAt' | 'hash'>;
+
+/** An item to add to a project. Processed outputs pass their contents, which the project keeps a copy of. */
+export type NewProjectItem =
+    | NewItem<ProjectImageItem>
+    | NewItem<ProjectVideoItem>
+    | NewItem<ProjectStyleAnalysisItem>
+    | (NewItem<ProjectProcessedItem> & { blob: Blob });
+
+/**
+ * Identifies what an item refers to, so adding the same image or video twice
+ * is a no-op. Processed outputs are told apart by contents and analyses are
+ * never merged.
+ */
+export function getProjectItemSourceKey(item: NewProjectItem | ProjectItem, hash?: string): string | null {
+    switch (item.kind) {
+        case 'image':
+            return `image:${item.filename}`;
+        case 'video':
+            return `video:${item.videoId}`;
+        case 'processed':
+            return hash ? `processed:${hash}` : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Downloads processed outputs from the temp store so the project can keep them
+ */
+export async function fetchProcessedProjectItems(
+    tool: ProjectProcessedItem['tool'],
+    images: Array<{ filename: string; url: string }>
+): Promise<NewProjectItem[]> {
+    return Promise.all(
+        images.map(async ({ filename, url }) => {
+            const response = await fetch(url);
+            if (!response.ok) {
+                throw new Error(`Failed to fetch ${filename}: ${response.statusText}`);
+            }
+            return { kind: 'processed' as const, tool, filename, name: filename, blob: await response.blob() };
+        })
+    );
+}
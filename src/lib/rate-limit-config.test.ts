@@ -0,0 +1,89 @@
+import { DEFAULT_RATE_LIMITS, parseRateLimitConfig, resolveRateLimit } from './rate-limit-config';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+describe('parseRateLimitConfig', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('uses the built-in limits for an empty or invalid config', () => {
+        expect(parseRateLimitConfig({})).toEqual({ limits: DEFAULT_RATE_LIMITS, routes: {}, roles: {}, users: {} });
+        expect(parseRateLimitConfig(null).limits).toEqual(DEFAULT_RATE_LIMITS);
+    });
+
+    it('overrides fields of built-in limits and bases custom limits on the API limit', () => {
+        const { limits } = parseRateLimitConfig({
+            limits: { imageGeneration: { points: 20.7 }, gemini: { points: 10, duration: 30 } }
+        });
+
+        expect(limits.imageGeneration).toEqual({ ...DEFAULT_RATE_LIMITS.imageGeneration, points: 20 });
+        expect(limits.gemini).toEqual({ ...DEFAULT_RATE_LIMITS.api, points: 10, duration: 30 });
+    });
+
+    it('drops invalid fields instead of disabling the limit', () => {
+        const { limits } = parseRateLimitConfig({
+            limits: { api: { points: 0, duration: 'soon', blockDuration: -5 }, read: { blockDuration: 0 } }
+        });
+
+        expect(limits.api).toEqual(DEFAULT_RATE_LIMITS.api);
+        expect(limits.read).toEqual({ ...DEFAULT_RATE_LIMITS.read, blockDuration: 0 });
+    });
+
+    it('keeps routes that point at known limits only', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const { routes } = parseRateLimitConfig({
+            limits: { gemini: { points: 10 } },
+            routes: { '/api/refine-prompt': 'gemini', '/api/other': 'missing' }
+        });
+
+        expect(routes).toEqual({ '/api/refine-prompt': 'gemini' });
+        expect(warn).toHaveBeenCalledOnce();
+    });
+
+    it('stores user overrides by lower-case username', () => {
+        const { users } = parseRateLimitConfig({ users: { Anna: { videoGeneration: { points: 20 } } } });
+        expect(users).toEqual({ anna: { videoGeneration: { points: 20 } } });
+    });
+});
+
+describe('resolveRateLimit', () => {
+    const config = parseRateLimitConfig({
+        limits: { gemini: { points: 10 } },
+        routes: { '/api/refine-prompt': 'gemini' },
+        roles: { admin: { imageGeneration: { points: 60 } } },
+        users: { anna: { imageGeneration: { duration: 120 } } }
+    });
+
+    it('gives anonymous clients the default tier', () => {
+        expect(resolveRateLimit(config, 'imageGeneration', '/api/images', null)).toEqual({
+            type: 'imageGeneration',
+            tier: 'default',
+            policy: DEFAULT_RATE_LIMITS.imageGeneration
+        });
+    });
+
+    it('moves routes onto their configured limit', () => {
+        expect(resolveRateLimit(config, 'api', '/api/refine-prompt', null)).toMatchObject({
+            type: 'gemini',
+            policy: { points: 10 }
+        });
+    });
+
+    it('falls back to the API limit for an unknown type', () => {
+        expect(resolveRateLimit(config, 'unknown', null, null).policy).toEqual(DEFAULT_RATE_LIMITS.api);
+    });
+
+    it('applies role overrides, with user overrides on top', () => {
+        expect(resolveRateLimit(config, 'imageGeneration', null, { username: 'bo', role: 'admin' })).toMatchObject({
+            tier: 'role:admin',
+            policy: { points: 60, duration: 60 }
+        });
+        expect(resolveRateLimit(config, 'imageGeneration', null, { username: 'Anna', role: 'admin' })).toMatchObject({
+            tier: 'user:anna',
+            policy: { points: 60, duration: 120 }
+        });
+        expect(resolveRateLimit(config, 'imageGeneration', null, { username: 'bo', role: 'editor' }).tier).toBe(
+            'default'
+        );
+    });
+});
@@ -0,0 +1,174 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { UserRole } from '@/lib/user-store';
+
+/**
+ * Rate limit policies. Built-in defaults can be overridden from a JSON file
+ * (RATE_LIMIT_CONFIG_FILE, default ./rate-limits.json):
+ *
+ * {
+ *   "limits": { "imageGeneration": { "points": 20 }, "gemini": { "points": 10, "duration": 60 } },
+ *   "routes": { "/api/refine-prompt": "gemini" },
+ *   "roles": { "admin": { "imageGeneration": { "points": 60 } } },
+ *   "users": { "anna": { "videoGeneration": { "points": 20 } } }
+ * }
+ *
+ * `routes` moves a route onto another (possibly custom) limit; `roles` and
+ * `users` (by username) override individual fields of a limit. A user
+ * override wins over a role override.
+ */
+
+export interface RateLimitPolicy {
+    // Requests allowed per window
+    points: number;
+    // Window length in seconds
+    duration: number;
+    // How long a client stays blocked after using up the window, in seconds
+    blockDuration: number;
+}
+
+type PolicyOverrides = Record<string, Partial<RateLimitPolicy>>;
+
+export interface RateLimitConfig {
+    limits: Record<string, RateLimitPolicy>;
+    routes: Record<string, string>;
+    roles: Partial<Record<UserRole, PolicyOverrides>>;
+    users: Record<string, PolicyOverrides>;
+}
+
+export const DEFAULT_RATE_LIMITS = {
+    // Strict limits for expensive operations
+    imageGeneration: { points: 10, duration: 60, blockDuration: 60 },
+    videoGeneration: { points: 5, duration: 300, blockDuration: 300 },
+    // Product feed batches take one point per row; fits two full feeds (MAX_FEED_ROWS) an hour
+    batchGeneration: { points: 400, duration: 60 * 60, blockDuration: 60 },
+    // Moderate limits for API operations
+    api: { points: 60, duration: 60, blockDuration: 60 },
+    // Slows down password guessing
+    login: { points: 10, duration: 15 * 60, blockDuration: 15 * 60 },
+    // Relaxed limits for read operations
+    read: { points: 120, duration: 60, blockDuration: 30 }
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitType = keyof typeof DEFAULT_RATE_LIMITS;
+
+/** The limit and the tier it came from ('default', 'role:<role>' or 'user:<username>') */
+export interface ResolvedRateLimit {
+    type: string;
+    tier: string;
+    policy: RateLimitPolicy;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// Keeps only valid fields so a typo in the file can't disable a limit
+function sanitizeOverride(value: unknown): Partial<RateLimitPolicy> {
+    const result: Partial<RateLimitPolicy> = {};
+    if (typeof value !== 'object' || value === null) return result;
+    const record = value as Record<string, unknown>;
+    if (isPositiveNumber(record.points)) result.points = Math.floor(record.points);
+    if (isPositiveNumber(record.duration)) result.duration = record.duration;
+    if (record.blockDuration === 0 || isPositiveNumber(record.blockDuration)) result.blockDuration = record.blockDuration;
+    return result;
+}
+
+function sanitizeOverrides(value: unknown): PolicyOverrides {
+    const result: PolicyOverrides = {};
+    if (typeof value !== 'object' || value === null) return result;
+    for (const [type, override] of Object.entries(value)) {
+        result[type] = sanitizeOverride(override);
+    }
+    return result;
+}
+
+export function parseRateLimitConfig(raw: unknown): RateLimitConfig {
+    const input = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+
+    const limits: Record<string, RateLimitPolicy> = { ...DEFAULT_RATE_LIMITS };
+    for (const [type, override] of Object.entries(sanitizeOverrides(input.limits))) {
+        // Custom limits start from the generic API limit
+        limits[type] = { ...(limits[type] ?? DEFAULT_RATE_LIMITS.api), ...override };
+    }
+
+    const routes: Record<string, string> = {};
+    if (typeof input.routes === 'object' && input.routes !== null) {
+        for (const [route, type] of Object.entries(input.routes)) {
+            if (typeof type === 'string' && type in limits) {
+                routes[route] = type;
+            } else {
+                console.warn(`Rate limit config: route ${route} refers to unknown limit '${type}'`);
+            }
+        }
+    }
+
+    const roles: RateLimitConfig['roles'] = {};
+    if (typeof input.roles === 'object' && input.roles !== null) {
+        for (const [role, overrides] of Object.entries(input.roles)) {
+            roles[role as UserRole] = sanitizeOverrides(overrides);
+        }
+    }
+
+    const users: RateLimitConfig['users'] = {};
+    if (typeof input.users === 'object' && input.users !== null) {
+        for (const [username, overrides] of Object.entries(input.users)) {
+            users[username.toLowerCase()] = sanitizeOverrides(overrides);
+        }
+    }
+
+    return { limits, routes, roles, users };
+}
+
+let configPromise: Promise<RateLimitConfig> | null = null;
+
+/** Loads the config file once per process; a missing file means defaults only */
+export function getRateLimitConfig(): Promise<RateLimitConfig> {
+    if (!configPromise) {
+        const filePath = process.env.RATE_LIMIT_CONFIG_FILE || path.resolve(process.cwd(), 'rate-limits.json');
+        configPromise = fs
+            .readFile(filePath, 'utf-8')
+            .then((raw) => {
+                console.log(`Loaded rate limit config from ${filePath}`);
+                return parseRateLimitConfig(JSON.parse(raw));
+            })
+            .catch((error: unknown) => {
+                if (!(typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT')) {
+                    console.error(`Invalid rate limit config in ${filePath}, using defaults:`, error);
+                }
+                return parseRateLimitConfig({});
+            });
+    }
+    return configPromise;
+}
+
+/**
+ * Picks the limit for a request. Anonymous clients always get the default
+ * tier; signed-in users get their role's and their own overrides on top.
+ */
+export function resolveRateLimit(
+    config: RateLimitConfig,
+    type: string,
+    pathname: string | null,
+    user: { username: string; role: UserRole } | null
+): ResolvedRateLimit {
+    const effectiveType = (pathname && config.routes[pathname]) || type;
+    const base = config.limits[effectiveType] ?? DEFAULT_RATE_LIMITS.api;
+
+    if (user) {
+        const userOverride = config.users[user.username.toLowerCase()]?.[effectiveType];
+        const roleOverride = config.roles[user.role]?.[effectiveType];
+        if (userOverride) {
+            return {
+                type: effectiveType,
+                tier: `user:${user.username.toLowerCase()}`,
+                policy: { ...base, ...roleOverride, ...userOverride }
+            };
+        }
+        if (roleOverride) {
+            return { type: effectiveType, tier: `role:${user.role}`, policy: { ...base, ...roleOverride } };
+        }
+    }
+
+    return { type: effectiveType, tier: 'default', policy: base };
+}
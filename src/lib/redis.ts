@@ -0,0 +1,40 @@
+import Redis from 'ioredis';
+
+/**
+ * Shared Redis connection, enabled by setting REDIS_URL. Callers get null when
+ * Redis isn't configured and should fall back to in-process state.
+ */
+
+// Keep a single connection per server process, also across dev-mode module reloads
+const globalForRedis = globalThis as unknown as { redis?: Redis | null };
+
+// Avoid flooding the log while Redis is down; ioredis keeps reconnecting on its own
+const ERROR_LOG_INTERVAL_MS = 60_000;
+
+export function getRedisClient(): Redis | null {
+    if (globalForRedis.redis === undefined) {
+        const url = process.env.REDIS_URL;
+        if (!url) {
+            globalForRedis.redis = null;
+            return null;
+        }
+
+        const client = new Redis(url, {
+            // Fail fast instead of queueing commands while disconnected, so callers can fall back
+            enableOfflineQueue: false,
+            maxRetriesPerRequest: 1
+        });
+
+        let lastErrorLog = 0;
+        client.on('error', (error) => {
+            if (Date.now() - lastErrorLog > ERROR_LOG_INTERVAL_MS) {
+                lastErrorLog = Date.now();
+                console.error('Redis connection error:', error.message);
+            }
+        });
+        client.on('ready', () => console.log('Connected to Redis'));
+
+        globalForRedis.redis = client;
+    }
+    return globalForRedis.redis;
+}
@@ -0,0 +1,106 @@
+import {
+    buildRenditionManifest,
+    buildSrcset,
+    DEFAULT_RENDITION_SET,
+    formatRenditionName,
+    getRenditionWidths,
+    parseRenditionSet,
+    RenditionError,
+    type RenditionFile
+} from './renditions';
+import { describe, expect, it } from 'vitest';
+
+describe('parseRenditionSet', () => {
+    it('sorts and de-duplicates widths and formats', () => {
+        expect(
+            parseRenditionSet({
+                widths: [800, '400', 800, 1200],
+                formats: ['webp', 'jpg', 'webp'],
+                quality: 80.4,
+                namePattern: ' {name}-{w}.{ext} '
+            })
+        ).toEqual({
+            widths: [400, 800, 1200],
+            formats: ['webp', 'jpg'],
+            quality: 80,
+            namePattern: '{name}-{w}.{ext}'
+        });
+    });
+
+    it('falls back to the default quality', () => {
+        expect(parseRenditionSet({ ...DEFAULT_RENDITION_SET, quality: undefined }).quality).toBe(
+            DEFAULT_RENDITION_SET.quality
+        );
+    });
+
+    it.each([
+        ['a missing set', null],
+        ['no widths', { ...DEFAULT_RENDITION_SET, widths: [] }],
+        ['a width below the minimum', { ...DEFAULT_RENDITION_SET, widths: [8] }],
+        ['a width above the maximum', { ...DEFAULT_RENDITION_SET, widths: [9000] }],
+        ['a fractional width', { ...DEFAULT_RENDITION_SET, widths: [400.5] }],
+        ['too many widths', { ...DEFAULT_RENDITION_SET, widths: Array.from({ length: 13 }, (_, i) => 100 + i) }],
+        ['no formats', { ...DEFAULT_RENDITION_SET, formats: [] }],
+        ['an unknown format', { ...DEFAULT_RENDITION_SET, formats: ['gif'] }],
+        ['quality out of range', { ...DEFAULT_RENDITION_SET, quality: 0 }],
+        ['a pattern without {name}', { ...DEFAULT_RENDITION_SET, namePattern: '{w}.{ext}' }],
+        ['a pattern without {w}', { ...DEFAULT_RENDITION_SET, namePattern: '{name}.{ext}' }],
+        ['a pattern without {ext}', { ...DEFAULT_RENDITION_SET, namePattern: '{name}_{w}' }],
+        ['a pattern with a path', { ...DEFAULT_RENDITION_SET, namePattern: 'out/{name}_{w}.{ext}' }]
+    ])('rejects %s', (_case, value) => {
+        expect(() => parseRenditionSet(value)).toThrow(RenditionError);
+    });
+});
+
+describe('formatRenditionName', () => {
+    it('fills in every token', () => {
+        expect(
+            formatRenditionName('{name}/{w}x{h}-{w}.{ext}', { name: 'shoe', width: 400, height: 300, format: 'webp' })
+        ).toBe('shoe/400x300-400.webp');
+    });
+});
+
+describe('getRenditionWidths', () => {
+    const set = { ...DEFAULT_RENDITION_SET, widths: [400, 800, 1200] };
+
+    it('drops widths wider than the source', () => {
+        expect(getRenditionWidths(set, 1000)).toEqual([400, 800]);
+        expect(getRenditionWidths(set, 1200)).toEqual([400, 800, 1200]);
+    });
+
+    it('renders a narrow source once at its own width', () => {
+        expect(getRenditionWidths(set, 300)).toEqual([300]);
+    });
+
+    it('rejects an unknown source width', () => {
+        expect(() => getRenditionWidths(set, 0)).toThrow(RenditionError);
+        expect(() => getRenditionWidths(set, -1)).toThrow(RenditionError);
+        expect(() => getRenditionWidths(set, NaN)).toThrow(RenditionError);
+    });
+});
+
+describe('srcset and manifest', () => {
+    const renditions: RenditionFile[] = [
+        { filename: 'shoe_800.webp', format: 'webp', width: 800, height: 600, bytes: 2000 },
+        { filename: 'shoe_400.webp', format: 'webp', width: 400, height: 300, bytes: 1000 },
+        { filename: 'shoe_400.jpg', format: 'jpg', width: 400, height: 300, bytes: 1500 }
+    ];
+
+    it('lists one format by ascending width', () => {
+        expect(buildSrcset(renditions, 'webp')).toBe('shoe_400.webp 400w, shoe_800.webp 800w');
+        expect(buildSrcset(renditions, 'avif')).toBe('');
+    });
+
+    it('adds a srcset per format that was rendered', () => {
+        const manifest = buildRenditionManifest(
+            [{ source: 'shoe.png', width: 800, height: 600, renditions }],
+            new Date('2026-01-02T03:04:05Z')
+        );
+
+        expect(manifest.generatedAt).toBe('2026-01-02T03:04:05.000Z');
+        expect(manifest.images[0].srcset).toEqual({
+            webp: 'shoe_400.webp 400w, shoe_800.webp 800w',
+            jpg: 'shoe_400.jpg 400w'
+        });
+    });
+});
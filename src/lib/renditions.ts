@@ -0,0 +1,166 @@
+/**
+ * Rendition sets for responsive images: every source is exported at each width
+ * in each format, named by a pattern like `{name}_{w}.{ext}`, and described by
+ * a manifest with ready-made `srcset` strings per image and format.
+ */
+
+export const RENDITION_FORMATS = ['webp', 'jpg', 'avif', 'png'] as const;
+export type RenditionFormat = (typeof RENDITION_FORMATS)[number];
+
+export interface RenditionSet {
+    widths: number[];
+    formats: RenditionFormat[];
+    // 1-100; PNG ignores it
+    quality: number;
+    // Tokens: {name} source filename without extension, {w} width, {h} height, {ext} extension
+    namePattern: string;
+}
+
+export interface RenditionFile {
+    filename: string;
+    format: RenditionFormat;
+    width: number;
+    height: number;
+    bytes: number;
+}
+
+export interface RenditionManifestImage {
+    source: string;
+    width: number;
+    height: number;
+    renditions: RenditionFile[];
+    // Per format, e.g. { webp: 'shoe_400.webp 400w, shoe_800.webp 800w' }
+    srcset: Partial<Record<RenditionFormat, string>>;
+}
+
+export interface RenditionManifest {
+    generatedAt: string;
+    images: RenditionManifestImage[];
+}
+
+export class RenditionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RenditionError';
+    }
+}
+
+export const DEFAULT_RENDITION_SET: RenditionSet = {
+    widths: [400, 800, 1200, 2000],
+    formats: ['webp', 'jpg'],
+    quality: 82,
+    namePattern: '{name}_{w}.{ext}'
+};
+
+export const MIN_RENDITION_WIDTH = 16;
+export const MAX_RENDITION_WIDTH = 8000;
+const MAX_RENDITION_WIDTHS = 12;
+
+function isRenditionFormat(value: unknown): value is RenditionFormat {
+    return (RENDITION_FORMATS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Validates a rendition set from a request, sorting and de-duplicating its
+ * widths. Throws a RenditionError describing the first problem found.
+ */
+export function parseRenditionSet(value: unknown): RenditionSet {
+    if (!value || typeof value !== 'object') {
+        throw new RenditionError('Rendition-sættet mangler');
+    }
+    const { widths, formats, quality, namePattern } = value as Record<string, unknown>;
+
+    if (!Array.isArray(widths) || widths.length === 0) {
+        throw new RenditionError('Angiv mindst én bredde');
+    }
+    const parsedWidths = [...new Set(widths.map(Number))].sort((a, b) => a - b);
+    if (parsedWidths.length > MAX_RENDITION_WIDTHS) {
+        throw new RenditionError(`Højst ${MAX_RENDITION_WIDTHS} bredder`);
+    }
+    const invalidWidth = parsedWidths.find(
+        (width) => !Number.isInteger(width) || width < MIN_RENDITION_WIDTH || width > MAX_RENDITION_WIDTH
+    );
+    if (invalidWidth !== undefined) {
+        throw new RenditionError(
+            `Bredder skal være hele tal mellem ${MIN_RENDITION_WIDTH} og ${MAX_RENDITION_WIDTH} px`
+        );
+    }
+
+    if (!Array.isArray(formats) || formats.length === 0) {
+        throw new RenditionError('Vælg mindst ét format');
+    }
+    const unknownFormat = formats.find((format) => !isRenditionFormat(format));
+    if (unknownFormat !== undefined) {
+        throw new RenditionError(`Ukendt format: ${String(unknownFormat)}`);
+    }
+
+    const parsedQuality = Number(quality ?? DEFAULT_RENDITION_SET.quality);
+    if (!Number.isFinite(parsedQuality) || parsedQuality < 1 || parsedQuality > 100) {
+        throw new RenditionError('Kvaliteten skal være mellem 1 og 100');
+    }
+
+    const pattern = typeof namePattern === 'string' ? namePattern.trim() : '';
+    // Without {name}, {w} and {ext} two renditions in a batch would get the same name
+    if (!pattern.includes('{name}') || !pattern.includes('{w}') || !pattern.includes('{ext}')) {
+        throw new RenditionError('Navnemønstret skal indeholde {name}, {w} og {ext}');
+    }
+    if (/[/\\]/.test(pattern)) {
+        throw new RenditionError('Navnemønstret må ikke indeholde / eller \\');
+    }
+
+    return {
+        widths: parsedWidths,
+        formats: [...new Set(formats as RenditionFormat[])],
+        quality: Math.round(parsedQuality),
+        namePattern: pattern
+    };
+}
+
+export function formatRenditionName(
+    pattern: string,
+    values: { name: string; width: number; height: number; format: RenditionFormat }
+): string {
+    return pattern
+        .replaceAll('{name}', values.name)
+        .replaceAll('{w}', String(values.width))
+        .replaceAll('{h}', String(values.height))
+        .replaceAll('{ext}', values.format);
+}
+
+/**
+ * The widths to render for a source image. Widths above the source would only
+ * be upscaled copies, so they're dropped; a source narrower than every width
+ * gets a single rendition at its own width. Throws a RenditionError when the
+ * source width is unknown.
+ */
+export function getRenditionWidths(set: RenditionSet, sourceWidth: number): number[] {
+    if (!Number.isFinite(sourceWidth) || sourceWidth <= 0) {
+        throw new RenditionError('Billedets bredde kunne ikke læses');
+    }
+    const widths = set.widths.filter((width) => width <= sourceWidth);
+    return widths.length > 0 ? widths : [sourceWidth];
+}
+
+export function buildSrcset(renditions: RenditionFile[], format: RenditionFormat): string {
+    return renditions
+        .filter((rendition) => rendition.format === format)
+        .sort((a, b) => a.width - b.width)
+        .map((rendition) => `${rendition.filename} ${rendition.width}w`)
+        .join(', ');
+}
+
+export function buildRenditionManifest(
+    images: Array<Omit<RenditionManifestImage, 'srcset'>>,
+    generatedAt = new Date()
+): RenditionManifest {
+    return {
+        generatedAt: generatedAt.toISOString(),
+        images: images.map((image) => {
+            const formats = [...new Set(image.renditions.map((rendition) => rendition.format))];
+            return {
+                ...image,
+                srcset: Object.fromEntries(formats.map((format) => [format, buildSrcset(image.renditions, format)]))
+            };
+        })
+    };
+}
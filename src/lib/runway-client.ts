@@ -1,5 +1,6 @@
 import RunwayML from '@runwayml/sdk';
 import type { VideoGenerationRequest, RunwayTask, PromptImageObject } from '@/types/video';
+import { describeVideoUsage, recordUsage, type UsageContext } from '@/lib/usage';
 
 // Lazy initialization of Runway client
 let runwayClient: RunwayML | null = null;
@@ -16,7 +17,10 @@ function getRunwayClient(): RunwayML {
     return runwayClient;
 }
 
-export async function createVideoGeneration(request: VideoGenerationRequest): Promise<{ id: string }> {
+export async function createVideoGeneration(
+    request: VideoGenerationRequest,
+    usage?: UsageContext
+): Promise<{ id: string }> {
     const client = getRunwayClient();
     
     try {
@@ -38,6 +42,17 @@ export async function createVideoGeneration(request: VideoGenerationRequest): Pr
         });
 
         console.log('Runway video generation task created:', response.id);
+
+        // Runway charges credits once the task is accepted
+        if (usage) {
+            await recordUsage(usage, {
+                provider: 'runway',
+                model: request.model,
+                operation: 'video-generate',
+                ...describeVideoUsage(request.model, request.duration)
+            });
+        }
+
         return { id: response.id };
     } catch (error) {
         console.error('Error creating video generation:', error);
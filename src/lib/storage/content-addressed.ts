@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import type { StorageBackend, StoragePutOptions } from './types';
+
+/**
+ * Content-addressed objects for generated images. Each object is stored once
+ * under the SHA-256 of its contents, and a reference count kept beside it
+ * records how many history entries point at it. Deleting an entry releases
+ * one reference; the object goes away with the last one.
+ *
+ * Reference updates are serialised per key within this server process. Two
+ * instances writing to the same bucket can still race on the count.
+ */
+
+const REFS_PREFIX = 'refs/';
+
+export interface ReleaseResult {
+    // False when there was no object under the key
+    found: boolean;
+    // Whether the last reference was released and the object removed
+    deleted: boolean;
+    remaining: number;
+}
+
+// Pending reference update per key
+const keyLocks = new Map<string, Promise<unknown>>();
+
+function withKeyLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = keyLocks.get(key) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    keyLocks.set(key, settled);
+    settled.then(() => {
+        if (keyLocks.get(key) === settled) keyLocks.delete(key);
+    });
+    return next;
+}
+
+function refsKey(key: string): string {
+    return `${REFS_PREFIX}${key}.json`;
+}
+
+export function contentAddressedKey(data: Buffer, extension: string): string {
+    return `${crypto.createHash('sha256').update(data).digest('hex')}.${extension}`;
+}
+
+/**
+ * Reference count of an object; null when none was recorded, which is the
+ * case for objects stored before content addressing
+ */
+async function readRefCount(storage: StorageBackend, key: string): Promise<number | null> {
+    const record = await storage.get(refsKey(key));
+    if (!record) return null;
+
+    try {
+        const { count } = JSON.parse(record.data.toString('utf8')) as { count?: unknown };
+        return typeof count === 'number' && count > 0 ? count : null;
+    } catch {
+        return null;
+    }
+}
+
+function writeRefCount(storage: StorageBackend, key: string, count: number): Promise<void> {
+    return storage.put(refsKey(key), Buffer.from(JSON.stringify({ count })), { contentType: 'application/json' });
+}
+
+/**
+ * Stores the data under its content hash, or adds a reference when identical
+ * contents are already stored. Returns the key.
+ */
+export function putContentAddressed(
+    storage: StorageBackend,
+    data: Buffer,
+    extension: string,
+    options?: StoragePutOptions
+): Promise<string> {
+    const key = contentAddressedKey(data, extension);
+
+    return withKeyLock(key, async () => {
+        const existing = await storage.stat(key);
+        if (existing) {
+            const count = (await readRefCount(storage, key)) ?? 1;
+            await writeRefCount(storage, key, count + 1);
+        } else {
+            await storage.put(key, data, options);
+            await writeRefCount(storage, key, 1);
+        }
+        return key;
+    });
+}
+
+/**
+ * Drops one reference to the object, deleting it when none are left. Objects
+ * without a recorded count are treated as having a single reference.
+ */
+export function releaseContentAddressed(storage: StorageBackend, key: string): Promise<ReleaseResult> {
+    return withKeyLock(key, async () => {
+        if (!(await storage.stat(key))) {
+            await storage.delete(refsKey(key));
+            return { found: false, deleted: false, remaining: 0 };
+        }
+
+        const count = (await readRefCount(storage, key)) ?? 1;
+        if (count > 1) {
+            await writeRefCount(storage, key, count - 1);
+            return { found: true, deleted: false, remaining: count - 1 };
+        }
+
+        await storage.delete(key);
+        await storage.delete(refsKey(key));
+        return { found: true, deleted: true, remaining: 0 };
+    });
+}
@@ -0,0 +1,88 @@
+import path from 'path';
+import { LocalStorageBackend } from './local-storage';
+import { S3StorageBackend } from './s3-storage';
+import type { StorageBackend } from './types';
+
+export {
+    contentAddressedKey,
+    putContentAddressed,
+    releaseContentAddressed,
+    type ReleaseResult
+} from './content-addressed';
+export { verifyLocalSignedUrl } from './local-storage';
+export { isValidStorageKey } from './types';
+export type { StorageBackend, StorageObjectInfo, StoredObject, StoragePutOptions } from './types';
+
+/**
+ * Storage backend selection. STORAGE_BACKEND=s3 keeps images in an
+ * S3-compatible bucket so they survive restarts on hosts without a
+ * persistent disk (e.g. Fly.io); otherwise files go to the local
+ * generated-images directory.
+ */
+
+export function createStorageBackend(): StorageBackend {
+    if (process.env.STORAGE_BACKEND === 's3') {
+        const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+        if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+            throw new Error(
+                'STORAGE_BACKEND=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.'
+            );
+        }
+
+        return new S3StorageBackend({
+            endpoint: S3_ENDPOINT,
+            region: process.env.S3_REGION || 'us-east-1',
+            bucket: S3_BUCKET,
+            accessKeyId: S3_ACCESS_KEY_ID,
+            secretAccessKey: S3_SECRET_ACCESS_KEY,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+            prefix: process.env.S3_PREFIX
+        });
+    }
+
+    return new LocalStorageBackend(process.env.STORAGE_LOCAL_DIR || path.resolve(process.cwd(), 'generated-images'));
+}
+
+// Keep a single backend per server process, also across dev-mode module reloads
+const globalForStorage = globalThis as unknown as { storageBackend?: StorageBackend };
+
+export function getStorage(): StorageBackend {
+    if (!globalForStorage.storageBackend) {
+        globalForStorage.storageBackend = createStorageBackend();
+    }
+    return globalForStorage.storageBackend;
+}
+
+const EXPORT_PREFIX = 'exports/';
+const EXPORT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Keeps a copy of a generated download archive and returns a signed URL for
+ * fetching it again later. Exports older than a day are removed on the way.
+ * Returns null if the archive could not be stored; the download itself should
+ * not fail because of that.
+ */
+export async function saveExport(filename: string, data: Buffer): Promise<string | null> {
+    const storage = getStorage();
+    const key = `${EXPORT_PREFIX}${filename}`;
+
+    try {
+        await storage.put(key, data, { contentType: 'application/zip' });
+    } catch (error) {
+        console.error(`Failed to store export ${filename}:`, error);
+        return null;
+    }
+
+    try {
+        const cutoff = Date.now() - EXPORT_TTL_MS;
+        for (const item of await storage.list(EXPORT_PREFIX)) {
+            if (item.lastModified.getTime() < cutoff) {
+                await storage.delete(item.key);
+            }
+        }
+    } catch (error) {
+        console.error('Failed to clean up old exports:', error);
+    }
+
+    return storage.signedUrl(key, EXPORT_TTL_MS / 1000);
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { lookup } from 'mime-types';
+import path from 'path';
+import {
+    assertValidStorageKey,
+    DEFAULT_SIGNED_URL_TTL_SECONDS,
+    isValidStorageKey,
+    type StorageBackend,
+    type StorageObjectInfo,
+    type StoredObject
+} from './types';
+
+function isNotFoundError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+}
+
+// Signed URLs must survive restarts, so only fall back to a random secret when nothing is configured
+const signingSecret =
+    process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+
+function signKey(key: string, expires: number): string {
+    return crypto.createHmac('sha256', signingSecret).update(`${key}:${expires}`).digest('hex');
+}
+
+/**
+ * Checks the signature of a URL produced by LocalStorageBackend.signedUrl
+ */
+export function verifyLocalSignedUrl(key: string, expires: string | null, signature: string | null): boolean {
+    if (!expires || !signature || !isValidStorageKey(key)) return false;
+
+    const expiresAt = parseInt(expires, 10);
+    if (isNaN(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(signKey(key, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Stores objects as plain files below a base directory
+ */
+export class LocalStorageBackend implements StorageBackend {
+    readonly kind = 'local';
+
+    constructor(private readonly baseDir: string) {}
+
+    private filePath(key: string): string {
+        assertValidStorageKey(key);
+        return path.join(this.baseDir, ...key.split('/'));
+    }
+
+    private toInfo(key: string, stats: { size: number; mtime: Date }): StorageObjectInfo {
+        return {
+            key,
+            size: stats.size,
+            lastModified: stats.mtime,
+            contentType: lookup(key) || 'application/octet-stream'
+        };
+    }
+
+    // Content types are derived from the file extension, so put options are not needed here
+    async put(key: string, data: Buffer): Promise<void> {
+        const target = this.filePath(key);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+
+        // Write to a temp file first so readers never see a partial object. The name is unique per
+        // call, since concurrent puts of one content-addressed key are common.
+        const tmp = `${target}.${process.pid}.${crypto.randomUUID()}.tmp`;
+        await fs.writeFile(tmp, data);
+        await fs.rename(tmp, target);
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        try {
+            const filepath = this.filePath(key);
+            const [data, stats] = await Promise.all([fs.readFile(filepath), fs.stat(filepath)]);
+            return { ...this.toInfo(key, stats), data };
+        } catch (error: unknown) {
+            if (isNotFoundError(error)) return null;
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<boolean> {
+        try {
+            await fs.unlink(this.filePath(key));
+            return true;
+        } catch (error: unknown) {
+            if (isNotFoundError(error)) return false;
+            throw error;
+        }
+    }
+
+    async list(prefix = ''): Promise<StorageObjectInfo[]> {
+        const results: StorageObjectInfo[] = [];
+
+        const walk = async (dir: string, keyPrefix: string) => {
+            let entries;
+            try {
+                entries = await fs.readdir(dir, { withFileTypes: true });
+            } catch (error: unknown) {
+                if (isNotFoundError(error)) return;
+                throw error;
+            }
+
+            for (const entry of entries) {
+                const key = `${keyPrefix}${entry.name}`;
+                if (entry.isDirectory()) {
+                    await walk(path.join(dir, entry.name), `${key}/`);
+                } else if (entry.isFile() && !entry.name.endsWith('.tmp') && key.startsWith(prefix)) {
+                    const stats = await fs.stat(path.join(dir, entry.name));
+                    results.push(this.toInfo(key, stats));
+                }
+            }
+        };
+
+        await walk(this.baseDir, '');
+        return results;
+    }
+
+    async stat(key: string): Promise<StorageObjectInfo | null> {
+        try {
+            return this.toInfo(key, await fs.stat(this.filePath(key)));
+        } catch (error: unknown) {
+            if (isNotFoundError(error)) return null;
+            throw error;
+        }
+    }
+
+    async signedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS): Promise<string> {
+        assertValidStorageKey(key);
+        const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+        const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+        return `/api/storage/${encodedKey}?expires=${expires}&signature=${signKey(key, expires)}`;
+    }
+}
@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import { lookup } from 'mime-types';
+import {
+    assertValidStorageKey,
+    DEFAULT_SIGNED_URL_TTL_SECONDS,
+    type StorageBackend,
+    type StorageObjectInfo,
+    type StoredObject,
+    type StoragePutOptions
+} from './types';
+
+/**
+ * S3-compatible object storage (AWS S3, Tigris on Fly.io, MinIO, R2, ...).
+ * Requests are signed with AWS Signature V4 directly, so no SDK is needed.
+ */
+
+export interface S3StorageConfig {
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    // Path-style addressing (endpoint/bucket/key) is what MinIO and most local stand-ins expect
+    forcePathStyle: boolean;
+    // Optional key prefix so several apps can share one bucket
+    prefix?: string;
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+function sha256Hex(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+    return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding as required by SigV4
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function canonicalQueryString(query: Record<string, string>): string {
+    return Object.keys(query)
+        .sort()
+        .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+        .join('&');
+}
+
+function decodeXmlEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function xmlValue(xml: string, tag: string): string | null {
+    const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+    return match ? decodeXmlEntities(match[1]) : null;
+}
+
+export class S3StorageBackend implements StorageBackend {
+    readonly kind = 's3';
+    private readonly endpoint: URL;
+
+    constructor(private readonly config: S3StorageConfig) {
+        this.endpoint = new URL(config.endpoint);
+    }
+
+    private objectKey(key: string): string {
+        assertValidStorageKey(key);
+        return this.config.prefix ? `${this.config.prefix.replace(/\/+$/, '')}/${key}` : key;
+    }
+
+    private storageKey(objectKey: string): string {
+        const prefix = this.config.prefix ? `${this.config.prefix.replace(/\/+$/, '')}/` : '';
+        return objectKey.startsWith(prefix) ? objectKey.slice(prefix.length) : objectKey;
+    }
+
+    private objectUrl(objectKey?: string): URL {
+        const url = new URL(this.endpoint.toString());
+        const keyPath = objectKey ? `/${objectKey.split('/').map(encodeRfc3986).join('/')}` : '/';
+
+        if (this.config.forcePathStyle) {
+            url.pathname = `${url.pathname.replace(/\/+$/, '')}/${encodeRfc3986(this.config.bucket)}${objectKey ? keyPath : ''}`;
+        } else {
+            url.hostname = `${this.config.bucket}.${url.hostname}`;
+            url.pathname = `${url.pathname.replace(/\/+$/, '')}${keyPath}`;
+        }
+        return url;
+    }
+
+    private credentialScope(date: string): string {
+        return `${date}/${this.config.region}/s3/aws4_request`;
+    }
+
+    private sign(date: string, stringToSign: string): string {
+        const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, date);
+        const regionKey = hmac(dateKey, this.config.region);
+        const serviceKey = hmac(regionKey, 's3');
+        const signingKey = hmac(serviceKey, 'aws4_request');
+        return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+    }
+
+    private timestamps() {
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        return { amzDate, date: amzDate.slice(0, 8) };
+    }
+
+    private async request(
+        method: 'GET' | 'PUT' | 'HEAD' | 'DELETE',
+        objectKey: string | undefined,
+        options: { query?: Record<string, string>; body?: Buffer; contentType?: string } = {}
+    ): Promise<Response> {
+        const url = this.objectUrl(objectKey);
+        const query = options.query || {};
+        const canonicalQuery = canonicalQueryString(query);
+        if (canonicalQuery) url.search = canonicalQuery;
+
+        const { amzDate, date } = this.timestamps();
+        const payloadHash = options.body ? sha256Hex(options.body) : EMPTY_PAYLOAD_HASH;
+
+        const headers: Record<string, string> = {
+            host: url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate
+        };
+        if (options.contentType) headers['content-type'] = options.contentType;
+
+        const signedHeaderNames = Object.keys(headers).sort();
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            canonicalQuery,
+            signedHeaderNames.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+            signedHeaderNames.join(';'),
+            payloadHash
+        ].join('\n');
+
+        const scope = this.credentialScope(date);
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+        const signature = this.sign(date, stringToSign);
+
+        // fetch sets the host header itself
+        const requestHeaders = Object.fromEntries(Object.entries(headers).filter(([name]) => name !== 'host'));
+        return fetch(url, {
+            method,
+            headers: {
+                ...requestHeaders,
+                authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`
+            },
+            body: options.body ? new Uint8Array(options.body) : undefined
+        });
+    }
+
+    private async assertOk(response: Response, action: string): Promise<void> {
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new Error(
+                `S3 ${action} failed with status ${response.status}: ${xmlValue(body, 'Message') || response.statusText}`
+            );
+        }
+    }
+
+    private infoFromHeaders(key: string, headers: Headers): StorageObjectInfo {
+        const lastModified = headers.get('last-modified');
+        return {
+            key,
+            size: parseInt(headers.get('content-length') || '0', 10),
+            lastModified: lastModified ? new Date(lastModified) : new Date(0),
+            contentType: headers.get('content-type') || lookup(key) || 'application/octet-stream'
+        };
+    }
+
+    async put(key: string, data: Buffer, options?: StoragePutOptions): Promise<void> {
+        const response = await this.request('PUT', this.objectKey(key), {
+            body: data,
+            contentType: options?.contentType || lookup(key) || 'application/octet-stream'
+        });
+        await this.assertOk(response, `put ${key}`);
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        const response = await this.request('GET', this.objectKey(key));
+        if (response.status === 404) return null;
+        await this.assertOk(response, `get ${key}`);
+
+        const data = Buffer.from(await response.arrayBuffer());
+        return { ...this.infoFromHeaders(key, response.headers), size: data.length, data };
+    }
+
+    async delete(key: string): Promise<boolean> {
+        // S3 answers 204 whether or not the object existed
+        const existing = await this.stat(key);
+        if (!existing) return false;
+
+        const response = await this.request('DELETE', this.objectKey(key));
+        await this.assertOk(response, `delete ${key}`);
+        return true;
+    }
+
+    async list(prefix = ''): Promise<StorageObjectInfo[]> {
+        const results: StorageObjectInfo[] = [];
+        const objectPrefix = this.config.prefix ? `${this.config.prefix.replace(/\/+$/, '')}/${prefix}` : prefix;
+        let continuationToken: string | null = null;
+
+        do {
+            const query: Record<string, string> = { 'list-type': '2' };
+            if (objectPrefix) query.prefix = objectPrefix;
+            if (continuationToken) query['continuation-token'] = continuationToken;
+
+            const response = await this.request('GET', undefined, { query });
+            await this.assertOk(response, 'list');
+            const xml = await response.text();
+
+            for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+                const objectKey = xmlValue(match[1], 'Key');
+                if (!objectKey) continue;
+
+                const key = this.storageKey(objectKey);
+                results.push({
+                    key,
+                    size: parseInt(xmlValue(match[1], 'Size') || '0', 10),
+                    lastModified: new Date(xmlValue(match[1], 'LastModified') || 0),
+                    contentType: lookup(key) || 'application/octet-stream'
+                });
+            }
+
+            continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : null;
+        } while (continuationToken);
+
+        return results;
+    }
+
+    async stat(key: string): Promise<StorageObjectInfo | null> {
+        const response = await this.request('HEAD', this.objectKey(key));
+        if (response.status === 404) return null;
+        await this.assertOk(response, `stat ${key}`);
+        return this.infoFromHeaders(key, response.headers);
+    }
+
+    async signedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS): Promise<string> {
+        const url = this.objectUrl(this.objectKey(key));
+        const { amzDate, date } = this.timestamps();
+        const scope = this.credentialScope(date);
+
+        const query: Record<string, string> = {
+            'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+            'X-Amz-Credential': `${this.config.accessKeyId}/${scope}`,
+            'X-Amz-Date': amzDate,
+            'X-Amz-Expires': String(Math.min(expiresInSeconds, 7 * 24 * 60 * 60)),
+            'X-Amz-SignedHeaders': 'host'
+        };
+
+        const canonicalQuery = canonicalQueryString(query);
+        const canonicalRequest = ['GET', url.pathname, canonicalQuery, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join(
+            '\n'
+        );
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+        url.search = `${canonicalQuery}&X-Amz-Signature=${this.sign(date, stringToSign)}`;
+        return url.toString();
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * Server-side object storage used for generated images and exports
+ */
+
+export interface StorageObjectInfo {
+    key: string;
+    size: number;
+    lastModified: Date;
+    contentType: string;
+}
+
+export interface StoredObject extends StorageObjectInfo {
+    data: Buffer;
+}
+
+export interface StoragePutOptions {
+    contentType?: string;
+}
+
+export interface StorageBackend {
+    readonly kind: 'local' | 's3';
+
+    put(key: string, data: Buffer, options?: StoragePutOptions): Promise<void>;
+    /** Returns null when the object does not exist */
+    get(key: string): Promise<StoredObject | null>;
+    /** Returns false when the object did not exist */
+    delete(key: string): Promise<boolean>;
+    list(prefix?: string): Promise<StorageObjectInfo[]>;
+    stat(key: string): Promise<StorageObjectInfo | null>;
+    /** Time-limited URL that serves the object without further authentication */
+    signedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
+
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+/**
+ * Keys are relative, slash-separated paths. Anything that could escape the
+ * storage root (.., absolute paths, backslashes) is rejected.
+ */
+export function isValidStorageKey(key: string): boolean {
+    if (!key || key.length > 512) return false;
+    if (key.startsWith('/') || key.includes('\\') || key.includes('\0')) return false;
+    return key.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+export function assertValidStorageKey(key: string): void {
+    if (!isValidStorageKey(key)) {
+        throw new Error(`Invalid storage key: ${key}`);
+    }
+}
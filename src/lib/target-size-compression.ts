@@ -0,0 +1,214 @@
+import sharp from 'sharp';
+
+/**
+ * Compression to a file size budget, e.g. "under 300 KB" for a web shop.
+ * Quality is binary-searched per format for the best quality that fits; when
+ * even the lowest quality is too big and resizing is allowed, the image is
+ * scaled down by the estimated overshoot and searched again. Results carry an
+ * SSIM score against the original so the cost of fitting is visible.
+ */
+
+export type TargetSizeFormat = 'jpeg' | 'png' | 'webp';
+
+export interface TargetSizeOptions {
+    targetBytes: number;
+    format: TargetSizeFormat;
+    // Whether the image may be scaled down when no quality fits
+    allowResize?: boolean;
+    minQuality?: number;
+    maxQuality?: number;
+}
+
+export interface TargetSizeResult {
+    buffer: Buffer;
+    format: TargetSizeFormat;
+    quality: number;
+    width: number;
+    height: number;
+    // Output width relative to the original
+    scale: number;
+    size: number;
+    // False when even the smallest attempt is over the target; the smallest attempt is returned
+    fits: boolean;
+    ssim: number;
+    // Encodes tried
+    attempts: number;
+}
+
+export class TargetSizeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TargetSizeError';
+    }
+}
+
+export const MIN_TARGET_BYTES = 10 * 1024;
+const DEFAULT_MIN_QUALITY = 40;
+const DEFAULT_MAX_QUALITY = 95;
+// Don't scale below this width; a thumbnail is rarely what was asked for
+const MIN_RESIZE_WIDTH = 320;
+const MAX_RESIZE_ROUNDS = 6;
+// Aim a little below the estimated scale, since bytes don't shrink exactly with pixel count
+const RESIZE_MARGIN = 0.92;
+// SSIM is computed on a copy scaled to fit this size, which keeps it fast on big photos
+const SSIM_MAX_SIZE = 512;
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+
+/**
+ * Encodes an image (already rotated upright) at the given quality and width.
+ * PNG "quality" quantizes to a palette, the only way PNG files shrink meaningfully.
+ */
+async function encode(input: Buffer, format: TargetSizeFormat, quality: number, width?: number): Promise<Buffer> {
+    let pipeline = sharp(input);
+    if (width) {
+        pipeline = pipeline.resize({ width, withoutEnlargement: true });
+    }
+    switch (format) {
+        case 'jpeg':
+            return pipeline.jpeg({ quality, progressive: true, mozjpeg: true }).toBuffer();
+        case 'webp':
+            return pipeline.webp({ quality, effort: 6 }).toBuffer();
+        case 'png':
+            return pipeline.png({ palette: true, quality, compressionLevel: 9 }).toBuffer();
+    }
+}
+
+async function toLuma(input: Buffer, width: number, height: number): Promise<Buffer> {
+    return sharp(input)
+        .rotate()
+        .flatten({ background: { r: 255, g: 255, b: 255 } })
+        .resize(width, height, { fit: 'fill' })
+        .greyscale()
+        .raw()
+        .toBuffer();
+}
+
+/**
+ * Mean structural similarity (SSIM) between an image and a compressed copy,
+ * from 0 to 1 where 1 is identical. Compared upright and in greyscale over
+ * 8x8 windows, after scaling both to the original's proportions.
+ */
+export async function computeSsim(original: Buffer, compressed: Buffer): Promise<number> {
+    const metadata = await sharp(original).metadata();
+    // EXIF orientations 5-8 are rotated a quarter turn
+    const [width = 1, height = 1] =
+        (metadata.orientation ?? 1) >= 5 ? [metadata.height, metadata.width] : [metadata.width, metadata.height];
+    const ratio = Math.min(1, SSIM_MAX_SIZE / Math.max(width, height));
+    const w = Math.max(SSIM_WINDOW, Math.round(width * ratio));
+    const h = Math.max(SSIM_WINDOW, Math.round(height * ratio));
+
+    const [a, b] = await Promise.all([toLuma(original, w, h), toLuma(compressed, w, h)]);
+
+    const c1 = (0.01 * 255) ** 2;
+    const c2 = (0.03 * 255) ** 2;
+    const n = SSIM_WINDOW * SSIM_WINDOW;
+    let total = 0;
+    let windows = 0;
+
+    for (let y = 0; y + SSIM_WINDOW <= h; y += SSIM_STRIDE) {
+        for (let x = 0; x + SSIM_WINDOW <= w; x += SSIM_STRIDE) {
+            let sumA = 0;
+            let sumB = 0;
+            let sumAA = 0;
+            let sumBB = 0;
+            let sumAB = 0;
+            for (let dy = 0; dy < SSIM_WINDOW; dy++) {
+                const row = (y + dy) * w + x;
+                for (let dx = 0; dx < SSIM_WINDOW; dx++) {
+                    const va = a[row + dx];
+                    const vb = b[row + dx];
+                    sumA += va;
+                    sumB += vb;
+                    sumAA += va * va;
+                    sumBB += vb * vb;
+                    sumAB += va * vb;
+                }
+            }
+            const meanA = sumA / n;
+            const meanB = sumB / n;
+            const varA = sumAA / n - meanA * meanA;
+            const varB = sumBB / n - meanB * meanB;
+            const covariance = sumAB / n - meanA * meanB;
+
+            total +=
+                ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+                ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+            windows++;
+        }
+    }
+
+    return windows > 0 ? total / windows : 1;
+}
+
+/**
+ * Finds the highest quality, and if needed the largest size, at which the
+ * image fits in `targetBytes`
+ */
+export async function compressToTargetSize(input: Buffer, options: TargetSizeOptions): Promise<TargetSizeResult> {
+    const { targetBytes, format, allowResize = false } = options;
+    const minQuality = options.minQuality ?? DEFAULT_MIN_QUALITY;
+    const maxQuality = options.maxQuality ?? DEFAULT_MAX_QUALITY;
+
+    if (!Number.isFinite(targetBytes) || targetBytes < MIN_TARGET_BYTES) {
+        throw new TargetSizeError(`Målstørrelsen skal være mindst ${MIN_TARGET_BYTES / 1024} KB`);
+    }
+    if (minQuality < 1 || maxQuality > 100 || minQuality > maxQuality) {
+        throw new TargetSizeError(`Ugyldigt kvalitetsinterval: ${minQuality}-${maxQuality}`);
+    }
+
+    // Rotate once up front so every attempt, and the SSIM reference, is upright
+    const upright = await sharp(input).rotate().toBuffer();
+    const { width: originalWidth = 0 } = await sharp(upright).metadata();
+
+    let width = originalWidth;
+    let attempts = 0;
+    let smallest: { buffer: Buffer; quality: number; width: number } | null = null;
+    let best: { buffer: Buffer; quality: number; width: number } | null = null;
+
+    for (let round = 0; round <= (allowResize ? MAX_RESIZE_ROUNDS : 0); round++) {
+        const resizeTo = width < originalWidth ? width : undefined;
+        let low = minQuality;
+        let high = maxQuality;
+
+        while (low <= high) {
+            const quality = Math.floor((low + high) / 2);
+            const buffer = await encode(upright, format, quality, resizeTo);
+            attempts++;
+
+            if (!smallest || buffer.length < smallest.buffer.length) {
+                smallest = { buffer, quality, width };
+            }
+            if (buffer.length <= targetBytes) {
+                best = { buffer, quality, width };
+                low = quality + 1;
+            } else {
+                high = quality - 1;
+            }
+        }
+
+        if (best || !allowResize) break;
+
+        // Bytes scale roughly with pixel count, so shrink each side by the square root of the overshoot
+        const overshoot = smallest!.buffer.length / targetBytes;
+        const nextWidth = Math.floor((width * RESIZE_MARGIN) / Math.sqrt(overshoot));
+        if (width <= MIN_RESIZE_WIDTH) break;
+        width = Math.max(MIN_RESIZE_WIDTH, Math.min(nextWidth, width - 1));
+    }
+
+    const chosen = best ?? smallest!;
+    const outputMetadata = await sharp(chosen.buffer).metadata();
+
+    return {
+        buffer: chosen.buffer,
+        format,
+        quality: chosen.quality,
+        width: outputMetadata.width ?? chosen.width,
+        height: outputMetadata.height ?? 0,
+        scale: originalWidth ? (outputMetadata.width ?? chosen.width) / originalWidth : 1,
+        size: chosen.buffer.length,
+        fits: best !== null,
+        ssim: await computeSsim(upright, chosen.buffer),
+        attempts
+    };
+}
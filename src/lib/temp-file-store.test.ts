@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// Limits are read when the module loads, so it is imported after the environment is set
+let getTempFileStore: typeof import('./temp-file-store').getTempFileStore;
+let dir: string;
+
+const MB = 1024 * 1024;
+
+async function spilledFiles(): Promise<string[]> {
+    const files: string[] = [];
+    for (const name of await fs.readdir(dir)) {
+        files.push(...(await fs.readdir(path.join(dir, name))));
+    }
+    return files;
+}
+
+beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'temp-file-store-'));
+    vi.stubEnv('TEMP_STORE_DIR', dir);
+    vi.stubEnv('TEMP_STORE_MEMORY_LIMIT_MB', '1');
+    ({ getTempFileStore } = await import('./temp-file-store'));
+});
+
+afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('TempFileStore', () => {
+    it('shares one blob between files with the same bytes', async () => {
+        const store = getTempFileStore();
+        const buffer = Buffer.from('same photo');
+        const first = await store.put('s1', 'konverter', { filename: 'a.jpg', buffer });
+        const second = await store.put('s1', 'packshot', { filename: 'b.jpg', buffer: Buffer.from(buffer) });
+
+        expect(second.hash).toBe(first.hash);
+        expect(await store.delete('s1', 'konverter', first.key)).toBe(true);
+        expect((await store.get('s1', 'packshot', second.key))?.buffer.toString()).toBe('same photo');
+        await store.clear('s1', 'packshot');
+    });
+
+    it('keeps the blob when a file is rewritten with the same bytes', async () => {
+        const store = getTempFileStore();
+        const buffer = Buffer.from('rewritten');
+        await store.put('s2', 'mood', { filename: 'a.png', buffer, key: 'board' });
+        await store.put('s2', 'mood', { filename: 'a.png', buffer, key: 'board' });
+
+        expect(store.list('s2', 'mood')).toHaveLength(1);
+        expect((await store.get('s2', 'mood', 'board'))?.buffer.toString()).toBe('rewritten');
+        await store.clear('s2', 'mood');
+    });
+
+    it('writes large files to disk once and removes them with the last file', async () => {
+        const store = getTempFileStore();
+        const buffer = Buffer.alloc(2 * MB, 7);
+        const [first, second] = await Promise.all([
+            store.put('s3', 'konverter', { filename: 'big.tif', buffer }),
+            store.put('s3', 'mood', { filename: 'big.tif', buffer })
+        ]);
+
+        expect(await spilledFiles()).toHaveLength(1);
+        expect((await store.get('s3', 'mood', second.key))?.buffer.equals(buffer)).toBe(true);
+
+        await store.delete('s3', 'konverter', first.key);
+        expect(await spilledFiles()).toHaveLength(1);
+        await store.delete('s3', 'mood', second.key);
+        expect(await spilledFiles()).toHaveLength(0);
+    });
+
+    it('moves older files to disk when memory is full', async () => {
+        const store = getTempFileStore();
+        const older = await store.put('s4', 'packshot', { filename: 'a.jpg', buffer: Buffer.alloc(0.75 * MB, 1) });
+        await store.put('s4', 'packshot', { filename: 'b.jpg', buffer: Buffer.alloc(0.75 * MB, 2) });
+
+        expect(await spilledFiles()).toHaveLength(1);
+        expect((await store.get('s4', 'packshot', older.key))?.buffer[0]).toBe(1);
+        expect(await store.clear('s4', 'packshot')).toBe(2);
+        expect(await spilledFiles()).toHaveLength(0);
+    });
+});
@@ -0,0 +1,388 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import { nanoid } from 'nanoid';
+import { cookies } from 'next/headers';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Session-scoped temporary storage for tool uploads and results (Konverter,
+ * packshot, mood). Files are namespaced per browser session and tool, expire
+ * after a TTL, and are spilled from memory to disk once the memory budget is
+ * used up. A single sweep loop removes expired files for every tool.
+ *
+ * Contents are stored once per SHA-256: files with the same bytes (the same
+ * photo uploaded to several tools) share one blob, which is reference counted
+ * and released when the last file using it is removed.
+ */
+
+export type TempFileMetadata = Record<string, string | number | boolean | null>;
+
+export interface TempFileInfo<M extends TempFileMetadata = TempFileMetadata> {
+    key: string;
+    filename: string;
+    size: number;
+    // SHA-256 of the contents
+    hash: string;
+    createdAt: number;
+    expiresAt: number;
+    metadata: M;
+}
+
+export interface TempFile<M extends TempFileMetadata = TempFileMetadata> extends TempFileInfo<M> {
+    buffer: Buffer;
+}
+
+export interface TempFilePutOptions<M extends TempFileMetadata> {
+    filename: string;
+    buffer: Buffer;
+    metadata?: M;
+    // Defaults to a generated id
+    key?: string;
+    ttlMs?: number;
+}
+
+interface StoredBlob {
+    hash: string;
+    size: number;
+    createdAt: number;
+    // Files currently using this blob
+    refCount: number;
+    // Exactly one of buffer/diskPath is set once a write has settled
+    buffer?: Buffer;
+    diskPath?: string;
+    // Set while the blob is first being written to disk
+    pending?: Promise<void>;
+}
+
+interface StoredEntry {
+    sessionId: string;
+    namespace: string;
+    info: TempFileInfo;
+    blob: StoredBlob;
+}
+
+export class TempFileQuotaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TempFileQuotaError';
+    }
+}
+
+const MB = 1024 * 1024;
+
+const DEFAULT_TTL_MS = parseInt(process.env.TEMP_STORE_TTL_MINUTES || '60', 10) * 60 * 1000;
+const MEMORY_LIMIT_BYTES = parseInt(process.env.TEMP_STORE_MEMORY_LIMIT_MB || '256', 10) * MB;
+const TOTAL_LIMIT_BYTES = parseInt(process.env.TEMP_STORE_MAX_MB || '2048', 10) * MB;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const STALE_SPILL_DIR_MS = 24 * 60 * 60 * 1000;
+
+class TempFileStore {
+    private entries = new Map<string, StoredEntry>();
+    private blobs = new Map<string, StoredBlob>();
+    private memoryBytes = 0;
+    private diskBytes = 0;
+    private spillDir: Promise<string> | null = null;
+
+    constructor(
+        private readonly options: {
+            defaultTtlMs: number;
+            memoryLimitBytes: number;
+            totalLimitBytes: number;
+            baseDir: string;
+        }
+    ) {
+        const timer = setInterval(() => {
+            this.sweep().catch((error) => console.error('Temp file sweep failed:', error));
+        }, SWEEP_INTERVAL_MS);
+        // Don't keep the process alive just for the sweep
+        timer.unref?.();
+    }
+
+    private entryId(sessionId: string, namespace: string, key: string): string {
+        return `${sessionId}/${namespace}/${key}`;
+    }
+
+    /**
+     * Spill files live in a per-process directory. Directories left behind by
+     * earlier processes are removed once they are older than a day.
+     */
+    private getSpillDir(): Promise<string> {
+        if (!this.spillDir) {
+            this.spillDir = (async () => {
+                await fs.mkdir(this.options.baseDir, { recursive: true });
+
+                const cutoff = Date.now() - STALE_SPILL_DIR_MS;
+                for (const name of await fs.readdir(this.options.baseDir)) {
+                    if (!name.startsWith('store-')) continue;
+                    const dir = path.join(this.options.baseDir, name);
+                    const stats = await fs.stat(dir).catch(() => null);
+                    if (stats && stats.mtimeMs < cutoff) {
+                        await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+                    }
+                }
+
+                return fs.mkdtemp(path.join(this.options.baseDir, 'store-'));
+            })();
+        }
+        return this.spillDir;
+    }
+
+    private async writeToDisk(buffer: Buffer): Promise<string> {
+        const diskPath = path.join(await this.getSpillDir(), nanoid());
+        await fs.writeFile(diskPath, buffer);
+        return diskPath;
+    }
+
+    // Drops one reference to a blob, freeing it when no file uses it any more
+    private async release(blob: StoredBlob): Promise<void> {
+        blob.refCount--;
+        if (blob.refCount > 0) return;
+
+        this.blobs.delete(blob.hash);
+        if (blob.buffer) {
+            this.memoryBytes -= blob.size;
+            blob.buffer = undefined;
+        }
+        if (blob.diskPath) {
+            this.diskBytes -= blob.size;
+            const diskPath = blob.diskPath;
+            blob.diskPath = undefined;
+            await fs.unlink(diskPath).catch(() => undefined);
+        }
+    }
+
+    private async remove(id: string): Promise<boolean> {
+        const entry = this.entries.get(id);
+        if (!entry) return false;
+
+        this.entries.delete(id);
+        await this.release(entry.blob);
+        return true;
+    }
+
+    // Move the oldest in-memory blobs to disk until `incoming` more bytes fit in memory
+    private async spill(incoming: number): Promise<void> {
+        const inMemory = Array.from(this.blobs.values())
+            .filter((blob) => blob.buffer)
+            .sort((a, b) => a.createdAt - b.createdAt);
+
+        for (const blob of inMemory) {
+            if (this.memoryBytes + incoming <= this.options.memoryLimitBytes) break;
+
+            const buffer = blob.buffer!;
+            const diskPath = await this.writeToDisk(buffer);
+
+            // The blob may have been released while we were writing
+            if (!blob.buffer) {
+                await fs.unlink(diskPath).catch(() => undefined);
+                continue;
+            }
+            blob.buffer = undefined;
+            blob.diskPath = diskPath;
+            this.memoryBytes -= blob.size;
+            this.diskBytes += blob.size;
+        }
+    }
+
+    // Returns the blob for these bytes with a reference taken, storing it if it is new
+    private async retain(buffer: Buffer): Promise<StoredBlob> {
+        const hash = createHash('sha256').update(buffer).digest('hex');
+        const existing = this.blobs.get(hash);
+        if (existing) {
+            existing.refCount++;
+            if (existing.pending) {
+                try {
+                    await existing.pending;
+                } catch (error) {
+                    existing.refCount--;
+                    throw error;
+                }
+            }
+            return existing;
+        }
+
+        const size = buffer.length;
+        if (this.memoryBytes + this.diskBytes + size > this.options.totalLimitBytes) {
+            await this.sweep();
+            if (this.memoryBytes + this.diskBytes + size > this.options.totalLimitBytes) {
+                throw new TempFileQuotaError('Temporary storage is full. Please clear some files and try again.');
+            }
+        }
+
+        const blob: StoredBlob = { hash, size, createdAt: Date.now(), refCount: 1 };
+        // Registered before any await, so a concurrent put of the same bytes shares it
+        this.blobs.set(hash, blob);
+
+        if (size > this.options.memoryLimitBytes) {
+            this.diskBytes += size;
+            blob.pending = this.writeToDisk(buffer).then((diskPath) => {
+                blob.diskPath = diskPath;
+            });
+            try {
+                await blob.pending;
+            } catch (error) {
+                this.blobs.delete(hash);
+                this.diskBytes -= size;
+                throw error;
+            } finally {
+                blob.pending = undefined;
+            }
+        } else {
+            blob.buffer = buffer;
+            this.memoryBytes += size;
+            await this.spill(0);
+        }
+        return blob;
+    }
+
+    /** Removes expired files. Runs on a timer and before quota checks. */
+    async sweep(): Promise<number> {
+        const now = Date.now();
+        let removed = 0;
+
+        for (const [id, entry] of this.entries) {
+            if (entry.info.expiresAt <= now && (await this.remove(id))) {
+                removed++;
+            }
+        }
+
+        if (removed > 0) {
+            console.log(`Temp file store: removed ${removed} expired files`);
+        }
+        return removed;
+    }
+
+    async put<M extends TempFileMetadata>(
+        sessionId: string,
+        namespace: string,
+        options: TempFilePutOptions<M>
+    ): Promise<TempFileInfo<M>> {
+        // Take the new reference before dropping a replaced file, so rewriting the same bytes keeps the blob
+        const blob = await this.retain(options.buffer);
+
+        const key = options.key ?? nanoid();
+        const id = this.entryId(sessionId, namespace, key);
+        await this.remove(id);
+
+        const now = Date.now();
+        const info: TempFileInfo<M> = {
+            key,
+            filename: options.filename,
+            size: blob.size,
+            hash: blob.hash,
+            createdAt: now,
+            expiresAt: now + (options.ttlMs ?? this.options.defaultTtlMs),
+            metadata: options.metadata ?? ({} as M)
+        };
+
+        this.entries.set(id, { sessionId, namespace, info, blob });
+        return { ...info };
+    }
+
+    async get<M extends TempFileMetadata = TempFileMetadata>(
+        sessionId: string,
+        namespace: string,
+        key: string
+    ): Promise<TempFile<M> | null> {
+        const entry = this.entries.get(this.entryId(sessionId, namespace, key));
+        if (!entry || entry.info.expiresAt <= Date.now()) return null;
+
+        const { blob } = entry;
+        await blob.pending?.catch(() => undefined);
+        if (blob.buffer) {
+            return { ...(entry.info as TempFileInfo<M>), buffer: blob.buffer };
+        }
+        if (blob.diskPath) {
+            try {
+                return { ...(entry.info as TempFileInfo<M>), buffer: await fs.readFile(blob.diskPath) };
+            } catch (error) {
+                console.error(`Failed to read spilled temp file ${entry.info.filename}:`, error);
+            }
+        }
+        return null;
+    }
+
+    /** Files in a session namespace, oldest first */
+    list<M extends TempFileMetadata = TempFileMetadata>(sessionId: string, namespace: string): TempFileInfo<M>[] {
+        const now = Date.now();
+        return Array.from(this.entries.values())
+            .filter(
+                (entry) => entry.sessionId === sessionId && entry.namespace === namespace && entry.info.expiresAt > now
+            )
+            .map((entry) => ({ ...(entry.info as TempFileInfo<M>) }))
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    /** Like list, but with file contents */
+    async getAll<M extends TempFileMetadata = TempFileMetadata>(
+        sessionId: string,
+        namespace: string
+    ): Promise<TempFile<M>[]> {
+        const files = await Promise.all(
+            this.list<M>(sessionId, namespace).map((info) => this.get<M>(sessionId, namespace, info.key))
+        );
+        return files.filter((file): file is TempFile<M> => file !== null);
+    }
+
+    async delete(sessionId: string, namespace: string, key: string): Promise<boolean> {
+        return this.remove(this.entryId(sessionId, namespace, key));
+    }
+
+    /** Removes every file in a session namespace and returns how many were removed */
+    async clear(sessionId: string, namespace: string): Promise<number> {
+        let removed = 0;
+        for (const [id, entry] of this.entries) {
+            if (entry.sessionId === sessionId && entry.namespace === namespace && (await this.remove(id))) {
+                removed++;
+            }
+        }
+        return removed;
+    }
+}
+
+// Keep a single store per server process, also across dev-mode module reloads
+const globalForTempFiles = globalThis as unknown as { tempFileStore?: TempFileStore };
+
+export function getTempFileStore(): TempFileStore {
+    if (!globalForTempFiles.tempFileStore) {
+        globalForTempFiles.tempFileStore = new TempFileStore({
+            defaultTtlMs: DEFAULT_TTL_MS,
+            memoryLimitBytes: MEMORY_LIMIT_BYTES,
+            totalLimitBytes: TOTAL_LIMIT_BYTES,
+            baseDir: process.env.TEMP_STORE_DIR || path.join(os.tmpdir(), 'gpt-image-playground')
+        });
+    }
+    return globalForTempFiles.tempFileStore;
+}
+
+const TOOL_SESSION_COOKIE = 'tool_session';
+const TOOL_SESSION_MAX_AGE = 24 * 60 * 60; // 24 hours
+
+/**
+ * Returns the browser's tool session id from its cookie. With `create`, a new
+ * session is started (and the cookie set) when there is none yet.
+ */
+export async function getToolSessionId(options: { create: true }): Promise<string>;
+export async function getToolSessionId(options?: { create?: false }): Promise<string | null>;
+export async function getToolSessionId(options?: { create?: boolean }): Promise<string | null> {
+    const cookieStore = await cookies();
+    const existing = cookieStore.get(TOOL_SESSION_COOKIE)?.value;
+
+    if (existing && /^[\w-]{10,64}$/.test(existing)) {
+        return existing;
+    }
+    if (!options?.create) {
+        return null;
+    }
+
+    const sessionId = nanoid();
+    cookieStore.set(TOOL_SESSION_COOKIE, sessionId, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: TOOL_SESSION_MAX_AGE,
+        path: '/'
+    });
+    return sessionId;
+}
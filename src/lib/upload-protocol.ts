@@ -0,0 +1,31 @@
+/**
+ * Chunked upload protocol shared by the client (ApiRequestManager.uploadFile)
+ * and the /api/uploads routes:
+ *
+ *   POST /api/uploads                    { filename, size, type, sha256 } -> upload id and chunks already received
+ *   PUT  /api/uploads/:id/chunk?index=N  raw chunk bytes
+ *   POST /api/uploads/:id/complete       { filename, size, type } -> { key, filename, size }
+ *
+ * Forms then reference the upload instead of carrying the file: a
+ * `<field>_upload` entry holding `{ key, filename }` is read by the route as
+ * a `<field>` file.
+ */
+
+export const UPLOAD_CHUNK_SIZE = 1024 * 1024;
+
+export const UPLOAD_FIELD_SUFFIX = '_upload';
+
+export interface UploadedFileReference {
+    // SHA-256 of the content
+    key: string;
+    filename: string;
+    size: number;
+}
+
+export type UploadInitResponse =
+    | { uploadId: string; complete: true; file: UploadedFileReference }
+    | { uploadId: string; complete: false; chunkSize: number; totalChunks: number; receivedChunks: number[] };
+
+export function appendUploadedFile(formData: FormData, field: string, file: UploadedFileReference): void {
+    formData.append(`${field}${UPLOAD_FIELD_SUFFIX}`, JSON.stringify({ key: file.key, filename: file.filename }));
+}
@@ -0,0 +1,230 @@
+import { createHash } from 'crypto';
+import { nanoid } from 'nanoid';
+import { getTempFileStore, getToolSessionId, type TempFile } from '@/lib/temp-file-store';
+import {
+    UPLOAD_CHUNK_SIZE,
+    UPLOAD_FIELD_SUFFIX,
+    type UploadedFileReference,
+    type UploadInitResponse
+} from '@/lib/upload-protocol';
+
+/**
+ * Server side of the chunked upload protocol (see @/lib/upload-protocol).
+ * Chunks are kept in the temp file store until the upload is completed, then
+ * assembled, checked against the client's SHA-256 and stored once per session
+ * under that hash. Tool routes pick the stored files up by key.
+ */
+
+// Assembled uploads, keyed by content hash
+export const UPLOADS = 'uploads';
+
+export const MAX_UPLOAD_SIZE = parseInt(process.env.MAX_UPLOAD_SIZE_MB || '200', 10) * 1024 * 1024;
+
+export type UploadMetadata = { mimeType: string; sha256: string };
+
+export class UploadError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number = 400
+    ) {
+        super(message);
+        this.name = 'UploadError';
+    }
+}
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+const UPLOAD_ID_PATTERN = /^([a-f0-9]{64}|u-[\w-]{10,40})$/;
+
+function chunkNamespace(uploadId: string): string {
+    return `upload-chunks:${uploadId}`;
+}
+
+function chunkKey(index: number): string {
+    return String(index).padStart(6, '0');
+}
+
+export function assertUploadId(uploadId: string): void {
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+        throw new UploadError('Invalid upload id');
+    }
+}
+
+function totalChunks(size: number): number {
+    return Math.max(1, Math.ceil(size / UPLOAD_CHUNK_SIZE));
+}
+
+function receivedChunks(sessionId: string, uploadId: string): number[] {
+    return getTempFileStore()
+        .list(sessionId, chunkNamespace(uploadId))
+        .map((chunk) => parseInt(chunk.key, 10));
+}
+
+/**
+ * Starts or resumes an upload. With a hash, the upload id is the hash itself,
+ * so a retried or reloaded upload of the same file continues where it
+ * stopped, and content this session already has is not sent again.
+ */
+export async function initUpload(
+    sessionId: string,
+    options: { filename: string; size: number; sha256?: string | null }
+): Promise<UploadInitResponse> {
+    if (!options.filename) {
+        throw new UploadError('filename is required');
+    }
+    if (!Number.isInteger(options.size) || options.size < 0) {
+        throw new UploadError('size must be a non-negative integer');
+    }
+    if (options.size > MAX_UPLOAD_SIZE) {
+        throw new UploadError(`Files can be at most ${Math.round(MAX_UPLOAD_SIZE / 1024 / 1024)}MB`, 413);
+    }
+    if (options.sha256 && !SHA256_PATTERN.test(options.sha256)) {
+        throw new UploadError('sha256 must be a lowercase hex digest');
+    }
+
+    if (options.sha256) {
+        const existing = getTempFileStore()
+            .list(sessionId, UPLOADS)
+            .find((file) => file.key === options.sha256);
+        if (existing) {
+            return {
+                uploadId: options.sha256,
+                complete: true,
+                file: { key: existing.key, filename: options.filename, size: existing.size }
+            };
+        }
+    }
+
+    const uploadId = options.sha256 || `u-${nanoid()}`;
+    return {
+        uploadId,
+        complete: false,
+        chunkSize: UPLOAD_CHUNK_SIZE,
+        totalChunks: totalChunks(options.size),
+        receivedChunks: options.sha256 ? receivedChunks(sessionId, uploadId) : []
+    };
+}
+
+export async function putUploadChunk(sessionId: string, uploadId: string, index: number, chunk: Buffer): Promise<void> {
+    assertUploadId(uploadId);
+    if (!Number.isInteger(index) || index < 0 || index >= totalChunks(MAX_UPLOAD_SIZE)) {
+        throw new UploadError('Invalid chunk index');
+    }
+    if (chunk.length > UPLOAD_CHUNK_SIZE) {
+        throw new UploadError(`Chunks can be at most ${UPLOAD_CHUNK_SIZE} bytes`, 413);
+    }
+
+    await getTempFileStore().put(sessionId, chunkNamespace(uploadId), {
+        key: chunkKey(index),
+        filename: chunkKey(index),
+        buffer: chunk
+    });
+}
+
+/**
+ * Assembles the chunks into the session's uploads. Throws a 409 listing the
+ * missing chunks when the upload isn't complete yet, so the client can send
+ * them and try again.
+ */
+export async function completeUpload(
+    sessionId: string,
+    uploadId: string,
+    options: { filename: string; size: number; type?: string | null }
+): Promise<UploadedFileReference> {
+    assertUploadId(uploadId);
+    if (!options.filename || !Number.isInteger(options.size) || options.size < 0) {
+        throw new UploadError('filename and size are required');
+    }
+
+    const store = getTempFileStore();
+    const namespace = chunkNamespace(uploadId);
+    const expected = totalChunks(options.size);
+    const received = new Set(receivedChunks(sessionId, uploadId));
+    const missing = Array.from({ length: expected }, (_, index) => index).filter((index) => !received.has(index));
+    if (missing.length > 0 && options.size > 0) {
+        throw new UploadError(`Upload is missing chunks: ${missing.join(', ')}`, 409);
+    }
+
+    const chunks: Buffer[] = [];
+    for (let index = 0; index < expected && options.size > 0; index++) {
+        const chunk = await store.get(sessionId, namespace, chunkKey(index));
+        if (!chunk) {
+            throw new UploadError(`Upload is missing chunks: ${index}`, 409);
+        }
+        chunks.push(chunk.buffer);
+    }
+    const buffer = Buffer.concat(chunks);
+    await store.clear(sessionId, namespace);
+
+    if (buffer.length !== options.size) {
+        throw new UploadError(`Upload size mismatch: expected ${options.size} bytes, got ${buffer.length}`, 422);
+    }
+    const sha256 = createHash('sha256').update(buffer).digest('hex');
+    if (SHA256_PATTERN.test(uploadId) && sha256 !== uploadId) {
+        throw new UploadError('Upload checksum mismatch, please upload the file again', 422);
+    }
+
+    await store.put<UploadMetadata>(sessionId, UPLOADS, {
+        key: sha256,
+        filename: options.filename,
+        buffer,
+        metadata: { mimeType: options.type || 'application/octet-stream', sha256 }
+    });
+
+    return { key: sha256, filename: options.filename, size: buffer.length };
+}
+
+/**
+ * Which of the given hashes this session has already uploaded
+ */
+export function findUploadedHashes(sessionId: string, hashes: string[]): string[] {
+    const uploaded = new Set(
+        getTempFileStore()
+            .list(sessionId, UPLOADS)
+            .map((file) => file.key)
+    );
+    return hashes.filter((hash) => SHA256_PATTERN.test(hash) && uploaded.has(hash));
+}
+
+export async function getUploadedFile(sessionId: string, key: string): Promise<TempFile<UploadMetadata> | null> {
+    if (!SHA256_PATTERN.test(key)) return null;
+    return getTempFileStore().get<UploadMetadata>(sessionId, UPLOADS, key);
+}
+
+/**
+ * Replaces upload references in a form with the uploaded files, so routes
+ * read them like ordinary multipart files. A `<field>_upload` entry holding
+ * `{ key, filename }` becomes a `<field>` file entry.
+ */
+export async function attachUploadedFiles(formData: FormData): Promise<void> {
+    const referenceFields = Array.from(new Set(formData.keys())).filter((key) => key.endsWith(UPLOAD_FIELD_SUFFIX));
+    if (referenceFields.length === 0) return;
+
+    const sessionId = await getToolSessionId();
+    if (!sessionId) {
+        throw new UploadError('Uploaded files have expired, please upload them again', 404);
+    }
+
+    for (const referenceField of referenceFields) {
+        const field = referenceField.slice(0, -UPLOAD_FIELD_SUFFIX.length);
+        for (const value of formData.getAll(referenceField)) {
+            let reference: UploadedFileReference;
+            try {
+                reference = JSON.parse(String(value));
+            } catch {
+                throw new UploadError(`Invalid upload reference in ${referenceField}`);
+            }
+
+            const file = await getUploadedFile(sessionId, reference.key);
+            if (!file) {
+                throw new UploadError(`Uploaded file ${reference.filename} has expired, please upload it again`, 404);
+            }
+            formData.append(
+                field,
+                new File([new Uint8Array(file.buffer)], reference.filename || file.filename, {
+                    type: file.metadata.mimeType
+                })
+            );
+        }
+        formData.delete(referenceField);
+    }
+}
@@ -0,0 +1,64 @@
+import { BudgetStore, getUserLimit, type UsageBudgets } from './budgets';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('getUserLimit', () => {
+    const budgets: UsageBudgets = { globalMonthlyUsd: 100, defaultUserMonthlyUsd: 10, users: { u1: 25, u2: null } };
+
+    it('prefers the user limit, including an explicit unlimited', () => {
+        expect(getUserLimit(budgets, 'u1')).toBe(25);
+        expect(getUserLimit(budgets, 'u2')).toBeNull();
+    });
+
+    it('falls back to the default limit', () => {
+        expect(getUserLimit(budgets, 'u3')).toBe(10);
+    });
+});
+
+describe('BudgetStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-budgets-'));
+        filePath = path.join(dir, 'budgets.json');
+    });
+
+    afterEach(async () => {
+        vi.unstubAllEnvs();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('reads defaults from the environment until budgets are saved', async () => {
+        vi.stubEnv('USAGE_GLOBAL_MONTHLY_BUDGET_USD', '500');
+        vi.stubEnv('USAGE_USER_MONTHLY_BUDGET_USD', '');
+
+        expect(await new BudgetStore(filePath).get()).toEqual({
+            globalMonthlyUsd: 500,
+            defaultUserMonthlyUsd: null,
+            users: {}
+        });
+    });
+
+    it('applies patches and persists them', async () => {
+        const store = new BudgetStore(filePath);
+        await store.update({ globalMonthlyUsd: 200, users: { u1: 20, u2: null } });
+        const next = await store.update({ defaultUserMonthlyUsd: 5, users: { u1: 'default' } });
+
+        expect(next).toEqual({ globalMonthlyUsd: 200, defaultUserMonthlyUsd: 5, users: { u2: null } });
+        expect(await new BudgetStore(filePath).get()).toEqual(next);
+    });
+
+    it('keeps every change from concurrent updates', async () => {
+        const store = new BudgetStore(filePath);
+        await Promise.all([
+            store.update({ users: { u1: 1 } }),
+            store.update({ users: { u2: 2 } }),
+            store.update({ globalMonthlyUsd: 3 })
+        ]);
+
+        expect(await new BudgetStore(filePath).get()).toMatchObject({ globalMonthlyUsd: 3, users: { u1: 1, u2: 2 } });
+    });
+});
@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Monthly spending limits in USD. A limit of null means unlimited.
+ */
+
+export interface UsageBudgets {
+    // Cap on the combined spend of all users
+    globalMonthlyUsd: number | null;
+    // Applies to every user without an entry in `users`
+    defaultUserMonthlyUsd: number | null;
+    // Per-user limits by user id; null makes that user unlimited
+    users: Record<string, number | null>;
+}
+
+export interface UsageBudgetsPatch {
+    globalMonthlyUsd?: number | null;
+    defaultUserMonthlyUsd?: number | null;
+    // 'default' removes the user's own limit so the default applies again
+    users?: Record<string, number | null | 'default'>;
+}
+
+export class BudgetStore {
+    private budgets: Promise<UsageBudgets> | null = null;
+    private writeChain: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly filePath: string) {}
+
+    private defaults(): UsageBudgets {
+        const parseLimit = (value: string | undefined) => {
+            const parsed = value ? parseFloat(value) : NaN;
+            return isNaN(parsed) ? null : parsed;
+        };
+        return {
+            globalMonthlyUsd: parseLimit(process.env.USAGE_GLOBAL_MONTHLY_BUDGET_USD),
+            defaultUserMonthlyUsd: parseLimit(process.env.USAGE_USER_MONTHLY_BUDGET_USD),
+            users: {}
+        };
+    }
+
+    /** Budgets from the file, or from the environment until an admin saves them */
+    get(): Promise<UsageBudgets> {
+        if (!this.budgets) {
+            this.budgets = fs
+                .readFile(this.filePath, 'utf-8')
+                .then((raw) => ({ ...this.defaults(), ...(JSON.parse(raw) as Partial<UsageBudgets>) }))
+                .catch((error: unknown) => {
+                    if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT') {
+                        return this.defaults();
+                    }
+                    this.budgets = null;
+                    throw error;
+                });
+        }
+        return this.budgets;
+    }
+
+    async update(patch: UsageBudgetsPatch): Promise<UsageBudgets> {
+        const run = this.writeChain.then(async () => {
+            const current = await this.get();
+            const users = { ...current.users };
+            for (const [userId, limit] of Object.entries(patch.users ?? {})) {
+                if (limit === 'default') {
+                    delete users[userId];
+                } else {
+                    users[userId] = limit;
+                }
+            }
+            const next: UsageBudgets = {
+                globalMonthlyUsd:
+                    patch.globalMonthlyUsd !== undefined ? patch.globalMonthlyUsd : current.globalMonthlyUsd,
+                defaultUserMonthlyUsd:
+                    patch.defaultUserMonthlyUsd !== undefined
+                        ? patch.defaultUserMonthlyUsd
+                        : current.defaultUserMonthlyUsd,
+                users
+            };
+
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmp = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(next, null, 2));
+            await fs.rename(tmp, this.filePath);
+
+            this.budgets = Promise.resolve(next);
+            return next;
+        });
+        this.writeChain = run.catch(() => undefined);
+        return run;
+    }
+}
+
+/** The limit that applies to a user, or null when unlimited */
+export function getUserLimit(budgets: UsageBudgets, userId: string): number | null {
+    return userId in budgets.users ? budgets.users[userId] : budgets.defaultUserMonthlyUsd;
+}
@@ -0,0 +1,46 @@
+import { describeBudgetExceeded, getBudgetStatus, getBudgetStore, recordUsage, toUsageContext } from './index';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+describe('getBudgetStatus', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+        vi.stubEnv('USAGE_LEDGER_DIR', path.join(dir, 'usage'));
+        vi.stubEnv('USAGE_BUDGETS_FILE', path.join(dir, 'budgets.json'));
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        await getBudgetStore().update({ globalMonthlyUsd: 10, defaultUserMonthlyUsd: 1, users: { big: 5 } });
+        const call = { provider: 'openai', model: 'gpt-image-1', operation: 'image-generate', unit: 'images' } as const;
+        await recordUsage(toUsageContext({ id: 'small', username: 'small' }), { ...call, units: 1, costUsd: 1 });
+        await recordUsage(toUsageContext({ id: 'big', username: 'big' }), { ...call, units: 1, costUsd: 2 });
+    });
+
+    afterAll(async () => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('reports a user who has reached their limit', async () => {
+        const status = await getBudgetStatus('small');
+
+        expect(status).toMatchObject({ userSpentUsd: 1, userLimitUsd: 1, globalSpentUsd: 3, exceeded: 'user' });
+        expect(describeBudgetExceeded(status)).toContain('Your monthly budget of $1.00 is used up');
+    });
+
+    it('allows users below their own limit', async () => {
+        expect(await getBudgetStatus('big')).toMatchObject({ userSpentUsd: 2, userLimitUsd: 5, exceeded: null });
+    });
+
+    it('reports the workspace budget once it is used up', async () => {
+        await getBudgetStore().update({ globalMonthlyUsd: 3 });
+        const status = await getBudgetStatus('big');
+
+        expect(status.exceeded).toBe('global');
+        expect(describeBudgetExceeded(status)).toBe('The monthly budget of $3.00 for this workspace is used up.');
+    });
+});
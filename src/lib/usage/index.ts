@@ -0,0 +1,98 @@
+import path from 'path';
+import { BudgetStore, getUserLimit } from './budgets';
+import { monthKey, UsageLedger } from './ledger';
+import type { UsageContext, UsageEntry, UsageRecordInput } from './types';
+
+export { monthKey } from './ledger';
+export type { UsageQuery } from './ledger';
+export type { UsageBudgets, UsageBudgetsPatch } from './budgets';
+export * from './pricing';
+export * from './report';
+export type * from './types';
+
+// Keep one ledger and budget store per server process, also across dev-mode module reloads
+const globalForUsage = globalThis as unknown as { usageLedger?: UsageLedger; budgetStore?: BudgetStore };
+
+export function getUsageLedger(): UsageLedger {
+    if (!globalForUsage.usageLedger) {
+        const baseDir = process.env.USAGE_LEDGER_DIR || path.resolve(process.cwd(), '.data', 'usage');
+        globalForUsage.usageLedger = new UsageLedger(baseDir);
+    }
+    return globalForUsage.usageLedger;
+}
+
+export function getBudgetStore(): BudgetStore {
+    if (!globalForUsage.budgetStore) {
+        const filePath = process.env.USAGE_BUDGETS_FILE || path.resolve(process.cwd(), '.data', 'budgets.json');
+        globalForUsage.budgetStore = new BudgetStore(filePath);
+    }
+    return globalForUsage.budgetStore;
+}
+
+export function toUsageContext(user: { id: string; username: string }, project?: string | null): UsageContext {
+    const trimmed = project?.trim();
+    return { userId: user.id, username: user.username, project: trimmed ? trimmed.slice(0, 100) : null };
+}
+
+/**
+ * Records a billable call. The upstream call has already happened at this
+ * point, so a ledger failure is logged instead of failing the request.
+ */
+export async function recordUsage(context: UsageContext, input: UsageRecordInput): Promise<UsageEntry | null> {
+    try {
+        const entry = await getUsageLedger().record(context, input);
+        console.log(
+            `Usage: ${entry.username} ${entry.operation} via ${entry.provider}/${entry.model} ~$${entry.costUsd.toFixed(4)}`
+        );
+        return entry;
+    } catch (error) {
+        console.error('Failed to record usage:', error, input);
+        return null;
+    }
+}
+
+export interface BudgetStatus {
+    month: string;
+    userSpentUsd: number;
+    userLimitUsd: number | null;
+    globalSpentUsd: number;
+    globalLimitUsd: number | null;
+    // Which limit, if any, has been reached
+    exceeded: 'user' | 'global' | null;
+}
+
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus> {
+    const month = monthKey(Date.now());
+    const ledger = getUsageLedger();
+    const budgets = await getBudgetStore().get();
+
+    const userLimitUsd = getUserLimit(budgets, userId);
+    const [userSpentUsd, globalSpentUsd] = await Promise.all([
+        ledger.getMonthlySpend(month, userId),
+        ledger.getMonthlySpend(month)
+    ]);
+
+    let exceeded: BudgetStatus['exceeded'] = null;
+    if (userLimitUsd !== null && userSpentUsd >= userLimitUsd) {
+        exceeded = 'user';
+    } else if (budgets.globalMonthlyUsd !== null && globalSpentUsd >= budgets.globalMonthlyUsd) {
+        exceeded = 'global';
+    }
+
+    return {
+        month,
+        userSpentUsd,
+        userLimitUsd,
+        globalSpentUsd,
+        globalLimitUsd: budgets.globalMonthlyUsd,
+        exceeded
+    };
+}
+
+/** User-facing explanation of which budget is used up */
+export function describeBudgetExceeded(status: BudgetStatus): string {
+    if (status.exceeded === 'user') {
+        return `Your monthly budget of $${status.userLimitUsd?.toFixed(2)} is used up ($${status.userSpentUsd.toFixed(2)} spent in ${status.month}).`;
+    }
+    return `The monthly budget of $${status.globalLimitUsd?.toFixed(2)} for this workspace is used up.`;
+}
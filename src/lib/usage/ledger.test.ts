@@ -0,0 +1,90 @@
+import { monthKey, UsageLedger } from './ledger';
+import type { UsageContext, UsageRecordInput } from './types';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const alice: UsageContext = { userId: 'u1', username: 'alice', project: 'spring' };
+const bob: UsageContext = { userId: 'u2', username: 'bob', project: null };
+
+function imageCall(costUsd: number, provider = 'openai'): UsageRecordInput {
+    return { provider, model: 'gpt-image-1', operation: 'image-generate', units: 1, unit: 'images', costUsd };
+}
+
+describe('monthKey', () => {
+    it('uses the UTC month', () => {
+        expect(monthKey(Date.UTC(2026, 0, 31, 23, 59))).toBe('2026-01');
+        expect(monthKey(Date.UTC(2026, 1, 1))).toBe('2026-02');
+    });
+});
+
+describe('UsageLedger', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-ledger-'));
+        vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('appends entries to one file per month', async () => {
+        const ledger = new UsageLedger(dir);
+        vi.setSystemTime(Date.UTC(2026, 0, 15));
+        await ledger.record(alice, imageCall(0.04));
+        vi.setSystemTime(Date.UTC(2026, 1, 2));
+        await ledger.record(alice, imageCall(0.08));
+
+        expect((await fs.readdir(dir)).sort()).toEqual(['2026-01.jsonl', '2026-02.jsonl']);
+        const lines = (await fs.readFile(path.join(dir, '2026-02.jsonl'), 'utf-8')).trim().split('\n');
+        expect(lines).toHaveLength(1);
+        expect(JSON.parse(lines[0])).toMatchObject({ userId: 'u1', project: 'spring', costUsd: 0.08 });
+    });
+
+    it('sums monthly spend per user and overall', async () => {
+        const ledger = new UsageLedger(dir);
+        vi.setSystemTime(Date.UTC(2026, 2, 10));
+        await Promise.all([
+            ledger.record(alice, imageCall(0.25)),
+            ledger.record(alice, imageCall(0.5)),
+            ledger.record(bob, imageCall(1))
+        ]);
+
+        expect(await ledger.getMonthlySpend('2026-03', 'u1')).toBeCloseTo(0.75);
+        expect(await ledger.getMonthlySpend('2026-03')).toBeCloseTo(1.75);
+        expect(await ledger.getMonthlySpend('2026-04')).toBe(0);
+
+        // A fresh ledger reads the same totals back from disk
+        expect(await new UsageLedger(dir).getMonthlySpend('2026-03')).toBeCloseTo(1.75);
+    });
+
+    it('filters queries by time range, user, provider and project', async () => {
+        const ledger = new UsageLedger(dir);
+        vi.setSystemTime(Date.UTC(2026, 0, 31));
+        await ledger.record(alice, imageCall(0.1));
+        vi.setSystemTime(Date.UTC(2026, 1, 1));
+        await ledger.record(bob, imageCall(0.2, 'gemini'));
+        vi.setSystemTime(Date.UTC(2026, 2, 1));
+        await ledger.record(alice, imageCall(0.3));
+
+        const fromJanuary = { from: Date.UTC(2026, 0, 1), to: Date.UTC(2026, 1, 28) };
+        expect((await ledger.query(fromJanuary)).map((entry) => entry.costUsd)).toEqual([0.1, 0.2]);
+        expect(await ledger.query({ ...fromJanuary, userId: 'u2' })).toHaveLength(1);
+        expect(await ledger.query({ ...fromJanuary, provider: 'openai' })).toHaveLength(1);
+        expect(await ledger.query({ from: 0, to: Date.UTC(2026, 2, 2), project: 'spring' })).toHaveLength(2);
+    });
+
+    it('skips a partially written last line', async () => {
+        const entry = { id: 'a', timestamp: Date.UTC(2026, 4, 1), userId: 'u1', ...imageCall(0.5) };
+        await fs.writeFile(path.join(dir, '2026-05.jsonl'), JSON.stringify(entry) + '\n{"id":"b","times');
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        expect(await new UsageLedger(dir).getMonthlySpend('2026-05')).toBe(0.5);
+        expect(warn).toHaveBeenCalledOnce();
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import { nanoid } from 'nanoid';
+import path from 'path';
+import type { UsageContext, UsageEntry, UsageRecordInput } from './types';
+
+/**
+ * Append-only record of billable calls. Entries go to one JSON-lines file per
+ * calendar month (UTC), which keeps monthly budget checks to a single file.
+ */
+
+export interface UsageQuery {
+    from: number;
+    to: number;
+    userId?: string;
+    provider?: string;
+    project?: string;
+}
+
+/** 'YYYY-MM' in UTC */
+export function monthKey(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+function monthsBetween(from: number, to: number): string[] {
+    const months: string[] = [];
+    const cursor = new Date(Date.UTC(new Date(from).getUTCFullYear(), new Date(from).getUTCMonth(), 1));
+    while (cursor.getTime() <= to) {
+        months.push(monthKey(cursor.getTime()));
+        cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+    return months;
+}
+
+export class UsageLedger {
+    // Parsed month files, loaded on first use
+    private months = new Map<string, Promise<UsageEntry[]>>();
+    private writeChain: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly baseDir: string) {}
+
+    private filePath(month: string): string {
+        return path.join(this.baseDir, `${month}.jsonl`);
+    }
+
+    private loadMonth(month: string): Promise<UsageEntry[]> {
+        let entries = this.months.get(month);
+        if (!entries) {
+            entries = this.readMonth(month).catch((error) => {
+                this.months.delete(month);
+                throw error;
+            });
+            this.months.set(month, entries);
+        }
+        return entries;
+    }
+
+    private async readMonth(month: string): Promise<UsageEntry[]> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath(month), 'utf-8');
+        } catch (error: unknown) {
+            if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const entries: UsageEntry[] = [];
+        for (const line of raw.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line) as UsageEntry);
+            } catch {
+                // A crash mid-append can leave a partial last line
+                console.warn(`Usage ledger: skipping unreadable line in ${month}.jsonl`);
+            }
+        }
+        return entries;
+    }
+
+    async record(context: UsageContext, input: UsageRecordInput): Promise<UsageEntry> {
+        const entry: UsageEntry = {
+            id: nanoid(),
+            timestamp: Date.now(),
+            userId: context.userId,
+            username: context.username,
+            project: context.project,
+            ...input
+        };
+        const month = monthKey(entry.timestamp);
+
+        const write = this.writeChain.then(async () => {
+            const entries = await this.loadMonth(month);
+            await fs.mkdir(this.baseDir, { recursive: true });
+            await fs.appendFile(this.filePath(month), JSON.stringify(entry) + '\n');
+            entries.push(entry);
+        });
+        this.writeChain = write.catch(() => undefined);
+        await write;
+
+        return entry;
+    }
+
+    /** Entries in [from, to], oldest first */
+    async query(filter: UsageQuery): Promise<UsageEntry[]> {
+        const results: UsageEntry[] = [];
+        for (const month of monthsBetween(filter.from, filter.to)) {
+            for (const entry of await this.loadMonth(month)) {
+                if (entry.timestamp < filter.from || entry.timestamp > filter.to) continue;
+                if (filter.userId && entry.userId !== filter.userId) continue;
+                if (filter.provider && entry.provider !== filter.provider) continue;
+                if (filter.project && entry.project !== filter.project) continue;
+                results.push(entry);
+            }
+        }
+        return results;
+    }
+
+    /** Total estimated spend in a month, for one user or everyone */
+    async getMonthlySpend(month: string, userId?: string): Promise<number> {
+        const entries = await this.loadMonth(month);
+        return entries
+            .filter((entry) => !userId || entry.userId === userId)
+            .reduce((sum, entry) => sum + entry.costUsd, 0);
+    }
+}
@@ -0,0 +1,143 @@
+import type { UsageMeasurement } from './types';
+
+/**
+ * Cost estimates based on the providers' public list prices (USD). They are
+ * meant for budgeting and charge-back, not for reconciling invoices. This
+ * module has no server dependencies so the client can show the same numbers.
+ */
+
+// gpt-image-1 bills per token
+const GPT_IMAGE_TOKEN_PRICES = {
+    textInput: 5 / 1_000_000,
+    imageInput: 10 / 1_000_000,
+    imageOutput: 40 / 1_000_000
+};
+
+// Per-image fallback when the response carries no token usage
+const GPT_IMAGE_PER_IMAGE: Record<'low' | 'medium' | 'high', { square: number; other: number }> = {
+    low: { square: 0.011, other: 0.016 },
+    medium: { square: 0.042, other: 0.063 },
+    high: { square: 0.167, other: 0.25 }
+};
+
+const DALL_E_2_PER_IMAGE: Record<string, number> = {
+    '256x256': 0.016,
+    '512x512': 0.018,
+    '1024x1024': 0.02
+};
+
+// Runway bills in credits per second of video
+const RUNWAY_CREDITS_PER_SECOND: Record<string, number> = {
+    gen4_turbo: 5,
+    gen3a_turbo: 5
+};
+const RUNWAY_CREDIT_USD = 0.01;
+
+const GEMINI_TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-pro': { input: 1.25 / 1_000_000, output: 10 / 1_000_000 },
+    'gemini-2.5-flash': { input: 0.3 / 1_000_000, output: 2.5 / 1_000_000 }
+};
+
+// remove.bg sells credits in packs; this is roughly the mid-tier pack price
+const REMOVE_BG_CREDIT_USD = 0.2;
+// API calls with size=preview cost a quarter credit
+export const REMOVE_BG_PREVIEW_CREDITS = 0.25;
+
+function roundUsd(value: number): number {
+    return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+export interface ImageTokenUsage {
+    input_tokens: number;
+    output_tokens: number;
+    input_image_tokens?: number;
+    input_text_tokens?: number;
+}
+
+export function describeImageUsage(params: {
+    provider: string;
+    model: string;
+    imageCount: number;
+    size: string;
+    quality: string;
+    usage?: ImageTokenUsage;
+}): UsageMeasurement {
+    const { provider, model, imageCount, size, quality, usage } = params;
+
+    if (provider === 'mock') {
+        return { units: imageCount, unit: 'images', costUsd: 0 };
+    }
+
+    if (model === 'dall-e-2') {
+        const perImage = DALL_E_2_PER_IMAGE[size] ?? DALL_E_2_PER_IMAGE['1024x1024'];
+        return { units: imageCount, unit: 'images', costUsd: roundUsd(perImage * imageCount) };
+    }
+
+    if (usage) {
+        // Older responses don't split input tokens, so treat them all as text
+        const imageInput = usage.input_image_tokens ?? 0;
+        const textInput = usage.input_text_tokens ?? usage.input_tokens - imageInput;
+        const cost =
+            textInput * GPT_IMAGE_TOKEN_PRICES.textInput +
+            imageInput * GPT_IMAGE_TOKEN_PRICES.imageInput +
+            usage.output_tokens * GPT_IMAGE_TOKEN_PRICES.imageOutput;
+
+        return {
+            units: usage.input_tokens + usage.output_tokens,
+            unit: 'tokens',
+            costUsd: roundUsd(cost),
+            details: {
+                images: imageCount,
+                inputTextTokens: textInput,
+                inputImageTokens: imageInput,
+                outputTokens: usage.output_tokens
+            }
+        };
+    }
+
+    // 'auto' lets the API pick, so budget for the most expensive option
+    const tier = quality === 'low' || quality === 'medium' ? quality : 'high';
+    const isSquare = size === 'auto' || size === '1024x1024';
+    const perImage = GPT_IMAGE_PER_IMAGE[tier][isSquare ? 'square' : 'other'];
+    return { units: imageCount, unit: 'images', costUsd: roundUsd(perImage * imageCount) };
+}
+
+export function describeVideoUsage(model: string, durationSeconds: number): UsageMeasurement {
+    const credits = (RUNWAY_CREDITS_PER_SECOND[model] ?? RUNWAY_CREDITS_PER_SECOND.gen4_turbo) * durationSeconds;
+    return {
+        units: durationSeconds,
+        unit: 'seconds',
+        costUsd: roundUsd(credits * RUNWAY_CREDIT_USD),
+        details: { credits }
+    };
+}
+
+/** Estimated cost of a Runway video, e.g. for VideoHistoryItem.cost */
+export function estimateVideoCost(model: string, durationSeconds: number): number {
+    return describeVideoUsage(model, durationSeconds).costUsd;
+}
+
+export function describeGeminiUsage(
+    model: string,
+    usage: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined
+): UsageMeasurement {
+    const prices = GEMINI_TOKEN_PRICES[model] ?? GEMINI_TOKEN_PRICES['gemini-2.5-pro'];
+    const inputTokens = usage?.promptTokenCount ?? 0;
+    const outputTokens = usage?.candidatesTokenCount ?? 0;
+
+    return {
+        units: inputTokens + outputTokens,
+        unit: 'tokens',
+        costUsd: roundUsd(inputTokens * prices.input + outputTokens * prices.output),
+        details: { inputTokens, outputTokens }
+    };
+}
+
+export function describeRemoveBgUsage(credits: number): UsageMeasurement {
+    return {
+        units: credits,
+        unit: 'credits',
+        costUsd: roundUsd(credits * REMOVE_BG_CREDIT_USD),
+        details: { images: 1 }
+    };
+}
@@ -0,0 +1,88 @@
+import type { UsageEntry } from './types';
+
+/**
+ * Aggregation and CSV export for the /api/usage report
+ */
+
+export const USAGE_GROUP_BY = ['user', 'provider', 'model', 'project', 'operation', 'day'] as const;
+export type UsageGroupBy = (typeof USAGE_GROUP_BY)[number];
+
+export interface UsageGroup {
+    key: string;
+    costUsd: number;
+    calls: number;
+}
+
+export function isUsageGroupBy(value: unknown): value is UsageGroupBy {
+    return typeof value === 'string' && (USAGE_GROUP_BY as readonly string[]).includes(value);
+}
+
+function groupKey(entry: UsageEntry, groupBy: UsageGroupBy): string {
+    switch (groupBy) {
+        case 'user':
+            return entry.username;
+        case 'provider':
+            return entry.provider;
+        case 'model':
+            return entry.model;
+        case 'project':
+            return entry.project ?? '(none)';
+        case 'operation':
+            return entry.operation;
+        case 'day':
+            return new Date(entry.timestamp).toISOString().slice(0, 10);
+    }
+}
+
+/** Groups sorted by cost, most expensive first */
+export function groupUsage(entries: UsageEntry[], groupBy: UsageGroupBy): UsageGroup[] {
+    const groups = new Map<string, UsageGroup>();
+    for (const entry of entries) {
+        const key = groupKey(entry, groupBy);
+        const group = groups.get(key) ?? { key, costUsd: 0, calls: 0 };
+        group.costUsd += entry.costUsd;
+        group.calls += 1;
+        groups.set(key, group);
+    }
+    return [...groups.values()]
+        .map((group) => ({ ...group, costUsd: Math.round(group.costUsd * 1_000_000) / 1_000_000 }))
+        .sort((a, b) => (groupBy === 'day' ? a.key.localeCompare(b.key) : b.costUsd - a.costUsd));
+}
+
+export function sumUsageCost(entries: UsageEntry[]): number {
+    return Math.round(entries.reduce((sum, entry) => sum + entry.costUsd, 0) * 1_000_000) / 1_000_000;
+}
+
+function csvCell(value: string | number | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number | null)[][]): string {
+    return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function usageEntriesToCsv(entries: UsageEntry[]): string {
+    return toCsv(
+        ['timestamp', 'username', 'user_id', 'project', 'provider', 'model', 'operation', 'units', 'unit', 'cost_usd'],
+        entries.map((entry) => [
+            new Date(entry.timestamp).toISOString(),
+            entry.username,
+            entry.userId,
+            entry.project,
+            entry.provider,
+            entry.model,
+            entry.operation,
+            entry.units,
+            entry.unit,
+            entry.costUsd
+        ])
+    );
+}
+
+export function usageGroupsToCsv(groups: UsageGroup[], groupBy: UsageGroupBy): string {
+    return toCsv(
+        [groupBy, 'calls', 'cost_usd'],
+        groups.map((group) => [group.key, group.calls, group.costUsd])
+    );
+}
@@ -0,0 +1,46 @@
+/**
+ * Shared types for the usage ledger (billable upstream API calls)
+ */
+
+export type UsageProvider = 'openai' | 'runway' | 'gemini' | 'removebg' | 'mock';
+
+export type UsageUnit = 'tokens' | 'images' | 'seconds' | 'credits';
+
+export type UsageOperation =
+    | 'image-generate'
+    | 'image-edit'
+    | 'image-variation'
+    | 'video-generate'
+    | 'analyze-style'
+    | 'refine-prompt'
+    | 'rename-ai'
+    | 'remove-background';
+
+/** Who a call is billed to */
+export interface UsageContext {
+    userId: string;
+    username: string;
+    // Free-form label used to charge costs back to a project
+    project: string | null;
+}
+
+export interface UsageEntry {
+    id: string;
+    timestamp: number;
+    userId: string;
+    username: string;
+    project: string | null;
+    provider: UsageProvider | string;
+    model: string;
+    operation: UsageOperation;
+    units: number;
+    unit: UsageUnit;
+    // Estimated from list prices, see pricing.ts
+    costUsd: number;
+    // Raw counters reported by the provider (token counts, credits, ...)
+    details?: Record<string, number>;
+}
+
+export type UsageMeasurement = Pick<UsageEntry, 'units' | 'unit' | 'costUsd' | 'details'>;
+
+export type UsageRecordInput = Pick<UsageEntry, 'provider' | 'model' | 'operation'> & UsageMeasurement;
@@ -0,0 +1,257 @@
+import fs from 'fs/promises';
+import { nanoid } from 'nanoid';
+import path from 'path';
+import { hashPassword, verifyPassword } from './auth';
+
+/**
+ * Named user accounts with roles, kept in a JSON file on the server
+ */
+
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+// Ordered from least to most privileged
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+export interface UserRecord {
+    id: string;
+    username: string;
+    // bcrypt hash, never sent to the client
+    passwordHash: string;
+    role: UserRole;
+    createdAt: number;
+    updatedAt: number;
+    // Bumped when the password changes, which ends existing sessions; missing means 0
+    tokenVersion?: number;
+}
+
+export type PublicUser = Omit<UserRecord, 'passwordHash' | 'tokenVersion'>;
+
+export class UserStoreError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number = 400
+    ) {
+        super(message);
+        this.name = 'UserStoreError';
+    }
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+    return typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+}
+
+/** True when `role` grants at least the permissions of `required` */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+    return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+export function toPublicUser(user: UserRecord): PublicUser {
+    return {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt
+    };
+}
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{2,64}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+function normalizeUsername(username: string): string {
+    return username.trim().toLowerCase();
+}
+
+function validateCredentials(username: string, password?: string): void {
+    if (!USERNAME_PATTERN.test(username)) {
+        throw new UserStoreError('Username must be 2-64 characters: letters, digits, dot, dash or underscore.');
+    }
+    if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+        throw new UserStoreError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+}
+
+class UserStore {
+    private users: Promise<UserRecord[]> | null = null;
+    // Serializes read-modify-write cycles so concurrent requests don't drop updates
+    private writeChain: Promise<unknown> = Promise.resolve();
+    // Compared against when a username is unknown, so lookups take the same time either way
+    private dummyHash: Promise<string> | null = null;
+
+    constructor(private readonly filePath: string) {}
+
+    private load(): Promise<UserRecord[]> {
+        if (!this.users) {
+            this.users = this.read().catch((error) => {
+                // Retry on the next call instead of caching the failure
+                this.users = null;
+                throw error;
+            });
+        }
+        return this.users;
+    }
+
+    private async read(): Promise<UserRecord[]> {
+        let users: UserRecord[] = [];
+        try {
+            const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as { users?: UserRecord[] };
+            users = Array.isArray(parsed.users) ? parsed.users : [];
+        } catch (error: unknown) {
+            if (!(typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT')) {
+                throw error;
+            }
+        }
+
+        if (users.length === 0) {
+            await this.bootstrapAdmin(users);
+        }
+        return users;
+    }
+
+    /**
+     * Creates the first admin from ADMIN_USERNAME/ADMIN_PASSWORD. APP_PASSWORD is
+     * accepted as the admin password so existing single-password setups keep working.
+     */
+    private async bootstrapAdmin(users: UserRecord[]): Promise<void> {
+        const password = process.env.ADMIN_PASSWORD || process.env.APP_PASSWORD;
+        if (!password) return;
+
+        const now = Date.now();
+        users.push({
+            id: nanoid(),
+            username: normalizeUsername(process.env.ADMIN_USERNAME || 'admin'),
+            passwordHash: await hashPassword(password),
+            role: 'admin',
+            createdAt: now,
+            updatedAt: now
+        });
+        await this.save(users);
+        console.log(`User store: created admin user '${users[0].username}'`);
+    }
+
+    private async save(users: UserRecord[]): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Write to a temp file first so a crash never leaves a truncated user file
+        const tmp = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify({ users }, null, 2), { mode: 0o600 });
+        await fs.rename(tmp, this.filePath);
+    }
+
+    private mutate<T>(fn: (users: UserRecord[]) => Promise<T>): Promise<T> {
+        const run = this.writeChain.then(async () => {
+            const users = await this.load();
+            const result = await fn(users);
+            await this.save(users);
+            return result;
+        });
+        this.writeChain = run.catch(() => undefined);
+        return run;
+    }
+
+    /** Whether any accounts exist. Without accounts the app runs without login. */
+    async hasUsers(): Promise<boolean> {
+        return (await this.load()).length > 0;
+    }
+
+    async list(): Promise<PublicUser[]> {
+        return (await this.load()).map(toPublicUser);
+    }
+
+    async findById(id: string): Promise<UserRecord | null> {
+        return (await this.load()).find((user) => user.id === id) ?? null;
+    }
+
+    async findByUsername(username: string): Promise<UserRecord | null> {
+        const normalized = normalizeUsername(username);
+        return (await this.load()).find((user) => user.username === normalized) ?? null;
+    }
+
+    /** Returns the user when the password matches, otherwise null */
+    async authenticate(username: string, password: string): Promise<UserRecord | null> {
+        const user = await this.findByUsername(username);
+        if (!user) {
+            this.dummyHash ??= hashPassword(nanoid());
+            await verifyPassword(password, await this.dummyHash);
+            return null;
+        }
+        return (await verifyPassword(password, user.passwordHash)) ? user : null;
+    }
+
+    async create(input: { username: string; password: string; role: UserRole }): Promise<PublicUser> {
+        const username = normalizeUsername(input.username);
+        validateCredentials(username, input.password);
+        const passwordHash = await hashPassword(input.password);
+
+        return this.mutate(async (users) => {
+            if (users.some((user) => user.username === username)) {
+                throw new UserStoreError(`User '${username}' already exists.`, 409);
+            }
+
+            const now = Date.now();
+            const user: UserRecord = {
+                id: nanoid(),
+                username,
+                passwordHash,
+                role: input.role,
+                createdAt: now,
+                updatedAt: now
+            };
+            users.push(user);
+            return toPublicUser(user);
+        });
+    }
+
+    async update(id: string, patch: { password?: string; role?: UserRole }): Promise<PublicUser | null> {
+        if (patch.password !== undefined && patch.password.length < MIN_PASSWORD_LENGTH) {
+            throw new UserStoreError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+        }
+        const passwordHash = patch.password !== undefined ? await hashPassword(patch.password) : undefined;
+
+        return this.mutate(async (users) => {
+            const user = users.find((candidate) => candidate.id === id);
+            if (!user) return null;
+
+            if (patch.role && patch.role !== 'admin' && user.role === 'admin') {
+                this.assertOtherAdmin(users, id);
+            }
+            if (patch.role) user.role = patch.role;
+            if (passwordHash) {
+                user.passwordHash = passwordHash;
+                user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+            }
+            user.updatedAt = Date.now();
+            return toPublicUser(user);
+        });
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.mutate(async (users) => {
+            const index = users.findIndex((user) => user.id === id);
+            if (index === -1) return false;
+
+            if (users[index].role === 'admin') {
+                this.assertOtherAdmin(users, id);
+            }
+            users.splice(index, 1);
+            return true;
+        });
+    }
+
+    // Never leave the app without an admin who can manage users
+    private assertOtherAdmin(users: UserRecord[], id: string): void {
+        if (!users.some((user) => user.role === 'admin' && user.id !== id)) {
+            throw new UserStoreError('Cannot remove the last admin.', 409);
+        }
+    }
+}
+
+// Keep a single store per server process, also across dev-mode module reloads
+const globalForUsers = globalThis as unknown as { userStore?: UserStore };
+
+export function getUserStore(): UserStore {
+    if (!globalForUsers.userStore) {
+        const filePath = process.env.USERS_FILE || path.resolve(process.cwd(), '.data', 'users.json');
+        globalForUsers.userStore = new UserStore(filePath);
+    }
+    return globalForUsers.userStore;
+}
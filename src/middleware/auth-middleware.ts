@@ -1,121 +1,97 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyPasswordWithMigration, initializePasswordHash } from '@/lib/password-migration';
 import { verifySession } from '@/lib/auth';
 import { verifyCSRFToken } from '@/lib/csrf';
+import { getUserStore, hasRole, toPublicUser, type PublicUser, type UserRole } from '@/lib/user-store';
 
-// Initialize password hash on module load
-initializePasswordHash().catch(console.error);
+export interface AuthContext {
+    user: PublicUser;
+}
 
-export async function authenticateRequest(request: NextRequest): Promise<{ authorized: boolean; error?: NextResponse; body?: any; formData?: FormData }> {
-    // Check CSRF token first (except for auth endpoints)
-    if (!request.url.includes('/api/auth') && !request.url.includes('/api/csrf')) {
-        const csrfValid = await verifyCSRFToken(request);
-        if (!csrfValid) {
-            return {
-                authorized: false,
-                error: NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 })
-            };
-        }
-    }
-    
-    // Skip auth if no password is set
-    if (!process.env.APP_PASSWORD) {
-        return { authorized: true };
+// Stand-in user when no accounts are configured and login is disabled
+const ANONYMOUS_USER: PublicUser = {
+    id: 'anonymous',
+    username: 'anonymous',
+    role: 'admin',
+    createdAt: 0,
+    updatedAt: 0
+};
+
+const CSRF_EXEMPT_PATHS = ['/api/auth/login', '/api/auth/logout', '/api/csrf'];
+
+export async function isAuthEnabled(): Promise<boolean> {
+    return getUserStore().hasUsers();
+}
+
+/**
+ * Resolves the logged-in user from the session cookie. The role is read from
+ * the user store, so role changes and deleted accounts take effect right away.
+ */
+export async function getSessionUser(): Promise<PublicUser | null> {
+    if (!(await isAuthEnabled())) {
+        return ANONYMOUS_USER;
     }
 
-    // Check for session-based auth first (for future use)
     const session = await verifySession();
-    if (session) {
-        return { authorized: true };
+    if (!session) {
+        return null;
     }
 
-    // Check for password-based auth
-    let clientPasswordHash: string | null = null;
-    let parsedBody: any = null;
-    let parsedFormData: FormData | null = null;
+    const user = await getUserStore().findById(session.userId);
+    // Sessions from before the last password change are no longer valid
+    if (!user || (session.tokenVersion ?? 0) !== (user.tokenVersion ?? 0)) {
+        return null;
+    }
+    return toPublicUser(user);
+}
 
-    // Handle different content types
-    const contentType = request.headers.get('content-type') || '';
-    
-    if (contentType.includes('application/json')) {
-        try {
-            parsedBody = await request.json();
-            clientPasswordHash = parsedBody.passwordHash;
-        } catch (error) {
-            return {
-                authorized: false,
-                error: NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
-            };
-        }
-    } else if (contentType.includes('multipart/form-data')) {
-        try {
-            parsedFormData = await request.formData();
-            clientPasswordHash = parsedFormData.get('passwordHash') as string | null;
-        } catch (error) {
+export async function authenticateRequest(
+    request: NextRequest,
+    requiredRole: UserRole = 'editor'
+): Promise<{ authorized: true; user: PublicUser } | { authorized: false; error: NextResponse }> {
+    // Check CSRF token first (except for endpoints that run before a token exists)
+    if (!CSRF_EXEMPT_PATHS.includes(request.nextUrl.pathname)) {
+        const csrfValid = await verifyCSRFToken(request);
+        if (!csrfValid) {
             return {
                 authorized: false,
-                error: NextResponse.json({ error: 'Invalid form data' }, { status: 400 })
+                error: NextResponse.json({ error: 'Invalid CSRF token' }, { status: 403 })
             };
         }
     }
 
-    if (!clientPasswordHash) {
+    const user = await getSessionUser();
+    if (!user) {
         return {
             authorized: false,
-            error: NextResponse.json({ error: 'Unauthorized: Missing password hash.' }, { status: 401 })
+            error: NextResponse.json({ error: 'Unauthorized: Please log in.' }, { status: 401 })
         };
     }
 
-    const isValid = await verifyPasswordWithMigration(clientPasswordHash);
-    if (!isValid) {
+    if (!hasRole(user.role, requiredRole)) {
         return {
             authorized: false,
-            error: NextResponse.json({ error: 'Unauthorized: Invalid password.' }, { status: 401 })
+            error: NextResponse.json(
+                { error: `Forbidden: This action requires the ${requiredRole} role.` },
+                { status: 403 }
+            )
         };
     }
 
-    return { authorized: true, body: parsedBody, formData: parsedFormData };
+    return { authorized: true, user };
 }
 
-// Create a new request with cloned body
-async function createAuthenticatedRequest(
-    originalRequest: NextRequest,
-    body?: any,
-    formData?: FormData
-): Promise<NextRequest> {
-    // If we have parsed body/formData, we need to create a new request with the body
-    if (body || formData) {
-        const headers = new Headers(originalRequest.headers);
-        
-        if (body) {
-            return new NextRequest(originalRequest.url, {
-                method: originalRequest.method,
-                headers,
-                body: JSON.stringify(body),
-            });
-        } else if (formData) {
-            // For FormData, we need to pass the original request
-            // as FormData consumption is one-time only
-            return originalRequest;
-        }
-    }
-    
-    return originalRequest;
-}
-
-// Wrapper for API routes
-export function withAuth(handler: (request: NextRequest) => Promise<NextResponse>) {
+// Wrapper for API routes. Routes that change data need 'editor' unless they say otherwise.
+export function withAuth(
+    handler: (request: NextRequest, auth: AuthContext) => Promise<NextResponse>,
+    requiredRole: UserRole = 'editor'
+) {
     return async (request: NextRequest): Promise<NextResponse> => {
-        // Clone request for auth
-        const clonedRequest = request.clone();
-        const { authorized, error, body, formData } = await authenticateRequest(clonedRequest);
-        
-        if (!authorized && error) {
-            return error;
+        const result = await authenticateRequest(request, requiredRole);
+
+        if (!result.authorized) {
+            return result.error;
         }
 
-        // Pass the parsed body/formData to avoid re-parsing
-        const authenticatedRequest = await createAuthenticatedRequest(request, body, formData);
-        return handler(authenticatedRequest);
+        return handler(request, { user: result.user });
     };
-}
\ No newline at end of file
+}
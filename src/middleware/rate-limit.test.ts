@@ -0,0 +1,104 @@
+import { checkLoginRateLimit, checkRateLimit, resetLoginRateLimit } from './rate-limit';
+import { MAX_FEED_ROWS } from '@/lib/product-feed';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// The login limit allows 10 attempts per window and skips the session lookup
+function loginRequest(ip: string): NextRequest {
+    return new NextRequest('http://localhost/api/auth/login', { headers: { 'fly-client-ip': ip } });
+}
+
+beforeAll(() => {
+    vi.stubEnv('RATE_LIMIT_CONFIG_FILE', '/nonexistent/rate-limits.json');
+    vi.stubEnv('TRUSTED_PROXY_IP_HEADER', 'Fly-Client-IP');
+    vi.stubEnv('REDIS_URL', '');
+    // No accounts, so every client is limited per IP address
+    vi.stubEnv('USERS_FILE', '/nonexistent/users.json');
+});
+
+afterAll(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('checkRateLimit', () => {
+    it('rejects requests once the limit is used up', async () => {
+        for (let i = 0; i < 10; i++) {
+            expect((await checkRateLimit(loginRequest('10.0.0.1'), 'login')).allowed).toBe(true);
+        }
+        const { allowed, error } = await checkRateLimit(loginRequest('10.0.0.1'), 'login');
+
+        expect(allowed).toBe(false);
+        expect(error?.status).toBe(429);
+        expect(error?.headers.get('X-RateLimit-Limit')).toBe('10');
+        expect(Number(error?.headers.get('Retry-After'))).toBeGreaterThan(0);
+    });
+
+    it('counts each client IP separately', async () => {
+        expect((await checkRateLimit(loginRequest('10.0.0.2'), 'login')).allowed).toBe(true);
+    });
+
+    it('uses the right-most entry of the trusted header', async () => {
+        for (let i = 0; i < 10; i++) {
+            await checkRateLimit(loginRequest(`192.168.0.${i}, 10.0.0.3`), 'login');
+        }
+        expect((await checkRateLimit(loginRequest('10.0.0.3'), 'login')).allowed).toBe(false);
+    });
+
+    it('rejects a multi-point request without consuming what is left', async () => {
+        await checkRateLimit(loginRequest('10.0.0.4'), 'login', 8);
+        const { allowed, error } = await checkRateLimit(loginRequest('10.0.0.4'), 'login', 3);
+
+        expect(allowed).toBe(false);
+        expect(error?.headers.get('X-RateLimit-Remaining')).toBe('2');
+        expect((await checkRateLimit(loginRequest('10.0.0.4'), 'login', 2)).allowed).toBe(true);
+        expect((await checkRateLimit(loginRequest('10.0.0.4'), 'login')).allowed).toBe(false);
+    });
+});
+
+describe('batch generation limit', () => {
+    function batchRequest(ip: string): NextRequest {
+        return new NextRequest('http://localhost/api/images/batch', { headers: { 'fly-client-ip': ip } });
+    }
+
+    // The route wrapper takes one point, the batch itself one per remaining row
+    it('accepts a 50-row feed under the default config', async () => {
+        expect((await checkRateLimit(batchRequest('10.0.1.1'), 'batchGeneration')).allowed).toBe(true);
+        expect((await checkRateLimit(batchRequest('10.0.1.1'), 'batchGeneration', 49)).allowed).toBe(true);
+    });
+
+    it('accepts a feed of the maximum size', async () => {
+        expect((await checkRateLimit(batchRequest('10.0.1.2'), 'batchGeneration')).allowed).toBe(true);
+        expect((await checkRateLimit(batchRequest('10.0.1.2'), 'batchGeneration', MAX_FEED_ROWS - 1)).allowed).toBe(
+            true
+        );
+    });
+});
+
+describe('checkLoginRateLimit', () => {
+    it('limits attempts per IP and username regardless of case', async () => {
+        for (let i = 0; i < 10; i++) {
+            expect((await checkLoginRateLimit(loginRequest('10.0.2.1'), i % 2 ? 'Anna' : ' anna ')).allowed).toBe(true);
+        }
+        expect((await checkLoginRateLimit(loginRequest('10.0.2.1'), 'ANNA')).allowed).toBe(false);
+        expect((await checkLoginRateLimit(loginRequest('10.0.2.1'), 'bo')).allowed).toBe(true);
+    });
+
+    it('does not let one client lock out a username for others', async () => {
+        for (let i = 0; i < 11; i++) {
+            await checkLoginRateLimit(loginRequest('10.0.2.2'), 'carl');
+        }
+        expect((await checkLoginRateLimit(loginRequest('10.0.2.2'), 'carl')).allowed).toBe(false);
+        expect((await checkLoginRateLimit(loginRequest('10.0.2.3'), 'carl')).allowed).toBe(true);
+    });
+
+    it('only counts failed attempts once a login succeeds', async () => {
+        for (let i = 0; i < 9; i++) {
+            await checkLoginRateLimit(loginRequest('10.0.2.4'), 'dora');
+        }
+        await resetLoginRateLimit(loginRequest('10.0.2.4'), 'Dora');
+
+        for (let i = 0; i < 10; i++) {
+            expect((await checkLoginRateLimit(loginRequest('10.0.2.4'), 'dora')).allowed).toBe(true);
+        }
+    });
+});
@@ -1,92 +1,227 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { RateLimiterMemory } from 'rate-limiter-flexible';
+import { RateLimiterMemory, RateLimiterRedis, RateLimiterRes, type RateLimiterAbstract } from 'rate-limiter-flexible';
 import { checkRequestSize } from './request-size';
+import type { AuthContext } from './auth-middleware';
+import {
+    getRateLimitConfig,
+    resolveRateLimit,
+    type RateLimitPolicy,
+    type RateLimitType,
+    type ResolvedRateLimit
+} from '@/lib/rate-limit-config';
+import { getRedisClient } from '@/lib/redis';
+import type { PublicUser, UserRole } from '@/lib/user-store';
 
-// Create different rate limiters for different endpoints
-const rateLimiters = {
-    // Strict limits for expensive operations
-    imageGeneration: new RateLimiterMemory({
-        keyPrefix: 'image_gen',
-        points: 10, // 10 requests
-        duration: 60, // per 60 seconds
-        blockDuration: 60, // block for 1 minute
-    }),
-    
-    videoGeneration: new RateLimiterMemory({
-        keyPrefix: 'video_gen',
-        points: 5, // 5 requests
-        duration: 300, // per 5 minutes
-        blockDuration: 300, // block for 5 minutes
-    }),
-    
-    // Moderate limits for API operations
-    api: new RateLimiterMemory({
-        keyPrefix: 'api',
-        points: 60, // 60 requests
-        duration: 60, // per minute
-        blockDuration: 60, // block for 1 minute
-    }),
-    
-    // Relaxed limits for read operations
-    read: new RateLimiterMemory({
-        keyPrefix: 'read',
-        points: 120, // 120 requests
-        duration: 60, // per minute
-        blockDuration: 30, // block for 30 seconds
-    }),
-};
-
-// Get client identifier (IP address or session)
-function getClientKey(request: NextRequest): string {
-    // Try to get real IP from common headers
-    const forwardedFor = request.headers.get('x-forwarded-for');
-    const realIp = request.headers.get('x-real-ip');
-    const cfConnectingIp = request.headers.get('cf-connecting-ip');
-    
-    // Use the first available IP
-    const ip = cfConnectingIp || realIp || forwardedFor?.split(',')[0].trim() || 'unknown';
-    
-    return ip;
+export type { RateLimitType } from '@/lib/rate-limit-config';
+
+// One limiter per limit type and tier, created on first use
+const rateLimiters = new Map<string, RateLimiterAbstract>();
+
+// Counters live in Redis when REDIS_URL is set, so limits hold across restarts and
+// machines. The memory limiter takes over while Redis is unreachable.
+function getLimiter(type: string, tier: string, policy: RateLimitPolicy): RateLimiterAbstract {
+    const keyPrefix = `rl:${type}:${tier}`;
+    const cacheKey = `${keyPrefix}:${policy.points}:${policy.duration}:${policy.blockDuration}`;
+
+    let limiter = rateLimiters.get(cacheKey);
+    if (!limiter) {
+        const memoryLimiter = new RateLimiterMemory({ keyPrefix, ...policy });
+        const redis = getRedisClient();
+        limiter = redis
+            ? new RateLimiterRedis({ storeClient: redis, keyPrefix, ...policy, insuranceLimiter: memoryLimiter })
+            : memoryLimiter;
+        rateLimiters.set(cacheKey, limiter);
+    }
+    return limiter;
 }
 
-export type RateLimitType = keyof typeof rateLimiters;
+// Client IP address from the header set by the proxy in front of the app (TRUSTED_PROXY_IP_HEADER,
+// e.g. Fly-Client-IP). Clients can send any header themselves, so no other header is trusted.
+// Without one configured, all anonymous clients share a single limit.
+function getClientIp(request: NextRequest): string {
+    const header = process.env.TRUSTED_PROXY_IP_HEADER?.trim();
+    if (!header) return 'unknown';
 
-export async function checkRateLimit(
-    request: NextRequest,
-    type: RateLimitType = 'api'
+    // Proxies append to lists like X-Forwarded-For, so the right-most entry is the one ours added
+    return request.headers.get(header)?.split(',').pop()?.trim() || 'unknown';
+}
+
+// Signed-in users are limited per account, everyone else per IP address.
+// Login attempts always count per IP, since there is no user yet (see also checkLoginRateLimit).
+async function getClient(request: NextRequest, type: string): Promise<{ key: string; user: PublicUser | null }> {
+    if (type !== 'login') {
+        // Import dynamically to avoid circular dependency
+        const { getSessionUser, isAuthEnabled } = await import('./auth-middleware');
+        if (await isAuthEnabled()) {
+            const user = await getSessionUser();
+            if (user) {
+                return { key: `user:${user.id}`, user };
+            }
+        }
+    }
+    return { key: `ip:${getClientIp(request)}`, user: null };
+}
+
+function rateLimitExceeded(
+    points: number,
+    remainingPoints: number,
+    msBeforeNext: number,
+    message?: string
+): { allowed: false; error: NextResponse } {
+    const retryAfter = Math.round(msBeforeNext / 1000) || 60;
+
+    return {
+        allowed: false,
+        error: NextResponse.json(
+            {
+                error: 'Too many requests',
+                message: message ?? `Rate limit exceeded. Please try again in ${retryAfter} seconds.`,
+                retryAfter,
+            },
+            {
+                status: 429,
+                headers: {
+                    'Retry-After': retryAfter.toString(),
+                    'X-RateLimit-Limit': points.toString(),
+                    'X-RateLimit-Remaining': remainingPoints.toString(),
+                    'X-RateLimit-Reset': new Date(Date.now() + msBeforeNext).toISOString(),
+                },
+            }
+        ),
+    };
+}
+
+// Takes `points` from the key's quota. More than one point is only taken when all of it is left.
+async function consumePoints(
+    rateLimiter: RateLimiterAbstract,
+    key: string,
+    limit: ResolvedRateLimit,
+    points: number
 ): Promise<{ allowed: boolean; error?: NextResponse }> {
-    const clientKey = getClientKey(request);
-    const rateLimiter = rateLimiters[type];
-    
     try {
-        await rateLimiter.consume(clientKey);
+        if (points > 1) {
+            const current = await rateLimiter.get(key);
+            const remaining = Math.max(0, limit.policy.points - (current?.consumedPoints ?? 0));
+            if (remaining < points) {
+                return rateLimitExceeded(
+                    limit.policy.points,
+                    remaining,
+                    current?.msBeforeNext ?? limit.policy.duration * 1000,
+                    `This request needs ${points} requests of your limit, but only ${remaining} are left.`
+                );
+            }
+        }
+
+        await rateLimiter.consume(key, points);
         return { allowed: true };
     } catch (rateLimiterRes) {
+        if (!(rateLimiterRes instanceof RateLimiterRes)) {
+            // Store failure without a usable fallback; don't lock everyone out
+            console.error(`Rate limiter '${limit.type}' failed:`, rateLimiterRes);
+            return { allowed: true };
+        }
+
         // Rate limit exceeded
-        const retryAfter = Math.round((rateLimiterRes as any).msBeforeNext / 1000) || 60;
-        
-        return {
-            allowed: false,
-            error: NextResponse.json(
-                {
-                    error: 'Too many requests',
-                    message: `Rate limit exceeded. Please try again in ${retryAfter} seconds.`,
-                    retryAfter,
-                },
-                {
-                    status: 429,
-                    headers: {
-                        'Retry-After': retryAfter.toString(),
-                        'X-RateLimit-Limit': rateLimiter.points.toString(),
-                        'X-RateLimit-Remaining': (rateLimiterRes as any).remainingPoints?.toString() || '0',
-                        'X-RateLimit-Reset': new Date(Date.now() + (rateLimiterRes as any).msBeforeNext).toISOString(),
-                    },
-                }
-            ),
-        };
+        return rateLimitExceeded(limit.policy.points, rateLimiterRes.remainingPoints, rateLimiterRes.msBeforeNext);
     }
 }
 
+/**
+ * Consumes `points` from the client's limit. A request costing more than one
+ * point (such as a batch) is rejected without consuming anything when the
+ * remaining quota can't cover all of it.
+ */
+export async function checkRateLimit(
+    request: NextRequest,
+    type: RateLimitType = 'api',
+    points = 1
+): Promise<{ allowed: boolean; error?: NextResponse }> {
+    const config = await getRateLimitConfig();
+    const client = await getClient(request, type);
+    const limit = resolveRateLimit(config, type, request.nextUrl.pathname, client.user);
+
+    return consumePoints(getLimiter(limit.type, limit.tier, limit.policy), client.key, limit, points);
+}
+
+// Login attempts per client IP and submitted username. Keyed on both, so nobody can lock
+// another person out of their account by sending wrong passwords for it.
+async function getLoginLimiter(
+    request: NextRequest,
+    username: string
+): Promise<{ limiter: RateLimiterAbstract; key: string; limit: ResolvedRateLimit }> {
+    const config = await getRateLimitConfig();
+    const limit = resolveRateLimit(config, 'login', null, null);
+    return {
+        limiter: getLimiter(limit.type, 'ip-username', limit.policy),
+        key: `ip:${getClientIp(request)}:username:${username.trim().toLowerCase()}`,
+        limit
+    };
+}
+
+/**
+ * Counts a login attempt for the submitted username, on top of the per-IP
+ * login limit. Call resetLoginRateLimit after a successful login, so only
+ * failed attempts add up.
+ */
+export async function checkLoginRateLimit(
+    request: NextRequest,
+    username: string
+): Promise<{ allowed: boolean; error?: NextResponse }> {
+    const { limiter, key, limit } = await getLoginLimiter(request, username);
+    return consumePoints(limiter, key, limit, 1);
+}
+
+/** Clears the failed attempts for a username after a successful login */
+export async function resetLoginRateLimit(request: NextRequest, username: string): Promise<void> {
+    const { limiter, key } = await getLoginLimiter(request, username);
+    try {
+        await limiter.delete(key);
+    } catch (error) {
+        console.error('Failed to reset login rate limit:', error);
+    }
+}
+
+export interface RateLimitStatus {
+    type: string;
+    // 'default', 'role:<role>' or 'user:<username>'
+    tier: string;
+    limit: number;
+    remaining: number;
+    windowSeconds: number;
+    // When the current window ends; null if nothing has been used yet
+    resetAt: string | null;
+    blocked: boolean;
+}
+
+/** Remaining quota for every configured limit, without consuming any */
+export async function getRateLimitStatus(
+    request: NextRequest
+): Promise<{ backend: 'redis' | 'memory'; limits: RateLimitStatus[] }> {
+    const config = await getRateLimitConfig();
+    const redis = getRedisClient();
+
+    const limits = await Promise.all(
+        Object.keys(config.limits).map(async (type): Promise<RateLimitStatus> => {
+            const client = await getClient(request, type);
+            const limit = resolveRateLimit(config, type, null, client.user);
+            const res = await getLimiter(limit.type, limit.tier, limit.policy).get(client.key);
+            const consumed = res?.consumedPoints ?? 0;
+
+            return {
+                type,
+                tier: limit.tier,
+                limit: limit.policy.points,
+                remaining: Math.max(0, limit.policy.points - consumed),
+                windowSeconds: limit.policy.duration,
+                resetAt: res ? new Date(Date.now() + res.msBeforeNext).toISOString() : null,
+                blocked: consumed > limit.policy.points
+            };
+        })
+    );
+
+    return { backend: redis?.status === 'ready' ? 'redis' : 'memory', limits };
+}
+
 // Middleware wrapper with rate limiting
 export function withRateLimit(
     handler: (request: NextRequest) => Promise<NextResponse>,
@@ -105,8 +240,9 @@ export function withRateLimit(
 
 // Combined auth and rate limit wrapper
 export function withAuthAndRateLimit(
-    handler: (request: NextRequest) => Promise<NextResponse>,
-    type: RateLimitType = 'api'
+    handler: (request: NextRequest, auth: AuthContext) => Promise<NextResponse>,
+    type: RateLimitType = 'api',
+    requiredRole: UserRole = 'editor'
 ) {
     return async (request: NextRequest): Promise<NextResponse> => {
         // Check request size first
@@ -124,7 +260,7 @@ export function withAuthAndRateLimit(
         
         // Then check auth (import dynamically to avoid circular dependency)
         const { withAuth } = await import('./auth-middleware');
-        const authHandler = withAuth(handler);
+        const authHandler = withAuth(handler, requiredRole);
         
         return authHandler(request);
     };
@@ -4,6 +4,8 @@ const SIZE_LIMITS: Record<string, number> = {
     '/api/images': 50 * 1024 * 1024, // 50MB for image generation
     '/api/video-generate': 100 * 1024 * 1024, // 100MB for video generation
     '/api/image-edit': 50 * 1024 * 1024, // 50MB for image editing
+    '/api/analyze-style': 100 * 1024 * 1024, // 100MB for base64-encoded catalogs and images
+    '/api/refine-prompt': 20 * 1024 * 1024, // 20MB for a base64-encoded reference image
     'default': 10 * 1024 * 1024, // 10MB default
 };
 
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { describeBudgetExceeded, getBudgetStatus } from '@/lib/usage';
+
+/**
+ * Rejects billable requests once the user's or the global monthly budget is
+ * used up. Call it right before the upstream API call.
+ */
+export async function checkUsageBudget(user: { id: string }): Promise<{ allowed: boolean; error?: NextResponse }> {
+    const status = await getBudgetStatus(user.id);
+
+    if (!status.exceeded) {
+        return { allowed: true };
+    }
+
+    const message = describeBudgetExceeded(status);
+
+    return {
+        allowed: false,
+        error: NextResponse.json(
+            { error: 'Budget exceeded', message, budget: status },
+            { status: 402 }
+        )
+    };
+}